@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { fetchAction } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { getGithubOAuthContext } from "@/lib/githubOAuth";
+
+// Add a GitHub repo to a workspace using the signed-in user's GitHub OAuth
+// token. The token is read and handed to Convex server-side only.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  const owner = typeof body?.owner === "string" ? body.owner.trim() : "";
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const workspaceId =
+    typeof body?.workspaceId === "string" ? body.workspaceId : "";
+
+  if (!owner || !name || !workspaceId) {
+    return new Response(
+      "Missing `workspaceId`, `owner` or `name` in request body.",
+      { status: 400 }
+    );
+  }
+
+  try {
+    const context = await getGithubOAuthContext();
+    if ("error" in context) return context.error;
+
+    const { repoId } = await fetchAction(
+      api.repos.addFromGithub,
+      {
+        workspaceId: workspaceId as Id<"workspaces">,
+        owner,
+        name,
+        githubAccessToken: context.githubAccessToken,
+      },
+      { token: context.convexToken }
+    );
+
+    return NextResponse.json({ repoId });
+  } catch (error) {
+    console.error("Error adding repository from GitHub", error);
+    return new Response("Failed to add repository from GitHub.", {
+      status: 500,
+    });
+  }
+}
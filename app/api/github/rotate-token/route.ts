@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { fetchAction } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { getGithubOAuthContext } from "@/lib/githubOAuth";
+
+// Replace a repo's stored GitHub token with the signed-in user's current
+// GitHub OAuth token. Convex re-validates the token before swapping it in.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  const repoId = typeof body?.repoId === "string" ? body.repoId : "";
+
+  if (!repoId) {
+    return new Response("Missing `repoId` in request body.", { status: 400 });
+  }
+
+  try {
+    const context = await getGithubOAuthContext();
+    if ("error" in context) return context.error;
+
+    const health = await fetchAction(
+      api.githubTokens.rotateRepoToken,
+      {
+        repoId: repoId as Id<"repos">,
+        githubAccessToken: context.githubAccessToken,
+      },
+      { token: context.convexToken }
+    );
+
+    return NextResponse.json({ health });
+  } catch (error) {
+    console.error("Error rotating GitHub token", error);
+    // Validation failures from Convex carry a message worth showing.
+    const message =
+      error instanceof Error ? error.message : "Failed to rotate GitHub token.";
+    return new Response(message, { status: 400 });
+  }
+}
@@ -2,6 +2,20 @@
 
 import { experimental_transcribe as transcribe } from "ai";
 import { elevenlabs } from "@ai-sdk/elevenlabs";
+import {
+  buildSpeakerTurns,
+  speakerWords,
+  wordsWithin,
+  type DiarizedWord,
+} from "@/lib/transcripts";
+
+// Optional numeric form field, e.g. `keepFromSecond`.
+function numberField(formData: FormData, name: string) {
+  const value = formData.get(name);
+  if (typeof value !== "string" || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
 
 export async function POST(req: Request) {
   if (!process.env.ELEVENLABS_API_KEY) {
@@ -47,11 +61,41 @@ export async function POST(req: Request) {
   // The AI SDK returns a `text` field for ElevenLabs transcriptions.
   const text = (result as any)?.text?.trim?.() ?? "";
 
+  // Silence is not an error: call recordings are uploaded in segments and
+  // some will have nobody speaking.
   if (!text) {
-    return new Response("No transcript returned from ElevenLabs.", {
-      status: 502,
-    });
+    return Response.json({ text: "", turns: [], speakerWords: [] });
   }
 
-  return Response.json({ text });
+  // ElevenLabs diarizes the audio, but the speaker of each word is only in
+  // the raw response body; the AI SDK's segments carry just the timings.
+  const response = result.responses[0] as
+    | { body?: { words?: DiarizedWord[] } }
+    | undefined;
+  const words: DiarizedWord[] =
+    response?.body?.words ??
+    result.segments.map((segment) => ({
+      text: `${segment.text} `,
+      start: segment.startSecond,
+      end: segment.endSecond,
+    }));
+
+  // Call segments overlap; keep only this segment's part of the audio.
+  const kept = wordsWithin(
+    words,
+    numberField(incoming, "keepFromSecond") ?? 0,
+    numberField(incoming, "keepUntilSecond") ?? Infinity
+  );
+
+  return Response.json({
+    text: kept
+      .map((word) => word.text)
+      .join("")
+      .trim(),
+    turns: buildSpeakerTurns(kept),
+    // Speaker labels only hold within this segment. Every word is
+    // returned, overlap included, so callers can match them up with the
+    // neighbouring segments' speakers.
+    speakerWords: speakerWords(words),
+  });
 }
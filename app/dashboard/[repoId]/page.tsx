@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import { useQuery, useMutation, useAction } from "convex/react";
-import { useMemo, useState, useRef } from "react";
+import { useMemo, useState } from "react";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
@@ -14,7 +14,19 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { RepoVoiceChat } from "@/components/repo/repo-voice-chat";
+import { RepoAssistant } from "@/components/repo/repo-assistant";
+import { RepoModelSettings } from "@/components/dashboard/repo-model-settings";
+import { RepoSnapshots } from "@/components/dashboard/repo-snapshots";
+import { RepoSearch } from "@/components/dashboard/repo-search";
+import { CallRecorder } from "@/components/dashboard/call-recorder";
+import { CallTranscript } from "@/components/dashboard/call-transcript";
+import { formatTimestamp, type TranscriptSpan } from "@/lib/transcripts";
+import {
+  CONTRIBUTOR_STATS_WINDOWS,
+  contributorTrend,
+  summarizeContributorStats,
+  type ContributorStatsWindow,
+} from "@/lib/contributorStats";
 import {
   Activity,
   ArrowLeft,
@@ -25,15 +37,43 @@ import {
   PhoneCall,
 } from "lucide-react";
 
+// Render a millisecond duration as a compact "3h 20m" style label.
+function formatDuration(ms?: number) {
+  if (ms == null) return "—";
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  pr_analysis: "PR analysis",
+  contributor_profiles: "Contributor profiles",
+  repo_snapshot: "Repo snapshot",
+  history_synthesis: "History synthesis",
+  search_index: "Search index",
+};
+
 export default function RepoDashboardPage() {
   const params = useParams<{ repoId: string }>();
   const repoId = params.repoId as Id<"repos">;
 
   const router = useRouter();
   const deleteRepo = useMutation(api.app.deleteRepoAndData);
-  const runFullAnalysis = useAction(api.prAgent.runFullAnalysisWorkflow);
-  const startCallSession = useAction(api.calls.startCallSession);
-  const finishCallSession = useAction(api.calls.finishCallSession);
+  const enqueueFullAnalysis = useMutation(
+    api.analysisJobs.enqueueFullAnalysis
+  );
+  const enqueueOutdatedReanalysis = useMutation(
+    api.analysisJobs.enqueueOutdatedReanalysis
+  );
+  const cancelAnalysisJob = useMutation(api.analysisJobs.cancelJob);
+  const setAutoRequestReviewers = useMutation(
+    api.repos.setAutoRequestReviewers
+  );
+  const setAnalysisPublishMode = useMutation(api.repos.setAnalysisPublishMode);
+  const checkTokenHealth = useAction(api.githubTokens.checkRepoTokenHealth);
+  const enableGithubWebhook = useAction(api.repos.enableGithubWebhook);
 
   const repo = useQuery(
     api.app.getRepo,
@@ -67,17 +107,36 @@ export default function RepoDashboardPage() {
     api.app.listCallsForRepo,
     repoId ? { repoId } : ("skip" as any)
   );
+  const analysisJobs = useQuery(
+    api.analysisJobs.listJobsForRepo,
+    repoId ? { repoId } : ("skip" as any)
+  );
+  const outdatedCounts: {
+    prAnalyses: number;
+    historyCheckpoints: number;
+  } | null | undefined = useQuery(api.analysisJobs.getOutdatedResultCounts, {
+    repoId,
+  });
+  const outdatedTotal = outdatedCounts
+    ? outdatedCounts.prAnalyses + outdatedCounts.historyCheckpoints
+    : 0;
 
   const [selectedPrId, setSelectedPrId] = useState<string | null>(null);
-  const [isCallRecording, setIsCallRecording] = useState(false);
-  const [activeCallId, setActiveCallId] = useState<Id<"calls"> | null>(null);
-  const [callError, setCallError] = useState<string | null>(null);
+  const [prStatusFilter, setPrStatusFilter] = useState<
+    "open" | "merged" | "closed" | "all"
+  >("open");
+  const [contributorWindow, setContributorWindow] =
+    useState<ContributorStatsWindow>("90d");
+  const [isTokenBusy, setIsTokenBusy] = useState(false);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [isWebhookBusy, setIsWebhookBusy] = useState(false);
+  const [webhookError, setWebhookError] = useState<string | null>(null);
   const [selectedCallId, setSelectedCallId] = useState<Id<"calls"> | null>(
     null
   );
-
-  const callRecorderRef = useRef<MediaRecorder | null>(null);
-  const callChunksRef = useRef<Blob[]>([]);
+  // The part of the selected call's transcript to scroll to.
+  const [transcriptFocus, setTranscriptFocus] =
+    useState<TranscriptSpan | null>(null);
 
   const latestAnalysisByPrId = useMemo(() => {
     const map = new Map<string, any>();
@@ -96,9 +155,37 @@ export default function RepoDashboardPage() {
   const techItems = techStack ?? [];
   const historyItems = history ?? [];
   const prs = pullRequests ?? [];
+  const visiblePrs = prs
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .filter((pr: any) => prStatusFilter === "all" || pr.status === prStatusFilter)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .sort((a: any, b: any) => b.prNumber - a.prNumber);
   const analyses = prAnalyses ?? [];
   const contributors = contributorsDetailed ?? [];
+  // Contributors with their weekly stats summed over the selected window
+  // and their recent weekly trend, most active first.
+  const now = Date.now();
+  const visibleContributors = contributors
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((item: any) => ({
+      ...item,
+      windowStats: summarizeContributorStats(
+        item.stats ?? [],
+        contributorWindow,
+        now
+      ),
+      trend: contributorTrend(item.stats ?? [], now),
+    }))
+    .sort(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (a: any, b: any) =>
+        b.windowStats.authoredCount - a.windowStats.authoredCount
+    );
   const sessions = analysisSessions ?? [];
+  const activeJobs = (analysisJobs ?? []).filter(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (job: any) => job.status === "queued" || job.status === "running"
+  );
   const callSessions = calls ?? [];
 
   // Map latest call-analysis session per call id.
@@ -120,26 +207,25 @@ export default function RepoDashboardPage() {
     return map;
   }, [sessions]);
 
+  const selectedPrReviewActivity = useQuery(
+    api.app.getPullRequestReviewActivity,
+    selectedPrId
+      ? { pullRequestId: selectedPrId as Id<"pullRequests"> }
+      : ("skip" as any)
+  );
+
+  const selectedPrReviewerSuggestions = useQuery(
+    api.app.listReviewerSuggestionsForPullRequest,
+    selectedPrId
+      ? { pullRequestId: selectedPrId as Id<"pullRequests"> }
+      : ("skip" as any)
+  );
+
   const selectedCallActionItems = useQuery(
     api.app.listCallActionItems,
     selectedCallId ? { callId: selectedCallId } : ("skip" as any)
   );
 
-  const latestSnapshotSession = useMemo(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const snapshotSessions = (sessions as any[]).filter((s: any) => {
-      const kind = (s.config as any)?.kind;
-      return s.sessionType === "full_repo" && kind === "repo_snapshot";
-    });
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    snapshotSessions.sort((a: any, b: any) => {
-      const at = a.updatedAt ?? a.createdAt;
-      const bt = b.updatedAt ?? b.createdAt;
-      return bt - at;
-    });
-    return snapshotSessions[0] ?? null;
-  }, [sessions]);
-
   if (!repo) {
     return (
       <div className="min-h-screen bg-slate-50 text-slate-900">
@@ -171,99 +257,6 @@ export default function RepoDashboardPage() {
     return "Pending";
   }
 
-  async function handleCallButtonClick() {
-    if (isCallRecording) {
-      const recorder = callRecorderRef.current;
-      if (recorder && recorder.state !== "inactive") {
-        recorder.stop();
-      }
-      setIsCallRecording(false);
-      return;
-    }
-
-    try {
-      setCallError(null);
-      const { callId } = await startCallSession({ repoId });
-      setActiveCallId(callId as Id<"calls">);
-    } catch (err) {
-      // eslint-disable-next-line no-console
-      console.error(err);
-      setCallError("Unable to start a new call session.");
-      return;
-    }
-
-    navigator.mediaDevices
-      ?.getUserMedia({ audio: true })
-      .then((stream) => {
-        const recorder = new MediaRecorder(stream);
-        callRecorderRef.current = recorder;
-        callChunksRef.current = [];
-
-        recorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            callChunksRef.current.push(event.data);
-          }
-        };
-
-        recorder.onstop = () => {
-          stream.getTracks().forEach((track) => track.stop());
-          const blob = new Blob(callChunksRef.current, { type: "audio/webm" });
-          void transcribeAndFinishCall(blob);
-        };
-
-        recorder.start();
-        setIsCallRecording(true);
-      })
-      .catch((err) => {
-        // eslint-disable-next-line no-console
-        console.error(err);
-        setCallError(
-          "Unable to access microphone. Check browser permissions and try again."
-        );
-      });
-  }
-
-  async function transcribeAndFinishCall(blob: Blob) {
-    if (!activeCallId) return;
-
-    try {
-      const formData = new FormData();
-      formData.set("audio", blob);
-
-      const listenRes = await fetch("/api/listen", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!listenRes.ok) {
-        throw new Error("Failed to transcribe call audio.");
-      }
-
-      const listenData = (await listenRes.json()) as { text?: string };
-      const transcript = listenData.text?.trim();
-
-      if (!transcript) {
-        throw new Error("Transcription did not return any text.");
-      }
-
-      await finishCallSession({
-        repoId,
-        callId: activeCallId,
-        transcript,
-      });
-
-      setActiveCallId(null);
-    } catch (err) {
-      // eslint-disable-next-line no-console
-      console.error(err);
-      const message =
-        err instanceof Error
-          ? err.message
-          : "Something went wrong processing this call.";
-      setCallError(message);
-    }
-  }
-
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900">
       <main className="mx-auto max-w-6xl px-4 py-8 sm:px-6 lg:px-8 space-y-8">
@@ -314,6 +307,12 @@ export default function RepoDashboardPage() {
           </div>
         </div>
 
+        <RepoSearch
+          repoId={repoId}
+          onOpenPullRequest={setSelectedPrId}
+          onOpenCall={setSelectedCallId}
+        />
+
         {/* Top grid: General info + Contributors */}
         <section className="grid gap-6 lg:grid-cols-3">
           {/* General Info & History */}
@@ -344,35 +343,7 @@ export default function RepoDashboardPage() {
                 )}
               </div>
 
-              {latestSnapshotSession && (
-                <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/80 p-3">
-                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
-                    Latest repo snapshot
-                  </p>
-                  {latestSnapshotSession.summary && (
-                    <p className="text-xs text-slate-700">
-                      {latestSnapshotSession.summary}
-                    </p>
-                  )}
-                  {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                  {((latestSnapshotSession.config as any)?.snapshot
-                    ?.suggestedNextSteps ?? []).length > 0 && (
-                    <div className="mt-2 space-y-1">
-                      <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
-                        Suggested next steps
-                      </p>
-                      <ul className="list-disc space-y-0.5 pl-4 text-xs text-slate-700">
-                        {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                        {(latestSnapshotSession.config as any).snapshot.suggestedNextSteps.map(
-                          (step: string) => (
-                            <li key={step}>{step}</li>
-                          ),
-                        )}
-                      </ul>
-                    </div>
-                  )}
-                </div>
-              )}
+              <RepoSnapshots repoId={repoId} />
 
               {techItems.length > 0 && (
                 <div className="space-y-2">
@@ -397,6 +368,160 @@ export default function RepoDashboardPage() {
                 </div>
               )}
 
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                  Publish PR analyses to GitHub
+                </p>
+                <div className="flex items-center gap-1 rounded-full bg-slate-100 p-0.5">
+                  {(
+                    [
+                      ["off", "Off"],
+                      ["comment", "PR comment"],
+                      ["commit_status", "Commit status"],
+                    ] as const
+                  ).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setAnalysisPublishMode({ repoId, mode })}
+                      className={`rounded-full px-2.5 py-0.5 text-[11px] font-medium ${
+                        (repo.analysisPublishMode ?? "off") === mode
+                          ? "bg-white text-slate-900 shadow-sm"
+                          : "text-slate-500 hover:text-slate-700"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <RepoModelSettings repoId={repoId} />
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                    GitHub token
+                  </p>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      disabled={isTokenBusy || !repo.hasGithubToken}
+                      onClick={async () => {
+                        setTokenError(null);
+                        setIsTokenBusy(true);
+                        try {
+                          await checkTokenHealth({ repoId });
+                        } catch (err) {
+                          console.error(err);
+                          setTokenError("Failed to check the token.");
+                        } finally {
+                          setIsTokenBusy(false);
+                        }
+                      }}
+                      className="rounded-full bg-slate-100 px-2.5 py-0.5 text-[11px] font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+                    >
+                      Check
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isTokenBusy}
+                      onClick={async () => {
+                        setTokenError(null);
+                        setIsTokenBusy(true);
+                        try {
+                          // Swaps in the signed-in user's current GitHub
+                          // OAuth token; it never reaches the browser.
+                          const res = await fetch("/api/github/rotate-token", {
+                            method: "POST",
+                            headers: { "Content-Type": "application/json" },
+                            body: JSON.stringify({ repoId }),
+                          });
+                          if (!res.ok) {
+                            setTokenError(
+                              (await res.text()) ||
+                                "Failed to rotate the token."
+                            );
+                          }
+                        } finally {
+                          setIsTokenBusy(false);
+                        }
+                      }}
+                      className="rounded-full bg-slate-100 px-2.5 py-0.5 text-[11px] font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+                    >
+                      Rotate
+                    </button>
+                  </div>
+                </div>
+                <p className="text-[11px] text-slate-500">
+                  {!repo.hasGithubToken
+                    ? "No token stored; background syncs are paused."
+                    : !repo.githubTokenHealth
+                      ? "Not checked yet."
+                      : repo.githubTokenHealth.status === "valid"
+                        ? "Valid"
+                        : repo.githubTokenHealth.status === "missing_scopes"
+                          ? `Missing scopes: ${repo.githubTokenHealth.missingScopes.join(", ")}`
+                          : `Invalid${
+                              repo.githubTokenHealth.error
+                                ? ` — ${repo.githubTokenHealth.error}`
+                                : ""
+                            }`}
+                  {repo.githubTokenHealth?.expiresAt &&
+                    ` · expires ${new Date(
+                      repo.githubTokenHealth.expiresAt
+                    ).toLocaleDateString()}`}
+                  {repo.githubTokenLastUsedAt &&
+                    ` · last used ${new Date(
+                      repo.githubTokenLastUsedAt
+                    ).toLocaleString()}`}
+                </p>
+                {tokenError && (
+                  <p className="text-[11px] font-medium text-rose-600">
+                    {tokenError}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                    GitHub webhook
+                  </p>
+                  <button
+                    type="button"
+                    disabled={isWebhookBusy || !repo.hasGithubToken}
+                    onClick={async () => {
+                      setWebhookError(null);
+                      setIsWebhookBusy(true);
+                      try {
+                        await enableGithubWebhook({ repoId });
+                      } catch (err) {
+                        console.error(err);
+                        setWebhookError(
+                          "Failed to register the webhook. The token needs the admin:repo_hook scope."
+                        );
+                      } finally {
+                        setIsWebhookBusy(false);
+                      }
+                    }}
+                    className="rounded-full bg-slate-100 px-2.5 py-0.5 text-[11px] font-medium text-slate-700 hover:bg-slate-200 disabled:opacity-60"
+                  >
+                    {repo.hasWebhookSecret ? "Re-register" : "Enable"}
+                  </button>
+                </div>
+                <p className="text-[11px] text-slate-500">
+                  {repo.hasWebhookSecret
+                    ? "Registered; GitHub pushes PR changes as they happen."
+                    : "Not registered; PR changes are picked up by polling."}
+                </p>
+                {webhookError && (
+                  <p className="text-[11px] font-medium text-rose-600">
+                    {webhookError}
+                  </p>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <div className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-slate-500">
                   <History className="h-3.5 w-3.5 text-[#2563eb]" />
@@ -426,6 +551,12 @@ export default function RepoDashboardPage() {
                         <p className="text-[11px] text-slate-500">
                           {new Date(checkpoint.eventAt).toLocaleString()}
                         </p>
+                        {checkpoint.sourceType === "synthesis" && (
+                          <p className="text-[11px] text-slate-500">
+                            From {checkpoint.prAnalysisIds?.length ?? 0} PR
+                            analyses · {checkpoint.callIds?.length ?? 0} calls
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -445,7 +576,25 @@ export default function RepoDashboardPage() {
                   Key contributors and their activity.
                 </CardDescription>
               </div>
-              <Users className="h-4 w-4 text-[#2563eb]" />
+              <div className="flex items-center gap-2">
+                <div className="flex items-center gap-1 rounded-full bg-slate-100 p-0.5">
+                  {CONTRIBUTOR_STATS_WINDOWS.map((window) => (
+                    <button
+                      key={window}
+                      type="button"
+                      onClick={() => setContributorWindow(window)}
+                      className={`rounded-full px-2.5 py-0.5 text-[11px] font-medium ${
+                        contributorWindow === window
+                          ? "bg-white text-slate-900 shadow-sm"
+                          : "text-slate-500 hover:text-slate-700"
+                      }`}
+                    >
+                      {window}
+                    </button>
+                  ))}
+                </div>
+                <Users className="h-4 w-4 text-[#2563eb]" />
+              </div>
             </CardHeader>
             <CardContent className="space-y-2">
               {contributors.length === 0 && (
@@ -455,9 +604,16 @@ export default function RepoDashboardPage() {
               )}
               <div className="space-y-2">
                 {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                {contributors.map((item: any) => {
+                {visibleContributors.map((item: any) => {
                   const c = item.contributor;
                   const link = item.repoContributor;
+                  const windowStats = item.windowStats;
+                  const trendPeak = Math.max(
+                    1,
+                    ...item.trend.map(
+                      (week: { authoredCount: number }) => week.authoredCount
+                    )
+                  );
                   return (
                     <div
                       key={link._id}
@@ -495,13 +651,46 @@ export default function RepoDashboardPage() {
                           )}
                         </div>
                       </div>
-                      <div className="text-right">
+                      <div className="flex flex-col items-end text-right">
+                        <div
+                          className="mb-1 flex h-4 items-end gap-px"
+                          title="PRs opened per week, last 12 weeks"
+                        >
+                          {item.trend.map(
+                            (week: { weekStart: number; authoredCount: number }) => (
+                              <span
+                                key={week.weekStart}
+                                className={`w-1 rounded-sm ${
+                                  week.authoredCount > 0
+                                    ? "bg-[#2563eb]"
+                                    : "bg-slate-200"
+                                }`}
+                                style={{
+                                  height: `${Math.max(
+                                    12.5,
+                                    (week.authoredCount / trendPeak) * 100
+                                  )}%`,
+                                }}
+                              />
+                            )
+                          )}
+                        </div>
                         <p className="text-[11px] font-medium text-slate-900">
-                          {link.prCount} PRs
+                          {windowStats.authoredCount} PRs ·{" "}
+                          {windowStats.mergedCount} merged
                         </p>
                         <p className="text-[11px] text-slate-500">
-                          {link.linesChanged} lines changed
+                          +{windowStats.additions} / -
+                          {windowStats.deletions} lines
                         </p>
+                        {windowStats.lastContributionAt && (
+                          <p className="text-[10px] text-slate-400">
+                            Last PR{" "}
+                            {new Date(
+                              windowStats.lastContributionAt
+                            ).toLocaleDateString()}
+                          </p>
+                        )}
                       </div>
                     </div>
                   );
@@ -526,7 +715,34 @@ export default function RepoDashboardPage() {
                     Recent PRs and their analysis status.
                   </CardDescription>
                 </div>
-                <GitPullRequest className="h-4 w-4 text-[#2563eb]" />
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-1 rounded-full bg-slate-100 p-0.5">
+                    {(["open", "merged", "closed", "all"] as const).map(
+                      (status) => (
+                        <button
+                          key={status}
+                          type="button"
+                          onClick={() => setPrStatusFilter(status)}
+                          className={`rounded-full px-2.5 py-0.5 text-[11px] font-medium capitalize ${
+                            prStatusFilter === status
+                              ? "bg-white text-slate-900 shadow-sm"
+                              : "text-slate-500 hover:text-slate-700"
+                          }`}
+                        >
+                          {status}
+                          <span className="ml-1 text-slate-400">
+                            {status === "all"
+                              ? prs.length
+                              : // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                                prs.filter((pr: any) => pr.status === status)
+                                  .length}
+                          </span>
+                        </button>
+                      ),
+                    )}
+                  </div>
+                  <GitPullRequest className="h-4 w-4 text-[#2563eb]" />
+                </div>
               </CardHeader>
               <CardContent className="space-y-2">
                 <div className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,2.4fr)_minmax(0,1fr)_minmax(0,1.2fr)_minmax(0,1.2fr)] border-b border-slate-100 pb-2 text-[11px] font-medium uppercase tracking-wide text-slate-500">
@@ -542,8 +758,13 @@ export default function RepoDashboardPage() {
                       No pull requests synced yet.
                     </p>
                   )}
+                  {prs.length > 0 && visiblePrs.length === 0 && (
+                    <p className="py-3 text-xs text-slate-500">
+                      No {prStatusFilter} pull requests.
+                    </p>
+                  )}
                   {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                  {prs.map((pr: any) => {
+                  {visiblePrs.map((pr: any) => {
                     const statusLabel = getPrAnalysisStatus(pr._id);
                     const hasCompletedAnalysis =
                       latestAnalysisByPrId.get(pr._id)?.status === "completed";
@@ -598,22 +819,71 @@ export default function RepoDashboardPage() {
                     Snapshot and PR analyses over time.
                   </CardDescription>
                 </div>
-                <Button
-                  size="sm"
-                  className="h-7 rounded-full bg-[#2563eb] px-3 text-[11px] font-semibold text-white hover:bg-[#1d4ed8]"
-                  type="button"
-                  onClick={async () => {
-                    await runFullAnalysis({ repoId });
-                    // eslint-disable-next-line no-alert
-                    alert(
-                      "Full analysis started. Refresh this page in a bit to see updated insights.",
-                    );
-                  }}
-                >
-                  Run analysis
-                </Button>
+                <div className="flex items-center gap-2">
+                  {outdatedTotal > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 rounded-full px-3 text-[11px]"
+                      type="button"
+                      title="Re-run results produced by an older prompt version"
+                      onClick={async () => {
+                        await enqueueOutdatedReanalysis({ repoId });
+                      }}
+                    >
+                      Re-analyze outdated ({outdatedTotal})
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    className="h-7 rounded-full bg-[#2563eb] px-3 text-[11px] font-semibold text-white hover:bg-[#1d4ed8]"
+                    type="button"
+                    onClick={async () => {
+                      await enqueueFullAnalysis({ repoId });
+                    }}
+                  >
+                    Run analysis
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent className="space-y-2">
+                {activeJobs.length > 0 && (
+                  <div className="space-y-2">
+                    {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+                    {activeJobs.map((job: any) => (
+                      <div
+                        key={job._id}
+                        className="flex items-center justify-between gap-3 rounded-xl border border-blue-100 bg-blue-50/60 px-3 py-2"
+                      >
+                        <div>
+                          <p className="text-xs font-medium text-slate-900">
+                            {JOB_TYPE_LABELS[job.type] ?? job.type}
+                          </p>
+                          <p className="text-[11px] text-slate-500">
+                            {job.status === "queued"
+                              ? job.attempts > 0
+                                ? `Retrying after: ${job.error ?? "an error"}`
+                                : "Queued"
+                              : job.cancelRequested
+                                ? "Cancelling…"
+                                : job.progress
+                                  ? `${job.progress.completed} of ${job.progress.total} done`
+                                  : "Running…"}
+                          </p>
+                        </div>
+                        {!job.cancelRequested && (
+                          <button
+                            type="button"
+                            onClick={() => cancelAnalysisJob({ jobId: job._id })}
+                            className="text-[11px] font-medium text-slate-500 hover:text-slate-700"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 {sessions.length === 0 && (
                   <p className="text-xs text-slate-500">
                     No analyses have been run for this repo yet.
@@ -684,32 +954,7 @@ export default function RepoDashboardPage() {
               <PhoneCall className="h-4 w-4 text-[#2563eb]" />
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="flex items-center justify-between rounded-xl bg-slate-50 px-3 py-2">
-                <div className="flex items-center gap-2 text-xs text-slate-600">
-                  <span
-                    className={`inline-flex h-2 w-2 rounded-full ${
-                      isCallRecording ? "bg-amber-500" : "bg-emerald-500"
-                    }`}
-                  />
-                  <span>{isCallRecording ? "Recording…" : "Idle"}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    size="sm"
-                    className="h-7 rounded-full bg-[#2563eb] px-3 text-[11px] font-semibold text-white hover:bg-[#1d4ed8]"
-                    type="button"
-                    onClick={() => {
-                      void handleCallButtonClick();
-                    }}
-                  >
-                    {isCallRecording ? "Stop & analyze" : "Start call"}
-                  </Button>
-                </div>
-              </div>
-
-              {callError && (
-                <p className="text-[11px] font-medium text-rose-600">{callError}</p>
-              )}
+              <CallRecorder repoId={repoId} />
 
               {callSessions.length === 0 && (
                 <p className="text-xs text-slate-500">
@@ -784,9 +1029,13 @@ export default function RepoDashboardPage() {
           </Card>
         </section>
 
-        {/* Voice chatbot section */}
+        {/* Repo assistant: text chat and voice */}
         <section>
-          <RepoVoiceChat repoId={repoId} />
+          <RepoAssistant
+            repoId={repoId}
+            onOpenPullRequest={setSelectedPrId}
+            onOpenCall={setSelectedCallId}
+          />
         </section>
       </main>
       {selectedPrId && latestAnalysisByPrId.get(selectedPrId) && (
@@ -838,6 +1087,39 @@ export default function RepoDashboardPage() {
                   </div>
 
                   <div className="space-y-3 text-xs text-slate-700">
+                    {analysis.generatedBy && (
+                      <p className="text-[11px] text-slate-500">
+                        {analysis.generatedBy.agentName} · prompt v
+                        {analysis.generatedBy.promptVersion} ·{" "}
+                        {analysis.generatedBy.model}
+                      </p>
+                    )}
+                    {(analysis.publishedAt || analysis.publishError) && (
+                      <p
+                        className={`text-[11px] ${
+                          analysis.publishError
+                            ? "text-rose-700"
+                            : "text-slate-500"
+                        }`}
+                      >
+                        {analysis.publishError
+                          ? `Publishing to GitHub failed: ${analysis.publishError}`
+                          : `Published to GitHub as a ${
+                              analysis.githubStatusSha
+                                ? "commit status"
+                                : "PR comment"
+                            } · ${new Date(analysis.publishedAt).toLocaleString()}`}
+                      </p>
+                    )}
+                    {analysis.status === "failed" && (
+                      <p className="text-[11px] text-rose-700">
+                        Analysis failed after{" "}
+                        {analysis.rawMetadata?.attempts ?? 1} attempt(s)
+                        {analysis.rawMetadata?.error
+                          ? `: ${analysis.rawMetadata.error}`
+                          : "."}
+                      </p>
+                    )}
                     {analysis.summary && (
                       <div>
                         <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-slate-500">
@@ -876,6 +1158,133 @@ export default function RepoDashboardPage() {
                           </ul>
                         </div>
                       )}
+
+                    {pr.reviewMetrics && (
+                      <div>
+                        <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-slate-500">
+                          Review timeline
+                        </p>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div className="rounded-lg bg-slate-50 px-2 py-1.5">
+                            <p className="text-[10px] text-slate-500">
+                              First review
+                            </p>
+                            <p className="text-xs font-medium text-slate-900">
+                              {formatDuration(pr.reviewMetrics.timeToFirstReviewMs)}
+                            </p>
+                          </div>
+                          <div className="rounded-lg bg-slate-50 px-2 py-1.5">
+                            <p className="text-[10px] text-slate-500">
+                              Approved after
+                            </p>
+                            <p className="text-xs font-medium text-slate-900">
+                              {formatDuration(pr.reviewMetrics.approvalLatencyMs)}
+                            </p>
+                          </div>
+                          <div className="rounded-lg bg-slate-50 px-2 py-1.5">
+                            <p className="text-[10px] text-slate-500">
+                              Review rounds
+                            </p>
+                            <p className="text-xs font-medium text-slate-900">
+                              {pr.reviewMetrics.reviewRounds}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {selectedPrReviewerSuggestions &&
+                      selectedPrReviewerSuggestions.length > 0 && (
+                        <div>
+                          <div className="mb-1 flex items-center justify-between gap-2">
+                            <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+                              Suggested reviewers
+                            </p>
+                            {repo && (
+                              <button
+                                type="button"
+                                className="text-[11px] text-slate-500 hover:text-slate-700"
+                                onClick={() =>
+                                  setAutoRequestReviewers({
+                                    repoId,
+                                    enabled: !repo.autoRequestReviewers,
+                                  })
+                                }
+                              >
+                                Auto-request on GitHub:{" "}
+                                {repo.autoRequestReviewers ? "on" : "off"}
+                              </button>
+                            )}
+                          </div>
+                          <ul className="space-y-1">
+                            {selectedPrReviewerSuggestions.map(
+                              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                              (suggestion: any) => (
+                                <li key={suggestion._id}>
+                                  <span className="font-medium">
+                                    {suggestion.login}
+                                  </span>
+                                  {suggestion.requestedOnGithub && (
+                                    <span className="ml-1 text-[10px] text-emerald-700">
+                                      requested
+                                    </span>
+                                  )}
+                                  {suggestion.reasons.length > 0 && (
+                                    <p className="text-[11px] text-slate-500">
+                                      {suggestion.reasons.join(" · ")}
+                                    </p>
+                                  )}
+                                </li>
+                              )
+                            )}
+                          </ul>
+                        </div>
+                      )}
+
+                    {selectedPrReviewActivity &&
+                      (selectedPrReviewActivity.reviews.length > 0 ||
+                        selectedPrReviewActivity.requestedReviewers.length >
+                          0) && (
+                        <div>
+                          <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-slate-500">
+                            Reviews
+                          </p>
+                          <ul className="space-y-0.5">
+                            {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+                            {selectedPrReviewActivity.reviews.map((review: any) => (
+                              <li key={review._id}>
+                                <span className="font-medium">
+                                  {review.reviewer?.login ?? "unknown"}
+                                </span>{" "}
+                                {review.state.replace("_", " ")}
+                                {review.submittedAt &&
+                                  ` · ${new Date(review.submittedAt).toLocaleString()}`}
+                              </li>
+                            ))}
+                            {selectedPrReviewActivity.requestedReviewers.map(
+                              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                              (request: any, index: number) => (
+                                <li key={`request-${index}`} className="text-slate-500">
+                                  {request.reviewer?.login ??
+                                    (request.teamSlug
+                                      ? `@${request.teamSlug}`
+                                      : "unknown")}{" "}
+                                  review requested
+                                </li>
+                              )
+                            )}
+                          </ul>
+                          {selectedPrReviewActivity.reviewCommentCount > 0 && (
+                            <p className="mt-1 text-[11px] text-slate-500">
+                              {selectedPrReviewActivity.reviewCommentCount} inline
+                              review comment
+                              {selectedPrReviewActivity.reviewCommentCount === 1
+                                ? ""
+                                : "s"}
+                            </p>
+                          )}
+                        </div>
+                      )}
                   </div>
                 </>
               );
@@ -888,9 +1297,24 @@ export default function RepoDashboardPage() {
         const call = callSessions.find((c: any) => c._id === selectedCallId);
         if (!call) return null;
         const items = selectedCallActionItems ?? [];
+        const decisions = (history ?? []).filter(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (checkpoint: any) => checkpoint.callId === selectedCallId
+        );
+        // "at 12:05" button that jumps to where an item came from.
+        const spanButton = (span?: TranscriptSpan) =>
+          span && (
+            <button
+              type="button"
+              onClick={() => setTranscriptFocus(span)}
+              className="mt-0.5 font-mono text-[10px] text-[#2563eb] hover:underline"
+            >
+              at {formatTimestamp(span.startSecond)}
+            </button>
+          );
         return (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
-            <div className="w-full max-w-xl rounded-2xl bg-white p-5 shadow-xl">
+            <div className="max-h-[90vh] w-full max-w-xl overflow-y-auto rounded-2xl bg-white p-5 shadow-xl">
               <div className="mb-3 flex items-center justify-between gap-3">
                 <div>
                   <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
@@ -922,7 +1346,10 @@ export default function RepoDashboardPage() {
                     variant="outline"
                     className="h-7 rounded-full px-3 text-[11px]"
                     type="button"
-                    onClick={() => setSelectedCallId(null)}
+                    onClick={() => {
+                      setSelectedCallId(null);
+                      setTranscriptFocus(null);
+                    }}
                   >
                     Close
                   </Button>
@@ -980,6 +1407,7 @@ export default function RepoDashboardPage() {
                                 {item.filePath}
                               </p>
                             )}
+                            {spanButton(item.transcriptSpan)}
                           </div>
                           <span
                             className={`mt-0.5 inline-flex rounded-full px-2 py-0.5 text-[10px] font-medium ${
@@ -995,6 +1423,39 @@ export default function RepoDashboardPage() {
                     </ul>
                   </div>
                 )}
+
+                {decisions.length > 0 && (
+                  <div>
+                    <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-slate-500">
+                      Decisions
+                    </p>
+                    <ul className="space-y-1">
+                      {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+                      {decisions.map((checkpoint: any) => (
+                        <li
+                          key={checkpoint._id}
+                          className="rounded-lg border border-slate-100 bg-slate-50/80 px-3 py-1.5"
+                        >
+                          <p className="text-xs text-slate-800">
+                            {checkpoint.title}
+                          </p>
+                          {spanButton(checkpoint.transcriptSpan)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div>
+                  <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-slate-500">
+                    Transcript
+                  </p>
+                  <CallTranscript
+                    callId={call._id}
+                    focus={transcriptFocus}
+                    onFocusChange={setTranscriptFocus}
+                  />
+                </div>
               </div>
             </div>
           </div>
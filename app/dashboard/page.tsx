@@ -2,7 +2,8 @@
 
 import Link from "next/link";
 import { SignedIn, SignedOut, SignInButton, useUser } from "@clerk/nextjs";
-import { useQuery } from "convex/react";
+import { useEffect, useState } from "react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -12,14 +13,58 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
 import { AddRepoForm } from "@/components/dashboard/add-repo-form";
+import { WorkspaceMembers } from "@/components/dashboard/workspace-members";
+import {
+  WorkspaceSwitcher,
+  type WorkspaceWithRole,
+} from "@/components/dashboard/workspace-switcher";
 import { GitBranch, GitPullRequest } from "lucide-react";
 
+const SELECTED_WORKSPACE_KEY = "flux:selectedWorkspaceId";
+
 export default function DashboardPage() {
   const { user } = useUser();
+  const { isAuthenticated } = useConvexAuth();
+  const ensureCurrentUser = useMutation(api.workspaces.ensureCurrentUser);
+
+  // Creates the user row and personal workspace on first visit, and moves
+  // repos connected before workspaces existed into it.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    ensureCurrentUser().catch((err) => console.error(err));
+  }, [isAuthenticated, ensureCurrentUser]);
+
+  const workspaces: WorkspaceWithRole[] =
+    useQuery(api.workspaces.listForCurrentUser, isAuthenticated ? {} : "skip") ??
+    [];
+  const [selectedWorkspaceId, setSelectedWorkspaceId] =
+    useState<Id<"workspaces"> | null>(() =>
+      typeof window === "undefined"
+        ? null
+        : (window.localStorage.getItem(
+            SELECTED_WORKSPACE_KEY
+          ) as Id<"workspaces"> | null)
+    );
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const repos = useQuery((api as any).repos?.listForCurrentUser) ?? [];
+  // Fall back to the personal workspace when nothing (or a workspace the
+  // user has since left) is selected.
+  const selectedWorkspace =
+    workspaces.find((workspace) => workspace._id === selectedWorkspaceId) ??
+    workspaces[0] ??
+    null;
+
+  function selectWorkspace(workspaceId: Id<"workspaces">) {
+    setSelectedWorkspaceId(workspaceId);
+    window.localStorage.setItem(SELECTED_WORKSPACE_KEY, workspaceId);
+  }
+
+  const repos: Doc<"repos">[] =
+    useQuery(
+      api.repos.listForCurrentUser,
+      selectedWorkspace ? { workspaceId: selectedWorkspace._id } : "skip"
+    ) ?? [];
 
   const totalRepos = repos.length;
   const totalOpenPrs = 0;
@@ -60,6 +105,12 @@ export default function DashboardPage() {
                 Here&apos;s a snapshot of the repositories you&apos;ve synced
                 with .flux and how they&apos;re performing.
               </p>
+              <div className="pt-2">
+                <WorkspaceSwitcher
+                  selectedWorkspaceId={selectedWorkspace?._id ?? null}
+                  onSelect={selectWorkspace}
+                />
+              </div>
             </section>
 
             {/* Stats row */}
@@ -116,7 +167,9 @@ export default function DashboardPage() {
                       Repositories
                     </CardTitle>
                     <CardDescription className="text-xs text-slate-500">
-                      Repos you&apos;ve connected to .flux for analysis.
+                      Repos connected to{" "}
+                      {selectedWorkspace?.name ?? "this workspace"} for
+                      analysis.
                     </CardDescription>
                   </div>
                   <Button className="h-9 rounded-full bg-[#2563eb] px-4 text-xs font-semibold text-white shadow-sm hover:bg-[#1d4ed8]">
@@ -124,7 +177,7 @@ export default function DashboardPage() {
                   </Button>
                 </CardHeader>
                 <CardContent className="space-y-4 p-4 pt-0">
-                  <AddRepoForm />
+                  <AddRepoForm workspaceId={selectedWorkspace?._id ?? null} />
 
                   <div className="overflow-hidden rounded-2xl border border-slate-100">
                     <div className="grid grid-cols-[minmax(0,2.2fr)_minmax(0,1.4fr)_minmax(0,1fr)_minmax(0,1fr)] bg-slate-50 px-4 py-2 text-[11px] font-medium uppercase tracking-wide text-slate-500">
@@ -134,8 +187,7 @@ export default function DashboardPage() {
                       <span>Last analysis</span>
                     </div>
                     <div className="divide-y divide-slate-100 bg-white text-sm">
-                      {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-                      {repos.map((repo: any) => (
+                      {repos.map((repo) => (
                         <Link
                           key={repo._id}
                           href={`/dashboard/${repo._id}`}
@@ -168,6 +220,37 @@ export default function DashboardPage() {
                 </CardContent>
               </Card>
             </section>
+
+            {/* Workspace members */}
+            {selectedWorkspace && (
+              <section className="mx-auto max-w-5xl">
+                <Card className="border-slate-200 bg-white shadow-sm">
+                  <CardHeader className="flex flex-row items-center justify-between gap-3 pb-4">
+                    <div>
+                      <CardTitle className="text-sm font-semibold text-slate-900">
+                        Members
+                      </CardTitle>
+                      <CardDescription className="text-xs text-slate-500">
+                        Who can see and work on repos in{" "}
+                        {selectedWorkspace.name}.
+                      </CardDescription>
+                    </div>
+                    <Link
+                      href={`/dashboard/usage/${selectedWorkspace._id}`}
+                      className="text-xs font-medium text-[#2563eb] hover:text-[#1d4ed8]"
+                    >
+                      LLM usage &amp; budget
+                    </Link>
+                  </CardHeader>
+                  <CardContent className="p-4 pt-0">
+                    <WorkspaceMembers
+                      workspaceId={selectedWorkspace._id}
+                      role={selectedWorkspace.role}
+                    />
+                  </CardContent>
+                </Card>
+              </section>
+            )}
           </div>
         </SignedIn>
       </main>
@@ -0,0 +1,303 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowLeft } from "lucide-react";
+
+type UsageTotals = {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+};
+
+type WorkspaceUsage = {
+  month: string;
+  monthlyBudgetUsd: number | null;
+  total: UsageTotals;
+  byRepo: (UsageTotals & { repoId: string; name: string })[];
+  byWorkflow: (UsageTotals & { workflow: string })[];
+  byModel: (UsageTotals & { model: string })[];
+};
+
+const WORKFLOW_LABELS: Record<string, string> = {
+  pr_analysis: "PR analysis",
+  pr_sync: "PR sync",
+  contributor_profiles: "Contributor profiles",
+  repo_snapshot: "Repo snapshot",
+  history_synthesis: "History synthesis",
+  call_summary: "Call summaries",
+  repo_assistant: "Repo assistant",
+  search_index: "Search indexing",
+  search: "Search",
+};
+
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+function UsageTable({
+  rows,
+}: {
+  rows: (UsageTotals & { key: string; label: string })[];
+}) {
+  if (rows.length === 0) {
+    return <p className="text-xs text-slate-500">No usage this month.</p>;
+  }
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-slate-100">
+      <div className="grid grid-cols-[minmax(0,2fr)_repeat(4,minmax(0,1fr))] bg-slate-50 px-4 py-2 text-[11px] font-medium uppercase tracking-wide text-slate-500">
+        <span>Name</span>
+        <span>Calls</span>
+        <span>Tokens</span>
+        <span>Avg latency</span>
+        <span>Est. cost</span>
+      </div>
+      <div className="divide-y divide-slate-100 bg-white text-[12px] text-slate-700">
+        {rows.map((row) => (
+          <div
+            key={row.key}
+            className="grid grid-cols-[minmax(0,2fr)_repeat(4,minmax(0,1fr))] items-center px-4 py-2"
+          >
+            <span className="truncate font-medium text-slate-900">
+              {row.label}
+            </span>
+            <span>
+              {row.calls}
+              {row.failedCalls > 0 && (
+                <span className="text-rose-600">
+                  {" "}
+                  ({row.failedCalls} failed)
+                </span>
+              )}
+            </span>
+            <span>
+              {(row.promptTokens + row.completionTokens).toLocaleString()}
+            </span>
+            <span>
+              {row.calls > 0
+                ? `${(row.latencyMs / row.calls / 1000).toFixed(1)}s`
+                : "—"}
+            </span>
+            <span>{formatUsd(row.costUsd)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function WorkspaceUsagePage() {
+  const params = useParams<{ workspaceId: string }>();
+  const workspaceId = params.workspaceId as Id<"workspaces">;
+
+  const [month, setMonth] = useState(() =>
+    new Date().toISOString().slice(0, 7)
+  );
+  const usage: WorkspaceUsage | undefined = useQuery(
+    api.llmUsage.getWorkspaceUsage,
+    { workspaceId, month }
+  );
+  const workspaces: { _id: string; name: string; role: string }[] =
+    useQuery(api.workspaces.listForCurrentUser) ?? [];
+  const setMonthlyBudget = useMutation(api.llmUsage.setMonthlyBudget);
+
+  const workspace = workspaces.find((w) => w._id === workspaceId);
+  const canManage = workspace?.role === "owner" || workspace?.role === "admin";
+
+  const [budgetInput, setBudgetInput] = useState("");
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+
+  async function handleBudget(event: FormEvent) {
+    event.preventDefault();
+    setBudgetError(null);
+
+    const trimmed = budgetInput.trim();
+    const amount = trimmed === "" ? null : Number(trimmed);
+    if (amount !== null && (Number.isNaN(amount) || amount < 0)) {
+      setBudgetError("Enter a non-negative amount, or leave empty for none.");
+      return;
+    }
+
+    try {
+      await setMonthlyBudget({ workspaceId, monthlyBudgetUsd: amount });
+      setBudgetInput("");
+    } catch (err) {
+      console.error(err);
+      setBudgetError("Failed to update budget.");
+    }
+  }
+
+  const budget = usage?.monthlyBudgetUsd ?? null;
+  const spent = usage?.total.costUsd ?? 0;
+  const overBudget = budget !== null && spent >= budget;
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <main className="mx-auto max-w-5xl space-y-6 px-4 py-10 sm:px-6 lg:px-8">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-700"
+        >
+          <ArrowLeft className="size-3" />
+          Back to dashboard
+        </Link>
+
+        <section className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-slate-500">LLM usage</p>
+            <h1 className="text-2xl font-semibold tracking-tight text-slate-900">
+              {workspace?.name ?? "Workspace"}
+            </h1>
+          </div>
+          <input
+            type="month"
+            value={month}
+            onChange={(event) => event.target.value && setMonth(event.target.value)}
+            className="h-9 rounded-lg border border-slate-200 bg-white px-3 text-sm text-slate-900"
+          />
+        </section>
+
+        <Card className="border-slate-200 bg-white shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-semibold text-slate-900">
+              Estimated spend
+            </CardTitle>
+            <CardDescription className="text-xs text-slate-500">
+              Based on token counts and list prices. Automatic analysis pauses
+              once the monthly budget is reached.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-2xl font-semibold text-slate-900">
+              {formatUsd(spent)}
+              {budget !== null && (
+                <span className="ml-2 text-sm font-normal text-slate-500">
+                  of {formatUsd(budget)} budget
+                </span>
+              )}
+            </p>
+            {budget !== null && (
+              <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+                <div
+                  className={`h-full ${overBudget ? "bg-rose-500" : "bg-[#2563eb]"}`}
+                  style={{
+                    width: `${budget > 0 ? Math.min((spent / budget) * 100, 100) : 100}%`,
+                  }}
+                />
+              </div>
+            )}
+            {overBudget && (
+              <p className="text-[11px] font-medium text-rose-700">
+                Budget reached: automatic analysis is paused until next month
+                or until the budget is raised.
+              </p>
+            )}
+            <p className="text-[11px] text-slate-500">
+              {usage?.total.calls ?? 0} calls ·{" "}
+              {(
+                (usage?.total.promptTokens ?? 0) +
+                (usage?.total.completionTokens ?? 0)
+              ).toLocaleString()}{" "}
+              tokens
+            </p>
+
+            {canManage && (
+              <form
+                onSubmit={handleBudget}
+                className="flex flex-wrap items-center gap-2 pt-1"
+              >
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={budgetInput}
+                  onChange={(event) => setBudgetInput(event.target.value)}
+                  placeholder={budget !== null ? String(budget) : "No budget"}
+                  className="h-9 w-36 rounded-lg border border-slate-200 bg-white px-3 text-sm text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb]"
+                />
+                <Button
+                  type="submit"
+                  className="h-9 rounded-full bg-[#2563eb] px-4 text-xs font-semibold text-white shadow-sm hover:bg-[#1d4ed8]"
+                >
+                  Set monthly budget
+                </Button>
+                {budgetError && (
+                  <p className="text-[11px] font-medium text-rose-600">
+                    {budgetError}
+                  </p>
+                )}
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-slate-200 bg-white shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-semibold text-slate-900">
+              By repository
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UsageTable
+              rows={(usage?.byRepo ?? []).map((row) => ({
+                ...row,
+                key: row.repoId,
+                label: row.name,
+              }))}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="border-slate-200 bg-white shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-semibold text-slate-900">
+              By workflow
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UsageTable
+              rows={(usage?.byWorkflow ?? []).map((row) => ({
+                ...row,
+                key: row.workflow,
+                label: WORKFLOW_LABELS[row.workflow] ?? row.workflow,
+              }))}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="border-slate-200 bg-white shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-semibold text-slate-900">
+              By model
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <UsageTable
+              rows={(usage?.byModel ?? []).map((row) => ({
+                ...row,
+                key: row.model,
+                label: row.model,
+              }))}
+            />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
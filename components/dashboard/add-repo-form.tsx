@@ -1,16 +1,16 @@
 "use client";
 
 import { useState, type FormEvent } from "react";
-import { useAction } from "convex/react";
-import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 
 type AddRepoFormProps = {
+  // Workspace the repo is added to; the form is disabled until known.
+  workspaceId: Id<"workspaces"> | null;
   onAdded?: () => void;
 };
 
-export function AddRepoForm({ onAdded }: AddRepoFormProps) {
-  const addRepo = useAction(api.repos.addFromGithub);
+export function AddRepoForm({ workspaceId, onAdded }: AddRepoFormProps) {
   const [owner, setOwner] = useState("");
   const [name, setName] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -23,6 +23,11 @@ export function AddRepoForm({ onAdded }: AddRepoFormProps) {
     const trimmedOwner = owner.trim();
     const trimmedName = name.trim();
 
+    if (!workspaceId) {
+      setError("Select a workspace first.");
+      return;
+    }
+
     if (!trimmedOwner || !trimmedName) {
       setError("Please provide both the GitHub owner and repository name.");
       return;
@@ -30,21 +35,24 @@ export function AddRepoForm({ onAdded }: AddRepoFormProps) {
 
     try {
       setIsSubmitting(true);
-      const res = await fetch("/api/github-token");
+      // The GitHub OAuth token is looked up and used server-side; it is
+      // never sent to the browser.
+      const res = await fetch("/api/github/repos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workspaceId,
+          owner: trimmedOwner,
+          name: trimmedName,
+        }),
+      });
       if (!res.ok) {
         throw new Error(
           res.status === 404
             ? "No GitHub OAuth token found. Make sure you've connected GitHub in Clerk."
-            : "Failed to retrieve GitHub OAuth token."
+            : "Failed to add repository from GitHub. Please try again."
         );
       }
-      const { token } = (await res.json()) as { token: string };
-
-      await addRepo({
-        owner: trimmedOwner,
-        name: trimmedName,
-        githubAccessToken: token,
-      });
       setOwner("");
       setName("");
       setIsSubmitting(false);
@@ -99,7 +107,7 @@ export function AddRepoForm({ onAdded }: AddRepoFormProps) {
         </p>
         <Button
           type="submit"
-          disabled={isSubmitting}
+          disabled={isSubmitting || !workspaceId}
           className="h-9 rounded-full bg-[#2563eb] px-4 text-xs font-semibold text-white shadow-sm hover:bg-[#1d4ed8] disabled:opacity-60"
         >
           {isSubmitting ? "Adding…" : "Add from GitHub"}
@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAction, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { CallTranscript } from "@/components/dashboard/call-transcript";
+import type { SpeakerWord, TranscriptTurn } from "@/lib/transcripts";
+
+// Length of each recorded audio segment. Every segment is a complete
+// recording, transcribed on its own, so a failed upload loses only that
+// part of the call.
+const SEGMENT_SECONDS = 15;
+
+// Each segment's recorder keeps running this long after the next one
+// starts, so no audio is lost while they hand over. /api/listen keeps
+// each segment's half of the overlap; the speech both segments heard is
+// what matches up their speakers, so it is a few seconds long.
+const SEGMENT_OVERLAP_SECONDS = 3;
+
+// Upload attempts per segment before it counts as missing, waiting 1s,
+// 2s, 4s... between them.
+const MAX_UPLOAD_ATTEMPTS = 4;
+
+type RecorderStatus = "idle" | "starting" | "recording" | "finishing";
+
+// The call being recorded. Kept in a ref so the MediaRecorder callbacks
+// always see the current segment and uploads.
+type RecordingSession = {
+  callId: Id<"calls">;
+  stream: MediaStream;
+  startedAt: number;
+  nextSegmentIndex: number;
+  // One per segment, settled once its recorder stopped and its upload
+  // was queued.
+  recordings: Promise<void>[];
+  uploads: Promise<void>[];
+  // The newest segment's recorder; older ones stop on their own once
+  // their overlap ends.
+  recorder: MediaRecorder | null;
+  segmentTimer: ReturnType<typeof setTimeout> | null;
+  stopping: boolean;
+};
+
+type Segment = {
+  segmentIndex: number;
+  offsetSecond: number;
+  // Part of the segment's audio to keep, in seconds from its start.
+  keepFromSecond: number;
+  keepUntilSecond: number | null;
+};
+
+/**
+ * Records a call for a repo. Audio is cut into overlapping segments that
+ * are transcribed and appended to the call's transcript while the call
+ * runs, so the transcript shows up live; stopping waits for the last
+ * segments and then summarizes the stored transcript.
+ */
+export function CallRecorder({ repoId }: { repoId: Id<"repos"> }) {
+  const startCallSession = useAction(api.calls.startCallSession);
+  const finishCallSession = useAction(api.calls.finishCallSession);
+  const appendSegment = useMutation(
+    api.callTranscripts.appendCallTranscriptSegment
+  );
+
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [callId, setCallId] = useState<Id<"calls"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [failedSegments, setFailedSegments] = useState(0);
+  const sessionRef = useRef<RecordingSession | null>(null);
+
+  // Release the microphone when leaving the page mid-call.
+  useEffect(
+    () => () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      if (session.segmentTimer) clearTimeout(session.segmentTimer);
+      session.stream.getTracks().forEach((track) => track.stop());
+    },
+    []
+  );
+
+  async function transcribeSegment(
+    session: RecordingSession,
+    audio: Blob,
+    segment: Segment
+  ) {
+    const formData = new FormData();
+    formData.set("audio", audio);
+    formData.set("keepFromSecond", String(segment.keepFromSecond));
+    if (segment.keepUntilSecond !== null) {
+      formData.set("keepUntilSecond", String(segment.keepUntilSecond));
+    }
+
+    const listenRes = await fetch("/api/listen", {
+      method: "POST",
+      body: formData,
+    });
+    if (!listenRes.ok) {
+      throw new Error("Failed to transcribe call audio.");
+    }
+
+    const { turns, speakerWords } = (await listenRes.json()) as {
+      turns?: TranscriptTurn[];
+      speakerWords?: SpeakerWord[];
+    };
+    // Silent segments are appended too; they show the call is still live.
+    await appendSegment({
+      callId: session.callId,
+      segmentIndex: segment.segmentIndex,
+      offsetSecond: segment.offsetSecond,
+      turns: turns ?? [],
+      speakerWords: speakerWords ?? [],
+    });
+  }
+
+  async function uploadSegment(
+    session: RecordingSession,
+    audio: Blob,
+    segment: Segment
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await transcribeSegment(session, audio, segment);
+        return;
+      } catch (err) {
+        if (attempt >= MAX_UPLOAD_ATTEMPTS) {
+          console.error(err);
+          setFailedSegments((count) => count + 1);
+          return;
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, 1000 * 2 ** (attempt - 1))
+        );
+      }
+    }
+  }
+
+  async function finishCall(session: RecordingSession) {
+    await Promise.all(session.recordings);
+    session.stream.getTracks().forEach((track) => track.stop());
+    await Promise.all(session.uploads);
+
+    try {
+      await finishCallSession({ repoId, callId: session.callId });
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Something went wrong processing this call."
+      );
+    } finally {
+      sessionRef.current = null;
+      setCallId(null);
+      setStatus("idle");
+    }
+  }
+
+  function recordSegment(session: RecordingSession) {
+    const recorder = new MediaRecorder(session.stream);
+    const segmentIndex = session.nextSegmentIndex++;
+    const startedAt = Date.now();
+    const segment: Segment = {
+      segmentIndex,
+      offsetSecond: (startedAt - session.startedAt) / 1000,
+      // The previous segment keeps the first half of the overlap.
+      keepFromSecond: segmentIndex > 0 ? SEGMENT_OVERLAP_SECONDS / 2 : 0,
+      // Set once the next segment starts; the last one keeps everything.
+      keepUntilSecond: null,
+    };
+    const parts: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        parts.push(event.data);
+      }
+    };
+
+    session.recordings.push(
+      new Promise<void>((resolve) => {
+        recorder.onstop = () => {
+          const audio = new Blob(parts, {
+            type: recorder.mimeType || "audio/webm",
+          });
+          if (audio.size > 0) {
+            session.uploads.push(uploadSegment(session, audio, segment));
+          }
+          resolve();
+        };
+      })
+    );
+
+    session.recorder = recorder;
+    recorder.start();
+    session.segmentTimer = setTimeout(() => {
+      if (session.stopping) return;
+      segment.keepUntilSecond =
+        (Date.now() - startedAt) / 1000 + SEGMENT_OVERLAP_SECONDS / 2;
+      recordSegment(session);
+      setTimeout(() => {
+        if (recorder.state !== "inactive") recorder.stop();
+      }, SEGMENT_OVERLAP_SECONDS * 1000);
+    }, SEGMENT_SECONDS * 1000);
+  }
+
+  async function startCall() {
+    setError(null);
+    setFailedSegments(0);
+    setStatus("starting");
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error(err);
+      setError(
+        "Unable to access microphone. Check browser permissions and try again."
+      );
+      setStatus("idle");
+      return;
+    }
+
+    try {
+      const started = await startCallSession({ repoId });
+      const session: RecordingSession = {
+        callId: started.callId as Id<"calls">,
+        stream,
+        startedAt: Date.now(),
+        nextSegmentIndex: 0,
+        recordings: [],
+        uploads: [],
+        recorder: null,
+        segmentTimer: null,
+        stopping: false,
+      };
+      sessionRef.current = session;
+      setCallId(session.callId);
+      setStatus("recording");
+      recordSegment(session);
+    } catch (err) {
+      console.error(err);
+      stream.getTracks().forEach((track) => track.stop());
+      setError("Unable to start a new call session.");
+      setStatus("idle");
+    }
+  }
+
+  function stopCall() {
+    const session = sessionRef.current;
+    if (!session || session.stopping) return;
+
+    session.stopping = true;
+    setStatus("finishing");
+    if (session.segmentTimer) clearTimeout(session.segmentTimer);
+    if (session.recorder && session.recorder.state !== "inactive") {
+      session.recorder.stop();
+    }
+    void finishCall(session);
+  }
+
+  const isBusy = status === "starting" || status === "finishing";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between rounded-xl bg-slate-50 px-3 py-2">
+        <div className="flex items-center gap-2 text-xs text-slate-600">
+          <span
+            className={`inline-flex h-2 w-2 rounded-full ${
+              status === "idle" ? "bg-emerald-500" : "bg-amber-500"
+            }`}
+          />
+          <span>
+            {status === "recording"
+              ? "Recording…"
+              : status === "finishing"
+                ? "Analyzing…"
+                : status === "starting"
+                  ? "Starting…"
+                  : "Idle"}
+          </span>
+        </div>
+        <Button
+          size="sm"
+          className="h-7 rounded-full bg-[#2563eb] px-3 text-[11px] font-semibold text-white hover:bg-[#1d4ed8] disabled:opacity-60"
+          type="button"
+          disabled={isBusy}
+          onClick={() => {
+            if (status === "recording") {
+              stopCall();
+            } else {
+              void startCall();
+            }
+          }}
+        >
+          {status === "recording" ? "Stop & analyze" : "Start call"}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-[11px] font-medium text-rose-600">{error}</p>
+      )}
+      {failedSegments > 0 && (
+        <p className="text-[11px] font-medium text-amber-700">
+          {failedSegments === 1
+            ? "1 part of the call"
+            : `${failedSegments} parts of the call`}{" "}
+          could not be transcribed after several attempts and will be
+          missing from the transcript.
+        </p>
+      )}
+
+      {callId && (
+        <div>
+          <p className="mb-1 text-[11px] font-medium uppercase tracking-wide text-slate-500">
+            Live transcript
+          </p>
+          <CallTranscript callId={callId} follow />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  formatTimestamp,
+  parseTimestamp,
+  turnInSpan,
+  type TranscriptSpan,
+  type TranscriptTurn,
+} from "@/lib/transcripts";
+
+// The turn to scroll to: the first one in the span, else the last one
+// that started before it (the span may fall in a pause).
+function focusedTurnIndex(turns: TranscriptTurn[], focus: TranscriptSpan) {
+  const inSpan = turns.findIndex((turn) => turnInSpan(turn, focus));
+  if (inSpan !== -1) return inSpan;
+  return turns.findLastIndex((turn) => turn.startSecond <= focus.startSecond);
+}
+
+/**
+ * A call's transcript with timestamps and speakers. Scrolls to and
+ * highlights `focus`, which the viewer's own "jump to" field also sets.
+ * Without `onFocusChange` it is read-only; with `follow` it keeps the
+ * newest turn in view, for watching a call's transcript as it is written.
+ */
+export function CallTranscript({
+  callId,
+  focus = null,
+  onFocusChange,
+  follow = false,
+}: {
+  callId: Id<"calls">;
+  focus?: TranscriptSpan | null;
+  onFocusChange?: (focus: TranscriptSpan | null) => void;
+  follow?: boolean;
+}) {
+  const turns: TranscriptTurn[] | undefined = useQuery(
+    api.callTranscripts.getCallTranscript,
+    { callId }
+  );
+  const [jumpTo, setJumpTo] = useState("");
+  const [jumpError, setJumpError] = useState<string | null>(null);
+  const turnRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  const focusedIndex = turns && focus ? focusedTurnIndex(turns, focus) : -1;
+  const scrollIndex = follow ? (turns?.length ?? 0) - 1 : focusedIndex;
+
+  useEffect(() => {
+    turnRefs.current[scrollIndex]?.scrollIntoView({
+      block: "nearest",
+      behavior: "smooth",
+    });
+  }, [scrollIndex, focus]);
+
+  function handleJump(event: FormEvent) {
+    event.preventDefault();
+    if (!onFocusChange) return;
+    const second = parseTimestamp(jumpTo);
+    if (second === null) {
+      setJumpError("Use m:ss, e.g. 12:05.");
+      return;
+    }
+    setJumpError(null);
+    onFocusChange({ startSecond: second, endSecond: second });
+  }
+
+  if (turns === undefined) {
+    return <p className="text-[11px] text-slate-500">Loading transcript…</p>;
+  }
+  if (turns.length === 0) {
+    return (
+      <p className="text-[11px] text-slate-500">
+        {follow
+          ? "Listening… the transcript appears here as the call goes on."
+          : "No transcript was saved for this call."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {onFocusChange && (
+        <form onSubmit={handleJump} className="flex items-center gap-2">
+          <input
+            value={jumpTo}
+            onChange={(event) => setJumpTo(event.target.value)}
+            placeholder="Jump to m:ss"
+            className="h-7 w-28 rounded-full border border-slate-200 bg-white px-3 text-[11px] text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb]"
+          />
+          <button
+            type="submit"
+            className="text-[11px] font-medium text-[#2563eb] hover:underline"
+          >
+            Jump
+          </button>
+          {focus && (
+            <button
+              type="button"
+              onClick={() => onFocusChange(null)}
+              className="text-[11px] text-slate-500 hover:underline"
+            >
+              Clear highlight
+            </button>
+          )}
+          {jumpError && (
+            <span className="text-[11px] text-rose-600">{jumpError}</span>
+          )}
+        </form>
+      )}
+      <ul className="max-h-64 space-y-1 overflow-y-auto pr-1">
+        {turns.map((turn, index) => {
+          const isFocused =
+            focus !== null &&
+            (turnInSpan(turn, focus) || index === focusedIndex);
+          return (
+            <li
+              key={index}
+              ref={(element) => {
+                turnRefs.current[index] = element;
+              }}
+              className={`rounded-lg px-2 py-1 text-xs ${
+                isFocused ? "bg-amber-50 text-slate-900" : "text-slate-700"
+              }`}
+            >
+              <button
+                type="button"
+                disabled={!onFocusChange}
+                onClick={() =>
+                  onFocusChange?.({
+                    startSecond: turn.startSecond,
+                    endSecond: turn.endSecond,
+                  })
+                }
+                className="mr-1.5 font-mono text-[10px] text-slate-400 enabled:hover:text-[#2563eb]"
+              >
+                {formatTimestamp(turn.startSecond)}
+              </button>
+              {turn.speaker && (
+                <span className="mr-1 font-medium text-slate-500">
+                  {turn.speaker}:
+                </span>
+              )}
+              <span className="whitespace-pre-line">{turn.text}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
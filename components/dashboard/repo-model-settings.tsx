@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+type AgentModelSetting = {
+  agent: string;
+  override: string | null;
+  effective: { provider: string; model: string } | null;
+  error: string | null;
+};
+
+const AGENT_LABELS: Record<string, string> = {
+  prAnalyzer: "PR analysis",
+  contributorProfiler: "Contributor profiles",
+  repoSnapshot: "Repo snapshot",
+  historySynthesis: "History synthesis",
+  callSummarizer: "Call summaries",
+  repoAssistant: "Repo assistant",
+};
+
+function AgentModelRow({
+  repoId,
+  setting,
+}: {
+  repoId: Id<"repos">;
+  setting: AgentModelSetting;
+}) {
+  const setRepoModelOverride = useMutation(
+    api.modelSettings.setRepoModelOverride
+  );
+  const [spec, setSpec] = useState(setting.override ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    setError(null);
+    try {
+      await setRepoModelOverride({
+        repoId,
+        agent: setting.agent,
+        spec: spec.trim() || null,
+      });
+    } catch (err) {
+      console.error(err);
+      setError("Failed to update the model. Only admins can change models.");
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-0.5">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-slate-700">
+          {AGENT_LABELS[setting.agent] ?? setting.agent}
+        </span>
+        <div className="flex items-center gap-1">
+          <input
+            value={spec}
+            onChange={(event) => setSpec(event.target.value)}
+            placeholder={
+              setting.effective
+                ? `${setting.effective.provider}:${setting.effective.model}`
+                : "Default"
+            }
+            className="h-7 w-48 rounded-lg border border-slate-200 bg-white px-2 text-[11px] text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb]"
+          />
+          <button
+            type="submit"
+            disabled={spec.trim() === (setting.override ?? "")}
+            className="rounded-full bg-slate-100 px-2.5 py-0.5 text-[11px] font-medium text-slate-600 hover:text-slate-900 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+      {(error ?? setting.error) && (
+        <p className="text-[11px] font-medium text-rose-600">
+          {error ?? setting.error}
+        </p>
+      )}
+    </form>
+  );
+}
+
+/**
+ * Per-repo model choices for each agent. Empty fields use the deployment
+ * default shown as the placeholder.
+ */
+export function RepoModelSettings({ repoId }: { repoId: Id<"repos"> }) {
+  const settings: AgentModelSetting[] | null | undefined = useQuery(
+    api.modelSettings.getRepoModelSettings,
+    { repoId }
+  );
+
+  if (!settings) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+        Models
+      </p>
+      {settings.map((setting) => (
+        <AgentModelRow
+          key={`${setting.agent}:${setting.override ?? ""}`}
+          repoId={repoId}
+          setting={setting}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useAction } from "convex/react";
+import { Search } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+type SearchSourceType =
+  | "pull_request"
+  | "pr_analysis"
+  | "call"
+  | "call_action_item"
+  | "history_checkpoint";
+
+type SearchResult = {
+  _id: string;
+  sourceType: SearchSourceType;
+  title: string;
+  snippet: string;
+  eventAt: number;
+  pullRequestId: string | null;
+  callId: Id<"calls"> | null;
+  matchedBy: "keyword" | "vector" | "both";
+};
+
+const SOURCE_TYPE_LABELS: Record<SearchSourceType, string> = {
+  pull_request: "PRs",
+  pr_analysis: "Analyses",
+  call: "Calls",
+  call_action_item: "Action items",
+  history_checkpoint: "History",
+};
+
+const DATE_RANGES = [
+  ["any", "Any time", null],
+  ["7d", "Last 7 days", 7],
+  ["30d", "Last 30 days", 30],
+  ["90d", "Last 90 days", 90],
+  ["365d", "Last year", 365],
+] as const;
+
+type DateRange = (typeof DATE_RANGES)[number][0];
+
+/**
+ * Keyword and semantic search over the repo's PRs, analyses, calls,
+ * action items and history. Results for a PR or call open it on the page.
+ */
+export function RepoSearch({
+  repoId,
+  onOpenPullRequest,
+  onOpenCall,
+}: {
+  repoId: Id<"repos">;
+  onOpenPullRequest: (pullRequestId: string) => void;
+  onOpenCall: (callId: Id<"calls">) => void;
+}) {
+  const searchRepo = useAction(api.search.searchRepo);
+  const [query, setQuery] = useState("");
+  const [sourceTypes, setSourceTypes] = useState<SearchSourceType[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange>("any");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    const days = DATE_RANGES.find(([value]) => value === dateRange)?.[2];
+    setIsSearching(true);
+    setError(null);
+    try {
+      setResults(
+        await searchRepo({
+          repoId,
+          query,
+          sourceTypes: sourceTypes.length > 0 ? sourceTypes : undefined,
+          from: days ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined,
+        })
+      );
+    } catch (err) {
+      console.error(err);
+      setError("Search failed. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  }
+
+  function toggleSourceType(sourceType: SearchSourceType) {
+    setSourceTypes((current) =>
+      current.includes(sourceType)
+        ? current.filter((type) => type !== sourceType)
+        : [...current, sourceType]
+    );
+  }
+
+  function openResult(result: SearchResult) {
+    if (result.pullRequestId) onOpenPullRequest(result.pullRequestId);
+    else if (result.callId) onOpenCall(result.callId);
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search PRs, analyses, calls and history, e.g. “the call where we decided to drop Redis”"
+            className="h-9 w-full rounded-full border border-slate-200 bg-white pl-8 pr-3 text-xs text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb]"
+          />
+        </div>
+        <select
+          value={dateRange}
+          onChange={(event) => setDateRange(event.target.value as DateRange)}
+          className="h-9 rounded-full border border-slate-200 bg-white px-2 text-[11px] text-slate-700"
+        >
+          {DATE_RANGES.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="h-9 rounded-full bg-[#2563eb] px-4 text-[11px] font-semibold text-white hover:bg-[#1d4ed8] disabled:opacity-50"
+        >
+          {isSearching ? "Searching…" : "Search"}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-1.5">
+        {(Object.keys(SOURCE_TYPE_LABELS) as SearchSourceType[]).map(
+          (sourceType) => (
+            <button
+              key={sourceType}
+              type="button"
+              onClick={() => toggleSourceType(sourceType)}
+              className={`rounded-full px-2.5 py-0.5 text-[11px] font-medium ${
+                sourceTypes.includes(sourceType)
+                  ? "bg-[#2563eb] text-white"
+                  : "bg-slate-100 text-slate-600 hover:text-slate-900"
+              }`}
+            >
+              {SOURCE_TYPE_LABELS[sourceType]}
+            </button>
+          )
+        )}
+      </div>
+
+      {error && <p className="text-[11px] font-medium text-rose-600">{error}</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-xs text-slate-500">No matches.</p>
+      )}
+      {results && results.length > 0 && (
+        <div className="max-h-80 space-y-2 overflow-y-auto pr-1">
+          {results.map((result) => (
+            <button
+              key={result._id}
+              type="button"
+              onClick={() => openResult(result)}
+              disabled={!result.pullRequestId && !result.callId}
+              className="w-full rounded-xl border border-slate-100 bg-slate-50/60 p-3 text-left enabled:hover:bg-slate-100"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs font-semibold text-slate-900">
+                  {result.title}
+                </p>
+                <span className="shrink-0 rounded-full bg-white px-2 py-0.5 text-[10px] font-medium text-slate-500">
+                  {SOURCE_TYPE_LABELS[result.sourceType]}
+                </span>
+              </div>
+              <p className="mt-0.5 text-[11px] text-slate-600">
+                {result.snippet}
+              </p>
+              <p className="mt-1 text-[11px] text-slate-500">
+                {new Date(result.eventAt).toLocaleDateString()}
+                {result.matchedBy === "vector" && " · related"}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { SnapshotDiff } from "@/lib/snapshotDiff";
+
+type RepoSnapshot = {
+  _id: Id<"repoSnapshots">;
+  version: number;
+  techStackSummary: string;
+  suggestedNextSteps: string[];
+  createdAt: number;
+};
+
+type SnapshotComparison = {
+  base: RepoSnapshot;
+  candidate: RepoSnapshot;
+  diff: SnapshotDiff;
+};
+
+const DIFF_SECTIONS: [keyof SnapshotDiff, string, string][] = [
+  ["modulesAdded", "New modules", "text-emerald-700"],
+  ["modulesRemoved", "Removed modules", "text-slate-500"],
+  ["riskyAreasAppeared", "New risky areas", "text-rose-700"],
+  ["riskyAreasResolved", "Resolved risky areas", "text-emerald-700"],
+  ["nextStepsCompleted", "Completed next steps", "text-emerald-700"],
+  ["nextStepsAdded", "New next steps", "text-slate-700"],
+  ["nextStepsDropped", "Dropped next steps", "text-slate-500"],
+];
+
+function snapshotLabel(snapshot: RepoSnapshot) {
+  return `v${snapshot.version} · ${new Date(snapshot.createdAt).toLocaleDateString()}`;
+}
+
+function SnapshotComparisonView({
+  baseSnapshotId,
+  candidateSnapshotId,
+}: {
+  baseSnapshotId: Id<"repoSnapshots">;
+  candidateSnapshotId: Id<"repoSnapshots">;
+}) {
+  const comparison: SnapshotComparison | null | undefined = useQuery(
+    api.repoSnapshots.compareRepoSnapshots,
+    { baseSnapshotId, candidateSnapshotId }
+  );
+
+  if (!comparison) return null;
+
+  const sections = DIFF_SECTIONS.filter(
+    ([key]) => comparison.diff[key].length > 0
+  );
+  if (sections.length === 0) {
+    return (
+      <p className="text-xs text-slate-500">
+        No changes to modules, risky areas or next steps.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {sections.map(([key, label, color]) => (
+        <div key={key} className="space-y-0.5">
+          <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+            {label}
+          </p>
+          <ul className={`list-disc space-y-0.5 pl-4 text-xs ${color}`}>
+            {comparison.diff[key].map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The repo's latest snapshot, and what changed between any two of its
+ * snapshots (by default the last two).
+ */
+export function RepoSnapshots({ repoId }: { repoId: Id<"repos"> }) {
+  const snapshots: RepoSnapshot[] | undefined = useQuery(
+    api.repoSnapshots.listRepoSnapshots,
+    { repoId }
+  );
+  const [baseId, setBaseId] = useState<Id<"repoSnapshots"> | null>(null);
+  const [candidateId, setCandidateId] = useState<Id<"repoSnapshots"> | null>(
+    null
+  );
+
+  if (!snapshots || snapshots.length === 0) return null;
+
+  const latest = snapshots[0];
+  const candidateSnapshotId = candidateId ?? latest._id;
+  const baseSnapshotId = baseId ?? snapshots[1]?._id;
+
+  const selectClassName =
+    "h-7 rounded-full border border-slate-200 bg-white px-2 text-[11px] text-slate-700";
+  const options = snapshots.map((snapshot) => (
+    <option key={snapshot._id} value={snapshot._id}>
+      {snapshotLabel(snapshot)}
+    </option>
+  ));
+
+  return (
+    <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/80 p-3">
+      <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+        Latest repo snapshot ({snapshotLabel(latest)})
+      </p>
+      <p className="text-xs text-slate-700">{latest.techStackSummary}</p>
+      {latest.suggestedNextSteps.length > 0 && (
+        <div className="mt-2 space-y-1">
+          <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+            Suggested next steps
+          </p>
+          <ul className="list-disc space-y-0.5 pl-4 text-xs text-slate-700">
+            {latest.suggestedNextSteps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {baseSnapshotId && (
+        <div className="mt-3 space-y-2 border-t border-slate-200 pt-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+              Changes from
+            </p>
+            <select
+              value={baseSnapshotId}
+              onChange={(event) =>
+                setBaseId(event.target.value as Id<"repoSnapshots">)
+              }
+              className={selectClassName}
+            >
+              {options}
+            </select>
+            <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+              to
+            </p>
+            <select
+              value={candidateSnapshotId}
+              onChange={(event) =>
+                setCandidateId(event.target.value as Id<"repoSnapshots">)
+              }
+              className={selectClassName}
+            >
+              {options}
+            </select>
+          </div>
+          <SnapshotComparisonView
+            baseSnapshotId={baseSnapshotId}
+            candidateSnapshotId={candidateSnapshotId}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
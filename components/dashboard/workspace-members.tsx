@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+
+type Member = Doc<"workspaceMembers"> & {
+  name: string | null;
+  email: string | null;
+};
+
+type WorkspaceMembersProps = {
+  workspaceId: Id<"workspaces">;
+  // The caller's role; member management is shown to admins and owners.
+  role: Doc<"workspaceMembers">["role"];
+};
+
+export function WorkspaceMembers({ workspaceId, role }: WorkspaceMembersProps) {
+  const canManage = role === "owner" || role === "admin";
+
+  const members: Member[] =
+    useQuery(api.workspaces.listMembers, { workspaceId }) ?? [];
+  const invitations: Doc<"workspaceInvitations">[] =
+    useQuery(
+      api.workspaces.listInvitations,
+      canManage ? { workspaceId } : "skip"
+    ) ?? [];
+  const inviteMember = useMutation(api.workspaces.inviteMember);
+  const revokeInvitation = useMutation(api.workspaces.revokeInvitation);
+  const updateMemberRole = useMutation(api.workspaces.updateMemberRole);
+  const removeMember = useMutation(api.workspaces.removeMember);
+
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"admin" | "member" | "viewer">(
+    "member"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<unknown>, failure: string) {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(failure);
+    }
+  }
+
+  async function handleInvite(event: FormEvent) {
+    event.preventDefault();
+    if (!email.trim()) return;
+    await run(async () => {
+      await inviteMember({ workspaceId, email, role: inviteRole });
+      setEmail("");
+    }, "Failed to send invitation.");
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="divide-y divide-slate-100 overflow-hidden rounded-2xl border border-slate-100 bg-white text-sm">
+        {members.map((member) => (
+          <div
+            key={member._id}
+            className="flex items-center justify-between gap-3 px-4 py-2"
+          >
+            <div className="space-y-0.5">
+              <p className="font-medium text-slate-900">
+                {member.name ?? member.email}
+              </p>
+              <p className="text-[11px] text-slate-500">{member.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {canManage ? (
+                <select
+                  value={member.role}
+                  onChange={(event) =>
+                    run(
+                      () =>
+                        updateMemberRole({
+                          workspaceId,
+                          userId: member.userId,
+                          role: event.target.value as typeof member.role,
+                        }),
+                      "Failed to change role."
+                    )
+                  }
+                  className="h-7 rounded-full border border-slate-200 bg-white px-2 text-[11px] text-slate-700"
+                >
+                  <option value="owner">owner</option>
+                  <option value="admin">admin</option>
+                  <option value="member">member</option>
+                  <option value="viewer">viewer</option>
+                </select>
+              ) : (
+                <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-600">
+                  {member.role}
+                </span>
+              )}
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    run(
+                      () => removeMember({ workspaceId, userId: member.userId }),
+                      "Failed to remove member."
+                    )
+                  }
+                  className="text-[11px] font-medium text-rose-600 hover:text-rose-700"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {invitations.map((invitation) => (
+          <div
+            key={invitation._id}
+            className="flex items-center justify-between gap-3 px-4 py-2 text-slate-500"
+          >
+            <p className="text-[12px]">
+              {invitation.email}{" "}
+              <span className="text-[11px]">
+                (invited as {invitation.role})
+              </span>
+            </p>
+            <button
+              type="button"
+              onClick={() =>
+                run(
+                  () => revokeInvitation({ invitationId: invitation._id }),
+                  "Failed to revoke invitation."
+                )
+              }
+              className="text-[11px] font-medium text-slate-500 hover:text-slate-700"
+            >
+              Revoke
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="flex flex-wrap items-center gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="teammate@example.com"
+            className="h-9 flex-1 rounded-lg border border-slate-200 bg-white px-3 text-sm text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb] focus:ring-2 focus:ring-[#2563eb]/20"
+          />
+          <select
+            value={inviteRole}
+            onChange={(event) =>
+              setInviteRole(event.target.value as typeof inviteRole)
+            }
+            className="h-9 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-700"
+          >
+            <option value="admin">admin</option>
+            <option value="member">member</option>
+            <option value="viewer">viewer</option>
+          </select>
+          <Button
+            type="submit"
+            className="h-9 rounded-full bg-[#2563eb] px-4 text-xs font-semibold text-white shadow-sm hover:bg-[#1d4ed8]"
+          >
+            Invite
+          </Button>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-[11px] font-medium text-rose-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+
+export type WorkspaceWithRole = Doc<"workspaces"> & {
+  role: Doc<"workspaceMembers">["role"];
+};
+
+type PendingInvitation = Doc<"workspaceInvitations"> & {
+  workspaceName: string;
+};
+
+type WorkspaceSwitcherProps = {
+  selectedWorkspaceId: Id<"workspaces"> | null;
+  onSelect: (workspaceId: Id<"workspaces">) => void;
+};
+
+export function WorkspaceSwitcher({
+  selectedWorkspaceId,
+  onSelect,
+}: WorkspaceSwitcherProps) {
+  const workspaces: WorkspaceWithRole[] =
+    useQuery(api.workspaces.listForCurrentUser) ?? [];
+  const invitations: PendingInvitation[] =
+    useQuery(api.workspaces.listMyInvitations) ?? [];
+  const createWorkspace = useMutation(api.workspaces.createWorkspace);
+  const acceptInvitation = useMutation(api.workspaces.acceptInvitation);
+
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleCreate(event: FormEvent) {
+    event.preventDefault();
+    setError(null);
+    if (!newName.trim()) return;
+
+    try {
+      const workspaceId = await createWorkspace({ name: newName });
+      setNewName("");
+      onSelect(workspaceId);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to create workspace.");
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-wrap items-center gap-1 rounded-full bg-slate-100 p-0.5">
+          {workspaces.map((workspace) => (
+            <button
+              key={workspace._id}
+              type="button"
+              onClick={() => onSelect(workspace._id)}
+              className={`rounded-full px-3 py-1 text-xs font-medium ${
+                workspace._id === selectedWorkspaceId
+                  ? "bg-white text-slate-900 shadow-sm"
+                  : "text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {workspace.name}
+              <span className="ml-1 text-[10px] text-slate-400">
+                {workspace.role}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="New workspace"
+            className="h-8 w-36 rounded-full border border-slate-200 bg-white px-3 text-xs text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb]"
+          />
+          <Button
+            type="submit"
+            className="h-8 rounded-full bg-slate-900 px-3 text-[11px] font-semibold text-white hover:bg-slate-700"
+          >
+            Create
+          </Button>
+        </form>
+      </div>
+
+      {invitations.map((invitation) => (
+        <div
+          key={invitation._id}
+          className="flex items-center justify-between gap-3 rounded-xl border border-blue-100 bg-blue-50/60 px-3 py-2 text-xs text-slate-700"
+        >
+          <span>
+            You&apos;ve been invited to{" "}
+            <span className="font-semibold">{invitation.workspaceName}</span>{" "}
+            as {invitation.role}.
+          </span>
+          <Button
+            type="button"
+            onClick={async () => {
+              setError(null);
+              try {
+                onSelect(
+                  await acceptInvitation({ invitationId: invitation._id })
+                );
+              } catch (err) {
+                console.error(err);
+                setError("Failed to accept invitation.");
+              }
+            }}
+            className="h-7 rounded-full bg-[#2563eb] px-3 text-[11px] font-semibold text-white hover:bg-[#1d4ed8]"
+          >
+            Accept
+          </Button>
+        </div>
+      ))}
+
+      {error && (
+        <p className="text-[11px] font-medium text-rose-600">{error}</p>
+      )}
+    </div>
+  );
+}
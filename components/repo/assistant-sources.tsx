@@ -0,0 +1,61 @@
+"use client";
+
+import type { Id } from "@/convex/_generated/dataModel";
+import type { AssistantCitation } from "@/lib/assistantCitations";
+
+const CITATION_TYPE_LABELS: Record<AssistantCitation["sourceType"], string> = {
+  pull_request: "PR",
+  pr_analysis: "Analysis",
+  call: "Call",
+  call_action_item: "Action item",
+  history_checkpoint: "History",
+};
+
+/**
+ * The records a Repo Assistant answer cited. PRs and calls open on the
+ * repo page; other citations with a URL open it in a new tab.
+ */
+export function AssistantSources({
+  citations,
+  onOpenPullRequest,
+  onOpenCall,
+}: {
+  citations: AssistantCitation[];
+  onOpenPullRequest?: (pullRequestId: string) => void;
+  onOpenCall?: (callId: Id<"calls">) => void;
+}) {
+  if (citations.length === 0) return null;
+
+  function openCitation(citation: AssistantCitation) {
+    if (citation.pullRequestId && onOpenPullRequest) {
+      onOpenPullRequest(citation.pullRequestId);
+    } else if (citation.callId && onOpenCall) {
+      onOpenCall(citation.callId as Id<"calls">);
+    } else if (citation.url) {
+      window.open(citation.url, "_blank", "noopener,noreferrer");
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+        Sources
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {citations.map((citation) => (
+          <button
+            key={citation.ref}
+            type="button"
+            onClick={() => openCitation(citation)}
+            className="max-w-full truncate rounded-full bg-slate-100 px-2.5 py-0.5 text-[11px] text-slate-700 hover:bg-slate-200"
+          >
+            <span className="font-medium text-slate-500">
+              {CITATION_TYPE_LABELS[citation.sourceType]}:
+            </span>{" "}
+            {citation.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "convex/react";
+import {
+  useSmoothText,
+  useUIMessages,
+  type UIMessage,
+} from "@convex-dev/agent/react";
+import { Send } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AssistantSources } from "@/components/repo/assistant-sources";
+import { RepoVoiceChat } from "@/components/repo/repo-voice-chat";
+import {
+  citationsForAnswer,
+  collectCitations,
+  stripCitationMarkers,
+} from "@/lib/assistantCitations";
+
+type AssistantThread = {
+  _id: Id<"assistantThreads">;
+  threadId: string;
+  title: string;
+  lastMessageAt: number;
+};
+
+type OpenHandlers = {
+  onOpenPullRequest: (pullRequestId: string) => void;
+  onOpenCall: (callId: Id<"calls">) => void;
+};
+
+// The citations in an answer, from the tool results in the same message.
+function messageCitations(message: UIMessage) {
+  const outputs = message.parts.flatMap((part) =>
+    "output" in part ? [part.output] : []
+  );
+  return citationsForAnswer(message.text, collectCitations(outputs));
+}
+
+function ChatMessage({
+  message,
+  onOpenPullRequest,
+  onOpenCall,
+}: { message: UIMessage } & OpenHandlers) {
+  const isStreaming = message.status === "streaming";
+  const [visibleText] = useSmoothText(stripCitationMarkers(message.text), {
+    startStreaming: isStreaming,
+  });
+
+  if (message.role === "user") {
+    return (
+      <div className="ml-auto max-w-[85%] rounded-2xl bg-[#2563eb] px-3 py-2 text-xs text-white">
+        {message.text}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-[85%] space-y-2 rounded-2xl bg-slate-50 px-3 py-2 text-xs text-slate-700">
+      {message.status === "failed" ? (
+        <p className="font-medium text-rose-600">
+          The assistant could not answer. Please try again.
+        </p>
+      ) : (
+        <p className="whitespace-pre-wrap leading-relaxed">
+          {visibleText || "Looking things up…"}
+        </p>
+      )}
+      {!isStreaming && (
+        <AssistantSources
+          citations={messageCitations(message)}
+          onOpenPullRequest={onOpenPullRequest}
+          onOpenCall={onOpenCall}
+        />
+      )}
+    </div>
+  );
+}
+
+function RepoAssistantChat({
+  repoId,
+  threadId,
+  threads,
+  onThreadChange,
+  onOpenPullRequest,
+  onOpenCall,
+}: {
+  repoId: Id<"repos">;
+  threadId: string | null;
+  threads: AssistantThread[];
+  onThreadChange: (threadId: string | null) => void;
+} & OpenHandlers) {
+  const sendMessage = useMutation(api.repoAssistant.sendRepoAssistantMessage);
+  const {
+    results: messages,
+    status,
+    loadMore,
+  }: {
+    results: UIMessage[];
+    status: string;
+    loadMore: (numItems: number) => void;
+  } = useUIMessages(
+    api.repoAssistant.listRepoAssistantMessages,
+    threadId ? { threadId } : "skip",
+    { initialNumItems: 20, stream: true }
+  );
+  const [prompt, setPrompt] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  const lastMessage = messages.at(-1);
+  const isThinking = isSending || lastMessage?.role === "user";
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [lastMessage?.text, messages.length]);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (!prompt.trim() || isSending) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      const result = await sendMessage({
+        repoId,
+        prompt,
+        threadId: threadId ?? undefined,
+      });
+      setPrompt("");
+      onThreadChange(result.threadId);
+    } catch (err) {
+      console.error(err);
+      setError("Could not send your message. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <Card className="border-slate-200 bg-white shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between gap-3 pb-3">
+        <div>
+          <CardTitle className="text-sm font-semibold text-slate-900">
+            Repo assistant
+          </CardTitle>
+          <CardDescription className="text-xs text-slate-500">
+            Ask about PRs, owners, history and call decisions. Answers link to
+            their sources.
+          </CardDescription>
+        </div>
+        <select
+          value={threadId ?? ""}
+          onChange={(event) => onThreadChange(event.target.value || null)}
+          className="h-8 max-w-[45%] rounded-full border border-slate-200 bg-white px-2 text-[11px] text-slate-700"
+        >
+          <option value="">New conversation</option>
+          {threads.map((thread) => (
+            <option key={thread._id} value={thread.threadId}>
+              {thread.title}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex max-h-96 min-h-32 flex-col gap-2 overflow-y-auto pr-1">
+          {status === "CanLoadMore" && (
+            <button
+              type="button"
+              onClick={() => loadMore(20)}
+              className="self-center text-[11px] font-medium text-[#2563eb] hover:underline"
+            >
+              Load earlier messages
+            </button>
+          )}
+          {messages.length === 0 && !isThinking && (
+            <p className="m-auto text-xs text-slate-500">
+              e.g. “What is risky in PR #42?” or “Who owns the billing module?”
+            </p>
+          )}
+          {messages.map((message) => (
+            <ChatMessage
+              key={message.key}
+              message={message}
+              onOpenPullRequest={onOpenPullRequest}
+              onOpenCall={onOpenCall}
+            />
+          ))}
+          {isThinking && (
+            <p className="text-[11px] text-slate-500">Thinking…</p>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <input
+            value={prompt}
+            onChange={(event) => setPrompt(event.target.value)}
+            placeholder="Ask about this repository…"
+            className="h-9 flex-1 rounded-full border border-slate-200 bg-white px-3 text-xs text-slate-900 outline-none placeholder:text-slate-400 focus:border-[#2563eb]"
+          />
+          <Button
+            type="submit"
+            disabled={!prompt.trim() || isSending}
+            className="flex h-9 items-center gap-1.5 rounded-full bg-[#2563eb] px-4 text-[11px] font-semibold text-white hover:bg-[#1d4ed8] disabled:opacity-50"
+          >
+            <Send className="h-3.5 w-3.5" />
+            Send
+          </Button>
+        </form>
+
+        {error && (
+          <p className="text-[11px] font-medium text-rose-600">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Text chat and voice assistant for a repo, sharing one conversation.
+ * Opens on the caller's most recent conversation, so it resumes after a
+ * reload; earlier ones can be picked from the thread list.
+ */
+export function RepoAssistant({
+  repoId,
+  onOpenPullRequest,
+  onOpenCall,
+}: { repoId: Id<"repos"> } & OpenHandlers) {
+  const threads: AssistantThread[] | undefined = useQuery(
+    api.repoAssistant.listRepoAssistantThreads,
+    { repoId }
+  );
+  // Undefined until a conversation is picked or started: the latest one.
+  const [selectedThreadId, setSelectedThreadId] = useState<
+    string | null | undefined
+  >(undefined);
+  const threadId =
+    selectedThreadId === undefined
+      ? (threads?.[0]?.threadId ?? null)
+      : selectedThreadId;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+      <RepoAssistantChat
+        repoId={repoId}
+        threadId={threadId}
+        threads={threads ?? []}
+        onThreadChange={setSelectedThreadId}
+        onOpenPullRequest={onOpenPullRequest}
+        onOpenCall={onOpenCall}
+      />
+      <RepoVoiceChat
+        repoId={repoId}
+        threadId={threadId}
+        onThreadChange={setSelectedThreadId}
+        onOpenPullRequest={onOpenPullRequest}
+        onOpenCall={onOpenCall}
+      />
+    </div>
+  );
+}
@@ -13,12 +13,26 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Mic, Volume2 } from "lucide-react";
+import type { AssistantCitation } from "@/lib/assistantCitations";
+import { AssistantSources } from "@/components/repo/assistant-sources";
 
 type RepoVoiceChatProps = {
   repoId: Id<"repos">;
+  // The conversation questions are asked in, shared with the text chat;
+  // null starts a new one, reported through onThreadChange.
+  threadId: string | null;
+  onThreadChange: (threadId: string) => void;
+  onOpenPullRequest?: (pullRequestId: string) => void;
+  onOpenCall?: (callId: Id<"calls">) => void;
 };
 
-export function RepoVoiceChat({ repoId }: RepoVoiceChatProps) {
+export function RepoVoiceChat({
+  repoId,
+  threadId,
+  onThreadChange,
+  onOpenPullRequest,
+  onOpenCall,
+}: RepoVoiceChatProps) {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -39,9 +53,9 @@ export function RepoVoiceChat({ repoId }: RepoVoiceChatProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastQuestion, setLastQuestion] = useState<string | null>(null);
   const [lastAnswer, setLastAnswer] = useState<string | null>(null);
+  const [citations, setCitations] = useState<AssistantCitation[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const [threadId, setThreadId] = useState<string | null>(null);
 
   const askRepoAssistant = useAction(api.repoAssistant.askRepoAssistant);
 
@@ -141,10 +155,11 @@ export function RepoVoiceChat({ repoId }: RepoVoiceChatProps) {
       });
 
       const answerText =
-        result.text?.trim() ?? "I was unable to generate an answer.";
+        result.spokenText?.trim() || "I was unable to generate an answer.";
 
       setLastAnswer(answerText);
-      setThreadId(result.threadId);
+      setCitations(result.citations ?? []);
+      onThreadChange(result.threadId);
 
       // 4) Convert answer to speech and play it
       const speakRes = await fetch("/api/speak", {
@@ -233,6 +248,14 @@ export function RepoVoiceChat({ repoId }: RepoVoiceChatProps) {
           </div>
         )}
 
+        {lastAnswer && (
+          <AssistantSources
+            citations={citations}
+            onOpenPullRequest={onOpenPullRequest}
+            onOpenCall={onOpenCall}
+          />
+        )}
+
         {error && (
           <p className="text-[11px] font-medium text-rose-600">{error}</p>
         )}
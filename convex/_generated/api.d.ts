@@ -8,19 +8,39 @@
  * @module
  */
 
+import type * as access from "../access.js";
+import type * as agentProvenance from "../agentProvenance.js";
 import type * as agents_CallSummarizer from "../agents/CallSummarizer.js";
 import type * as agents_ContributorProfiler from "../agents/ContributorProfiler.js";
 import type * as agents_HistorySynthesizer from "../agents/HistorySynthesizer.js";
 import type * as agents_PRAnalyzer from "../agents/PRAnalyzer.js";
 import type * as agents_RepoAssistant from "../agents/RepoAssistant.js";
 import type * as agents_RepoSnapshotAgent from "../agents/RepoSnapshotAgent.js";
+import type * as analysisJobs from "../analysisJobs.js";
 import type * as app from "../app.js";
+import type * as callTranscripts from "../callTranscripts.js";
 import type * as calls from "../calls.js";
+import type * as commits from "../commits.js";
+import type * as contributorStats from "../contributorStats.js";
 import type * as crons from "../crons.js";
+import type * as evals from "../evals.js";
 import type * as github from "../github.js";
+import type * as githubPublish from "../githubPublish.js";
+import type * as githubTokens from "../githubTokens.js";
+import type * as githubWebhooks from "../githubWebhooks.js";
+import type * as http from "../http.js";
+import type * as llmUsage from "../llmUsage.js";
+import type * as modelSettings from "../modelSettings.js";
 import type * as prAgent from "../prAgent.js";
 import type * as repoAssistant from "../repoAssistant.js";
+import type * as repoDeletion from "../repoDeletion.js";
+import type * as repoSnapshots from "../repoSnapshots.js";
 import type * as repos from "../repos.js";
+import type * as reviewers from "../reviewers.js";
+import type * as search from "../search.js";
+import type * as techStack from "../techStack.js";
+import type * as transcriptValidators from "../transcriptValidators.js";
+import type * as workspaces from "../workspaces.js";
 
 import type {
   ApiFromModules,
@@ -29,19 +49,39 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  access: typeof access;
+  agentProvenance: typeof agentProvenance;
   "agents/CallSummarizer": typeof agents_CallSummarizer;
   "agents/ContributorProfiler": typeof agents_ContributorProfiler;
   "agents/HistorySynthesizer": typeof agents_HistorySynthesizer;
   "agents/PRAnalyzer": typeof agents_PRAnalyzer;
   "agents/RepoAssistant": typeof agents_RepoAssistant;
   "agents/RepoSnapshotAgent": typeof agents_RepoSnapshotAgent;
+  analysisJobs: typeof analysisJobs;
   app: typeof app;
+  callTranscripts: typeof callTranscripts;
   calls: typeof calls;
+  commits: typeof commits;
+  contributorStats: typeof contributorStats;
   crons: typeof crons;
+  evals: typeof evals;
   github: typeof github;
+  githubPublish: typeof githubPublish;
+  githubTokens: typeof githubTokens;
+  githubWebhooks: typeof githubWebhooks;
+  http: typeof http;
+  llmUsage: typeof llmUsage;
+  modelSettings: typeof modelSettings;
   prAgent: typeof prAgent;
   repoAssistant: typeof repoAssistant;
+  repoDeletion: typeof repoDeletion;
+  repoSnapshots: typeof repoSnapshots;
   repos: typeof repos;
+  reviewers: typeof reviewers;
+  search: typeof search;
+  techStack: typeof techStack;
+  transcriptValidators: typeof transcriptValidators;
+  workspaces: typeof workspaces;
 }>;
 
 /**
@@ -0,0 +1,93 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { addMember, createRepo, createUser, modules } from "./test.setup";
+import { getRepoRole, hasRole, requireRepoAccess } from "./access";
+
+describe("hasRole", () => {
+  test("ranks owner > admin > member > viewer", () => {
+    expect(hasRole("owner", "admin")).toBe(true);
+    expect(hasRole("admin", "admin")).toBe(true);
+    expect(hasRole("member", "admin")).toBe(false);
+    expect(hasRole("viewer", "member")).toBe(false);
+    expect(hasRole("viewer", "viewer")).toBe(true);
+  });
+});
+
+describe("getRepoRole", () => {
+  test("uses the role in the repo's workspace", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const bob = await createUser(t, "bob");
+    const carol = await createUser(t, "carol");
+    await addMember(t, alice.workspaceId, carol.userId, "viewer");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+
+    const roles = await t.run(async (ctx) => {
+      const repo = (await ctx.db.get(repoId))!;
+      return Promise.all(
+        [alice, bob, carol].map(async ({ userId }) =>
+          getRepoRole(ctx, (await ctx.db.get(userId))!, repo)
+        )
+      );
+    });
+    expect(roles).toEqual(["owner", null, "viewer"]);
+  });
+
+  test("only the owner can access a repo without a workspace", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const bob = await createUser(t, "bob");
+    const repoId = await createRepo(t, alice.userId);
+
+    const roles = await t.run(async (ctx) => {
+      const repo = (await ctx.db.get(repoId))!;
+      return Promise.all(
+        [alice, bob].map(async ({ userId }) =>
+          getRepoRole(ctx, (await ctx.db.get(userId))!, repo)
+        )
+      );
+    });
+    expect(roles).toEqual(["owner", null]);
+  });
+});
+
+describe("requireRepoAccess", () => {
+  test("throws for a user outside the repo's workspace", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const bob = await createUser(t, "bob");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+
+    await expect(
+      bob.as.run((ctx) => requireRepoAccess(ctx, repoId))
+    ).rejects.toThrow("Not authorized to access this repo");
+    const repo = await alice.as.run((ctx) => requireRepoAccess(ctx, repoId));
+    expect(repo?._id).toBe(repoId);
+  });
+
+  test("throws when signed out", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+
+    await expect(
+      t.run((ctx) => requireRepoAccess(ctx, repoId))
+    ).rejects.toThrow("Not authenticated");
+  });
+
+  test("enforces the minimum role", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const bob = await createUser(t, "bob");
+    await addMember(t, alice.workspaceId, bob.userId, "viewer");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+
+    expect(
+      (await bob.as.run((ctx) => requireRepoAccess(ctx, repoId)))?._id
+    ).toBe(repoId);
+    await expect(
+      bob.as.run((ctx) => requireRepoAccess(ctx, repoId, "member"))
+    ).rejects.toThrow("Not authorized to access this repo");
+  });
+});
@@ -0,0 +1,142 @@
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+// Access control shared by public queries and mutations. Every public
+// function resolves the caller's `users` row and checks their role in the
+// workspace that owns the repo before touching repo data; internal
+// functions (workflows, agents, webhooks) are trusted and skip these
+// checks.
+
+export type WorkspaceRole = Doc<"workspaceMembers">["role"];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/** Whether `role` grants at least the permissions of `minimumRole`. */
+export function hasRole(role: WorkspaceRole, minimumRole: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+/** The caller's `users` row, or null when signed out or not yet created. */
+export async function getCurrentUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+
+  return ctx.db
+    .query("users")
+    .withIndex("byExternalAuthId", (q) =>
+      q.eq("externalAuthId", identity.subject)
+    )
+    .unique();
+}
+
+/** The caller's `users` row; throws when signed out. */
+export async function requireCurrentUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return user;
+}
+
+/** A user's membership row in a workspace, if any. */
+export async function getWorkspaceMembership(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  userId: Id<"users">
+) {
+  return ctx.db
+    .query("workspaceMembers")
+    .withIndex("byWorkspaceAndUser", (q) =>
+      q.eq("workspaceId", workspaceId).eq("userId", userId)
+    )
+    .unique();
+}
+
+/**
+ * Resolve the caller and their membership in a workspace, throwing unless
+ * they hold at least `minimumRole` there.
+ */
+export async function requireWorkspaceRole(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  minimumRole: WorkspaceRole = "viewer"
+) {
+  const user = await requireCurrentUser(ctx);
+
+  const membership = await getWorkspaceMembership(ctx, workspaceId, user._id);
+  if (!membership || !hasRole(membership.role, minimumRole)) {
+    throw new Error("Not authorized for this workspace");
+  }
+  return { user, membership };
+}
+
+/**
+ * The role `user` holds on `repo`: their role in the owning workspace, or
+ * "owner" for the user who connected a repo that predates workspaces.
+ */
+export async function getRepoRole(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  repo: Doc<"repos">
+): Promise<WorkspaceRole | null> {
+  if (!repo.workspaceId) {
+    return repo.ownerUserId === user._id ? "owner" : null;
+  }
+
+  const membership = await getWorkspaceMembership(
+    ctx,
+    repo.workspaceId,
+    user._id
+  );
+  return membership?.role ?? null;
+}
+
+/**
+ * Load a repo the caller holds at least `minimumRole` on. Returns null
+ * when the repo does not exist (e.g. it was just deleted), so list
+ * queries come back empty rather than failing; throws when the caller
+ * lacks access.
+ */
+export async function requireRepoAccess(
+  ctx: QueryCtx,
+  repoId: Id<"repos">,
+  minimumRole: WorkspaceRole = "viewer"
+) {
+  const user = await requireCurrentUser(ctx);
+
+  const repo = await ctx.db.get(repoId);
+  if (!repo) return null;
+
+  const role = await getRepoRole(ctx, user, repo);
+  if (!role || !hasRole(role, minimumRole)) {
+    throw new Error("Not authorized to access this repo");
+  }
+  return repo;
+}
+
+/**
+ * Access check for a document that belongs to a repo (a PR, analysis,
+ * call, ...). Returns the document, or null when it or its repo is gone.
+ */
+export async function requireRepoDocAccess<
+  T extends { repoId: Id<"repos"> },
+>(
+  ctx: QueryCtx,
+  doc: T | null,
+  minimumRole: WorkspaceRole = "viewer"
+): Promise<T | null> {
+  if (!doc) return null;
+
+  const repo = await requireRepoAccess(ctx, doc.repoId, minimumRole);
+  return repo ? doc : null;
+}
@@ -0,0 +1,45 @@
+import { v, type Infer } from "convex/values";
+import type { Agent } from "@convex-dev/agent";
+import type { ProviderLanguageModel } from "../lib/modelProviders";
+
+/**
+ * Which agent, prompt version and model produced a persisted result.
+ * Prompt versions are declared next to each agent's prompt builder and
+ * bumped whenever its instructions or prompt template change.
+ */
+export const agentProvenance = v.object({
+  agentName: v.string(),
+  promptVersion: v.number(),
+  model: v.string(),
+});
+
+export type AgentProvenance = Infer<typeof agentProvenance>;
+
+export function agentProvenanceFor(
+  agent: Agent,
+  promptVersion: number,
+  model: ProviderLanguageModel
+): AgentProvenance {
+  return {
+    agentName: agent.options.name,
+    promptVersion,
+    model: model.modelId,
+  };
+}
+
+// Results from before versioning have no provenance and count as outdated.
+export function isOutdated(
+  generatedBy: AgentProvenance | undefined,
+  currentPromptVersion: number
+) {
+  return !generatedBy || generatedBy.promptVersion < currentPromptVersion;
+}
+
+/**
+ * The provenance an agent call put on its tool ctx. Workflows call agents
+ * with `{ ...ctx, generatedBy }` so tools that persist results can stamp
+ * them without the model having to pass it along.
+ */
+export function toolProvenance(ctx: object): AgentProvenance | undefined {
+  return (ctx as { generatedBy?: AgentProvenance }).generatedBy;
+}
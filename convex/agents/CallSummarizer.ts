@@ -1,8 +1,32 @@
 import { Agent, createTool } from "@convex-dev/agent";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
-import { api, components } from "../_generated/api";
+import { components, internal } from "../_generated/api";
 import type { Id } from "../_generated/dataModel";
+import { languageModelFor } from "../../lib/modelProviders";
+import { toolProvenance } from "../agentProvenance";
+import { parseTimestamp } from "../../lib/transcripts";
+
+const transcriptSpanArg = z
+  .object({
+    start: z.string().describe("Timestamp of the first line, e.g. '12:05'."),
+    end: z.string().describe("Timestamp of the last line, e.g. '13:40'."),
+  })
+  .optional()
+  .describe(
+    "The transcript lines this was derived from, by their [m:ss] timestamps.",
+  );
+
+// The span in seconds, or undefined when the timestamps are malformed.
+function toTranscriptSpan(span: z.infer<typeof transcriptSpanArg>) {
+  if (!span) return undefined;
+  const startSecond = parseTimestamp(span.start);
+  const endSecond = parseTimestamp(span.end);
+  if (startSecond === null || endSecond === null) return undefined;
+  return {
+    startSecond: Math.min(startSecond, endSecond),
+    endSecond: Math.max(startSecond, endSecond),
+  };
+}
 
 /**
  * Tool: saveCallInsights
@@ -37,6 +61,7 @@ export const saveCallInsights = createTool({
             .string()
             .optional()
             .describe("Optional file path mentioned in the item (e.g. 'src/api/user.ts')."),
+          transcriptSpan: transcriptSpanArg,
         }),
       )
       .default([])
@@ -55,6 +80,7 @@ export const saveCallInsights = createTool({
             .describe(
               "Unix timestamp (ms) when this decision roughly happened.",
             ),
+          transcriptSpan: transcriptSpanArg,
         }),
       )
       .default([])
@@ -68,19 +94,21 @@ export const saveCallInsights = createTool({
     const typedCallId = callId as Id<"calls">;
 
     // Update the call with summary and tags.
-    await ctx.runMutation(api.app.updateCall, {
+    await ctx.runMutation(internal.app.updateCall, {
       callId: typedCallId,
       shortSummary: summary,
       tags,
+      generatedBy: toolProvenance(ctx),
     });
 
     // Create call action items.
     for (const item of actionItems) {
-      await ctx.runMutation(api.app.createCallActionItem, {
+      await ctx.runMutation(internal.app.createCallActionItem, {
         callId: typedCallId,
         description: item.description,
         status: item.status,
         filePath: item.filePath,
+        transcriptSpan: toTranscriptSpan(item.transcriptSpan),
         pullRequestId: undefined,
         repoContributorId: undefined,
       });
@@ -89,7 +117,7 @@ export const saveCallInsights = createTool({
     // Create history checkpoints tied to this call.
     const now = Date.now();
     for (const cp of historyCheckpoints) {
-      await ctx.runMutation(api.app.createHistoryCheckpoint, {
+      await ctx.runMutation(internal.app.createHistoryCheckpoint, {
         repoId: typedRepoId,
         title: cp.title,
         description: cp.description,
@@ -97,7 +125,9 @@ export const saveCallInsights = createTool({
         prAnalysisId: undefined,
         analysisSessionId: undefined,
         callId: typedCallId,
+        transcriptSpan: toTranscriptSpan(cp.transcriptSpan),
         eventAt: cp.eventAt ?? now,
+        generatedBy: toolProvenance(ctx),
       });
     }
 
@@ -105,6 +135,34 @@ export const saveCallInsights = createTool({
   },
 });
 
+// Version of the call summary prompt and instructions; bump on changes.
+export const CALL_SUMMARY_PROMPT_VERSION = 2;
+
+/**
+ * The prompt for summarizing one call from its transcript and repo
+ * context. The input must carry the `repoId` and `callId` the tool call
+ * should use.
+ */
+export function buildCallSummaryPrompt(callInput: {
+  repoId: string;
+  callId: string;
+  transcript: string;
+}) {
+  return [
+    "You are the Call Summarizer agent.",
+    "You are given JSON describing a single engineering call for a repository.",
+    "Use the transcript and context to derive a short summary, useful tags, concrete action items, and any noteworthy decisions.",
+    "Each transcript line starts with its [m:ss] timestamp and, when known, the speaker. Give every action item and decision the `transcriptSpan` of the lines it came from.",
+    "",
+    "CRITICAL: When you are ready, call the `saveCallInsights` tool EXACTLY ONCE",
+    "using the provided `repoId` and `callId` fields from the JSON below.",
+    "Do not invent ids; use them as-is.",
+    "",
+    "Here is the input JSON:",
+    JSON.stringify(callInput),
+  ].join("\n\n");
+}
+
 /**
  * Call Summarizer Agent
  *
@@ -114,10 +172,10 @@ export const saveCallInsights = createTool({
  */
 export const callSummarizerAgent = new Agent(components.agent, {
   name: "Call Summarizer",
-  languageModel: openai.chat("gpt-4o-mini"),
+  languageModel: languageModelFor("callSummarizer"),
   instructions: [
     "You are an engineering meeting note-taker and call summarizer.",
-    "You will be given JSON describing a single repository call: repo metadata and the full transcript.",
+    "You will be given JSON describing a single repository call: repo metadata and the full transcript, one timestamped line per speaker turn.",
     "Your job is to extract: (1) a concise summary, (2) 0–8 short tags, (3) a small list of concrete action items, and (4) any decisions that deserve history checkpoints.",
     "Then you MUST call the `saveCallInsights` tool EXACTLY ONCE with your structured result.",
     "Be conservative about what counts as a 'decision' worthy of a history checkpoint.",
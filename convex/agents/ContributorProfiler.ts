@@ -1,8 +1,9 @@
 import { Agent, createTool } from "@convex-dev/agent";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
-import { api, components } from "../_generated/api";
+import { components, internal } from "../_generated/api";
 import type { Id } from "../_generated/dataModel";
+import { languageModelFor } from "../../lib/modelProviders";
+import { toolProvenance } from "../agentProvenance";
 
 /**
  * Tool: saveRepoContributorProfile
@@ -51,7 +52,7 @@ export const saveRepoContributorProfile = createTool({
       profileSummary,
     },
   ): Promise<{ repoContributorId: Id<"repoContributors"> }> => {
-    const id = await ctx.runMutation(api.app.upsertRepoContributor, {
+    const id = await ctx.runMutation(internal.app.upsertRepoContributor, {
       // The Convex client in tools uses plain string ids; cast to Id here.
       repoId: repoId as Id<"repos">,
       contributorId: contributorId as Id<"contributors">,
@@ -59,24 +60,50 @@ export const saveRepoContributorProfile = createTool({
       seniority,
       mainAreas,
       profileSummary,
+      generatedBy: toolProvenance(ctx),
     });
     return { repoContributorId: id };
   },
 });
 
+// Version of the profiling prompt and instructions; bump on changes.
+export const CONTRIBUTOR_PROFILE_PROMPT_VERSION = 1;
+
+/**
+ * The prompt for profiling one contributor from the JSON summary of their
+ * PRs, reviews and owned paths in a repo. The summary must carry
+ * `repo.repoId` and `contributor.contributorId` for the tool call.
+ */
+export function buildContributorProfilePrompt(contributionSummary: object) {
+  return [
+    "You are the Contributor Profiler agent.",
+    "You will be given JSON describing a single contributor's behavior in this repository.",
+    "Your job is to infer their primary role, seniority, main areas of ownership, and a short profile summary.",
+    "Weigh `reviewActivity` alongside authored PRs: reviewing and approving others' changes in an area is evidence of ownership and seniority too.",
+    "Base `mainAreas` primarily on `ownedPaths` when present, since it reflects every commit rather than only PRs.",
+    "",
+    "CRITICAL: When you are ready, call the `saveRepoContributorProfile` tool EXACTLY ONCE",
+    "using the provided `repoId` and `contributorId` fields from the JSON below.",
+    "Do not invent ids; use them as-is.",
+    "",
+    "Here is the input JSON:",
+    JSON.stringify(contributionSummary),
+  ].join("\n\n");
+}
+
 /**
  * Contributor Profiler Agent
  *
- * Given a JSON summary of a contributor's PRs, affected paths and stats
- * for a single repo, this agent decides on role, seniority and
+ * Given a JSON summary of a contributor's PRs, reviews, affected paths
+ * and stats for a single repo, this agent decides on role, seniority and
  * ownership areas, then calls `saveRepoContributorProfile` once.
  */
 export const contributorProfilerAgent = new Agent(components.agent, {
   name: "Contributor Profiler",
-  languageModel: openai.chat("gpt-4o-mini"),
+  languageModel: languageModelFor("contributorProfiler"),
   instructions: [
     "You profile engineers based on their code contributions in a single repository.",
-    "You will be given JSON describing one contributor: their PRs, basic stats and the paths they tend to touch.",
+    "You will be given JSON describing one contributor: their PRs, basic stats, the paths they tend to touch and the reviews they give on others' PRs.",
     "Infer: primary role (frontend/backend/fullstack/infra/data/other), seniority (junior/mid/senior/lead/principal/other),",
     "their main areas of ownership (as string labels), and a short 1–2 sentence profile summary.",
     "Then call the `saveRepoContributorProfile` tool exactly once with your inferred values.",
@@ -1,18 +1,36 @@
 import { Agent, createTool } from "@convex-dev/agent";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
-import { api, components } from "../_generated/api";
-import type { Id } from "../_generated/dataModel";
+import { components, internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import { languageModelFor } from "../../lib/modelProviders";
+import { isOutdated, toolProvenance } from "../agentProvenance";
+import { isSynthesizedSourceType } from "../../lib/historyCheckpoints";
+
+export type SynthesisWindow = { windowStart: number; windowEnd: number };
+
+/**
+ * The window a synthesis run covers. Workflows call the agent with
+ * `{ ...ctx, synthesisWindow }`, so the tool does not depend on the model
+ * copying timestamps correctly.
+ */
+function synthesisWindow(ctx: object): SynthesisWindow {
+  const window = (ctx as { synthesisWindow?: SynthesisWindow })
+    .synthesisWindow;
+  if (!window) {
+    throw new Error("History synthesis window missing from the tool context");
+  }
+  return window;
+}
 
 /**
  * Tool: saveHistoryCheckpoints
  *
- * Given a synthesized list of history checkpoints for a repo, insert
- * them into the historyCheckpoints table.
+ * Given a synthesized list of history checkpoints for a repo, replace the
+ * synthesized checkpoints of the window being summarized with them.
  */
 export const saveHistoryCheckpoints = createTool({
   description:
-    "Insert a small set of synthesized history checkpoints for a repository.",
+    "Save the synthesized history checkpoints for the window being summarized, replacing earlier ones for that window.",
   args: z.object({
     repoId: z.string().describe("Convex id of the repo (as string)."),
     checkpoints: z
@@ -27,7 +45,17 @@ export const saveHistoryCheckpoints = createTool({
             .number()
             .optional()
             .describe(
-              "Unix timestamp (ms) when this milestone roughly occurred. If omitted, now() is used.",
+              "Unix timestamp (ms) when this milestone roughly occurred, within the window. If omitted, the end of the window is used.",
+            ),
+          prAnalysisIds: z
+            .array(z.string())
+            .describe(
+              "`_id` values of the input prAnalyses this milestone summarizes, copied as-is.",
+            ),
+          callIds: z
+            .array(z.string())
+            .describe(
+              "`_id` values of the input calls this milestone summarizes, copied as-is.",
             ),
         }),
       )
@@ -35,27 +63,58 @@ export const saveHistoryCheckpoints = createTool({
       .max(10)
       .describe("3–10 key checkpoints to store."),
   }),
-  handler: async (ctx, { repoId, checkpoints }) => {
-    const typedRepoId = repoId as Id<"repos">;
-    const now = Date.now();
-
-    for (const cp of checkpoints) {
-      await ctx.runMutation(api.app.createHistoryCheckpoint, {
-        repoId: typedRepoId,
-        title: cp.title,
-        description: cp.description,
-        sourceType: "manual",
-        prAnalysisId: undefined,
-        analysisSessionId: undefined,
-        callId: undefined,
-        eventAt: cp.eventAt ?? now,
-      });
-    }
-
-    return { count: checkpoints.length };
+  handler: async (
+    ctx,
+    { repoId, checkpoints },
+  ): Promise<{ inserted: number; merged: number; replaced: number }> => {
+    return ctx.runMutation(
+      internal.app.replaceSynthesizedHistoryCheckpoints,
+      {
+        repoId: repoId as Id<"repos">,
+        ...synthesisWindow(ctx),
+        checkpoints,
+        generatedBy: toolProvenance(ctx),
+      },
+    );
   },
 });
 
+// Version of the synthesis prompt and instructions, stored on every
+// synthesized checkpoint. Bump it when either changes; "re-analyze
+// outdated" then replaces checkpoints from older versions.
+export const HISTORY_SYNTHESIS_PROMPT_VERSION = 2;
+
+// Checkpoints from snapshots and calls are not re-synthesized.
+export function isOutdatedSynthesizedCheckpoint(
+  checkpoint: Pick<Doc<"historyCheckpoints">, "sourceType" | "generatedBy">
+) {
+  return (
+    isSynthesizedSourceType(checkpoint.sourceType) &&
+    isOutdated(checkpoint.generatedBy, HISTORY_SYNTHESIS_PROMPT_VERSION)
+  );
+}
+
+/**
+ * The prompt for synthesizing checkpoints from one window of raw repo
+ * events. The input must carry the `repoId` the tool call should use.
+ */
+export function buildHistorySynthesisPrompt(synthesisInput: {
+  repoId: string;
+}) {
+  return [
+    "You are the History Synthesis agent.",
+    "You are given JSON with recent raw events for a repository.",
+    "Pick 3–10 of the most important milestones that summarize this window.",
+    "`historyCheckpoints` are milestones already recorded from snapshots and calls; do not restate them.",
+    "",
+    "CRITICAL: When you are ready, call the `saveHistoryCheckpoints` tool EXACTLY ONCE",
+    "with your synthesized checkpoints. Use the provided repoId as-is.",
+    "",
+    "Here is the input JSON:",
+    JSON.stringify(synthesisInput),
+  ].join("\n\n");
+}
+
 /**
  * History Synthesis Agent
  *
@@ -64,12 +123,13 @@ export const saveHistoryCheckpoints = createTool({
  */
 export const historySynthesisAgent = new Agent(components.agent, {
   name: "History Synthesis Agent",
-  languageModel: openai.chat("gpt-4o-mini"),
+  languageModel: languageModelFor("historySynthesis"),
   instructions: [
     "You compress raw development activity into a concise history timeline.",
     "You will be given JSON containing a repository id and arrays of PR analyses, analysis sessions, calls and existing checkpoints for a time window.",
     "Choose the 3–10 most important milestones that a future engineer should know about.",
-    "For each, create a short title and a 1–3 sentence description, and pick a representative timestamp.",
+    "For each, create a short title and a 1–3 sentence description, pick a representative timestamp, and list the ids of the PR analyses and calls it is based on.",
+    "Each milestone should be distinct; do not emit two checkpoints about the same change.",
     "Then call the `saveHistoryCheckpoints` tool exactly once with your synthesized checkpoints.",
   ].join(" "),
   tools: {
@@ -1,8 +1,9 @@
 import { Agent, createTool } from "@convex-dev/agent";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
 import { components, internal } from "../_generated/api";
-import type { Id } from "../_generated/dataModel";
+import type { Doc, Id } from "../_generated/dataModel";
+import { languageModelFor } from "../../lib/modelProviders";
+import { isOutdated } from "../agentProvenance";
 
 /**
  * Tool: syncGithubPullRequest
@@ -114,14 +115,99 @@ export const syncGithubPullRequest = createTool({
       internal.github.syncPullRequestFromGithub,
       args
     );
+    if (!result) {
+      throw new Error(`Repo ${args.repo.githubRepoId} is not tracked`);
+    }
     return result;
   },
 });
 
+/**
+ * Output of a PR analysis, generated with schema-constrained structured
+ * output and mirroring the model-written fields of `prAnalyses`. Files
+ * changed and impacted paths are derived from the diff, not the model.
+ */
+export const prAnalysisResultSchema = z.object({
+  summary: z
+    .string()
+    .trim()
+    .min(1)
+    .max(4000)
+    .describe(
+      "A concise review-oriented summary of what the PR changes and what could break."
+    ),
+  riskLevel: z
+    .enum(["low", "medium", "high", "critical"])
+    .describe("Overall risk of merging the PR, judged from the changed code."),
+});
+
+export type PrAnalysisResult = z.infer<typeof prAnalysisResultSchema>;
+
+// Version of the PR analysis prompt and `prRiskAnalyzerAgent`'s
+// instructions, stored on every prAnalyses row. Bump it when either
+// changes so older analyses can be found and re-run.
+export const PR_ANALYSIS_PROMPT_VERSION = 2;
+
+/** Whether a finished analysis came from an older prompt version. */
+export function isOutdatedPrAnalysis(
+  analysis: Pick<Doc<"prAnalyses">, "status" | "generatedBy">
+) {
+  return (
+    (analysis.status === "completed" || analysis.status === "failed") &&
+    isOutdated(analysis.generatedBy, PR_ANALYSIS_PROMPT_VERSION)
+  );
+}
+
+export type PrAnalysisInput = {
+  title: string;
+  body: string | null;
+  repoName: string;
+  repoOwner: string;
+  files: {
+    filename: string;
+    status: string;
+    additions: number;
+    deletions: number;
+  }[];
+  changedSinceLastAnalysis: string[] | null;
+  truncatedFiles: string[];
+  omittedFiles: string[];
+};
+
+/**
+ * The structured-output prompt for analyzing one PR, followed by its
+ * (possibly truncated) patch chunks.
+ */
+export function buildPrAnalysisPrompt(
+  input: PrAnalysisInput,
+  patchChunks: string[]
+) {
+  return [
+    "Input shape:",
+    "{",
+    '  "title": string,',
+    '  "body": string | null,',
+    '  "repoName": string,',
+    '  "repoOwner": string,',
+    '  "files": { "filename": string, "status": string, "additions": number, "deletions": number }[],',
+    '  "changedSinceLastAnalysis": string[] | null,',
+    '  "truncatedFiles": string[],',
+    '  "omittedFiles": string[]',
+    "}",
+    "",
+    "Here is the PR JSON:",
+    JSON.stringify(input),
+    ...patchChunks.map(
+      (chunk, index, all) =>
+        `\nPatch chunk ${index + 1}/${all.length}:\n${chunk}`
+    ),
+  ].join("\n");
+}
+
 /**
  * PRAnalyzer Agent
  *
- * High-level agent that knows how to take GitHub PR data and
+ * Ingestion agent that knows how to take GitHub PR data and
  * keep your Convex schema in sync via tools.
  *
  * You can call this from a Convex action, passing GitHub webhook
@@ -130,7 +216,7 @@ export const syncGithubPullRequest = createTool({
  */
 export const prAnalyzerAgent = new Agent(components.agent, {
   name: "Pull Request Analyzer",
-  languageModel: openai.chat("gpt-4o-mini"),
+  languageModel: languageModelFor("prAnalyzer"),
   instructions: [
     "You are an expert GitHub pull request ingestion agent.",
     "You are given structured data from the GitHub API for a single pull request.",
@@ -144,3 +230,22 @@ export const prAnalyzerAgent = new Agent(components.agent, {
   maxSteps: 3,
 });
 
+/**
+ * PR Risk Analyzer Agent
+ *
+ * Reviews one PR's changes and answers with a `prAnalysisResultSchema`
+ * object (see `buildPrAnalysisPrompt`). It has no tools: PR analysis
+ * stores the structured output itself, and the `pr_risk` eval suite runs
+ * the same instructions and prompt.
+ */
+export const prRiskAnalyzerAgent = new Agent(components.agent, {
+  name: "Pull Request Risk Analyzer",
+  languageModel: languageModelFor("prAnalyzer"),
+  instructions: [
+    "You are an expert code reviewer assessing the risk of merging a single GitHub pull request.",
+    "You are given structured data for the PR, the files it changes and (possibly truncated) unified diffs.",
+    "Base the risk level on the code that actually changed, not only the title and description.",
+    "Summarize what the PR changes and what could break, concisely and for a reviewer.",
+    "Files listed as truncated or omitted were not shown in full; do not guess at their contents.",
+  ].join(" "),
+});
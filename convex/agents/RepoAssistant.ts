@@ -1,36 +1,79 @@
 import { Agent, createTool } from "@convex-dev/agent";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
-import { api, components } from "../_generated/api";
-import type { Id } from "../_generated/dataModel";
+import { components, internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import { searchRepoDocuments } from "../search";
+import type { AssistantCitation } from "../../lib/assistantCitations";
+import { languageModelFor } from "../../lib/modelProviders";
+
+/**
+ * The repo a conversation is about. `askRepoAssistant` calls the agent
+ * with `{ ...ctx, repoId }` after checking the caller's access, so tools
+ * only ever read that repo, whatever id the model might make up.
+ */
+function assistantRepoId(ctx: object): Id<"repos"> {
+  const { repoId } = ctx as { repoId?: Id<"repos"> };
+  if (!repoId) {
+    throw new Error("Repo assistant tools need a repoId on their ctx");
+  }
+  return repoId;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What the retrieval tools return to the model: records with `ref`s, and
+// the citations for those refs. This module is part of the `internal` API
+// the tools query, so their results and query results are annotated
+// rather than inferred.
+type CitedToolResult = {
+  citations: AssistantCitation[];
+  [key: string]: unknown;
+};
+type PullRequestWithAuthor = Doc<"pullRequests"> & { authorLogin: string | null };
+type PathOwnerRow = Doc<"pathOwnership"> & {
+  contributor: Doc<"contributors"> | null;
+};
+type ContributorDetail = {
+  repoContributor: Doc<"repoContributors">;
+  contributor: Doc<"contributors">;
+};
+type OpenActionItem = Doc<"callActionItems"> & { callStartTime: number };
+
+function truncate(text: string | undefined, length = 400) {
+  if (!text) return null;
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
 
 export const getRepoContext = createTool({
   description:
-    "Fetch high-level context about a single repository (metadata, tech stack, and basic stats).",
-  args: z.object({
-    repoId: z
-      .string()
-      .describe(
-        "Convex document id for the repo (as a string, e.g. 'r123...').",
-      ),
-  }),
-  handler: async (ctx, { repoId }) => {
-    const id = repoId as Id<"repos">;
+    "Fetch high-level context about the repository (metadata, tech stack, directory ownership, and basic stats).",
+  args: z.object({}),
+  handler: async (ctx) => {
+    const id = assistantRepoId(ctx);
 
-    const repo = await ctx.runQuery(api.app.getRepo, { repoId: id });
+    const repo = await ctx.runQuery(internal.app.getRepoInternal, { repoId: id });
     if (!repo) {
       return { exists: false };
     }
 
-    const [techStack, pullRequests, contributors, calls, analyses] =
+    const [techStack, pullRequests, contributors, calls, analyses, owners] =
       await Promise.all([
-        ctx.runQuery(api.app.listTechStackItemsForRepo, { repoId: id }),
-        ctx.runQuery(api.app.listPullRequestsForRepo, { repoId: id }),
-        ctx.runQuery(api.app.listRepoContributorsDetailed, { repoId: id }),
-        ctx.runQuery(api.app.listCallsForRepo, { repoId: id }),
-        ctx.runQuery(api.app.listAnalysisSessionsForRepo, { repoId: id }),
+        ctx.runQuery(internal.app.listTechStackItemsForRepoInternal, { repoId: id }),
+        ctx.runQuery(internal.app.listPullRequestsForRepoInternal, { repoId: id }),
+        ctx.runQuery(internal.app.listRepoContributorsDetailedInternal, { repoId: id }),
+        ctx.runQuery(internal.app.listCallsForRepoInternal, { repoId: id }),
+        ctx.runQuery(internal.app.listAnalysisSessionsForRepoInternal, { repoId: id }),
+        ctx.runQuery(internal.app.listPathOwnersForRepo, { repoId: id }),
       ]);
 
+    // Top owners per directory, e.g. { "convex/agents": ["alice", "bob"] }.
+    const ownership: Record<string, string[]> = {};
+    for (const row of owners) {
+      const login = row.contributor?.login;
+      if (!login) continue;
+      (ownership[row.pathPrefix] ??= []).push(login);
+    }
+
     return {
       exists: true,
       repo: {
@@ -45,8 +88,18 @@ export const getRepoContext = createTool({
         version: item.version ?? null,
         itemType: item.itemType,
       })),
+      ownership,
       stats: {
         prCount: pullRequests.length,
+        openPrCount: pullRequests.filter(
+          (pr: Doc<"pullRequests">) => pr.status === "open",
+        ).length,
+        mergedPrCount: pullRequests.filter(
+          (pr: Doc<"pullRequests">) => pr.status === "merged",
+        ).length,
+        closedPrCount: pullRequests.filter(
+          (pr: Doc<"pullRequests">) => pr.status === "closed",
+        ).length,
         contributorCount: contributors.length,
         callCount: calls.length,
         analysisCount: analyses.length,
@@ -55,20 +108,351 @@ export const getRepoContext = createTool({
   },
 });
 
+function isoDate(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+const getPullRequest = createTool({
+  description:
+    "Look up one pull request by number, with its latest analysis (summary, risk level and impacted paths).",
+  args: z.object({
+    prNumber: z.number().int().describe("The PR number, e.g. 42 for PR #42."),
+  }),
+  handler: async (ctx, { prNumber }): Promise<CitedToolResult> => {
+    const repoId = assistantRepoId(ctx);
+    const pr: PullRequestWithAuthor | null = await ctx.runQuery(
+      internal.app.getPullRequestByNumberInternal,
+      { repoId, prNumber },
+    );
+    if (!pr) {
+      return { exists: false, citations: [] };
+    }
+
+    const [repo, analyses]: [Doc<"repos"> | null, Doc<"prAnalyses">[]] =
+      await Promise.all([
+        ctx.runQuery(internal.app.getRepoInternal, { repoId }),
+        ctx.runQuery(internal.app.listPrAnalysesForPullRequest, {
+          pullRequestId: pr._id,
+        }),
+      ]);
+    const analysis = analyses
+      .filter((row) => row.status === "completed")
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+
+    const citations: AssistantCitation[] = [
+      {
+        ref: `pr:${pr.prNumber}`,
+        sourceType: "pull_request",
+        label: `#${pr.prNumber} ${pr.title}`,
+        pullRequestId: pr._id,
+        url: repo ? `${repo.url}/pull/${pr.prNumber}` : undefined,
+      },
+    ];
+    if (analysis) {
+      citations.push({
+        ref: `analysis:${analysis._id}`,
+        sourceType: "pr_analysis",
+        label: `Analysis of #${pr.prNumber}`,
+        pullRequestId: pr._id,
+      });
+    }
+
+    return {
+      exists: true,
+      pullRequest: {
+        ref: `pr:${pr.prNumber}`,
+        number: pr.prNumber,
+        title: pr.title,
+        author: pr.authorLogin,
+        status: pr.status,
+        createdAt: isoDate(pr.createdAt),
+        mergedAt: pr.mergedAt ? isoDate(pr.mergedAt) : null,
+        description: truncate(pr.body),
+        additions: pr.additions ?? null,
+        deletions: pr.deletions ?? null,
+      },
+      latestAnalysis: analysis
+        ? {
+            ref: `analysis:${analysis._id}`,
+            riskLevel: analysis.riskLevel ?? null,
+            summary: analysis.summary ?? null,
+            impactedPaths: analysis.impactedPaths ?? [],
+            analyzedAt: isoDate(analysis.createdAt),
+          }
+        : null,
+      citations,
+    };
+  },
+});
+
+const listContributorsByArea = createTool({
+  description:
+    "List who owns or works on an area of the repository, such as a directory ('convex/billing'), a module name ('billing') or a role ('frontend').",
+  args: z.object({
+    area: z
+      .string()
+      .describe("A path prefix, module name or role to match, e.g. 'billing'."),
+  }),
+  handler: async (ctx, { area }): Promise<CitedToolResult> => {
+    const repoId = assistantRepoId(ctx);
+    const needle = area.trim().toLowerCase();
+    const matches = (value: string | undefined | null) =>
+      Boolean(value && needle && value.toLowerCase().includes(needle));
+
+    const [owners, contributors]: [PathOwnerRow[], ContributorDetail[]] =
+      await Promise.all([
+        ctx.runQuery(internal.app.listPathOwnersForRepo, { repoId }),
+        ctx.runQuery(internal.app.listRepoContributorsDetailedInternal, {
+          repoId,
+        }),
+      ]);
+
+    return {
+      pathOwners: owners
+        .filter(
+          (row) =>
+            matches(row.pathPrefix) ||
+            needle.startsWith(`${row.pathPrefix.toLowerCase()}/`),
+        )
+        .slice(0, 15)
+        .map((row) => ({
+          pathPrefix: row.pathPrefix,
+          login: row.contributor?.login ?? null,
+          score: row.score,
+        })),
+      contributors: contributors
+        .filter(
+          ({ repoContributor }) =>
+            matches(repoContributor.role) ||
+            matches(repoContributor.profileSummary) ||
+            (repoContributor.mainAreas ?? []).some(matches),
+        )
+        .slice(0, 10)
+        .map(({ repoContributor, contributor }) => ({
+          login: contributor.login,
+          role: repoContributor.role ?? null,
+          seniority: repoContributor.seniority ?? null,
+          mainAreas: repoContributor.mainAreas ?? [],
+          profileSummary: repoContributor.profileSummary ?? null,
+          prCount: repoContributor.prCount,
+        })),
+      citations: [],
+    };
+  },
+});
+
+const getRecentHistory = createTool({
+  description:
+    "Fetch the repository's most recent history checkpoints (milestones and decisions from PRs, calls and analyses), newest first.",
+  args: z.object({
+    sinceDays: z
+      .number()
+      .optional()
+      .describe("Only checkpoints from the last N days."),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(25)
+      .default(10)
+      .describe("Maximum number of checkpoints to return."),
+  }),
+  handler: async (ctx, { sinceDays, limit }): Promise<CitedToolResult> => {
+    const repoId = assistantRepoId(ctx);
+    const since = sinceDays ? Date.now() - sinceDays * DAY_MS : 0;
+
+    const [checkpoints, analyses]: [
+      Doc<"historyCheckpoints">[],
+      Doc<"prAnalyses">[],
+    ] = await Promise.all([
+      ctx.runQuery(internal.app.listHistoryCheckpointsForRepoInternal, {
+        repoId,
+      }),
+      ctx.runQuery(internal.app.listPrAnalysesForRepoInternal, { repoId }),
+    ]);
+    const pullRequestIdByAnalysis = new Map(
+      analyses.map((analysis) => [
+        analysis._id,
+        analysis.pullRequestId,
+      ]),
+    );
+
+    const recent = checkpoints
+      .filter((checkpoint) => checkpoint.eventAt >= since)
+      .sort((a, b) => b.eventAt - a.eventAt)
+      .slice(0, limit);
+
+    return {
+      checkpoints: recent.map((checkpoint) => ({
+        ref: `checkpoint:${checkpoint._id}`,
+        title: checkpoint.title,
+        description: truncate(checkpoint.description),
+        sourceType: checkpoint.sourceType,
+        eventAt: isoDate(checkpoint.eventAt),
+      })),
+      citations: recent.map(
+        (checkpoint): AssistantCitation => ({
+          ref: `checkpoint:${checkpoint._id}`,
+          sourceType: "history_checkpoint",
+          label: checkpoint.title,
+          pullRequestId: checkpoint.prAnalysisId
+            ? pullRequestIdByAnalysis.get(checkpoint.prAnalysisId)
+            : undefined,
+          callId: checkpoint.callId,
+        }),
+      ),
+    };
+  },
+});
+
+const searchCallDecisions = createTool({
+  description:
+    "Search the repository's calls and call action items by topic, returning the matching calls with the decisions recorded from them.",
+  args: z.object({
+    query: z
+      .string()
+      .describe("What was discussed, e.g. 'dropping Redis' or 'billing retries'."),
+  }),
+  handler: async (ctx, { query }): Promise<CitedToolResult> => {
+    const repoId = assistantRepoId(ctx);
+    const [results, checkpoints]: [
+      Awaited<ReturnType<typeof searchRepoDocuments>>,
+      Doc<"historyCheckpoints">[],
+    ] = await Promise.all([
+      searchRepoDocuments(
+        ctx,
+        { repoId, query, sourceTypes: ["call", "call_action_item"], limit: 8 },
+        { workflow: "repo_assistant", agentName: "Repository Assistant" },
+      ),
+      ctx.runQuery(internal.app.listHistoryCheckpointsForRepoInternal, {
+        repoId,
+      }),
+    ]);
+
+    const callIds = new Set(
+      results
+        .map((result) => result.callId)
+        .filter((callId): callId is Id<"calls"> => callId !== null),
+    );
+    const decisions = checkpoints.filter(
+      (checkpoint) =>
+        checkpoint.callId !== undefined && callIds.has(checkpoint.callId),
+    );
+
+    const citations: AssistantCitation[] = [
+      ...results.map((result) =>
+        result.sourceType === "call"
+          ? {
+              ref: `call:${result.sourceId}`,
+              sourceType: "call" as const,
+              label: `Call on ${isoDate(result.eventAt)}`,
+              callId: result.sourceId,
+            }
+          : {
+              ref: `action:${result.sourceId}`,
+              sourceType: "call_action_item" as const,
+              label: truncate(result.snippet, 60) ?? "Call action item",
+              callId: result.callId ?? undefined,
+            },
+      ),
+      ...decisions.map(
+        (checkpoint): AssistantCitation => ({
+          ref: `checkpoint:${checkpoint._id}`,
+          sourceType: "history_checkpoint",
+          label: checkpoint.title,
+          callId: checkpoint.callId,
+        }),
+      ),
+    ];
+
+    return {
+      matches: results.map((result) => ({
+        ref: `${result.sourceType === "call" ? "call" : "action"}:${result.sourceId}`,
+        type: result.sourceType,
+        date: isoDate(result.eventAt),
+        excerpt: result.snippet,
+        callRef: result.callId ? `call:${result.callId}` : null,
+      })),
+      decisions: decisions.map((checkpoint) => ({
+        ref: `checkpoint:${checkpoint._id}`,
+        callRef: `call:${checkpoint.callId}`,
+        title: checkpoint.title,
+        description: truncate(checkpoint.description),
+        eventAt: isoDate(checkpoint.eventAt),
+      })),
+      citations,
+    };
+  },
+});
+
+const listOpenActionItems = createTool({
+  description:
+    "List action items from the repository's calls that are still open, oldest first.",
+  args: z.object({
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .default(20)
+      .describe("Maximum number of action items to return."),
+  }),
+  handler: async (ctx, { limit }): Promise<CitedToolResult> => {
+    const repoId = assistantRepoId(ctx);
+    const [items, pullRequests]: [OpenActionItem[], Doc<"pullRequests">[]] =
+      await Promise.all([
+        ctx.runQuery(internal.app.listOpenCallActionItemsForRepoInternal, {
+          repoId,
+        }),
+        ctx.runQuery(internal.app.listPullRequestsForRepoInternal, { repoId }),
+      ]);
+    const prNumbers = new Map(
+      pullRequests.map((pr) => [pr._id, pr.prNumber]),
+    );
+    const open = items.slice(0, limit);
+
+    return {
+      openCount: items.length,
+      actionItems: open.map((item) => ({
+        ref: `action:${item._id}`,
+        callRef: `call:${item.callId}`,
+        description: item.description,
+        filePath: item.filePath ?? null,
+        prNumber: item.pullRequestId
+          ? (prNumbers.get(item.pullRequestId) ?? null)
+          : null,
+        callDate: isoDate(item.callStartTime),
+      })),
+      citations: open.map(
+        (item): AssistantCitation => ({
+          ref: `action:${item._id}`,
+          sourceType: "call_action_item",
+          label: truncate(item.description, 60) ?? "Call action item",
+          callId: item.callId,
+        }),
+      ),
+    };
+  },
+});
+
 export const repoAssistantAgent = new Agent(components.agent, {
   name: "Repository Assistant",
-  languageModel: openai.chat("gpt-4o-mini"),
+  languageModel: languageModelFor("repoAssistant"),
   instructions: [
     "You are an engineering assistant helping developers understand a single repository.",
-    "Always use the `getRepoContext` tool to gather context before answering.",
+    "Use the `getRepoContext` tool for an overview, and the other tools to look up specific pull requests, owners of an area, recent history, call decisions and open action items.",
     "Explain architecture, ownership, tech stack, and activity based on what you see.",
-    "If the user asks follow-up questions, you can call the tool again if needed.",
+    "Records returned by the tools have a `ref` such as `pr:42`; when a sentence relies on a record, cite it by writing its ref in square brackets, e.g. [pr:42]. Only cite refs the tools returned.",
+    "If the user asks follow-up questions, you can call the tools again if needed.",
     "If something is not available in the database, say that you don't know rather than guessing.",
   ].join(" "),
   tools: {
     getRepoContext,
+    getPullRequest,
+    listContributorsByArea,
+    getRecentHistory,
+    searchCallDecisions,
+    listOpenActionItems,
   },
-  maxSteps: 4,
+  maxSteps: 6,
 });
-
-
@@ -1,18 +1,20 @@
 import { Agent, createTool } from "@convex-dev/agent";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
-import { api, components } from "../_generated/api";
+import { components, internal } from "../_generated/api";
 import type { Id } from "../_generated/dataModel";
+import { languageModelFor } from "../../lib/modelProviders";
+import { toolProvenance } from "../agentProvenance";
 
 /**
  * Tool: saveRepoSnapshotResult
  *
  * Persist the result of a repo snapshot analysis into an analysisSession
- * row and create an optional history checkpoint for the snapshot.
+ * row and as the repo's next versioned snapshot, which also records the
+ * changes since the previous snapshot in the repo history.
  */
 export const saveRepoSnapshotResult = createTool({
   description:
-    "Save the result of a repo snapshot analysis into analysisSessions.config and create an optional history checkpoint.",
+    "Save the result of a repo snapshot analysis as the repo's next snapshot and record what changed since the previous one.",
   args: z.object({
     analysisSessionId: z
       .string()
@@ -30,6 +32,11 @@ export const saveRepoSnapshotResult = createTool({
     suggestedNextSteps: z
       .array(z.string())
       .describe("3–8 suggested next steps / roadmap bullets."),
+    completedNextSteps: z
+      .array(z.string())
+      .describe(
+        "Steps from previousSnapshot.suggestedNextSteps that recent activity shows are done, copied verbatim. Empty when there is no previous snapshot."
+      ),
   }),
   handler: async (
     ctx,
@@ -40,13 +47,14 @@ export const saveRepoSnapshotResult = createTool({
       mainModules,
       riskyAreas,
       suggestedNextSteps,
+      completedNextSteps,
     },
   ): Promise<{ analysisSessionId: Id<"analysisSessions"> }> => {
     const typedSessionId = analysisSessionId as Id<"analysisSessions">;
     const typedRepoId = repoId as Id<"repos">;
 
     // Store structured snapshot on the analysis session.
-    await ctx.runMutation(api.app.updateAnalysisSessionSummaryAndConfig, {
+    await ctx.runMutation(internal.app.updateAnalysisSessionSummaryAndConfig, {
       analysisSessionId: typedSessionId,
       summary: techStackSummary,
       config: {
@@ -57,25 +65,52 @@ export const saveRepoSnapshotResult = createTool({
           suggestedNextSteps,
         },
       },
+      generatedBy: toolProvenance(ctx),
     });
 
-    // Also create a history checkpoint so the snapshot shows up
-    // in the repo's timeline. We use "analysis_session" as sourceType.
-    await ctx.runMutation(api.app.createHistoryCheckpoint, {
+    // Store it as the repo's next snapshot; this also puts the changes
+    // since the previous snapshot in the repo's timeline.
+    await ctx.runMutation(internal.repoSnapshots.createRepoSnapshot, {
       repoId: typedRepoId,
-      title: "Repo snapshot completed",
-      description: techStackSummary,
-      sourceType: "analysis_session",
-      prAnalysisId: undefined,
       analysisSessionId: typedSessionId,
-      callId: undefined,
-      eventAt: Date.now(),
+      techStackSummary,
+      mainModules,
+      riskyAreas,
+      suggestedNextSteps,
+      completedNextSteps,
+      generatedBy: toolProvenance(ctx),
     });
 
     return { analysisSessionId: typedSessionId };
   },
 });
 
+// Version of the snapshot prompt and instructions; bump on changes.
+export const REPO_SNAPSHOT_PROMPT_VERSION = 2;
+
+/**
+ * The prompt for snapshotting a repo from its tech stack, recent PR
+ * analyses and history. The input must carry the `analysisSessionId` and
+ * `repoId` the tool call should use.
+ */
+export function buildRepoSnapshotPrompt(snapshotInput: {
+  analysisSessionId: string;
+  repoId: string;
+}) {
+  return [
+    "You are the Repo Snapshot agent.",
+    "You are given JSON describing a repository and its recent activity.",
+    "Use it to understand the tech stack, main modules, risky/high-churn areas, and suggested next steps.",
+    "`previousSnapshot` is the repo's last snapshot, or null. List which of its suggested next steps recent activity shows are done.",
+    "",
+    "IMPORTANT: When you are ready, call the `saveRepoSnapshotResult` tool EXACTLY ONCE.",
+    "Use the `analysisSessionId` and `repoId` from the JSON as-is.",
+    "",
+    "Here is the input JSON:",
+    JSON.stringify(snapshotInput),
+  ].join("\n\n");
+}
+
 /**
  * Repo Snapshot Agent
  *
@@ -85,11 +120,12 @@ export const saveRepoSnapshotResult = createTool({
  */
 export const repoSnapshotAgent = new Agent(components.agent, {
   name: "Repo Snapshot Analyzer",
-  languageModel: openai.chat("gpt-4o-mini"),
+  languageModel: languageModelFor("repoSnapshot"),
   instructions: [
     "You are a staff engineer summarizing the current state of a codebase.",
     "You will be given JSON describing: basic repo info, tech stack items, recent PR analysis summaries, and any existing history checkpoints.",
     "Your job is to synthesize this into a snapshot containing: (1) tech stack summary paragraph, (2) main modules/areas, (3) risky or high-churn areas, (4) suggested next steps.",
+    "When a previous snapshot is given, keep naming modules and areas the same way it did unless they really changed, and report which of its next steps were completed.",
     "Then you MUST call the `saveRepoSnapshotResult` tool exactly once with your structured result.",
     "Keep outputs concise and actionable; avoid repeating low-level details.",
   ].join(" "),
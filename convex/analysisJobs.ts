@@ -0,0 +1,716 @@
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  getCurrentUser,
+  requireRepoAccess,
+  requireRepoDocAccess,
+} from "./access";
+import { isWorkspaceOverBudget } from "./llmUsage";
+import { isOutdatedPrAnalysis } from "./agents/PRAnalyzer";
+import { isOutdatedSynthesizedCheckpoint } from "./agents/HistorySynthesizer";
+import {
+  analyzeRepoPullRequests,
+  refreshContributorProfiles,
+  synthesizeRepoHistory,
+  takeRepoSnapshot,
+} from "./prAgent";
+import { indexRepoForSearch } from "./search";
+
+// Background analysis runs as queued jobs, one at a time per repo. A
+// dispatcher claims the oldest runnable job under a lease and schedules
+// an action to run it; the action extends the lease with heartbeats as it
+// makes progress. If the action dies, the lease runs out and the recovery
+// cron retries the job with backoff. Jobs that process many items (PR
+// analysis) work in batches and requeue themselves, so no single action
+// runs into the platform time limit.
+
+// A running job that has not sent a heartbeat for this long is presumed
+// dead. Convex actions time out after 10 minutes.
+const JOB_LEASE_MS = 10 * 60 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Analysis sessions left `running` with no live job behind them (e.g.
+// from before the job queue existed) are failed after this long. Call
+// sessions stay open for the length of their call instead.
+const ORPHANED_SESSION_TIMEOUT_MS = 60 * 60 * 1000;
+
+// A recording call appends a segment every 15 seconds, even a silent one.
+// One that has appended nothing for this long was abandoned (tab closed,
+// browser crashed) and is failed.
+const STALE_CALL_TIMEOUT_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUDGET_EXCEEDED_ERROR =
+  "Paused: the workspace reached its monthly LLM budget";
+
+const jobType = v.union(
+  v.literal("pr_analysis"),
+  v.literal("contributor_profiles"),
+  v.literal("repo_snapshot"),
+  v.literal("history_synthesis"),
+  v.literal("search_index")
+);
+
+type JobType = Infer<typeof jobType>;
+
+// Order in which a full analysis runs: later jobs read what earlier ones
+// wrote (profiles and snapshots use the fresh PR analyses, and the search
+// index picks up everything).
+const FULL_ANALYSIS_JOB_TYPES: JobType[] = [
+  "pr_analysis",
+  "contributor_profiles",
+  "repo_snapshot",
+  "history_synthesis",
+  "search_index",
+];
+
+/** Thrown from `heartbeat` once a running job should stop. */
+export class JobStoppedError extends Error {
+  constructor(readonly reason: "cancelled" | "lease_lost") {
+    super(
+      reason === "cancelled" ? "Job was cancelled" : "Job lease was lost"
+    );
+  }
+}
+
+/** What a job handler gets to report progress and resume state. */
+export type AnalysisJobRun = {
+  jobId: Id<"analysisJobs">;
+  repoId: Id<"repos">;
+  windowDays?: number;
+  // Only redo results produced by an older prompt version.
+  outdatedOnly: boolean;
+  analysisSessionId: Id<"analysisSessions"> | null;
+  // Extend the lease and record progress. Throws JobStoppedError when the
+  // job was cancelled or another run has taken it over.
+  heartbeat: (progress?: { completed: number; total: number }) => Promise<void>;
+  // Remember the session this job reports into, for resuming.
+  attachSession: (analysisSessionId: Id<"analysisSessions">) => Promise<void>;
+};
+
+function retryDelay(attempts: number) {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+/**
+ * Queue jobs for a repo and poke its dispatcher. A type that already has
+ * a queued job is not queued twice; a running job of the same type does
+ * not block a new one, since it may have started before the latest data
+ * arrived. Outdated-only jobs are kept apart from regular ones.
+ */
+export async function enqueueAnalysisJobs(
+  ctx: MutationCtx,
+  repoId: Id<"repos">,
+  types: JobType[],
+  options: {
+    windowDays?: number;
+    outdatedOnly?: boolean;
+    requestedByUserId?: Id<"users">;
+  } = {}
+) {
+  const outdatedOnly = options.outdatedOnly ?? false;
+  const queued = await ctx.db
+    .query("analysisJobs")
+    .withIndex("byRepoAndStatus", (q) =>
+      q.eq("repoId", repoId).eq("status", "queued")
+    )
+    .collect();
+
+  const now = Date.now();
+  const jobIds: Id<"analysisJobs">[] = [];
+  for (const type of types) {
+    const existing = queued.find(
+      (job) =>
+        job.type === type && (job.outdatedOnly ?? false) === outdatedOnly
+    );
+    if (existing) {
+      jobIds.push(existing._id);
+      continue;
+    }
+
+    jobIds.push(
+      await ctx.db.insert("analysisJobs", {
+        repoId,
+        type,
+        status: "queued",
+        windowDays: type === "history_synthesis" ? options.windowDays : undefined,
+        outdatedOnly: outdatedOnly || undefined,
+        runAfter: now,
+        attempts: 0,
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        requestedByUserId: options.requestedByUserId,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  }
+
+  await ctx.scheduler.runAfter(0, internal.analysisJobs.dispatchRepoJobs, {
+    repoId,
+  });
+  return jobIds;
+}
+
+/**
+ * Queue a full analysis (PRs, contributor profiles, snapshot, history,
+ * search index) for a repo. This is what the dashboard "Run analysis"
+ * button calls.
+ */
+export const enqueueFullAnalysis = mutation({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const repo = await requireRepoAccess(ctx, repoId, "member");
+    if (!repo) throw new Error("Repo not found");
+
+    const user = await getCurrentUser(ctx);
+    return enqueueAnalysisJobs(ctx, repoId, FULL_ANALYSIS_JOB_TYPES, {
+      windowDays: 30,
+      requestedByUserId: user?._id,
+    });
+  },
+});
+
+/**
+ * How many of a repo's results came from an older prompt version than the
+ * agents currently use.
+ */
+export const getOutdatedResultCounts = query({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    if (!(await requireRepoAccess(ctx, repoId))) return null;
+    return countOutdatedResults(ctx, repoId);
+  },
+});
+
+/**
+ * Queue re-analysis of a repo's outdated results with the current prompt
+ * versions. Up-to-date results are left alone.
+ */
+export const enqueueOutdatedReanalysis = mutation({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const repo = await requireRepoAccess(ctx, repoId, "member");
+    if (!repo) throw new Error("Repo not found");
+
+    const outdated = await countOutdatedResults(ctx, repoId);
+    const types: JobType[] = [];
+    if (outdated.prAnalyses > 0) types.push("pr_analysis");
+    if (outdated.historyCheckpoints > 0) types.push("history_synthesis");
+    if (types.length === 0) return [];
+
+    // Reach back far enough to cover the oldest outdated checkpoint.
+    const windowDays = outdated.oldestCheckpointAt
+      ? Math.ceil((Date.now() - outdated.oldestCheckpointAt) / DAY_MS)
+      : undefined;
+
+    const user = await getCurrentUser(ctx);
+    return enqueueAnalysisJobs(ctx, repoId, types, {
+      windowDays,
+      outdatedOnly: true,
+      requestedByUserId: user?._id,
+    });
+  },
+});
+
+async function countOutdatedResults(ctx: QueryCtx, repoId: Id<"repos">) {
+  const analyses = await ctx.db
+    .query("prAnalyses")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+  const latestByPr = new Map<Id<"pullRequests">, Doc<"prAnalyses">>();
+  for (const analysis of analyses) {
+    const current = latestByPr.get(analysis.pullRequestId);
+    const updatedAt = analysis.updatedAt ?? analysis.createdAt;
+    if (!current || updatedAt > (current.updatedAt ?? current.createdAt)) {
+      latestByPr.set(analysis.pullRequestId, analysis);
+    }
+  }
+  const prAnalyses = Array.from(latestByPr.values()).filter(
+    isOutdatedPrAnalysis
+  ).length;
+
+  const checkpoints = (
+    await ctx.db
+      .query("historyCheckpoints")
+      .withIndex("byRepoAndEventAt", (q) => q.eq("repoId", repoId))
+      .collect()
+  ).filter(isOutdatedSynthesizedCheckpoint);
+  const oldestCheckpointAt =
+    checkpoints.length > 0
+      ? Math.min(...checkpoints.map((cp) => cp.eventAt))
+      : null;
+
+  return {
+    prAnalyses,
+    historyCheckpoints: checkpoints.length,
+    oldestCheckpointAt,
+  };
+}
+
+// Internal mutation: queue jobs for a repo. Used by GitHub sync and
+// webhooks; defaults to a full analysis. Does nothing while the repo's
+// workspace is over its monthly LLM budget.
+export const enqueueAnalysisJobsInternal = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    types: v.optional(v.array(jobType)),
+  },
+  handler: async (ctx, { repoId, types }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return [];
+
+    if (
+      repo.workspaceId &&
+      (await isWorkspaceOverBudget(ctx, repo.workspaceId))
+    ) {
+      return [];
+    }
+
+    return enqueueAnalysisJobs(ctx, repoId, types ?? FULL_ANALYSIS_JOB_TYPES, {
+      windowDays: 30,
+    });
+  },
+});
+
+/**
+ * Cancel a job. Queued jobs are cancelled at once; a running job is asked
+ * to stop and does so at its next heartbeat.
+ */
+export const cancelJob = mutation({
+  args: { jobId: v.id("analysisJobs") },
+  handler: async (ctx, { jobId }) => {
+    const job = await requireRepoDocAccess(
+      ctx,
+      await ctx.db.get(jobId),
+      "member"
+    );
+    if (!job) return;
+
+    if (job.status === "queued") {
+      await finalizeJob(ctx, job, "cancelled");
+      await ctx.scheduler.runAfter(0, internal.analysisJobs.dispatchRepoJobs, {
+        repoId: job.repoId,
+      });
+    } else if (job.status === "running") {
+      await ctx.db.patch(jobId, {
+        cancelRequested: true,
+        updatedAt: Date.now(),
+      });
+    }
+  },
+});
+
+// Recent jobs for a repo, newest first.
+export const listJobsForRepo = query({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    if (!(await requireRepoAccess(ctx, repoId))) return [];
+
+    return ctx.db
+      .query("analysisJobs")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .order("desc")
+      .take(20);
+  },
+});
+
+// Move a job to a terminal state and close out its session.
+async function finalizeJob(
+  ctx: MutationCtx,
+  job: Doc<"analysisJobs">,
+  status: "completed" | "failed" | "cancelled",
+  error?: string
+) {
+  const now = Date.now();
+  await ctx.db.patch(job._id, {
+    status,
+    error,
+    leaseExpiresAt: undefined,
+    completedAt: now,
+    updatedAt: now,
+  });
+
+  if (status === "completed" || !job.analysisSessionId) return;
+  const session = await ctx.db.get(job.analysisSessionId);
+  if (session && session.status === "running") {
+    await ctx.db.patch(session._id, {
+      status: "failed",
+      summary:
+        status === "cancelled"
+          ? `${session.summary ?? "Analysis"} (cancelled)`
+          : session.summary,
+      completedAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+// A run of a job ended without finishing it: retry with backoff, or give
+// up once attempts are exhausted.
+async function retryOrFailJob(
+  ctx: MutationCtx,
+  job: Doc<"analysisJobs">,
+  error: string
+) {
+  if (job.cancelRequested) {
+    await finalizeJob(ctx, job, "cancelled");
+    return;
+  }
+  if (job.attempts >= job.maxAttempts) {
+    await finalizeJob(ctx, job, "failed", error);
+    return;
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(job._id, {
+    status: "queued",
+    error,
+    leaseExpiresAt: undefined,
+    runAfter: now + retryDelay(job.attempts),
+    updatedAt: now,
+  });
+}
+
+/**
+ * Internal mutation: start the next runnable job for a repo unless one is
+ * already running. When the only queued jobs are waiting out a retry
+ * delay, checks again once the earliest is due.
+ */
+export const dispatchRepoJobs = internalMutation({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const running = await ctx.db
+      .query("analysisJobs")
+      .withIndex("byRepoAndStatus", (q) =>
+        q.eq("repoId", repoId).eq("status", "running")
+      )
+      .first();
+    if (running) return;
+
+    let queued = await ctx.db
+      .query("analysisJobs")
+      .withIndex("byRepoAndStatus", (q) =>
+        q.eq("repoId", repoId).eq("status", "queued")
+      )
+      .collect();
+    if (queued.length === 0) return;
+
+    // Automatic jobs queued before the workspace hit its budget are
+    // dropped; jobs a user asked for still run.
+    const repo = await ctx.db.get(repoId);
+    if (
+      repo?.workspaceId &&
+      queued.some((job) => !job.requestedByUserId) &&
+      (await isWorkspaceOverBudget(ctx, repo.workspaceId))
+    ) {
+      for (const job of queued) {
+        if (!job.requestedByUserId) {
+          await finalizeJob(ctx, job, "cancelled", BUDGET_EXCEEDED_ERROR);
+        }
+      }
+      queued = queued.filter((job) => job.requestedByUserId);
+      if (queued.length === 0) return;
+    }
+
+    const now = Date.now();
+    const next = queued
+      .filter((job) => job.runAfter <= now)
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+
+    if (!next) {
+      const earliest = Math.min(...queued.map((job) => job.runAfter));
+      await ctx.scheduler.runAt(
+        earliest,
+        internal.analysisJobs.dispatchRepoJobs,
+        { repoId }
+      );
+      return;
+    }
+
+    const attempt = next.attempts + 1;
+    await ctx.db.patch(next._id, {
+      status: "running",
+      attempts: attempt,
+      leaseExpiresAt: now + JOB_LEASE_MS,
+      heartbeatAt: now,
+      startedAt: next.startedAt ?? now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.analysisJobs.runJob, {
+      jobId: next._id,
+      attempt,
+    });
+  },
+});
+
+// Internal mutation: extend a running job's lease. Returns why the run
+// should stop, if it should.
+export const heartbeatJob = internalMutation({
+  args: {
+    jobId: v.id("analysisJobs"),
+    attempt: v.number(),
+    progress: v.optional(
+      v.object({
+        completed: v.number(),
+        total: v.number(),
+      })
+    ),
+  },
+  handler: async (
+    ctx,
+    { jobId, attempt, progress }
+  ): Promise<{ stop: "cancelled" | "lease_lost" | null }> => {
+    const job = await ctx.db.get(jobId);
+    if (!job || job.status !== "running" || job.attempts !== attempt) {
+      return { stop: "lease_lost" };
+    }
+    if (job.cancelRequested) return { stop: "cancelled" };
+
+    const now = Date.now();
+    await ctx.db.patch(jobId, {
+      leaseExpiresAt: now + JOB_LEASE_MS,
+      heartbeatAt: now,
+      progress: progress ?? job.progress,
+      updatedAt: now,
+    });
+    return { stop: null };
+  },
+});
+
+export const attachJobSession = internalMutation({
+  args: {
+    jobId: v.id("analysisJobs"),
+    analysisSessionId: v.id("analysisSessions"),
+  },
+  handler: async (ctx, { jobId, analysisSessionId }) => {
+    await ctx.db.patch(jobId, { analysisSessionId, updatedAt: Date.now() });
+  },
+});
+
+// Internal mutation: record how a run ended and dispatch the repo's next
+// job. Ignored if the run no longer holds the job's lease.
+export const finishJobRun = internalMutation({
+  args: {
+    jobId: v.id("analysisJobs"),
+    attempt: v.number(),
+    outcome: v.union(
+      v.literal("completed"),
+      // More work remains; requeue right away without using an attempt.
+      v.literal("continue"),
+      v.literal("failed"),
+      v.literal("cancelled")
+    ),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, { jobId, attempt, outcome, error }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job || job.status !== "running" || job.attempts !== attempt) return;
+
+    if (outcome === "continue" && job.cancelRequested) {
+      await finalizeJob(ctx, job, "cancelled");
+    } else if (outcome === "continue") {
+      const now = Date.now();
+      await ctx.db.patch(jobId, {
+        status: "queued",
+        attempts: job.attempts - 1,
+        leaseExpiresAt: undefined,
+        runAfter: now,
+        updatedAt: now,
+      });
+    } else if (outcome === "failed") {
+      await retryOrFailJob(ctx, job, error ?? "Unknown error");
+    } else {
+      await finalizeJob(ctx, job, outcome);
+    }
+
+    await ctx.scheduler.runAfter(0, internal.analysisJobs.dispatchRepoJobs, {
+      repoId: job.repoId,
+    });
+  },
+});
+
+// Internal action: run one attempt of a job.
+export const runJob = internalAction({
+  args: {
+    jobId: v.id("analysisJobs"),
+    attempt: v.number(),
+  },
+  handler: async (ctx, { jobId, attempt }) => {
+    const job: Doc<"analysisJobs"> | null = await ctx.runQuery(
+      internal.analysisJobs.getJob,
+      { jobId }
+    );
+    if (!job || job.status !== "running" || job.attempts !== attempt) return;
+
+    const run: AnalysisJobRun = {
+      jobId,
+      repoId: job.repoId,
+      windowDays: job.windowDays,
+      outdatedOnly: job.outdatedOnly ?? false,
+      analysisSessionId: job.analysisSessionId ?? null,
+      heartbeat: async (progress) => {
+        const { stop } = await ctx.runMutation(
+          internal.analysisJobs.heartbeatJob,
+          { jobId, attempt, progress }
+        );
+        if (stop) throw new JobStoppedError(stop);
+      },
+      attachSession: async (analysisSessionId) => {
+        run.analysisSessionId = analysisSessionId;
+        await ctx.runMutation(internal.analysisJobs.attachJobSession, {
+          jobId,
+          analysisSessionId,
+        });
+      },
+    };
+
+    try {
+      let hasMore = false;
+      switch (job.type) {
+        case "pr_analysis":
+          hasMore = await analyzeRepoPullRequests(ctx, run);
+          break;
+        case "contributor_profiles":
+          await refreshContributorProfiles(ctx, run);
+          break;
+        case "repo_snapshot":
+          await takeRepoSnapshot(ctx, run);
+          break;
+        case "history_synthesis":
+          await synthesizeRepoHistory(ctx, run);
+          break;
+        case "search_index":
+          hasMore = await indexRepoForSearch(ctx, run);
+          break;
+      }
+
+      await ctx.runMutation(internal.analysisJobs.finishJobRun, {
+        jobId,
+        attempt,
+        outcome: hasMore ? "continue" : "completed",
+      });
+    } catch (err) {
+      if (err instanceof JobStoppedError) {
+        if (err.reason === "cancelled") {
+          await ctx.runMutation(internal.analysisJobs.finishJobRun, {
+            jobId,
+            attempt,
+            outcome: "cancelled",
+          });
+        }
+        return;
+      }
+
+      console.error(`Analysis job ${jobId} (${job.type}) failed`, err);
+      await ctx.runMutation(internal.analysisJobs.finishJobRun, {
+        jobId,
+        attempt,
+        outcome: "failed",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  },
+});
+
+export const getJob = internalQuery({
+  args: { jobId: v.id("analysisJobs") },
+  handler: async (ctx, { jobId }) => ctx.db.get(jobId),
+});
+
+/**
+ * Internal mutation: retry running jobs whose lease ran out (their action
+ * crashed or timed out), fail calls whose recorder went away, and fail
+ * sessions stuck in `running` with no job or call behind them. Runs from
+ * a cron.
+ */
+export const recoverStuckJobs = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const running = await ctx.db
+      .query("analysisJobs")
+      .withIndex("byStatus", (q) => q.eq("status", "running"))
+      .collect();
+
+    const liveSessionIds = new Set<Id<"analysisSessions">>();
+    for (const job of running) {
+      if ((job.leaseExpiresAt ?? 0) > now) {
+        if (job.analysisSessionId) liveSessionIds.add(job.analysisSessionId);
+        continue;
+      }
+
+      await retryOrFailJob(ctx, job, "Job stopped responding");
+      await ctx.scheduler.runAfter(0, internal.analysisJobs.dispatchRepoJobs, {
+        repoId: job.repoId,
+      });
+    }
+
+    // Queued jobs resume their session later, so it is not orphaned.
+    const queued = await ctx.db
+      .query("analysisJobs")
+      .withIndex("byStatus", (q) => q.eq("status", "queued"))
+      .collect();
+    for (const job of queued) {
+      if (job.analysisSessionId) liveSessionIds.add(job.analysisSessionId);
+    }
+
+    const runningCalls = await ctx.db
+      .query("calls")
+      .withIndex("byStatus", (q) => q.eq("status", "running"))
+      .collect();
+    for (const call of runningCalls) {
+      if (now - call.updatedAt < STALE_CALL_TIMEOUT_MS) continue;
+      await ctx.db.patch(call._id, {
+        status: "failed",
+        endTime: call.updatedAt,
+        durationSeconds: Math.round((call.updatedAt - call.startTime) / 1000),
+        updatedAt: now,
+      });
+    }
+
+    const runningSessions = await ctx.db
+      .query("analysisSessions")
+      .withIndex("byStatus", (q) => q.eq("status", "running"))
+      .collect();
+    for (const session of runningSessions) {
+      if (session.sessionType === "call") {
+        // Open while its call records; failed once the call ended
+        // without being summarized (timed out, or no speech).
+        const callId = ctx.db.normalizeId("calls", session.config?.callId ?? "");
+        const call = callId ? await ctx.db.get(callId) : null;
+        if (call?.status === "running" || call?.status === "completed") continue;
+        await ctx.db.patch(session._id, {
+          status: "failed",
+          completedAt: now,
+          updatedAt: now,
+        });
+        continue;
+      }
+      if (liveSessionIds.has(session._id)) continue;
+      if (now - session.updatedAt < ORPHANED_SESSION_TIMEOUT_MS) continue;
+
+      await ctx.db.patch(session._id, {
+        status: "failed",
+        completedAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+});
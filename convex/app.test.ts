@@ -0,0 +1,161 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test, vi } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+  addMember,
+  createRepo,
+  createUser,
+  modules,
+  type TestConvex,
+} from "./test.setup";
+
+// Alice's repo with one call and one open action item, and Bob, who is
+// signed in but not a member of Alice's workspace.
+async function setup() {
+  const t = convexTest(schema, modules);
+  const alice = await createUser(t, "alice");
+  const bob = await createUser(t, "bob");
+  const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+  const { callId, actionItemId } = await t.run(async (ctx) => {
+    const now = Date.now();
+    const callId = await ctx.db.insert("calls", {
+      repoId,
+      userId: alice.userId,
+      status: "completed",
+      startTime: now,
+      shortSummary: "Agreed to ship the checkout redesign.",
+      tags: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    const actionItemId = await ctx.db.insert("callActionItems", {
+      callId,
+      description: "Add coupon tests",
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { callId, actionItemId };
+  });
+  return { t, alice, bob, repoId, callId, actionItemId };
+}
+
+async function repoExists(t: TestConvex, repoId: Id<"repos">) {
+  return t.run(async (ctx) => (await ctx.db.get(repoId)) !== null);
+}
+
+describe("repo queries", () => {
+  test("the repo's owner can read it", async () => {
+    const { alice, repoId, callId } = await setup();
+
+    const repo = await alice.as.query(api.app.getRepo, { repoId });
+    expect(repo?._id).toBe(repoId);
+    const calls = await alice.as.query(api.app.listCallsForRepo, { repoId });
+    expect(calls.map((call: { _id: Id<"calls"> }) => call._id)).toEqual([
+      callId,
+    ]);
+  });
+
+  test("another user cannot read the repo or its data", async () => {
+    const { bob, repoId, callId } = await setup();
+
+    await expect(bob.as.query(api.app.getRepo, { repoId })).rejects.toThrow(
+      "Not authorized to access this repo"
+    );
+    await expect(
+      bob.as.query(api.app.listCallsForRepo, { repoId })
+    ).rejects.toThrow("Not authorized to access this repo");
+    await expect(
+      bob.as.query(api.app.listPullRequestsForRepo, { repoId })
+    ).rejects.toThrow("Not authorized to access this repo");
+    await expect(bob.as.query(api.app.getCall, { callId })).rejects.toThrow(
+      "Not authorized to access this repo"
+    );
+    await expect(
+      bob.as.query(api.app.listCallActionItems, { callId })
+    ).rejects.toThrow("Not authorized to access this repo");
+  });
+
+  test("signed-out callers cannot read the repo", async () => {
+    const { t, repoId } = await setup();
+
+    await expect(t.query(api.app.getRepo, { repoId })).rejects.toThrow(
+      "Not authenticated"
+    );
+  });
+
+  test("users can only list their own repos", async () => {
+    const { alice, bob } = await setup();
+
+    await expect(
+      bob.as.query(api.app.listReposForUser, { ownerUserId: alice.userId })
+    ).rejects.toThrow("Not authorized to list this user's repos");
+  });
+});
+
+describe("repo mutations", () => {
+  test("another user cannot delete the repo", async () => {
+    const { t, bob, repoId } = await setup();
+
+    await expect(
+      bob.as.mutation(api.app.deleteRepoAndData, { repoId })
+    ).rejects.toThrow("Not authorized to access this repo");
+    expect(await repoExists(t, repoId)).toBe(true);
+  });
+
+  test("a workspace member below admin cannot delete the repo", async () => {
+    const { t, alice, bob, repoId } = await setup();
+    await addMember(t, alice.workspaceId, bob.userId, "member");
+
+    await expect(
+      bob.as.mutation(api.app.deleteRepoAndData, { repoId })
+    ).rejects.toThrow("Not authorized to access this repo");
+    expect(await repoExists(t, repoId)).toBe(true);
+  });
+
+  test("the owner can delete the repo and its calls", async () => {
+    vi.useFakeTimers();
+    const { t, alice, repoId, callId } = await setup();
+
+    await alice.as.mutation(api.app.deleteRepoAndData, { repoId });
+    expect(await repoExists(t, repoId)).toBe(false);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.run((ctx) => ctx.db.get(callId))).toBeNull();
+    vi.useRealTimers();
+  });
+
+  test("another user cannot change an action item", async () => {
+    const { t, bob, actionItemId } = await setup();
+
+    await expect(
+      bob.as.mutation(api.app.updateCallActionItemStatus, {
+        actionItemId,
+        status: "done",
+      })
+    ).rejects.toThrow("Not authorized to access this repo");
+    const item = await t.run((ctx) => ctx.db.get(actionItemId));
+    expect(item?.status).toBe("open");
+  });
+
+  test("viewers cannot change action items, members can", async () => {
+    const { t, alice, bob, actionItemId } = await setup();
+    const carol = await createUser(t, "carol");
+    await addMember(t, alice.workspaceId, bob.userId, "viewer");
+    await addMember(t, alice.workspaceId, carol.userId, "member");
+
+    await expect(
+      bob.as.mutation(api.app.updateCallActionItemStatus, {
+        actionItemId,
+        status: "done",
+      })
+    ).rejects.toThrow("Not authorized to access this repo");
+    await carol.as.mutation(api.app.updateCallActionItemStatus, {
+      actionItemId,
+      status: "done",
+    });
+    const item = await t.run((ctx) => ctx.db.get(actionItemId));
+    expect(item?.status).toBe("done");
+  });
+});
@@ -1,29 +1,60 @@
-import { query, mutation } from "./_generated/server";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+} from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { pathPrefixesFor } from "../lib/ownership";
+import {
+  areNearDuplicateTitles,
+  isSynthesizedSourceType,
+} from "../lib/historyCheckpoints";
+import { toPublicRepo } from "./githubTokens";
+import { transcriptSpan } from "./transcriptValidators";
+import {
+  requireCurrentUser,
+  requireRepoAccess,
+  requireRepoDocAccess,
+} from "./access";
+import { agentProvenance } from "./agentProvenance";
+import { refreshReviewerPathStats } from "./reviewers";
+
+// Public queries and mutations check the caller's access to the repo
+// (see access.ts). Workflows and agents run without a user identity and
+// use the internal functions here instead; writes are internal only.
 
 /**
  * USERS
  */
 
+// Users may only read their own row.
 export const getUser = query({
   args: { userId: v.id("users") },
   handler: async (ctx, { userId }) => {
-    return ctx.db.get(userId);
+    const user = await requireCurrentUser(ctx);
+    if (user._id !== userId) {
+      throw new Error("Not authorized to read this user");
+    }
+    return user;
   },
 });
 
 export const getUserByExternalAuthId = query({
   args: { externalAuthId: v.string() },
   handler: async (ctx, { externalAuthId }) => {
-    return ctx.db
-      .query("users")
-      .withIndex("byExternalAuthId", (q) => q.eq("externalAuthId", externalAuthId))
-      .unique();
+    const user = await requireCurrentUser(ctx);
+    if (user.externalAuthId !== externalAuthId) {
+      throw new Error("Not authorized to read this user");
+    }
+    return user;
   },
 });
 
-export const upsertUser = mutation({
+export const upsertUser = internalMutation({
   args: {
     externalAuthId: v.string(),
     email: v.string(),
@@ -59,32 +90,53 @@ export const upsertUser = mutation({
  * REPOS
  */
 
+// Repo queries never return stored secrets (GitHub token, webhook secret);
+// actions that need them go through githubTokens.getRepoGithubClient.
 export const getRepo = query({
   args: { repoId: v.id("repos") },
-  handler: async (ctx, { repoId }) => ctx.db.get(repoId),
+  handler: async (ctx, { repoId }) => {
+    const repo = await requireRepoAccess(ctx, repoId);
+    return repo ? toPublicRepo(repo) : null;
+  },
+});
+
+export const getRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const repo = await ctx.db.get(repoId);
+    return repo ? toPublicRepo(repo) : null;
+  },
 });
 
 export const getRepoByGithubRepoId = query({
   args: { githubRepoId: v.string() },
   handler: async (ctx, { githubRepoId }) => {
-    return ctx.db
+    const repo = await ctx.db
       .query("repos")
       .withIndex("byGithubRepoId", (q) => q.eq("githubRepoId", githubRepoId))
       .unique();
+    if (!repo || !(await requireRepoAccess(ctx, repo._id))) return null;
+    return toPublicRepo(repo);
   },
 });
 
 export const listReposForUser = query({
   args: { ownerUserId: v.id("users") },
   handler: async (ctx, { ownerUserId }) => {
-    return ctx.db
+    const user = await requireCurrentUser(ctx);
+    if (user._id !== ownerUserId) {
+      throw new Error("Not authorized to list this user's repos");
+    }
+
+    const repos = await ctx.db
       .query("repos")
       .withIndex("byOwnerUserId", (q) => q.eq("ownerUserId", ownerUserId))
       .collect();
+    return repos.map(toPublicRepo);
   },
 });
 
-export const upsertRepo = mutation({
+export const upsertRepo = internalMutation({
   args: {
     ownerUserId: v.id("users"),
     githubRepoId: v.string(),
@@ -109,8 +161,8 @@ export const upsertRepo = mutation({
         description: args.description ?? existing.description,
         url: args.url,
         defaultBranch: args.defaultBranch,
-        // Keep any existing GitHub access token; this helper is
-        // for general repo metadata updates, not auth changes.
+        // Keep any existing GitHub token; this helper is for general
+        // repo metadata updates, not auth changes.
         updatedAt: now,
       });
       return existing._id;
@@ -118,161 +170,27 @@ export const upsertRepo = mutation({
 
     return ctx.db.insert("repos", {
       ...args,
-      githubAccessToken: undefined,
       createdAt: now,
       updatedAt: now,
     });
   },
 });
 
+// Deletes the repo at once and schedules the deletion of its data, which
+// runs in batches (see repoDeletion.ts).
 export const deleteRepoAndData = mutation({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("byExternalAuthId", (q) =>
-        q.eq("externalAuthId", identity.subject)
-      )
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    const repo = await ctx.db.get(repoId);
+    // Only workspace admins may delete a repo.
+    const repo = await requireRepoAccess(ctx, repoId, "admin");
     if (!repo) {
       return;
     }
 
-    if (repo.ownerUserId !== user._id) {
-      throw new Error("Not authorized to delete this repo");
-    }
-
-    // Delete analysis sessions and their PR links
-    const sessions = await ctx.db
-      .query("analysisSessions")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const session of sessions) {
-      const sessionPRs = await ctx.db
-        .query("analysisSessionPRs")
-        .withIndex("byAnalysisSession", (q) =>
-          q.eq("analysisSessionId", session._id)
-        )
-        .collect();
-      for (const spr of sessionPRs) {
-        await ctx.db.delete(spr._id);
-      }
-      await ctx.db.delete(session._id);
-    }
-
-    // Delete PR analyses and their contributor links
-    const prAnalysesForRepo = await ctx.db
-      .query("prAnalyses")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const analysis of prAnalysesForRepo) {
-      const links = await ctx.db
-        .query("prAnalysisContributors")
-        .withIndex("byPrAnalysis", (q) =>
-          q.eq("prAnalysisId", analysis._id)
-        )
-        .collect();
-      for (const link of links) {
-        await ctx.db.delete(link._id);
-      }
-      await ctx.db.delete(analysis._id);
-    }
-
-    // Delete history checkpoints
-    const history = await ctx.db
-      .query("historyCheckpoints")
-      .withIndex("byRepoAndEventAt", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const h of history) {
-      await ctx.db.delete(h._id);
-    }
-
-    // Delete calls and their action items
-    const calls = await ctx.db
-      .query("calls")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const call of calls) {
-      const items = await ctx.db
-        .query("callActionItems")
-        .withIndex("byCall", (q) => q.eq("callId", call._id))
-        .collect();
-      for (const item of items) {
-        await ctx.db.delete(item._id);
-      }
-      await ctx.db.delete(call._id);
-    }
-
-    // Delete call action items that may reference this repo via PRs or contributors
-    const prsForRepo = await ctx.db
-      .query("pullRequests")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const pr of prsForRepo) {
-      const itemsByPr = await ctx.db
-        .query("callActionItems")
-        .withIndex("byPullRequest", (q) =>
-          q.eq("pullRequestId", pr._id)
-        )
-        .collect();
-      for (const item of itemsByPr) {
-        await ctx.db.delete(item._id);
-      }
-
-      // Delete analysisSessionPRs referencing this PR
-      const sessionPRsByPr = await ctx.db
-        .query("analysisSessionPRs")
-        .withIndex("byPullRequest", (q) =>
-          q.eq("pullRequestId", pr._id)
-        )
-        .collect();
-      for (const spr of sessionPRsByPr) {
-        await ctx.db.delete(spr._id);
-      }
-
-      await ctx.db.delete(pr._id);
-    }
-
-    // Delete repo contributor links and any action items tied to them
-    const repoContributors = await ctx.db
-      .query("repoContributors")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const rc of repoContributors) {
-      const itemsByRc = await ctx.db
-        .query("callActionItems")
-        .withIndex("byRepoContributor", (q) =>
-          q.eq("repoContributorId", rc._id)
-        )
-        .collect();
-      for (const item of itemsByRc) {
-        await ctx.db.delete(item._id);
-      }
-      await ctx.db.delete(rc._id);
-    }
-
-    // Delete tech stack items
-    const techItems = await ctx.db
-      .query("techStackItems")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-    for (const item of techItems) {
-      await ctx.db.delete(item._id);
-    }
-
-    // Finally delete the repo itself
     await ctx.db.delete(repoId);
+    await ctx.scheduler.runAfter(0, internal.repoDeletion.deleteRepoData, {
+      repoId,
+    });
   },
 });
 
@@ -280,14 +198,20 @@ export const deleteRepoAndData = mutation({
  * CONTRIBUTORS & REPO CONTRIBUTORS
  */
 
+// Contributors are public GitHub identities shared across repos, so any
+// signed-in user may read them; repo-specific data is checked per repo.
 export const getContributor = query({
   args: { contributorId: v.id("contributors") },
-  handler: async (ctx, { contributorId }) => ctx.db.get(contributorId),
+  handler: async (ctx, { contributorId }) => {
+    await requireCurrentUser(ctx);
+    return ctx.db.get(contributorId);
+  },
 });
 
 export const getContributorByGithubUserId = query({
   args: { githubUserId: v.string() },
   handler: async (ctx, { githubUserId }) => {
+    await requireCurrentUser(ctx);
     return ctx.db
       .query("contributors")
       .withIndex("byGithubUserId", (q) => q.eq("githubUserId", githubUserId))
@@ -298,6 +222,7 @@ export const getContributorByGithubUserId = query({
 export const listContributorsForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
+    await requireRepoAccess(ctx, repoId);
     const links = await ctx.db
       .query("repoContributors")
       .withIndex("byRepo", (q) => q.eq("repoId", repoId))
@@ -309,41 +234,53 @@ export const listContributorsForRepo = query({
   },
 });
 
+async function loadRepoContributorsDetailed(
+  ctx: QueryCtx,
+  repoId: Id<"repos">
+) {
+  const links = await ctx.db
+    .query("repoContributors")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+
+  const contributors = await Promise.all(
+    links.map((link) => ctx.db.get(link.contributorId))
+  );
+
+  const statsRows = await ctx.db
+    .query("repoContributorStats")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+
+  return links.flatMap((link, index) => {
+    const contributor = contributors[index];
+    if (!contributor) return [];
+    return [
+      {
+        repoContributor: link,
+        contributor,
+        stats: statsRows.filter(
+          (row) => row.contributorId === link.contributorId
+        ),
+      },
+    ];
+  });
+}
+
 export const listRepoContributorsDetailed = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    const links = await ctx.db
-      .query("repoContributors")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
-
-    const contributors = await Promise.all(
-      links.map((link) => ctx.db.get(link.contributorId))
-    );
-
-    return links
-      .map((link, index) =>
-        contributors[index]
-          ? {
-              repoContributor: link,
-              contributor: contributors[index]!,
-            }
-          : null
-      )
-      .filter(
-        (
-          x
-        ): x is {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          repoContributor: any;
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          contributor: any;
-        } => x !== null
-      );
+    await requireRepoAccess(ctx, repoId);
+    return loadRepoContributorsDetailed(ctx, repoId);
   },
 });
 
-export const upsertContributor = mutation({
+export const listRepoContributorsDetailedInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => loadRepoContributorsDetailed(ctx, repoId),
+});
+
+export const upsertContributor = internalMutation({
   args: {
     githubUserId: v.string(),
     login: v.string(),
@@ -375,7 +312,7 @@ export const upsertContributor = mutation({
   },
 });
 
-export const upsertRepoContributor = mutation({
+export const upsertRepoContributor = internalMutation({
   args: {
     repoId: v.id("repos"),
     contributorId: v.id("contributors"),
@@ -401,12 +338,20 @@ export const upsertRepoContributor = mutation({
     ),
     mainAreas: v.optional(v.array(v.string())),
     profileSummary: v.optional(v.string()),
+    generatedBy: v.optional(agentProvenance),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
 
-    const { repoId, contributorId, role, seniority, mainAreas, profileSummary } =
-      args;
+    const {
+      repoId,
+      contributorId,
+      role,
+      seniority,
+      mainAreas,
+      profileSummary,
+      generatedBy,
+    } = args;
 
     const existing = await ctx.db
       .query("repoContributors")
@@ -421,6 +366,7 @@ export const upsertRepoContributor = mutation({
         seniority,
         mainAreas: mainAreas ?? existing.mainAreas,
         profileSummary: profileSummary ?? existing.profileSummary,
+        generatedBy,
         updatedAt: now,
       });
       return existing._id;
@@ -435,6 +381,7 @@ export const upsertRepoContributor = mutation({
       linesChanged: 0,
       mainAreas,
       profileSummary,
+      generatedBy,
       createdAt: now,
       updatedAt: now,
     });
@@ -446,23 +393,40 @@ export const upsertRepoContributor = mutation({
  */
 
 export const getPullRequest = query({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) =>
+    requireRepoDocAccess(ctx, await ctx.db.get(pullRequestId)),
+});
+
+export const getPullRequestInternal = internalQuery({
   args: { pullRequestId: v.id("pullRequests") },
   handler: async (ctx, { pullRequestId }) => ctx.db.get(pullRequestId),
 });
 
+async function loadPullRequestsForRepo(ctx: QueryCtx, repoId: Id<"repos">) {
+  return ctx.db
+    .query("pullRequests")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+}
+
 export const listPullRequestsForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    return ctx.db
-      .query("pullRequests")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
+    await requireRepoAccess(ctx, repoId);
+    return loadPullRequestsForRepo(ctx, repoId);
   },
 });
 
+export const listPullRequestsForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => loadPullRequestsForRepo(ctx, repoId),
+});
+
 export const getPullRequestByNumber = query({
   args: { repoId: v.id("repos"), prNumber: v.number() },
   handler: async (ctx, { repoId, prNumber }) => {
+    await requireRepoAccess(ctx, repoId);
     return ctx.db
       .query("pullRequests")
       .withIndex("byRepoAndNumber", (q) =>
@@ -472,7 +436,23 @@ export const getPullRequestByNumber = query({
   },
 });
 
-export const setPullRequestThreadId = mutation({
+// Internal query: a PR by number, with its author's login.
+export const getPullRequestByNumberInternal = internalQuery({
+  args: { repoId: v.id("repos"), prNumber: v.number() },
+  handler: async (ctx, { repoId, prNumber }) => {
+    const pr = await ctx.db
+      .query("pullRequests")
+      .withIndex("byRepoAndNumber", (q) =>
+        q.eq("repoId", repoId).eq("prNumber", prNumber)
+      )
+      .unique();
+    if (!pr) return null;
+    const author = await ctx.db.get(pr.authorContributorId);
+    return { ...pr, authorLogin: author?.login ?? null };
+  },
+});
+
+export const setPullRequestThreadId = internalMutation({
   args: {
     pullRequestId: v.id("pullRequests"),
     threadId: v.optional(v.string()),
@@ -482,16 +462,232 @@ export const setPullRequestThreadId = mutation({
   },
 });
 
+const pullRequestFileStatus = v.union(
+  v.literal("added"),
+  v.literal("removed"),
+  v.literal("modified"),
+  v.literal("renamed"),
+  v.literal("copied"),
+  v.literal("changed"),
+  v.literal("unchanged")
+);
+
+export const listPullRequestFiles = query({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) => {
+    if (!(await requireRepoDocAccess(ctx, await ctx.db.get(pullRequestId)))) {
+      return [];
+    }
+    return ctx.db
+      .query("pullRequestFiles")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect();
+  },
+});
+
+// Replace the stored file list for a PR with the latest one from GitHub.
+export const replacePullRequestFiles = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+    files: v.array(
+      v.object({
+        filename: v.string(),
+        previousFilename: v.optional(v.string()),
+        status: pullRequestFileStatus,
+        additions: v.number(),
+        deletions: v.number(),
+        changes: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, { repoId, pullRequestId, files }) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("pullRequestFiles")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect();
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+
+    for (const file of files) {
+      await ctx.db.insert("pullRequestFiles", {
+        repoId,
+        pullRequestId,
+        ...file,
+        createdAt: now,
+      });
+    }
+    await refreshReviewerPathStats(ctx, pullRequestId);
+  },
+});
+
+// Reviews, inline comment counts and outstanding review requests for a
+// PR, with reviewer contributor docs joined in.
+export const getPullRequestReviewActivity = query({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) => {
+    if (!(await requireRepoDocAccess(ctx, await ctx.db.get(pullRequestId)))) {
+      return null;
+    }
+
+    const [reviews, comments, requests] = await Promise.all([
+      ctx.db
+        .query("pullRequestReviews")
+        .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+        .collect(),
+      ctx.db
+        .query("pullRequestReviewComments")
+        .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+        .collect(),
+      ctx.db
+        .query("pullRequestReviewRequests")
+        .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+        .collect(),
+    ]);
+
+    const reviewsWithReviewer = await Promise.all(
+      reviews
+        .sort((a, b) => (a.submittedAt ?? 0) - (b.submittedAt ?? 0))
+        .map(async (review) => ({
+          ...review,
+          reviewer: await ctx.db.get(review.reviewerContributorId),
+        }))
+    );
+
+    const requestedReviewers = await Promise.all(
+      requests.map(async (request) => ({
+        teamSlug: request.teamSlug ?? null,
+        reviewer: request.reviewerContributorId
+          ? await ctx.db.get(request.reviewerContributorId)
+          : null,
+      }))
+    );
+
+    return {
+      reviews: reviewsWithReviewer,
+      reviewCommentCount: comments.length,
+      requestedReviewers,
+    };
+  },
+});
+
+export const listReviewerSuggestionsForPullRequest = query({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) => {
+    if (!(await requireRepoDocAccess(ctx, await ctx.db.get(pullRequestId)))) {
+      return [];
+    }
+
+    const suggestions = await ctx.db
+      .query("pullRequestReviewerSuggestions")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect();
+    return suggestions.sort((a, b) => a.rank - b.rank);
+  },
+});
+
+export const listPullRequestReviewsForRepo = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    return ctx.db
+      .query("pullRequestReviews")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .collect();
+  },
+});
+
+export const listPullRequestReviewCommentsForRepo = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    return ctx.db
+      .query("pullRequestReviewComments")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .collect();
+  },
+});
+
+/**
+ * COMMITS & PATH OWNERSHIP
+ */
+
+export const listCommitsForRepo = query({
+  args: { repoId: v.id("repos"), limit: v.optional(v.number()) },
+  handler: async (ctx, { repoId, limit }) => {
+    await requireRepoAccess(ctx, repoId);
+    return ctx.db
+      .query("commits")
+      .withIndex("byRepoAndCommittedAt", (q) => q.eq("repoId", repoId))
+      .order("desc")
+      .take(limit ?? 100);
+  },
+});
+
+// Ownership rows for a repo with contributor docs joined in, strongest
+// owners first within each path prefix.
+export const listPathOwnersForRepo = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const rows = await ctx.db
+      .query("pathOwnership")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .collect();
+
+    const withContributors = await Promise.all(
+      rows.map(async (row) => ({
+        ...row,
+        contributor: await ctx.db.get(row.contributorId),
+      }))
+    );
+
+    return withContributors.sort(
+      (a, b) =>
+        a.pathPrefix.localeCompare(b.pathPrefix) || b.score - a.score
+    );
+  },
+});
+
+// Owners of the directories containing the given file paths, deepest
+// matching prefix first (e.g. "convex/agents" before "convex").
+export const listOwnersForPaths = query({
+  args: { repoId: v.id("repos"), paths: v.array(v.string()) },
+  handler: async (ctx, { repoId, paths }) => {
+    await requireRepoAccess(ctx, repoId);
+    const prefixes = new Set<string>();
+    for (const path of paths) {
+      pathPrefixesFor(path).forEach((prefix) => prefixes.add(prefix));
+    }
+
+    const rows = [];
+    for (const pathPrefix of prefixes) {
+      const owners = await ctx.db
+        .query("pathOwnership")
+        .withIndex("byRepoAndPath", (q) =>
+          q.eq("repoId", repoId).eq("pathPrefix", pathPrefix)
+        )
+        .collect();
+      rows.push(...owners);
+    }
+
+    return rows.sort(
+      (a, b) =>
+        b.pathPrefix.split("/").length - a.pathPrefix.split("/").length ||
+        b.score - a.score
+    );
+  },
+});
+
 /**
  * PR ANALYSES & CONTRIBUTORS
  */
 
-export const getPrAnalysis = query({
+export const getPrAnalysis = internalQuery({
   args: { prAnalysisId: v.id("prAnalyses") },
   handler: async (ctx, { prAnalysisId }) => ctx.db.get(prAnalysisId),
 });
 
-export const listPrAnalysesForPullRequest = query({
+export const listPrAnalysesForPullRequest = internalQuery({
   args: { pullRequestId: v.id("pullRequests") },
   handler: async (ctx, { pullRequestId }) => {
     return ctx.db
@@ -501,17 +697,27 @@ export const listPrAnalysesForPullRequest = query({
   },
 });
 
+async function loadPrAnalysesForRepo(ctx: QueryCtx, repoId: Id<"repos">) {
+  return ctx.db
+    .query("prAnalyses")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+}
+
 export const listPrAnalysesForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    return ctx.db
-      .query("prAnalyses")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
+    await requireRepoAccess(ctx, repoId);
+    return loadPrAnalysesForRepo(ctx, repoId);
   },
 });
 
-export const createPrAnalysis = mutation({
+export const listPrAnalysesForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => loadPrAnalysesForRepo(ctx, repoId),
+});
+
+export const createPrAnalysis = internalMutation({
   args: {
     repoId: v.id("repos"),
     pullRequestId: v.id("pullRequests"),
@@ -544,7 +750,7 @@ export const createPrAnalysis = mutation({
   },
 });
 
-export const updatePrAnalysisDetails = mutation({
+export const updatePrAnalysisDetails = internalMutation({
   args: {
     prAnalysisId: v.id("prAnalyses"),
     status: v.union(
@@ -565,6 +771,7 @@ export const updatePrAnalysisDetails = mutation({
       )
     ),
     rawMetadata: v.optional(v.any()),
+    generatedBy: v.optional(agentProvenance),
   },
   handler: async (ctx, args) => {
     const { prAnalysisId, ...patch } = args;
@@ -575,7 +782,7 @@ export const updatePrAnalysisDetails = mutation({
   },
 });
 
-export const updatePrAnalysisStatus = mutation({
+export const updatePrAnalysisStatus = internalMutation({
   args: {
     prAnalysisId: v.id("prAnalyses"),
     status: v.union(
@@ -593,6 +800,9 @@ export const updatePrAnalysisStatus = mutation({
 export const listPrAnalysisContributors = query({
   args: { prAnalysisId: v.id("prAnalyses") },
   handler: async (ctx, { prAnalysisId }) => {
+    if (!(await requireRepoDocAccess(ctx, await ctx.db.get(prAnalysisId)))) {
+      return [];
+    }
     return ctx.db
       .query("prAnalysisContributors")
       .withIndex("byPrAnalysis", (q) => q.eq("prAnalysisId", prAnalysisId))
@@ -600,7 +810,7 @@ export const listPrAnalysisContributors = query({
   },
 });
 
-export const addPrAnalysisContributor = mutation({
+export const addPrAnalysisContributor = internalMutation({
   args: {
     prAnalysisId: v.id("prAnalyses"),
     contributorId: v.id("contributors"),
@@ -623,20 +833,34 @@ export const addPrAnalysisContributor = mutation({
 
 export const getAnalysisSession = query({
   args: { analysisSessionId: v.id("analysisSessions") },
-  handler: async (ctx, { analysisSessionId }) => ctx.db.get(analysisSessionId),
+  handler: async (ctx, { analysisSessionId }) =>
+    requireRepoDocAccess(ctx, await ctx.db.get(analysisSessionId)),
 });
 
+async function loadAnalysisSessionsForRepo(
+  ctx: QueryCtx,
+  repoId: Id<"repos">
+) {
+  return ctx.db
+    .query("analysisSessions")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+}
+
 export const listAnalysisSessionsForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    return ctx.db
-      .query("analysisSessions")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
+    await requireRepoAccess(ctx, repoId);
+    return loadAnalysisSessionsForRepo(ctx, repoId);
   },
 });
 
-export const createAnalysisSession = mutation({
+export const listAnalysisSessionsForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => loadAnalysisSessionsForRepo(ctx, repoId),
+});
+
+export const createAnalysisSession = internalMutation({
   args: {
     repoId: v.id("repos"),
     userId: v.id("users"),
@@ -666,7 +890,7 @@ export const createAnalysisSession = mutation({
   },
 });
 
-export const updateAnalysisSessionStatus = mutation({
+export const updateAnalysisSessionStatus = internalMutation({
   args: {
     analysisSessionId: v.id("analysisSessions"),
     status: v.union(
@@ -688,34 +912,54 @@ export const updateAnalysisSessionStatus = mutation({
   },
 });
 
-export const updateAnalysisSessionSummaryAndConfig = mutation({
+export const updateAnalysisSessionSummaryAndConfig = internalMutation({
   args: {
     analysisSessionId: v.id("analysisSessions"),
     summary: v.optional(v.string()),
     config: v.optional(v.any()),
+    generatedBy: v.optional(agentProvenance),
   },
-  handler: async (ctx, { analysisSessionId, summary, config }) => {
+  handler: async (
+    ctx,
+    { analysisSessionId, summary, config, generatedBy }
+  ) => {
     await ctx.db.patch(analysisSessionId, {
       summary,
       config,
+      generatedBy,
       updatedAt: Date.now(),
     });
   },
 });
 
+async function loadAnalysisSessionPRs(
+  ctx: QueryCtx,
+  analysisSessionId: Id<"analysisSessions">
+) {
+  return ctx.db
+    .query("analysisSessionPRs")
+    .withIndex("byAnalysisSession", (q) =>
+      q.eq("analysisSessionId", analysisSessionId)
+    )
+    .collect();
+}
+
 export const listAnalysisSessionPRs = query({
   args: { analysisSessionId: v.id("analysisSessions") },
   handler: async (ctx, { analysisSessionId }) => {
-    return ctx.db
-      .query("analysisSessionPRs")
-      .withIndex("byAnalysisSession", (q) =>
-        q.eq("analysisSessionId", analysisSessionId)
-      )
-      .collect();
+    const session = await ctx.db.get(analysisSessionId);
+    if (!(await requireRepoDocAccess(ctx, session))) return [];
+    return loadAnalysisSessionPRs(ctx, analysisSessionId);
   },
 });
 
-export const addAnalysisSessionPR = mutation({
+export const listAnalysisSessionPRsInternal = internalQuery({
+  args: { analysisSessionId: v.id("analysisSessions") },
+  handler: async (ctx, { analysisSessionId }) =>
+    loadAnalysisSessionPRs(ctx, analysisSessionId),
+});
+
+export const addAnalysisSessionPR = internalMutation({
   args: {
     analysisSessionId: v.id("analysisSessions"),
     pullRequestId: v.id("pullRequests"),
@@ -736,21 +980,51 @@ export const addAnalysisSessionPR = mutation({
   },
 });
 
+export const updateAnalysisSessionPRStatus = internalMutation({
+  args: {
+    analysisSessionPRId: v.id("analysisSessionPRs"),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    prAnalysisId: v.optional(v.id("prAnalyses")),
+  },
+  handler: async (ctx, { analysisSessionPRId, ...patch }) => {
+    await ctx.db.patch(analysisSessionPRId, { ...patch, updatedAt: Date.now() });
+  },
+});
+
 /**
  * HISTORY CHECKPOINTS
  */
 
+async function loadHistoryCheckpointsForRepo(
+  ctx: QueryCtx,
+  repoId: Id<"repos">
+) {
+  return ctx.db
+    .query("historyCheckpoints")
+    .withIndex("byRepoAndEventAt", (q) => q.eq("repoId", repoId))
+    .collect();
+}
+
 export const listHistoryCheckpointsForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    return ctx.db
-      .query("historyCheckpoints")
-      .withIndex("byRepoAndEventAt", (q) => q.eq("repoId", repoId))
-      .collect();
+    await requireRepoAccess(ctx, repoId);
+    return loadHistoryCheckpointsForRepo(ctx, repoId);
   },
 });
 
-export const createHistoryCheckpoint = mutation({
+export const listHistoryCheckpointsForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) =>
+    loadHistoryCheckpointsForRepo(ctx, repoId),
+});
+
+export const createHistoryCheckpoint = internalMutation({
   args: {
     repoId: v.id("repos"),
     title: v.string(),
@@ -764,7 +1038,9 @@ export const createHistoryCheckpoint = mutation({
     prAnalysisId: v.optional(v.id("prAnalyses")),
     analysisSessionId: v.optional(v.id("analysisSessions")),
     callId: v.optional(v.id("calls")),
+    transcriptSpan: v.optional(transcriptSpan),
     eventAt: v.number(),
+    generatedBy: v.optional(agentProvenance),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -775,26 +1051,181 @@ export const createHistoryCheckpoint = mutation({
   },
 });
 
+type SynthesizedCheckpoint = {
+  title: string;
+  description?: string;
+  eventAt: number;
+  prAnalysisIds: Id<"prAnalyses">[];
+  callIds: Id<"calls">[];
+};
+
+function mergeCheckpoints(
+  a: SynthesizedCheckpoint,
+  b: SynthesizedCheckpoint
+): SynthesizedCheckpoint {
+  return {
+    title: a.title,
+    description:
+      (b.description?.length ?? 0) > (a.description?.length ?? 0)
+        ? b.description
+        : a.description,
+    eventAt: Math.min(a.eventAt, b.eventAt),
+    prAnalysisIds: Array.from(new Set([...a.prAnalysisIds, ...b.prAnalysisIds])),
+    callIds: Array.from(new Set([...a.callIds, ...b.callIds])),
+  };
+}
+
+/**
+ * Internal mutation: store the checkpoints history synthesis produced for
+ * a window, replacing the synthesized checkpoints already in that window
+ * so re-running synthesis does not duplicate the timeline. Checkpoints
+ * with near-duplicate titles are merged, both within the new set and
+ * into synthesized checkpoints from outside the window. Links to PR
+ * analyses or calls of another repo are dropped.
+ */
+export const replaceSynthesizedHistoryCheckpoints = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+    checkpoints: v.array(
+      v.object({
+        title: v.string(),
+        description: v.optional(v.string()),
+        eventAt: v.optional(v.number()),
+        prAnalysisIds: v.array(v.string()),
+        callIds: v.array(v.string()),
+      })
+    ),
+    generatedBy: v.optional(agentProvenance),
+  },
+  handler: async (ctx, args) => {
+    const { repoId, windowStart, windowEnd } = args;
+
+    const synthesized = (await loadHistoryCheckpointsForRepo(ctx, repoId)).filter(
+      (checkpoint) => isSynthesizedSourceType(checkpoint.sourceType)
+    );
+    const inWindow = (checkpoint: { eventAt: number }) =>
+      checkpoint.eventAt >= windowStart && checkpoint.eventAt <= windowEnd;
+
+    let replaced = 0;
+    for (const checkpoint of synthesized.filter(inWindow)) {
+      await ctx.db.delete(checkpoint._id);
+      replaced++;
+    }
+    const outsideWindow = synthesized.filter(
+      (checkpoint) => !inWindow(checkpoint)
+    );
+
+    const merged: SynthesizedCheckpoint[] = [];
+    for (const checkpoint of args.checkpoints) {
+      const prAnalysisIds: Id<"prAnalyses">[] = [];
+      for (const id of checkpoint.prAnalysisIds) {
+        const prAnalysisId = ctx.db.normalizeId("prAnalyses", id);
+        const analysis = prAnalysisId ? await ctx.db.get(prAnalysisId) : null;
+        if (analysis?.repoId === repoId) prAnalysisIds.push(analysis._id);
+      }
+      const callIds: Id<"calls">[] = [];
+      for (const id of checkpoint.callIds) {
+        const callId = ctx.db.normalizeId("calls", id);
+        const call = callId ? await ctx.db.get(callId) : null;
+        if (call?.repoId === repoId) callIds.push(call._id);
+      }
+
+      const candidate: SynthesizedCheckpoint = {
+        title: checkpoint.title,
+        description: checkpoint.description,
+        eventAt: Math.min(
+          Math.max(checkpoint.eventAt ?? windowEnd, windowStart),
+          windowEnd
+        ),
+        prAnalysisIds,
+        callIds,
+      };
+      const index = merged.findIndex((other) =>
+        areNearDuplicateTitles(other.title, candidate.title)
+      );
+      if (index >= 0) {
+        merged[index] = mergeCheckpoints(merged[index], candidate);
+      } else {
+        merged.push(candidate);
+      }
+    }
+
+    let inserted = 0;
+    let mergedIntoExisting = 0;
+    const now = Date.now();
+    for (const checkpoint of merged) {
+      const existing = outsideWindow.find((other) =>
+        areNearDuplicateTitles(other.title, checkpoint.title)
+      );
+      if (existing) {
+        const combined = mergeCheckpoints(
+          {
+            title: existing.title,
+            description: existing.description,
+            eventAt: existing.eventAt,
+            prAnalysisIds: existing.prAnalysisIds ?? [],
+            callIds: existing.callIds ?? [],
+          },
+          checkpoint
+        );
+        await ctx.db.patch(existing._id, {
+          description: combined.description,
+          prAnalysisIds: combined.prAnalysisIds,
+          callIds: combined.callIds,
+        });
+        mergedIntoExisting++;
+        continue;
+      }
+
+      await ctx.db.insert("historyCheckpoints", {
+        repoId,
+        ...checkpoint,
+        sourceType: "synthesis",
+        windowStart,
+        windowEnd,
+        generatedBy: args.generatedBy,
+        createdAt: now,
+      });
+      inserted++;
+    }
+
+    return { inserted, merged: mergedIntoExisting, replaced };
+  },
+});
+
 /**
  * CALLS & ACTION ITEMS
  */
 
 export const getCall = query({
   args: { callId: v.id("calls") },
-  handler: async (ctx, { callId }) => ctx.db.get(callId),
+  handler: async (ctx, { callId }) =>
+    requireRepoDocAccess(ctx, await ctx.db.get(callId)),
 });
 
+async function loadCallsForRepo(ctx: QueryCtx, repoId: Id<"repos">) {
+  return ctx.db
+    .query("calls")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+}
+
 export const listCallsForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    return ctx.db
-      .query("calls")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
+    await requireRepoAccess(ctx, repoId);
+    return loadCallsForRepo(ctx, repoId);
   },
 });
 
-export const createCall = mutation({
+export const listCallsForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => loadCallsForRepo(ctx, repoId),
+});
+
+export const createCall = internalMutation({
   args: {
     repoId: v.id("repos"),
     userId: v.id("users"),
@@ -819,7 +1250,7 @@ export const createCall = mutation({
   },
 });
 
-export const updateCall = mutation({
+export const updateCall = internalMutation({
   args: {
     callId: v.id("calls"),
     status: v.optional(
@@ -833,6 +1264,7 @@ export const updateCall = mutation({
     durationSeconds: v.optional(v.number()),
     shortSummary: v.optional(v.string()),
     tags: v.optional(v.array(v.string())),
+    generatedBy: v.optional(agentProvenance),
   },
   handler: async (ctx, args) => {
     const { callId, ...patch } = args;
@@ -846,6 +1278,9 @@ export const updateCall = mutation({
 export const listCallActionItems = query({
   args: { callId: v.id("calls") },
   handler: async (ctx, { callId }) => {
+    if (!(await requireRepoDocAccess(ctx, await ctx.db.get(callId)))) {
+      return [];
+    }
     return ctx.db
       .query("callActionItems")
       .withIndex("byCall", (q) => q.eq("callId", callId))
@@ -853,7 +1288,28 @@ export const listCallActionItems = query({
   },
 });
 
-export const createCallActionItem = mutation({
+// Internal query: open action items from all of a repo's calls, oldest
+// first, each with the start time of its call.
+export const listOpenCallActionItemsForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const calls = await loadCallsForRepo(ctx, repoId);
+    const items = await Promise.all(
+      calls.map(async (call) => {
+        const callItems = await ctx.db
+          .query("callActionItems")
+          .withIndex("byCall", (q) => q.eq("callId", call._id))
+          .collect();
+        return callItems
+          .filter((item) => item.status === "open")
+          .map((item) => ({ ...item, callStartTime: call.startTime }));
+      })
+    );
+    return items.flat().sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+export const createCallActionItem = internalMutation({
   args: {
     callId: v.id("calls"),
     description: v.string(),
@@ -861,6 +1317,7 @@ export const createCallActionItem = mutation({
     pullRequestId: v.optional(v.id("pullRequests")),
     repoContributorId: v.optional(v.id("repoContributors")),
     filePath: v.optional(v.string()),
+    transcriptSpan: v.optional(transcriptSpan),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -878,6 +1335,12 @@ export const updateCallActionItemStatus = mutation({
     status: v.union(v.literal("open"), v.literal("done")),
   },
   handler: async (ctx, { actionItemId, status }) => {
+    const item = await ctx.db.get(actionItemId);
+    const call = item ? await ctx.db.get(item.callId) : null;
+    if (!(await requireRepoDocAccess(ctx, call, "member"))) {
+      throw new Error("Action item not found");
+    }
+
     await ctx.db.patch(actionItemId, { status, updatedAt: Date.now() });
   },
 });
@@ -886,17 +1349,27 @@ export const updateCallActionItemStatus = mutation({
  * TECH STACK ITEMS
  */
 
+async function loadTechStackItemsForRepo(ctx: QueryCtx, repoId: Id<"repos">) {
+  return ctx.db
+    .query("techStackItems")
+    .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+    .collect();
+}
+
 export const listTechStackItemsForRepo = query({
   args: { repoId: v.id("repos") },
   handler: async (ctx, { repoId }) => {
-    return ctx.db
-      .query("techStackItems")
-      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
-      .collect();
+    await requireRepoAccess(ctx, repoId);
+    return loadTechStackItemsForRepo(ctx, repoId);
   },
 });
 
-export const upsertTechStackItem = mutation({
+export const listTechStackItemsForRepoInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => loadTechStackItemsForRepo(ctx, repoId),
+});
+
+export const upsertTechStackItem = internalMutation({
   args: {
     repoId: v.id("repos"),
     itemType: v.union(
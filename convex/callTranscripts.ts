@@ -0,0 +1,141 @@
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { requireRepoDocAccess } from "./access";
+import { speakerWord, transcriptTurn } from "./transcriptValidators";
+import {
+  matchSpeakers,
+  shiftSpeakerWords,
+  shiftTurns,
+  type TranscriptTurn,
+} from "../lib/transcripts";
+
+// Call transcripts are stored as speaker turns, one chunk per audio
+// segment the recorder uploads while the call is running (see
+// components/dashboard/call-recorder.tsx), so they grow live and a long
+// call never has to be transcribed in one go.
+
+async function loadCallTranscript(
+  ctx: QueryCtx,
+  callId: Id<"calls">
+): Promise<TranscriptTurn[]> {
+  const chunks = await ctx.db
+    .query("callTranscriptChunks")
+    .withIndex("byCallAndIndex", (q) => q.eq("callId", callId))
+    .collect();
+  return chunks.flatMap((chunk) => chunk.turns);
+}
+
+/**
+ * Append a transcribed audio segment to a running call. `turns` and
+ * `speakerWords` are timed from the start of the segment, which began
+ * `offsetSecond` into the call, and use the segment's own speaker labels;
+ * they are stored under call-wide labels matched with the neighbouring
+ * segments (see matchSpeakers). Segments may arrive out of order;
+ * uploading one again replaces it. The recorder appends silent segments
+ * too (with no turns), which keeps the call from timing out (see
+ * recoverStuckJobs).
+ */
+export const appendCallTranscriptSegment = mutation({
+  args: {
+    callId: v.id("calls"),
+    segmentIndex: v.number(),
+    offsetSecond: v.number(),
+    turns: v.array(transcriptTurn),
+    speakerWords: v.optional(v.array(speakerWord)),
+  },
+  handler: async (
+    ctx,
+    { callId, segmentIndex, offsetSecond, turns, speakerWords = [] }
+  ) => {
+    const call = await requireRepoDocAccess(
+      ctx,
+      await ctx.db.get(callId),
+      "member"
+    );
+    if (!call) {
+      throw new Error("Call not found");
+    }
+    if (call.status !== "running") {
+      throw new Error("Call has already finished");
+    }
+
+    const chunkAt = (index: number) =>
+      ctx.db
+        .query("callTranscriptChunks")
+        .withIndex("byCallAndIndex", (q) =>
+          q.eq("callId", callId).eq("index", index)
+        )
+        .unique();
+    const existing = await chunkAt(segmentIndex);
+    const neighbours = await Promise.all([
+      chunkAt(segmentIndex - 1),
+      chunkAt(segmentIndex + 1),
+    ]);
+
+    let speakerCount = call.transcriptSpeakerCount ?? 0;
+    const newLabel = () => `Speaker ${++speakerCount}`;
+    const ownWords = shiftSpeakerWords(speakerWords, offsetSecond);
+    const labels = matchSpeakers(
+      ownWords,
+      neighbours.flatMap((chunk) => chunk?.speakerWords ?? []),
+      newLabel
+    );
+    const labelFor = (speaker: string) => {
+      if (!labels.has(speaker)) labels.set(speaker, newLabel());
+      return labels.get(speaker)!;
+    };
+    const shifted = shiftTurns(turns, offsetSecond).map((turn) =>
+      turn.speaker ? { ...turn, speaker: labelFor(turn.speaker) } : turn
+    );
+    const chunk = {
+      turns: shifted,
+      speakerWords: ownWords.map((word) => ({
+        ...word,
+        speaker: labelFor(word.speaker),
+      })),
+    };
+
+    await ctx.db.patch(callId, {
+      transcriptSpeakerCount: speakerCount,
+      updatedAt: Date.now(),
+    });
+    if (existing) {
+      await ctx.db.patch(existing._id, chunk);
+      return;
+    }
+    if (shifted.length === 0) return;
+    await ctx.db.insert("callTranscriptChunks", {
+      callId,
+      repoId: call.repoId,
+      index: segmentIndex,
+      ...chunk,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * A call's transcript as speaker turns, in order. Calls recorded before
+ * transcripts were stored as turns come back as one turn of plain text.
+ */
+export const getCallTranscript = query({
+  args: { callId: v.id("calls") },
+  handler: async (ctx, { callId }) => {
+    const call = await requireRepoDocAccess(ctx, await ctx.db.get(callId));
+    if (!call) return [];
+
+    const turns = await loadCallTranscript(ctx, callId);
+    if (turns.length === 0 && call.transcript) {
+      return [{ startSecond: 0, endSecond: 0, text: call.transcript }];
+    }
+    return turns;
+  },
+});
+
+// Internal query: the stored transcript of a call, for summarizing it.
+export const getCallTranscriptInternal = internalQuery({
+  args: { callId: v.id("calls") },
+  handler: async (ctx, { callId }) => loadCallTranscript(ctx, callId),
+});
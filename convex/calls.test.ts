@@ -0,0 +1,114 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { api, internal } from "./_generated/api";
+import { createRepo, createUser, modules } from "./test.setup";
+
+describe("stale calls", () => {
+  test("a call with no segment for 10 minutes is failed with its session", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+    const now = Date.now();
+    const [stale, live] = await t.run((ctx) =>
+      Promise.all(
+        [now - 11 * 60 * 1000, now - 60 * 1000].map(async (lastSegmentAt) => {
+          const callId = await ctx.db.insert("calls", {
+            repoId,
+            userId: alice.userId,
+            status: "running",
+            startTime: now - 20 * 60 * 1000,
+            tags: [],
+            createdAt: now,
+            updatedAt: lastSegmentAt,
+          });
+          const sessionId = await ctx.db.insert("analysisSessions", {
+            repoId,
+            userId: alice.userId,
+            sessionType: "call",
+            status: "running",
+            config: { kind: "call", callId: String(callId) },
+            createdAt: now,
+            updatedAt: now,
+          });
+          return { callId, sessionId };
+        })
+      )
+    );
+
+    await t.mutation(internal.analysisJobs.recoverStuckJobs, {});
+
+    const statuses = await t.run(async (ctx) =>
+      Promise.all(
+        [stale, live].map(async ({ callId, sessionId }) => [
+          (await ctx.db.get(callId))?.status,
+          (await ctx.db.get(sessionId))?.status,
+        ])
+      )
+    );
+    expect(statuses).toEqual([
+      ["failed", "failed"],
+      ["running", "running"],
+    ]);
+  });
+});
+
+describe("appendCallTranscriptSegment", () => {
+  test("labels speakers call-wide by matching them over the overlap", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+    const callId = await t.run((ctx) =>
+      ctx.db.insert("calls", {
+        repoId,
+        userId: alice.userId,
+        status: "running",
+        startTime: Date.now(),
+        tags: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    );
+    const word = (speaker: string, startSecond: number) => ({
+      speaker,
+      startSecond,
+      endSecond: startSecond + 0.5,
+    });
+    const turn = (speaker: string, startSecond: number, text: string) => ({
+      speaker,
+      startSecond,
+      endSecond: startSecond + 1,
+      text,
+    });
+
+    // Segment 0 runs 0-18s: Ana (its Speaker 1) then Ben (its Speaker 2),
+    // who is still talking in the overlap at 15-18s.
+    await alice.as.mutation(api.callTranscripts.appendCallTranscriptSegment, {
+      callId,
+      segmentIndex: 0,
+      offsetSecond: 0,
+      turns: [turn("Speaker 1", 2, "Ana"), turn("Speaker 2", 10, "Ben")],
+      speakerWords: [word("Speaker 1", 2), word("Speaker 2", 10), word("Speaker 2", 16)],
+    });
+    // Segment 1 starts at 15s and numbers Ben first; Cy is new.
+    await alice.as.mutation(api.callTranscripts.appendCallTranscriptSegment, {
+      callId,
+      segmentIndex: 1,
+      offsetSecond: 15,
+      turns: [turn("Speaker 1", 2, "Ben"), turn("Speaker 2", 6, "Cy")],
+      speakerWords: [word("Speaker 1", 1), word("Speaker 2", 6)],
+    });
+
+    const turns = await alice.as.query(api.callTranscripts.getCallTranscript, {
+      callId,
+    });
+    expect(
+      turns.map((t: { speaker?: string; text: string }) => [t.speaker, t.text])
+    ).toEqual([
+      ["Speaker 1", "Ana"],
+      ["Speaker 2", "Ben"],
+      ["Speaker 2", "Ben"],
+      ["Speaker 3", "Cy"],
+    ]);
+  });
+});
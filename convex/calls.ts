@@ -1,8 +1,16 @@
 import { action } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
-import { callSummarizerAgent } from "./agents/CallSummarizer";
+import {
+  CALL_SUMMARY_PROMPT_VERSION,
+  buildCallSummaryPrompt,
+  callSummarizerAgent,
+} from "./agents/CallSummarizer";
+import { agentProvenanceFor } from "./agentProvenance";
+import { trackLlmCall } from "./llmUsage";
+import { repoLanguageModel } from "./modelSettings";
+import { formatTranscript, type TranscriptTurn } from "../lib/transcripts";
 
 export const startCallSession = action({
   args: { repoId: v.id("repos") },
@@ -15,8 +23,14 @@ export const startCallSession = action({
       throw new Error("Not authenticated");
     }
 
+    // Viewers can read calls but only members may record them.
+    await ctx.runQuery(internal.repos.getRepoForCurrentMember, {
+      repoId,
+      minimumRole: "member",
+    });
+
     // Upsert the Convex user for this external identity.
-    const userId = await ctx.runMutation(api.app.upsertUser, {
+    const userId = await ctx.runMutation(internal.app.upsertUser, {
       externalAuthId: identity.subject,
       email: identity.email ?? "unknown@example.com",
       name:
@@ -26,7 +40,7 @@ export const startCallSession = action({
         undefined,
     });
 
-    const callId = await ctx.runMutation(api.app.createCall, {
+    const callId = await ctx.runMutation(internal.app.createCall, {
       repoId,
       userId,
       status: "running",
@@ -38,7 +52,7 @@ export const startCallSession = action({
     });
 
     // Create an analysis session representing the call-analysis workflow.
-    await ctx.runMutation(api.app.createAnalysisSession, {
+    await ctx.runMutation(internal.app.createAnalysisSession, {
       repoId,
       userId,
       sessionType: "call",
@@ -54,19 +68,40 @@ export const startCallSession = action({
   },
 });
 
+/**
+ * Finish a recorded call: summarize the transcript its audio segments
+ * appended while it ran (see callTranscripts.ts) and mark it completed.
+ * A call with no transcribed speech is marked failed.
+ */
 export const finishCallSession = action({
   args: {
     repoId: v.id("repos"),
     callId: v.id("calls"),
-    transcript: v.string(),
   },
   handler: async (
     ctx,
-    { repoId, callId, transcript },
+    { repoId, callId },
   ): Promise<{ summary: string | null; tags: string[] }> => {
+    await ctx.runQuery(internal.repos.getRepoForCurrentMember, {
+      repoId,
+      minimumRole: "member",
+    });
     const repo = await ctx.runQuery(api.app.getRepo, { repoId });
     if (!repo) return { summary: null, tags: [] };
 
+    const turns: TranscriptTurn[] = await ctx.runQuery(
+      internal.callTranscripts.getCallTranscriptInternal,
+      { callId },
+    );
+    if (turns.length === 0) {
+      await ctx.runMutation(internal.app.updateCall, {
+        callId,
+        status: "failed",
+        endTime: Date.now(),
+      });
+      throw new Error("No speech was transcribed during this call.");
+    }
+
     const call = await ctx.runQuery(api.app.getCall, { callId });
     const pullRequests = await ctx.runQuery(api.app.listPullRequestsForRepo, {
       repoId,
@@ -85,31 +120,56 @@ export const finishCallSession = action({
         startedAt: call?.startTime ?? null,
         status: call?.status ?? "running",
       },
-      pullRequests: (pullRequests ?? []).map((pr: any) => ({
-        prNumber: pr.prNumber,
-        title: pr.title,
-        status: pr.status,
-      })),
-      transcript,
+      // Most recent PRs only; merged and closed history can be long.
+      pullRequests: [...(pullRequests ?? [])]
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, 50)
+        .map((pr: any) => ({
+          prNumber: pr.prNumber,
+          title: pr.title,
+          status: pr.status,
+        })),
+      transcript: formatTranscript(turns),
     };
 
-    const prompt = [
-      "You are the Call Summarizer agent.",
-      "You are given JSON describing a single engineering call for a repository.",
-      "Use the transcript and context to derive a short summary, useful tags, concrete action items, and any noteworthy decisions.",
-      "",
-      "CRITICAL: When you are ready, call the `saveCallInsights` tool EXACTLY ONCE",
-      "using the provided `repoId` and `callId` fields from the JSON below.",
-      "Do not invent ids; use them as-is.",
-      "",
-      "Here is the input JSON:",
-      JSON.stringify(callInput),
-    ].join("\n\n");
-
-    await callSummarizerAgent.generateText(
+    const prompt = buildCallSummaryPrompt(callInput);
+
+    // The call-analysis session opened by startCallSession.
+    const sessions = await ctx.runQuery(api.app.listAnalysisSessionsForRepo, {
+      repoId,
+    });
+    const callSession = (sessions as any[]).find((s: any) => {
+      const cfg = (s.config as any) ?? {};
+      return (
+        s.sessionType === "call" &&
+        cfg.kind === "call" &&
+        cfg.callId === String(callId)
+      );
+    });
+
+    const model = await repoLanguageModel(ctx, "callSummarizer", repoId);
+    const toolCtx = {
+      ...ctx,
+      generatedBy: agentProvenanceFor(
+        callSummarizerAgent,
+        CALL_SUMMARY_PROMPT_VERSION,
+        model,
+      ),
+    };
+    await trackLlmCall(
       ctx,
-      { userId: String(repo.ownerUserId) },
-      { prompt },
+      {
+        workflow: "call_summary",
+        agentName: callSummarizerAgent.options.name,
+        repoId,
+        analysisSessionId: callSession?._id,
+      },
+      () =>
+        callSummarizerAgent.generateText(
+          toolCtx,
+          { userId: String(repo.ownerUserId) },
+          { prompt, model },
+        ),
     );
 
     const now = Date.now();
@@ -118,27 +178,22 @@ export const finishCallSession = action({
         ? Math.round((now - call.startTime) / 1000)
         : undefined;
 
-    await ctx.runMutation(api.app.updateCall, {
+    await ctx.runMutation(internal.app.updateCall, {
       callId,
       status: "completed",
       endTime: now,
       durationSeconds,
     });
 
-    // Mark the corresponding call analysis session as completed.
-    const sessions = await ctx.runQuery(api.app.listAnalysisSessionsForRepo, {
+    // Make the call, its summary and action items searchable.
+    await ctx.runMutation(internal.analysisJobs.enqueueAnalysisJobsInternal, {
       repoId,
+      types: ["search_index"],
     });
-    const callSession = (sessions as any[]).find((s: any) => {
-      const cfg = (s.config as any) ?? {};
-      return (
-        s.sessionType === "call" &&
-        cfg.kind === "call" &&
-        cfg.callId === String(callId)
-      );
-    });
+
+    // Mark the corresponding call analysis session as completed.
     if (callSession) {
-      await ctx.runMutation(api.app.updateAnalysisSessionStatus, {
+      await ctx.runMutation(internal.app.updateAnalysisSessionStatus, {
         analysisSessionId: callSession._id,
         status: "completed",
         startedAt: call?.startTime ?? undefined,
@@ -0,0 +1,265 @@
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { computeOwnershipMap } from "../lib/ownership";
+import { githubUserFromPayload, upsertContributorRow } from "./github";
+import { getRepoGithubClient } from "./githubTokens";
+
+// Commits fetched in full (files + stats) per sync run; the rest of a
+// backlog continues in follow-up runs.
+const COMMIT_SYNC_BATCH_SIZE = 50;
+
+// How far back the first sync of a repo reaches.
+const INITIAL_COMMIT_HISTORY_MS = 365 * 24 * 60 * 60 * 1000;
+
+// How far before the cursor each sync lists again. Merging a branch adds
+// commits dated when they were made on the branch, which can be before
+// the cursor; those older than this are missed.
+const COMMIT_SYNC_OVERLAP_MS = 14 * 24 * 60 * 60 * 1000;
+
+// SHAs looked up per query when checking which listed commits are stored.
+const STORED_SHA_LOOKUP_SIZE = 500;
+
+// Most recent commits considered when rebuilding the ownership map.
+// Older history contributes little once recency-weighted.
+const OWNERSHIP_COMMIT_LIMIT = 2000;
+
+// Internal action: ingest commits on the repo's default branch since the repo's
+// `commitsSyncedThrough` cursor, oldest-first in batches so the cursor
+// can advance after each one. Each run lists COMMIT_SYNC_OVERLAP_MS
+// before the cursor too and skips commits already stored, by SHA.
+// Rebuilds the ownership map once caught up.
+export const syncRepoCommitsFromGithub = internalAction({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const client = await getRepoGithubClient(ctx, repoId);
+    if (!client) return;
+
+    const { repo, github } = client;
+    const cursor = repo.commitsSyncedThrough;
+
+    const listed = await github.listCommitsSince(
+      repo.repoOwner,
+      repo.repoName,
+      repo.defaultBranch,
+      cursor == null
+        ? Date.now() - INITIAL_COMMIT_HISTORY_MS
+        : cursor - COMMIT_SYNC_OVERLAP_MS
+    );
+
+    // Commits dated up to the cursor may have been stored by earlier runs.
+    const overlapping =
+      cursor == null
+        ? []
+        : listed
+            .filter(
+              (item) =>
+                new Date(
+                  item.commit.committer?.date ?? item.commit.author?.date ?? 0
+                ).getTime() <= cursor
+            )
+            .map((item) => item.sha);
+    const stored = new Set<string>();
+    for (let i = 0; i < overlapping.length; i += STORED_SHA_LOOKUP_SIZE) {
+      const shas: string[] = await ctx.runQuery(
+        internal.commits.listStoredCommitShas,
+        { repoId, shas: overlapping.slice(i, i + STORED_SHA_LOOKUP_SIZE) }
+      );
+      shas.forEach((sha) => stored.add(sha));
+    }
+    const unsynced = listed.filter((item) => !stored.has(item.sha));
+    const batch = [...unsynced].reverse().slice(0, COMMIT_SYNC_BATCH_SIZE);
+
+    const commits = [];
+    for (const item of batch) {
+      const commit = await github.getCommit(
+        repo.repoOwner,
+        repo.repoName,
+        item.sha
+      );
+
+      commits.push({
+        sha: commit.sha,
+        // GitHub sends an empty object for authors without an account.
+        author:
+          commit.author?.login
+            ? githubUserFromPayload(commit.author)
+            : undefined,
+        authorName: commit.commit.author?.name ?? undefined,
+        authorEmail: commit.commit.author?.email ?? undefined,
+        message: commit.commit.message,
+        committedAt: new Date(
+          commit.commit.committer?.date ??
+            commit.commit.author?.date ??
+            Date.now()
+        ).getTime(),
+        additions: commit.stats?.additions ?? 0,
+        deletions: commit.stats?.deletions ?? 0,
+        files: (commit.files ?? []).map((file) => ({
+          filename: file.filename,
+          additions: file.additions,
+          deletions: file.deletions,
+        })),
+      });
+    }
+
+    if (commits.length > 0) {
+      await ctx.runMutation(internal.commits.saveCommits, { repoId, commits });
+      await ctx.runMutation(internal.commits.advanceCommitSyncCursor, {
+        repoId,
+        syncedThrough: Math.max(...commits.map((c) => c.committedAt)),
+      });
+    }
+
+    if (unsynced.length > batch.length) {
+      await ctx.scheduler.runAfter(0, internal.commits.syncRepoCommitsFromGithub, {
+        repoId,
+      });
+      return;
+    }
+
+    if (commits.length > 0) {
+      await ctx.runMutation(internal.commits.rebuildPathOwnership, { repoId });
+    }
+  },
+});
+
+// Internal query: which of `shas` the repo has stored.
+export const listStoredCommitShas = internalQuery({
+  args: { repoId: v.id("repos"), shas: v.array(v.string()) },
+  handler: async (ctx, { repoId, shas }) => {
+    const stored = [];
+    for (const sha of shas) {
+      const commit = await ctx.db
+        .query("commits")
+        .withIndex("byRepoAndSha", (q) => q.eq("repoId", repoId).eq("sha", sha))
+        .unique();
+      if (commit) stored.push(sha);
+    }
+    return stored;
+  },
+});
+
+// Internal mutation: insert commits not stored yet (overlapping runs can
+// fetch the same commit) and link their authors.
+export const saveCommits = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    commits: v.array(
+      v.object({
+        sha: v.string(),
+        author: v.optional(
+          v.object({
+            githubUserId: v.string(),
+            login: v.string(),
+            name: v.optional(v.string()),
+            avatarUrl: v.optional(v.string()),
+          })
+        ),
+        authorName: v.optional(v.string()),
+        authorEmail: v.optional(v.string()),
+        message: v.string(),
+        committedAt: v.number(),
+        additions: v.number(),
+        deletions: v.number(),
+        files: v.array(
+          v.object({
+            filename: v.string(),
+            additions: v.number(),
+            deletions: v.number(),
+          })
+        ),
+      })
+    ),
+  },
+  handler: async (ctx, { repoId, commits }) => {
+    const now = Date.now();
+
+    for (const { author, ...commit } of commits) {
+      const existing = await ctx.db
+        .query("commits")
+        .withIndex("byRepoAndSha", (q) =>
+          q.eq("repoId", repoId).eq("sha", commit.sha)
+        )
+        .unique();
+      if (existing) continue;
+
+      let authorContributorId: Id<"contributors"> | undefined;
+      if (author) {
+        const contributor = await upsertContributorRow(ctx, author, now);
+        authorContributorId = contributor._id;
+      }
+
+      await ctx.db.insert("commits", {
+        repoId,
+        ...commit,
+        authorContributorId,
+        createdAt: now,
+      });
+    }
+  },
+});
+
+// Internal mutation: move the commit cursor forward (never backwards).
+export const advanceCommitSyncCursor = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    syncedThrough: v.number(),
+  },
+  handler: async (ctx, { repoId, syncedThrough }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return;
+
+    if ((repo.commitsSyncedThrough ?? 0) < syncedThrough) {
+      await ctx.db.patch(repoId, { commitsSyncedThrough: syncedThrough });
+    }
+  },
+});
+
+// Internal mutation: recompute the repo's pathOwnership rows from its
+// most recent commits.
+export const rebuildPathOwnership = internalMutation({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const now = Date.now();
+
+    const commits = await ctx.db
+      .query("commits")
+      .withIndex("byRepoAndCommittedAt", (q) => q.eq("repoId", repoId))
+      .order("desc")
+      .take(OWNERSHIP_COMMIT_LIMIT);
+
+    const owners = computeOwnershipMap(
+      commits
+        .filter((c) => c.authorContributorId)
+        .map((c) => ({
+          contributorId: c.authorContributorId as string,
+          committedAt: c.committedAt,
+          filenames: c.files.map((f) => f.filename),
+        })),
+      now
+    );
+
+    const previous = await ctx.db
+      .query("pathOwnership")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .collect();
+    for (const row of previous) {
+      await ctx.db.delete(row._id);
+    }
+
+    for (const owner of owners) {
+      await ctx.db.insert("pathOwnership", {
+        repoId,
+        ...owner,
+        contributorId: owner.contributorId as Id<"contributors">,
+        computedAt: now,
+      });
+    }
+  },
+});
@@ -0,0 +1,84 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { recomputeContributorStats } from "./contributorStats";
+import { weekStart } from "../lib/contributorStats";
+import { createRepo, createUser, modules } from "./test.setup";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("recomputeContributorStats", () => {
+  test("stores one row per week and drops weeks left without PRs", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+    // A Wednesday, so +1 day stays in the week and +7 days does not.
+    const wednesday = Date.UTC(2026, 9, 14, 12);
+
+    const { contributorId, prIds } = await t.run(async (ctx) => {
+      const contributorId = await ctx.db.insert("contributors", {
+        githubUserId: "author",
+        login: "author",
+        createdAt: wednesday,
+        updatedAt: wednesday,
+      });
+      const prIds = [];
+      for (const [prNumber, createdAt] of [
+        [1, wednesday],
+        [2, wednesday + DAY_MS],
+        [3, wednesday + 7 * DAY_MS],
+      ]) {
+        prIds.push(
+          await ctx.db.insert("pullRequests", {
+            repoId,
+            authorContributorId: contributorId,
+            githubPrId: String(prNumber),
+            prNumber,
+            title: `PR ${prNumber}`,
+            status: prNumber === 1 ? "merged" : "open",
+            additions: 10,
+            deletions: 2,
+            createdAt,
+            lastSyncedAt: createdAt,
+          })
+        );
+      }
+      await recomputeContributorStats(ctx, repoId, contributorId, wednesday);
+      return { contributorId, prIds };
+    });
+
+    const weeks = () =>
+      t.run(async (ctx) =>
+        (await ctx.db.query("repoContributorStats").collect())
+          .map((row) => [row.weekStart, row.authoredCount, row.mergedCount])
+          .sort((a, b) => a[0] - b[0])
+      );
+    const firstWeek = weekStart(wednesday);
+    expect(await weeks()).toEqual([
+      [firstWeek, 2, 1],
+      [firstWeek + 7 * DAY_MS, 1, 0],
+    ]);
+
+    // PR 3 is moved to another author; its week no longer has a row.
+    await t.run(async (ctx) => {
+      const otherId = await ctx.db.insert("contributors", {
+        githubUserId: "other",
+        login: "other",
+        createdAt: wednesday,
+        updatedAt: wednesday,
+      });
+      await ctx.db.patch(prIds[2], { authorContributorId: otherId });
+      await recomputeContributorStats(ctx, repoId, contributorId, wednesday);
+    });
+    const link = await t.run((ctx) =>
+      ctx.db
+        .query("repoContributors")
+        .withIndex("byRepoAndContributor", (q) =>
+          q.eq("repoId", repoId).eq("contributorId", contributorId)
+        )
+        .unique()
+    );
+    expect(await weeks()).toEqual([[firstWeek, 2, 1]]);
+    expect(link).toMatchObject({ prCount: 2, linesChanged: 24 });
+  });
+});
@@ -0,0 +1,106 @@
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { computeWeeklyContributorStats } from "../lib/contributorStats";
+
+/**
+ * Recompute a contributor's stats in one repo from the PRs they authored
+ * there: the all-time `prCount`/`linesChanged` on repoContributors (the
+ * link is created if missing) and one repoContributorStats row per week
+ * they opened a PR in.
+ */
+export async function recomputeContributorStats(
+  ctx: MutationCtx,
+  repoId: Id<"repos">,
+  contributorId: Id<"contributors">,
+  now: number
+) {
+  const authored = await ctx.db
+    .query("pullRequests")
+    .withIndex("byRepoAndAuthor", (q) =>
+      q.eq("repoId", repoId).eq("authorContributorId", contributorId)
+    )
+    .collect();
+
+  const weeks = computeWeeklyContributorStats(authored);
+  const prCount = authored.length;
+  const linesChanged = weeks.reduce(
+    (total, week) => total + week.additions + week.deletions,
+    0
+  );
+
+  const link = await ctx.db
+    .query("repoContributors")
+    .withIndex("byRepoAndContributor", (q) =>
+      q.eq("repoId", repoId).eq("contributorId", contributorId)
+    )
+    .unique();
+
+  if (!link) {
+    await ctx.db.insert("repoContributors", {
+      repoId,
+      contributorId,
+      prCount,
+      linesChanged,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.patch(link._id, {
+      prCount,
+      linesChanged,
+      updatedAt: now,
+    });
+  }
+
+  const existing = await ctx.db
+    .query("repoContributorStats")
+    .withIndex("byRepoAndContributor", (q) =>
+      q.eq("repoId", repoId).eq("contributorId", contributorId)
+    )
+    .collect();
+  const existingByWeek = new Map(existing.map((row) => [row.weekStart, row]));
+
+  for (const stats of weeks) {
+    const row = existingByWeek.get(stats.weekStart);
+    existingByWeek.delete(stats.weekStart);
+    if (row) {
+      await ctx.db.replace(row._id, {
+        repoId,
+        contributorId,
+        ...stats,
+        computedAt: now,
+      });
+    } else {
+      await ctx.db.insert("repoContributorStats", {
+        repoId,
+        contributorId,
+        ...stats,
+        computedAt: now,
+      });
+    }
+  }
+  // Weeks left without a PR (e.g. the PR moved to another author).
+  for (const row of existingByWeek.values()) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+// Internal mutation: recompute stats for every contributor linked to a
+// repo, e.g. to rebuild them after a change to how they are computed:
+// `npx convex run contributorStats:refreshRepoContributorStats '{"repoId": "..."}'`.
+export const refreshRepoContributorStats = internalMutation({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const links = await ctx.db
+      .query("repoContributors")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .collect();
+
+    const now = Date.now();
+    for (const link of links) {
+      await recomputeContributorStats(ctx, repoId, link.contributorId, now);
+    }
+  },
+});
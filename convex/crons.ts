@@ -3,12 +3,46 @@ import { internal } from "./_generated/api";
 
 const crons = cronJobs();
 
+// Repos without a GitHub webhook (see githubWebhooks.ts) are polled
+// for PR changes.
 crons.interval(
-  "sync github pull requests for all repos",
+  "sync github pull requests for repos without a webhook",
   { seconds: 5 },
+  internal.github.schedulePollingSyncForReposWithoutWebhook,
+  {}
+);
+
+// Webhooks keep the other repos up to date in near real time; this slow
+// poll of every repo reconciles anything a missed or failed delivery
+// left behind, and ingests commits.
+crons.interval(
+  "reconcile github pull requests for all repos",
+  { minutes: 30 },
   internal.github.scheduleGithubSyncAllRepos,
   {}
 );
 
-export default crons;
+crons.daily(
+  "prune github webhook deliveries",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.githubWebhooks.pruneWebhookDeliveries,
+  {}
+);
 
+// Catches revoked or expiring per-repo GitHub tokens before a sync fails.
+crons.daily(
+  "check github token health for all repos",
+  { hourUTC: 5, minuteUTC: 0 },
+  internal.githubTokens.scheduleTokenHealthChecksAllRepos,
+  {}
+);
+
+// Retries analysis jobs whose action died without reporting back.
+crons.interval(
+  "recover stuck analysis jobs",
+  { minutes: 5 },
+  internal.analysisJobs.recoverStuckJobs,
+  {}
+);
+
+export default crons;
@@ -0,0 +1,492 @@
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import {
+  NoObjectGeneratedError,
+  generateObject,
+  generateText,
+  stepCountIs,
+  tool,
+  wrapLanguageModel,
+  type ToolSet,
+} from "ai";
+import type { Agent } from "@convex-dev/agent";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+  PR_ANALYSIS_PROMPT_VERSION,
+  buildPrAnalysisPrompt,
+  prAnalysisResultSchema,
+  prRiskAnalyzerAgent,
+} from "./agents/PRAnalyzer";
+import {
+  CONTRIBUTOR_PROFILE_PROMPT_VERSION,
+  buildContributorProfilePrompt,
+  contributorProfilerAgent,
+} from "./agents/ContributorProfiler";
+import {
+  CALL_SUMMARY_PROMPT_VERSION,
+  buildCallSummaryPrompt,
+  callSummarizerAgent,
+} from "./agents/CallSummarizer";
+import {
+  languageModelFor,
+  languageModelForChoice,
+  resolveModelChoice,
+  type ModelAgent,
+  type ProviderLanguageModel,
+} from "../lib/modelProviders";
+import {
+  compareEvalReports,
+  scoreCallSummary,
+  scoreContributorProfile,
+  scorePrRisk,
+  summarizeScores,
+  type CaseScore,
+  type EvalSuite,
+  type RecordedToolCall,
+} from "../lib/evalScoring";
+import {
+  CALL_SUMMARY_CASES,
+  CONTRIBUTOR_PROFILE_CASES,
+  PR_RISK_CASES,
+} from "../lib/evalFixtures";
+
+const evalSuite = v.union(
+  v.literal("pr_risk"),
+  v.literal("contributor_profile"),
+  v.literal("call_summary")
+);
+
+const modelSource = v.union(
+  v.literal("live"),
+  v.literal("recorded"),
+  v.literal("mock")
+);
+
+type SuiteCase = {
+  id: string;
+  prompt: string;
+  run: (
+    model: ProviderLanguageModel
+  ) => Promise<{ output: unknown; score: CaseScore }>;
+};
+
+type SuiteDefinition = {
+  agent: Agent;
+  modelAgent: ModelAgent;
+  promptVersion: number;
+  cases: SuiteCase[];
+};
+
+/**
+ * Run a tool-calling agent's instructions and prompt directly on the AI
+ * SDK, with its tools replaced by stand-ins that only record their calls.
+ * Nothing is written to the database.
+ */
+async function runWithRecordedTools(
+  agent: Agent,
+  model: ProviderLanguageModel,
+  prompt: string
+) {
+  const toolCalls: RecordedToolCall[] = [];
+  const tools: ToolSet = {};
+  for (const [toolName, agentTool] of Object.entries<ToolSet[string]>(
+    agent.options.tools ?? {}
+  )) {
+    tools[toolName] = tool({
+      description: agentTool.description,
+      inputSchema: agentTool.inputSchema,
+      execute: async (input: unknown) => {
+        toolCalls.push({ toolName, input });
+        return { ok: true };
+      },
+    });
+  }
+
+  await generateText({
+    model,
+    system: agent.options.instructions,
+    prompt,
+    tools,
+    stopWhen: stepCountIs(agent.options.maxSteps ?? 1),
+  });
+  return toolCalls;
+}
+
+const SUITES: Record<EvalSuite, SuiteDefinition> = {
+  pr_risk: {
+    agent: prRiskAnalyzerAgent,
+    modelAgent: "prAnalyzer",
+    promptVersion: PR_ANALYSIS_PROMPT_VERSION,
+    cases: PR_RISK_CASES.map((fixture) => {
+      const prompt = buildPrAnalysisPrompt(
+        fixture.input.pr,
+        fixture.input.patchChunks
+      );
+      return {
+        id: fixture.id,
+        prompt,
+        run: async (model) => {
+          const output = await generateObject({
+            model,
+            system: prRiskAnalyzerAgent.options.instructions,
+            prompt,
+            schema: prAnalysisResultSchema,
+          }).then(
+            (result) => result.object,
+            (err) => {
+              // An answer that never matched the schema scores as invalid;
+              // anything else (network, auth) fails the case.
+              if (NoObjectGeneratedError.isInstance(err)) return null;
+              throw err;
+            }
+          );
+          return { output, score: scorePrRisk(fixture.expected, output) };
+        },
+      };
+    }),
+  },
+  contributor_profile: {
+    agent: contributorProfilerAgent,
+    modelAgent: "contributorProfiler",
+    promptVersion: CONTRIBUTOR_PROFILE_PROMPT_VERSION,
+    cases: CONTRIBUTOR_PROFILE_CASES.map((fixture) => {
+      const prompt = buildContributorProfilePrompt(fixture.input);
+      return {
+        id: fixture.id,
+        prompt,
+        run: async (model) => {
+          const toolCalls = await runWithRecordedTools(
+            contributorProfilerAgent,
+            model,
+            prompt
+          );
+          return {
+            output: toolCalls,
+            score: scoreContributorProfile(
+              fixture.expected,
+              {
+                repoId: fixture.input.repo.repoId,
+                contributorId: fixture.input.contributor.contributorId,
+              },
+              toolCalls
+            ),
+          };
+        },
+      };
+    }),
+  },
+  call_summary: {
+    agent: callSummarizerAgent,
+    modelAgent: "callSummarizer",
+    promptVersion: CALL_SUMMARY_PROMPT_VERSION,
+    cases: CALL_SUMMARY_CASES.map((fixture) => {
+      const prompt = buildCallSummaryPrompt(fixture.input);
+      return {
+        id: fixture.id,
+        prompt,
+        run: async (model) => {
+          const toolCalls = await runWithRecordedTools(
+            callSummarizerAgent,
+            model,
+            prompt
+          );
+          return {
+            output: toolCalls,
+            score: scoreCallSummary(
+              fixture.expected,
+              { repoId: fixture.input.repoId, callId: fixture.input.callId },
+              toolCalls
+            ),
+          };
+        },
+      };
+    }),
+  },
+};
+
+type GenerateResponse = Awaited<ReturnType<ProviderLanguageModel["doGenerate"]>>;
+
+// A model that answers with a live run's recorded responses, in order.
+function replayLanguageModel(
+  modelId: string,
+  responses: GenerateResponse[]
+): ProviderLanguageModel {
+  let next = 0;
+  return {
+    specificationVersion: "v2",
+    provider: "recorded",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async () => {
+      if (next >= responses.length) {
+        throw new Error("Recording has no more responses for this case");
+      }
+      return responses[next++];
+    },
+    doStream: async () => {
+      throw new Error("Recorded models do not support streaming");
+    },
+  };
+}
+
+// The suite's declared prompt version plus a fingerprint of everything the
+// model is shown: the agent's instructions and every fixture prompt. The
+// fingerprint tells apart runs of unversioned prompt edits.
+async function promptFingerprint(definition: SuiteDefinition) {
+  const text = [
+    definition.agent.options.instructions ?? "",
+    ...definition.cases.map((c) => c.prompt),
+  ].join("\n\u0000\n");
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  const hash = Array.from(new Uint8Array(digest))
+    .slice(0, 6)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `v${definition.promptVersion}-${hash}`;
+}
+
+// Convex values cannot hold `undefined` or class instances; model output
+// and responses are plain JSON once round-tripped.
+function toStoredValue(value: unknown) {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Run one evaluation suite over the golden dataset and store the report.
+ *
+ * - `live` calls the agent's configured model and records its raw
+ *   responses for later replay
+ * - `recorded` replays the latest recording of each case, so scoring and
+ *   tool handling can be checked without model calls
+ * - `mock` uses the deterministic mock provider
+ *
+ * Run with `npx convex run evals:runEvaluation '{"suite":"pr_risk","modelSource":"live"}'`.
+ */
+export const runEvaluation = internalAction({
+  args: {
+    suite: evalSuite,
+    modelSource,
+    caseIds: v.optional(v.array(v.string())),
+  },
+  handler: async (
+    ctx,
+    { suite, modelSource, caseIds }
+  ): Promise<{
+    runId: Id<"evalRuns">;
+    promptVersion: string;
+    metrics: Record<string, number>;
+  }> => {
+    const definition = SUITES[suite];
+    const promptVersion = await promptFingerprint(definition);
+    const cases = caseIds
+      ? definition.cases.filter((c) => caseIds.includes(c.id))
+      : definition.cases;
+
+    let modelName: string = modelSource;
+    if (modelSource === "live") {
+      const choice = resolveModelChoice(definition.modelAgent);
+      modelName = `${choice.provider}:${choice.model}`;
+    }
+
+    const results = [];
+    const recordings = [];
+    for (const evalCase of cases) {
+      let baseModel: ProviderLanguageModel;
+      if (modelSource === "live") {
+        baseModel = languageModelFor(definition.modelAgent);
+      } else if (modelSource === "mock") {
+        baseModel = languageModelForChoice({ provider: "mock", model: "mock" });
+      } else {
+        const recording = await ctx.runQuery(
+          internal.evals.getLatestRecording,
+          { suite, caseId: evalCase.id }
+        );
+        if (!recording) {
+          results.push({
+            caseId: evalCase.id,
+            passed: false,
+            scores: {},
+            notes: [],
+            error: "No recording; run this suite live first",
+          });
+          continue;
+        }
+        baseModel = replayLanguageModel(recording.model, recording.responses);
+      }
+
+      const responses: unknown[] = [];
+      const model = wrapLanguageModel({
+        model: baseModel,
+        middleware: {
+          wrapGenerate: async ({ doGenerate }) => {
+            const response = await doGenerate();
+            responses.push(
+              toStoredValue({
+                content: response.content,
+                finishReason: response.finishReason,
+                usage: response.usage,
+                warnings: [],
+              })
+            );
+            return response;
+          },
+        },
+      });
+
+      try {
+        const { output, score } = await evalCase.run(model);
+        results.push({
+          caseId: evalCase.id,
+          passed: score.passed,
+          scores: score.scores,
+          notes: score.notes,
+          output: toStoredValue(output),
+        });
+        if (modelSource === "live") {
+          recordings.push({ caseId: evalCase.id, responses });
+        }
+      } catch (err) {
+        results.push({
+          caseId: evalCase.id,
+          passed: false,
+          scores: {},
+          notes: [],
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    const metrics = summarizeScores(
+      results.map((result) => ({
+        score: "error" in result ? null : result,
+      }))
+    );
+
+    const runId: Id<"evalRuns"> = await ctx.runMutation(
+      internal.evals.saveEvalRun,
+      {
+        suite,
+        promptVersion,
+        modelSource,
+        model: modelName,
+        metrics,
+        results,
+        recordings,
+      }
+    );
+    return { runId, promptVersion, metrics };
+  },
+});
+
+// Internal mutation: store an evaluation report and any recordings made
+// during it.
+export const saveEvalRun = internalMutation({
+  args: {
+    suite: evalSuite,
+    promptVersion: v.string(),
+    modelSource,
+    model: v.string(),
+    metrics: v.record(v.string(), v.number()),
+    results: v.array(
+      v.object({
+        caseId: v.string(),
+        passed: v.boolean(),
+        scores: v.record(v.string(), v.number()),
+        notes: v.array(v.string()),
+        output: v.optional(v.any()),
+        error: v.optional(v.string()),
+      })
+    ),
+    recordings: v.array(
+      v.object({ caseId: v.string(), responses: v.array(v.any()) })
+    ),
+  },
+  handler: async (ctx, { recordings, ...run }) => {
+    const now = Date.now();
+    const runId = await ctx.db.insert("evalRuns", { ...run, createdAt: now });
+
+    for (const recording of recordings) {
+      await ctx.db.insert("evalRecordings", {
+        suite: run.suite,
+        caseId: recording.caseId,
+        promptVersion: run.promptVersion,
+        model: run.model,
+        responses: recording.responses,
+        createdAt: now,
+      });
+    }
+    return runId;
+  },
+});
+
+// Internal query: the most recent live recording of one case.
+export const getLatestRecording = internalQuery({
+  args: { suite: evalSuite, caseId: v.string() },
+  handler: async (ctx, { suite, caseId }) => {
+    return ctx.db
+      .query("evalRecordings")
+      .withIndex("bySuiteAndCase", (q) =>
+        q.eq("suite", suite).eq("caseId", caseId)
+      )
+      .order("desc")
+      .first();
+  },
+});
+
+/** Recent evaluation runs of a suite, newest first, without case details. */
+export const listEvalRuns = internalQuery({
+  args: { suite: evalSuite, limit: v.optional(v.number()) },
+  handler: async (ctx, { suite, limit }) => {
+    const runs = await ctx.db
+      .query("evalRuns")
+      .withIndex("bySuite", (q) => q.eq("suite", suite))
+      .order("desc")
+      .take(limit ?? 20);
+
+    return runs.map(({ results, ...run }) => ({
+      ...run,
+      cases: results.length,
+    }));
+  },
+});
+
+/**
+ * Compare two runs of the same suite, typically the same model before and
+ * after a prompt change: metric deltas and the cases that started or
+ * stopped passing.
+ */
+export const compareEvalRuns = internalQuery({
+  args: {
+    baseRunId: v.id("evalRuns"),
+    candidateRunId: v.id("evalRuns"),
+  },
+  handler: async (ctx, { baseRunId, candidateRunId }) => {
+    const [base, candidate] = await Promise.all([
+      ctx.db.get(baseRunId),
+      ctx.db.get(candidateRunId),
+    ]);
+    if (!base || !candidate) throw new Error("Evaluation run not found");
+    if (base.suite !== candidate.suite) {
+      throw new Error("Only runs of the same suite can be compared");
+    }
+
+    return {
+      suite: base.suite,
+      base: {
+        promptVersion: base.promptVersion,
+        model: base.model,
+        modelSource: base.modelSource,
+      },
+      candidate: {
+        promptVersion: candidate.promptVersion,
+        model: candidate.model,
+        modelSource: candidate.modelSource,
+      },
+      ...compareEvalReports(base, candidate),
+    };
+  },
+});
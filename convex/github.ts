@@ -1,7 +1,20 @@
-import { action, internalMutation, mutation } from "./_generated/server";
+import { internalAction, internalMutation } from "./_generated/server";
+import type { ActionCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { api, internal } from "./_generated/api";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
 import { createGithubClient } from "../lib/github";
+import { computeReviewMetrics } from "../lib/reviewMetrics";
+import { recomputeContributorStats } from "./contributorStats";
+import { refreshReviewerPathStats } from "./reviewers";
+import { getRepoGithubClient } from "./githubTokens";
+
+const githubUserArgs = v.object({
+  githubUserId: v.string(),
+  login: v.string(),
+  name: v.optional(v.string()),
+  avatarUrl: v.optional(v.string()),
+});
 
 // Shared validator for syncing a GitHub pull request into Convex.
 // Re-use this for both the internal mutation (used by the Agent tool)
@@ -15,12 +28,7 @@ export const syncPullRequestArgs = {
     url: v.string(),
     defaultBranch: v.string(),
   }),
-  author: v.object({
-    githubUserId: v.string(),
-    login: v.string(),
-    name: v.optional(v.string()),
-    avatarUrl: v.optional(v.string()),
-  }),
+  author: githubUserArgs,
   pullRequest: v.object({
     githubPrId: v.string(),
     number: v.number(),
@@ -31,15 +39,71 @@ export const syncPullRequestArgs = {
     createdAt: v.number(),
     mergedAt: v.optional(v.number()),
     closedAt: v.optional(v.number()),
+    headSha: v.optional(v.string()),
   }),
   stats: v.object({
     additions: v.number(),
     deletions: v.number(),
     changedFiles: v.number(),
   }),
+  // Outstanding review requests. Omit to leave stored requests untouched.
+  requestedReviewers: v.optional(
+    v.object({
+      users: v.array(githubUserArgs),
+      teams: v.array(v.string()),
+    })
+  ),
   syncedAt: v.number(),
 } as const;
 
+export type GithubUser = {
+  githubUserId: string;
+  login: string;
+  name?: string;
+  avatarUrl?: string;
+};
+
+// The fields read from a GitHub user in REST responses and webhook
+// payloads.
+export type GithubUserPayload = {
+  id: number;
+  login: string;
+  name?: string | null;
+  avatar_url?: string | null;
+};
+
+// The fields read from a GitHub pull request in REST responses and
+// webhook `pull_request` objects. Webhook review events send a trimmed
+// object without the change stats.
+export type GithubPullRequestPayload = {
+  id: number;
+  number: number;
+  title?: string | null;
+  body?: string | null;
+  state: string;
+  user: GithubUserPayload | null;
+  created_at: string;
+  merged_at?: string | null;
+  closed_at?: string | null;
+  head?: { sha: string };
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  requested_reviewers?: GithubUserPayload[] | null;
+  requested_teams?: { slug: string }[] | null;
+};
+
+export function githubUserFromPayload(
+  user: Partial<GithubUserPayload> | null | undefined
+): GithubUser {
+  return {
+    githubUserId: String(user?.id ?? ""),
+    login: user?.login ?? "unknown",
+    name: user?.name ?? undefined,
+    avatarUrl: user?.avatar_url ?? undefined,
+  };
+}
+
 export type SyncPullRequestArgs = {
   repo: {
     githubRepoId: string;
@@ -49,12 +113,7 @@ export type SyncPullRequestArgs = {
     url: string;
     defaultBranch: string;
   };
-  author: {
-    githubUserId: string;
-    login: string;
-    name?: string;
-    avatarUrl?: string;
-  };
+  author: GithubUser;
   pullRequest: {
     githubPrId: string;
     number: number;
@@ -65,17 +124,139 @@ export type SyncPullRequestArgs = {
     createdAt: number;
     mergedAt?: number;
     closedAt?: number;
+    headSha?: string;
   };
   stats: {
     additions: number;
     deletions: number;
     changedFiles: number;
   };
+  requestedReviewers?: {
+    users: GithubUser[];
+    teams: string[];
+  };
   syncedAt: number;
 };
 
+// Map a GitHub pull request payload (REST response or webhook
+// `pull_request` object) onto the shape accepted by syncPullRequestCore.
+export function pullRequestPayloadToSyncArgs(
+  repo: Doc<"repos">,
+  pr: GithubPullRequestPayload,
+  syncedAt: number
+): SyncPullRequestArgs {
+  return {
+    repo: {
+      githubRepoId: repo.githubRepoId,
+      owner: repo.repoOwner,
+      name: repo.repoName,
+      description: repo.description ?? undefined,
+      url: repo.url,
+      defaultBranch: repo.defaultBranch,
+    },
+    author: githubUserFromPayload(pr.user),
+    pullRequest: {
+      githubPrId: String(pr.id),
+      number: pr.number,
+      title: pr.title ?? "",
+      body: pr.body ?? undefined,
+      state: pr.state === "open" ? "open" : "closed",
+      merged: Boolean(pr.merged_at),
+      createdAt: new Date(pr.created_at).getTime(),
+      mergedAt: pr.merged_at ? new Date(pr.merged_at).getTime() : undefined,
+      closedAt: pr.closed_at ? new Date(pr.closed_at).getTime() : undefined,
+      headSha: pr.head?.sha ?? undefined,
+    },
+    stats: {
+      additions: pr.additions ?? 0,
+      deletions: pr.deletions ?? 0,
+      changedFiles: pr.changed_files ?? 0,
+    },
+    requestedReviewers: Array.isArray(pr.requested_reviewers)
+      ? {
+          users: pr.requested_reviewers.map(githubUserFromPayload),
+          teams: (pr.requested_teams ?? []).map((team) => String(team.slug)),
+        }
+      : undefined,
+    syncedAt,
+  };
+}
+
+// Find or create the contributor row for a GitHub user, refreshing its
+// profile fields.
+export async function upsertContributorRow(
+  ctx: MutationCtx,
+  user: GithubUser,
+  syncedAt: number
+): Promise<Doc<"contributors">> {
+  const contributor = await ctx.db
+    .query("contributors")
+    .withIndex("byGithubUserId", (q) => q.eq("githubUserId", user.githubUserId))
+    .unique();
+
+  if (!contributor) {
+    const contributorId = await ctx.db.insert("contributors", {
+      githubUserId: user.githubUserId,
+      login: user.login,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+      createdAt: syncedAt,
+      updatedAt: syncedAt,
+    });
+    const created = await ctx.db.get(contributorId);
+    if (!created) {
+      throw new Error("Failed to load or create contributor");
+    }
+    return created;
+  }
+
+  await ctx.db.patch(contributor._id, {
+    login: user.login,
+    name: user.name ?? contributor.name,
+    avatarUrl: user.avatarUrl ?? contributor.avatarUrl,
+    updatedAt: syncedAt,
+  });
+  return contributor;
+}
+
+// Replace the stored outstanding review requests for a PR.
+async function replaceReviewRequests(
+  ctx: MutationCtx,
+  repoId: Id<"repos">,
+  pullRequestId: Id<"pullRequests">,
+  requested: NonNullable<SyncPullRequestArgs["requestedReviewers"]>,
+  syncedAt: number
+) {
+  const previous = await ctx.db
+    .query("pullRequestReviewRequests")
+    .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+    .collect();
+  for (const request of previous) {
+    await ctx.db.delete(request._id);
+  }
+
+  for (const user of requested.users) {
+    const reviewer = await upsertContributorRow(ctx, user, syncedAt);
+    await ctx.db.insert("pullRequestReviewRequests", {
+      repoId,
+      pullRequestId,
+      reviewerContributorId: reviewer._id,
+      createdAt: syncedAt,
+    });
+  }
+  for (const teamSlug of requested.teams) {
+    await ctx.db.insert("pullRequestReviewRequests", {
+      repoId,
+      pullRequestId,
+      teamSlug,
+      createdAt: syncedAt,
+    });
+  }
+}
+
 async function syncPullRequestCore(ctx: any, args: SyncPullRequestArgs) {
-  const { repo, author, pullRequest, stats, syncedAt } = args;
+  const { repo, author, pullRequest, stats, requestedReviewers, syncedAt } =
+    args;
 
   const repoRow = await ctx.db
     .query("repos")
@@ -87,29 +268,7 @@ async function syncPullRequestCore(ctx: any, args: SyncPullRequestArgs) {
     return;
   }
 
-  let contributor = await ctx.db
-    .query("contributors")
-    .withIndex("byGithubUserId", (q: any) => q.eq("githubUserId", author.githubUserId))
-    .unique();
-
-  if (!contributor) {
-    const contributorId = await ctx.db.insert("contributors", {
-      githubUserId: author.githubUserId,
-      login: author.login,
-      name: author.name,
-      avatarUrl: author.avatarUrl,
-      createdAt: syncedAt,
-      updatedAt: syncedAt,
-    });
-    contributor = await ctx.db.get(contributorId);
-  } else {
-    await ctx.db.patch(contributor._id, {
-      login: author.login,
-      name: author.name ?? contributor.name,
-      avatarUrl: author.avatarUrl ?? contributor.avatarUrl,
-      updatedAt: syncedAt,
-    });
-  }
+  const contributor = await upsertContributorRow(ctx, author, syncedAt);
 
   if (!contributor) {
     throw new Error("Failed to load or create contributor");
@@ -140,6 +299,10 @@ async function syncPullRequestCore(ctx: any, args: SyncPullRequestArgs) {
     createdAt: pullRequest.createdAt,
     mergedAt: pullRequest.mergedAt,
     closedAt: pullRequest.closedAt,
+    additions: stats.additions,
+    deletions: stats.deletions,
+    changedFiles: stats.changedFiles,
+    headSha: pullRequest.headSha ?? existingPr?.headSha,
     lastSyncedAt: syncedAt,
   } as const;
 
@@ -149,49 +312,54 @@ async function syncPullRequestCore(ctx: any, args: SyncPullRequestArgs) {
   } else {
     await ctx.db.patch(existingPr._id, basePrDoc);
     pullRequestId = existingPr._id;
+
+    // A merge can change the repo's manifests; re-detect the tech stack
+    // if this PR touched any of them.
+    if (existingPr.status !== "merged" && status === "merged") {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.techStack.detectTechStackForMergedPullRequest,
+        { repoId: repoRow._id, prNumber: pullRequest.number }
+      );
+    }
   }
 
-  let repoContributor = await ctx.db
-    .query("repoContributors")
-    .withIndex("byRepoAndContributor", (q: any) =>
-      q.eq("repoId", repoRow._id).eq("contributorId", contributor._id)
-    )
-    .unique();
+  // Requests are only kept while the PR is open, so the repo's requests
+  // stay a small set that reviewer suggestions can read in full.
+  if (requestedReviewers || status !== "open") {
+    await replaceReviewRequests(
+      ctx,
+      repoRow._id,
+      pullRequestId,
+      status === "open" && requestedReviewers
+        ? requestedReviewers
+        : { users: [], teams: [] },
+      syncedAt
+    );
+  }
 
-  if (!repoContributor) {
-    const prCount = await ctx.db
-      .query("pullRequests")
-      .withIndex("byAuthor", (q: any) =>
-        q.eq("authorContributorId", contributor._id)
-      )
-      .collect()
-      .then((prs: any[]) => prs.length);
-
-    await ctx.db.insert("repoContributors", {
-      repoId: repoRow._id,
-      contributorId: contributor._id,
-      role: undefined,
-      seniority: undefined,
-      prCount,
-      linesChanged: stats.additions + stats.deletions,
-      mainAreas: undefined,
-      createdAt: syncedAt,
-      updatedAt: syncedAt,
-    });
-  } else {
-    const prCount = await ctx.db
-      .query("pullRequests")
-      .withIndex("byAuthor", (q: any) =>
-        q.eq("authorContributorId", contributor._id)
-      )
-      .collect()
-      .then((prs: any[]) => prs.length);
+  // Newly opened (or reopened) PRs get reviewer suggestions.
+  if (status === "open" && existingPr?.status !== "open") {
+    await ctx.scheduler.runAfter(
+      0,
+      internal.reviewers.suggestReviewersForPullRequest,
+      { pullRequestId }
+    );
+  }
 
-    await ctx.db.patch(repoContributor._id, {
-      prCount,
-      linesChanged: stats.additions + stats.deletions,
-      updatedAt: syncedAt,
-    });
+  await recomputeContributorStats(
+    ctx,
+    repoRow._id,
+    contributor._id,
+    syncedAt
+  );
+  if (existingPr && existingPr.authorContributorId !== contributor._id) {
+    await recomputeContributorStats(
+      ctx,
+      repoRow._id,
+      existingPr.authorContributorId,
+      syncedAt
+    );
   }
 
   return { pullRequestId, contributorId: contributor._id, repoId: repoRow._id };
@@ -203,143 +371,411 @@ export const syncPullRequestFromGithub = internalMutation({
   handler: async (ctx, args) => syncPullRequestCore(ctx, args),
 });
 
-// Public mutation you can call from your app / webhooks directly
-export const syncPullRequestFromGithubMutation = mutation({
-  args: syncPullRequestArgs,
-  handler: async (ctx, args) => syncPullRequestCore(ctx, args),
+const reviewStateArgs = v.union(
+  v.literal("approved"),
+  v.literal("changes_requested"),
+  v.literal("commented"),
+  v.literal("dismissed"),
+  v.literal("pending")
+);
+
+// Internal mutation: replace a PR's reviews and inline review comments
+// with the latest from GitHub and recompute its review metrics.
+// Reviewers get a repoContributors link even if they never authored a
+// PR in the repo, so the Contributor Profiler sees them.
+export const syncPullRequestReviewActivity = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    prNumber: v.number(),
+    reviews: v.array(
+      v.object({
+        githubReviewId: v.string(),
+        reviewer: githubUserArgs,
+        state: reviewStateArgs,
+        body: v.optional(v.string()),
+        commitId: v.optional(v.string()),
+        submittedAt: v.optional(v.number()),
+      })
+    ),
+    comments: v.array(
+      v.object({
+        githubCommentId: v.string(),
+        githubReviewId: v.optional(v.string()),
+        inReplyToGithubCommentId: v.optional(v.string()),
+        author: githubUserArgs,
+        path: v.optional(v.string()),
+        body: v.string(),
+        commentedAt: v.number(),
+      })
+    ),
+    syncedAt: v.number(),
+  },
+  handler: async (ctx, { repoId, prNumber, reviews, comments, syncedAt }) => {
+    const pr = await ctx.db
+      .query("pullRequests")
+      .withIndex("byRepoAndNumber", (q) =>
+        q.eq("repoId", repoId).eq("prNumber", prNumber)
+      )
+      .unique();
+    if (!pr) return;
+
+    const [previousReviews, previousComments] = await Promise.all([
+      ctx.db
+        .query("pullRequestReviews")
+        .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pr._id))
+        .collect(),
+      ctx.db
+        .query("pullRequestReviewComments")
+        .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pr._id))
+        .collect(),
+    ]);
+    for (const row of [...previousReviews, ...previousComments]) {
+      await ctx.db.delete(row._id);
+    }
+
+    const contributorIdByGithubId = new Map<string, Id<"contributors">>();
+    const resolveContributor = async (user: GithubUser) => {
+      const known = contributorIdByGithubId.get(user.githubUserId);
+      if (known) return known;
+      const contributor = await upsertContributorRow(ctx, user, syncedAt);
+      contributorIdByGithubId.set(user.githubUserId, contributor._id);
+      return contributor._id;
+    };
+
+    const reviewEvents = [];
+    for (const review of reviews) {
+      const reviewerContributorId = await resolveContributor(review.reviewer);
+      await ctx.db.insert("pullRequestReviews", {
+        repoId,
+        pullRequestId: pr._id,
+        reviewerContributorId,
+        githubReviewId: review.githubReviewId,
+        state: review.state,
+        body: review.body,
+        commitId: review.commitId,
+        submittedAt: review.submittedAt,
+        createdAt: syncedAt,
+      });
+      reviewEvents.push({
+        reviewerId: String(reviewerContributorId),
+        state: review.state,
+        commitId: review.commitId,
+        submittedAt: review.submittedAt,
+      });
+    }
+
+    const commentEvents = [];
+    for (const comment of comments) {
+      const authorContributorId = await resolveContributor(comment.author);
+      await ctx.db.insert("pullRequestReviewComments", {
+        repoId,
+        pullRequestId: pr._id,
+        authorContributorId,
+        githubCommentId: comment.githubCommentId,
+        githubReviewId: comment.githubReviewId,
+        inReplyToGithubCommentId: comment.inReplyToGithubCommentId,
+        path: comment.path,
+        body: comment.body,
+        commentedAt: comment.commentedAt,
+        createdAt: syncedAt,
+      });
+      commentEvents.push({
+        authorId: String(authorContributorId),
+        commentedAt: comment.commentedAt,
+      });
+    }
+
+    for (const contributorId of contributorIdByGithubId.values()) {
+      if (contributorId === pr.authorContributorId) continue;
+      const link = await ctx.db
+        .query("repoContributors")
+        .withIndex("byRepoAndContributor", (q) =>
+          q.eq("repoId", repoId).eq("contributorId", contributorId)
+        )
+        .unique();
+      if (!link) {
+        await ctx.db.insert("repoContributors", {
+          repoId,
+          contributorId,
+          prCount: 0,
+          linesChanged: 0,
+          createdAt: syncedAt,
+          updatedAt: syncedAt,
+        });
+      }
+    }
+
+    await refreshReviewerPathStats(ctx, pr._id);
+    await ctx.db.patch(pr._id, {
+      reviewMetrics: computeReviewMetrics({
+        authorId: String(pr.authorContributorId),
+        prCreatedAt: pr.createdAt,
+        reviews: reviewEvents,
+        comments: commentEvents,
+      }),
+    });
+  },
 });
 
-// Action: sync all PRs for a single repo from GitHub.
-// Uses an app-level GITHUB_TOKEN, suitable for cron / scheduled sync.
-export const syncRepoPullRequestsFromGithub = action({
+// GitHub review states (upper-case in the REST API) to our schema values.
+const REVIEW_STATES: Record<
+  string,
+  "approved" | "changes_requested" | "commented" | "dismissed" | "pending"
+> = {
+  APPROVED: "approved",
+  CHANGES_REQUESTED: "changes_requested",
+  COMMENTED: "commented",
+  DISMISSED: "dismissed",
+  PENDING: "pending",
+};
+
+// Fetch a PR's reviews and inline review comments from GitHub and store
+// them via syncPullRequestReviewActivity. Activity by deleted ("ghost")
+// accounts is skipped since it cannot be attributed.
+async function syncReviewActivity(
+  ctx: ActionCtx,
+  repo: Doc<"repos">,
+  github: ReturnType<typeof createGithubClient>,
+  prNumber: number,
+  syncedAt: number
+) {
+  const [reviews, comments] = await Promise.all([
+    github.listPullRequestReviews(repo.repoOwner, repo.repoName, prNumber),
+    github.listPullRequestReviewComments(
+      repo.repoOwner,
+      repo.repoName,
+      prNumber
+    ),
+  ]);
+
+  await ctx.runMutation(internal.github.syncPullRequestReviewActivity, {
+    repoId: repo._id,
+    prNumber,
+    reviews: reviews
+      .filter((review) => review.user)
+      .map((review) => ({
+        githubReviewId: String(review.id),
+        reviewer: githubUserFromPayload(review.user),
+        state: REVIEW_STATES[review.state] ?? "commented",
+        body: review.body || undefined,
+        commitId: review.commit_id ?? undefined,
+        submittedAt: review.submitted_at
+          ? new Date(review.submitted_at).getTime()
+          : undefined,
+      })),
+    comments: comments
+      .filter((comment) => comment.user)
+      .map((comment) => ({
+        githubCommentId: String(comment.id),
+        githubReviewId:
+          comment.pull_request_review_id != null
+            ? String(comment.pull_request_review_id)
+            : undefined,
+        inReplyToGithubCommentId:
+          comment.in_reply_to_id != null
+            ? String(comment.in_reply_to_id)
+            : undefined,
+        author: githubUserFromPayload(comment.user),
+        path: comment.path || undefined,
+        body: comment.body,
+        commentedAt: new Date(comment.created_at).getTime(),
+      })),
+    syncedAt,
+  });
+}
+
+// Max PRs fetched in full per sync run. Larger backlogs (e.g. the first
+// sync of a repo with a long history) continue in follow-up runs.
+const PR_SYNC_BATCH_SIZE = 50;
+
+// Max listed PRs handed on to follow-up runs. PRs listed beyond it are
+// newer, and the sync after the backfill lists them again.
+const PR_SYNC_MAX_PENDING = 5000;
+
+// How long a backfill holds off other PR syncs of its repo. Each run
+// renews it, so it only runs out if the backfill stops.
+const PR_BACKFILL_LEASE_MS = 10 * 60 * 1000;
+
+// Internal action: incrementally sync PRs (open, merged and closed) for a
+// single repo from GitHub, using the repo's stored token. PRs are listed by `updated` time and only those
+// updated since the repo's `pullRequestsSyncedThrough` cursor are
+// fetched in full. Batches are processed oldest-first so the cursor can
+// advance after each one. PRs left over are passed to the follow-up run
+// as `pending` rather than listed again, so a backfill lists the repo's
+// history once.
+export const syncRepoPullRequestsFromGithub = internalAction({
   args: {
     repoId: v.id("repos"),
+    pending: v.optional(
+      v.array(v.object({ number: v.number(), updatedAt: v.number() }))
+    ),
   },
-  handler: async (ctx, { repoId }) => {
-    const repo = await ctx.runQuery(api.app.getRepo, { repoId });
-    if (!repo) return;
-
-    const token = repo.githubAccessToken;
-    if (!token) {
-      // No per-repo token configured; skip.
+  handler: async (ctx, args) => {
+    const { repoId } = args;
+    const client = await getRepoGithubClient(ctx, repoId);
+    if (!client) {
+      // Unknown repo or no per-repo token configured; skip.
       return;
     }
+    const { repo, github } = client;
 
-    // Snapshot of existing PR numbers in Convex so we can detect
-    // whether the open-PR set has changed since the last sync.
-    const existingPrs = await ctx.runQuery(api.app.listPullRequestsForRepo, {
+    // Snapshot of existing PR statuses in Convex so we can detect
+    // whether the open-PR set has changed during this sync.
+    const existingPrs = await ctx.runQuery(internal.app.listPullRequestsForRepoInternal, {
       repoId,
     });
-    const existingNumbers = new Set(
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (existingPrs as any[]).map((pr: any) => pr.prNumber as number)
+    const existingStatusByNumber = new Map(
+      existingPrs.map(
+        (pr: Doc<"pullRequests">) => [pr.prNumber, pr.status] as const
+      )
     );
 
-    const github = createGithubClient(token);
+    let pending = args.pending;
+    if (!pending) {
+      // A backfill in progress syncs every PR updated since the cursor.
+      if ((repo.pullRequestBackfillUntil ?? 0) > Date.now()) return;
 
-    const allPullRequests = await github.listPullRequests(
-      repo.repoOwner,
-      repo.repoName
-    );
-    // Only keep open PRs so our Convex view matches GitHub's
-    // default open-PR list.
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const pullRequests = allPullRequests.filter((pr: any) => pr.state === "open");
+      const cursor = repo.pullRequestsSyncedThrough;
+      const lastSyncedAtByNumber = new Map<number, number>(
+        existingPrs.map(
+          (pr: Doc<"pullRequests">) => [pr.prNumber, pr.lastSyncedAt] as const
+        )
+      );
+      const listed = await github.listPullRequestsUpdatedSince(
+        repo.repoOwner,
+        repo.repoName,
+        cursor
+      );
+      pending = listed
+        .map((pr) => ({
+          number: pr.number,
+          updatedAt: new Date(pr.updated_at).getTime(),
+        }))
+        // The PRs the cursor was taken from are listed again; skip those
+        // already synced since that update.
+        .filter(
+          (pr) =>
+            pr.updatedAt !== cursor ||
+            (lastSyncedAtByNumber.get(pr.number) ?? 0) < pr.updatedAt
+        )
+        .reverse()
+        .slice(0, PR_SYNC_MAX_PENDING);
+    }
+    const batch = pending.slice(0, PR_SYNC_BATCH_SIZE);
+    const rest = pending.slice(PR_SYNC_BATCH_SIZE);
+    if (rest.length > 0 || args.pending) {
+      await ctx.runMutation(internal.github.setPullRequestBackfillLease, {
+        repoId,
+        until: rest.length > 0 ? Date.now() + PR_BACKFILL_LEASE_MS : undefined,
+      });
+    }
     const syncedAt = Date.now();
 
-    for (const pr of pullRequests) {
+    let openSetChanged = false;
+    for (const pr of batch) {
       const fullPr = await github.getPullRequest(
         repo.repoOwner,
         repo.repoName,
         pr.number
       );
 
-      await ctx.runMutation(internal.github.syncPullRequestFromGithub, {
-        repo: {
-          githubRepoId: repo.githubRepoId,
-          owner: repo.repoOwner,
-          name: repo.repoName,
-          description: repo.description ?? undefined,
-          url: repo.url,
-          defaultBranch: repo.defaultBranch,
-        },
-        author: {
-          githubUserId: String(fullPr.user?.id ?? ""),
-          login: fullPr.user?.login ?? "unknown",
-          name: fullPr.user?.name ?? undefined,
-          avatarUrl: fullPr.user?.avatar_url ?? undefined,
-        },
-        pullRequest: {
-          githubPrId: String(fullPr.id),
-          number: fullPr.number,
-          title: fullPr.title ?? "",
-          body: fullPr.body ?? undefined,
-          state: fullPr.state === "open" ? "open" : "closed",
-          merged: Boolean(fullPr.merged_at),
-          createdAt: new Date(fullPr.created_at).getTime(),
-          mergedAt: fullPr.merged_at
-            ? new Date(fullPr.merged_at).getTime()
-            : undefined,
-          closedAt: fullPr.closed_at
-            ? new Date(fullPr.closed_at).getTime()
-            : undefined,
-        },
-        stats: {
-          additions: fullPr.additions ?? 0,
-          deletions: fullPr.deletions ?? 0,
-          changedFiles: fullPr.changed_files ?? 0,
-        },
-        syncedAt,
-      });
-    }
+      const args = pullRequestPayloadToSyncArgs(repo, fullPr, syncedAt);
+      await ctx.runMutation(internal.github.syncPullRequestFromGithub, args);
+      await syncReviewActivity(ctx, repo, github, pr.number, syncedAt);
 
-    // After syncing open PRs, prune any PR documents that are no longer open.
-    const openPrNumbers = pullRequests.map(
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (pr: any) => pr.number as number
-    );
+      const previousStatus = existingStatusByNumber.get(pr.number);
+      const isOpen = args.pullRequest.state === "open";
+      if ((previousStatus === "open") !== isOpen) {
+        openSetChanged = true;
+      }
+    }
 
-    await ctx.runMutation(
-      internal.github.pruneClosedPullRequestsForRepo,
-      { repoId, openPrNumbers }
-    );
+    if (batch.length > 0) {
+      await ctx.runMutation(internal.github.advancePullRequestSyncCursor, {
+        repoId,
+        syncedThrough: batch[batch.length - 1].updatedAt,
+      });
+    }
 
-    // Determine if the open-PR set has changed compared to what we had
-    // stored in Convex. Only if it has changed do we kick off a new
-    // analysis workflow.
-    const openSet = new Set(openPrNumbers);
-    let changed = false;
-
-    if (existingNumbers.size !== openSet.size) {
-      changed = true;
-    } else {
-      for (const num of openSet) {
-        if (!existingNumbers.has(num)) {
-          changed = true;
-          break;
-        }
-      }
-      if (!changed) {
-        for (const num of existingNumbers) {
-          if (!openSet.has(num)) {
-            changed = true;
-            break;
-          }
-        }
-      }
+    if (rest.length > 0) {
+      // More history left to backfill; continue in a fresh action.
+      await ctx.scheduler.runAfter(
+        0,
+        internal.github.syncRepoPullRequestsFromGithub,
+        { repoId, pending: rest }
+      );
     }
 
-    if (changed) {
-      // Kick off the full analysis workflow for updated PRs, which
-      // includes PR analysis, contributor profiling, repo snapshot,
-      // and history synthesis.
-      await ctx.scheduler.runAfter(0, api.prAgent.runFullAnalysisWorkflow, {
+    if (openSetChanged) {
+      // Queue a full analysis for updated PRs: PR analysis, contributor
+      // profiling, repo snapshot and history synthesis.
+      await ctx.runMutation(internal.analysisJobs.enqueueAnalysisJobsInternal, {
         repoId,
       });
     }
   },
 });
 
+// Internal mutation: move a repo's PR sync cursor forward. The cursor
+// never moves backwards, so overlapping sync runs are harmless.
+export const advancePullRequestSyncCursor = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    syncedThrough: v.number(),
+  },
+  handler: async (ctx, { repoId, syncedThrough }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return;
+
+    if ((repo.pullRequestsSyncedThrough ?? 0) < syncedThrough) {
+      await ctx.db.patch(repoId, { pullRequestsSyncedThrough: syncedThrough });
+    }
+  },
+});
+
+// Internal mutation: renew a repo's PR backfill lease, or end it when
+// `until` is omitted.
+export const setPullRequestBackfillLease = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    until: v.optional(v.number()),
+  },
+  handler: async (ctx, { repoId, until }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return;
+
+    await ctx.db.patch(repoId, { pullRequestBackfillUntil: until });
+  },
+});
+
+// Internal action: re-fetch and sync a single PR by number. Used by the
+// webhook handler for events (reviews, comments) whose payload does not
+// carry the full pull request.
+export const syncPullRequestByNumber = internalAction({
+  args: {
+    repoId: v.id("repos"),
+    prNumber: v.number(),
+  },
+  handler: async (ctx, { repoId, prNumber }) => {
+    const client = await getRepoGithubClient(ctx, repoId);
+    if (!client) return;
+
+    const { repo, github } = client;
+    const fullPr = await github.getPullRequest(
+      repo.repoOwner,
+      repo.repoName,
+      prNumber
+    );
+
+    const syncedAt = Date.now();
+    await ctx.runMutation(
+      internal.github.syncPullRequestFromGithub,
+      pullRequestPayloadToSyncArgs(repo, fullPr, syncedAt)
+    );
+    await syncReviewActivity(ctx, repo, github, prNumber, syncedAt);
+  },
+});
+
 // Internal mutation: schedules sync actions for all repos.
 export const scheduleGithubSyncAllRepos = internalMutation({
   args: {},
@@ -349,34 +785,30 @@ export const scheduleGithubSyncAllRepos = internalMutation({
     for (const repo of repos) {
       await ctx.scheduler.runAfter(
         0,
-        api.github.syncRepoPullRequestsFromGithub,
+        internal.github.syncRepoPullRequestsFromGithub,
         { repoId: repo._id }
       );
+      await ctx.scheduler.runAfter(0, internal.commits.syncRepoCommitsFromGithub, {
+        repoId: repo._id,
+      });
     }
   },
 });
 
-// Internal mutation: delete PRs for a repo that are not currently
-// open on GitHub (based on PR numbers). This keeps the Convex
-// pullRequests table aligned with GitHub's open-PR view.
-export const pruneClosedPullRequestsForRepo = internalMutation({
-  args: {
-    repoId: v.id("repos"),
-    openPrNumbers: v.array(v.number()),
-  },
-  handler: async (ctx, { repoId, openPrNumbers }) => {
-    const openSet = new Set(openPrNumbers);
-
-    const prs = await ctx.db
-      .query("pullRequests")
-      .withIndex("byRepo", (q: any) => q.eq("repoId", repoId))
-      .collect();
+// Internal mutation: schedules a PR sync for repos without a GitHub
+// webhook, which only see changes by polling.
+export const schedulePollingSyncForReposWithoutWebhook = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const repos = await ctx.db.query("repos").collect();
 
-    for (const pr of prs) {
-      if (!openSet.has(pr.prNumber)) {
-        await ctx.db.delete(pr._id);
-      }
+    for (const repo of repos) {
+      if (repo.webhookSecret) continue;
+      await ctx.scheduler.runAfter(
+        0,
+        internal.github.syncRepoPullRequestsFromGithub,
+        { repoId: repo._id }
+      );
     }
   },
 });
-
@@ -0,0 +1,251 @@
+import { internalAction, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { getRepoGithubClient } from "./githubTokens";
+
+// Hidden marker identifying our PR comment, so it can be found and edited
+// even if the stored comment id was lost.
+const COMMENT_MARKER = "<!-- dotflux-pr-analysis -->";
+
+// How long a publish holds a PR's comment, and how long a publish that
+// finds it held waits before trying again.
+const COMMENT_PUBLISH_LEASE_MS = 2 * 60 * 1000;
+const COMMENT_PUBLISH_RETRY_MS = 30 * 1000;
+
+const STATUS_CONTEXT = "dotflux/pr-analysis";
+
+// GitHub's limit on a commit status description.
+const STATUS_DESCRIPTION_MAX_LENGTH = 140;
+
+// Risk level to commit status state. Statuses have no neutral state, so
+// only high and critical fail, to stand out among the PR's checks; whether
+// that blocks merging is up to the repo's branch protection rules.
+const STATUS_STATES = {
+  low: "success",
+  medium: "success",
+  high: "failure",
+  critical: "failure",
+} as const;
+
+function renderAnalysisMarkdown(analysis: Doc<"prAnalyses">) {
+  const lines = [
+    `**Risk level:** ${analysis.riskLevel ?? "unknown"}`,
+    "",
+    analysis.summary ?? "_No summary._",
+  ];
+
+  if (analysis.impactedPaths && analysis.impactedPaths.length > 0) {
+    lines.push(
+      "",
+      "**Impacted areas:** " +
+        analysis.impactedPaths.map((p) => `\`${p}\``).join(", ")
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// Internal action: publish a completed PR analysis to GitHub according
+// to the repo's `analysisPublishMode`. Scheduled by the PR analysis
+// workflow; failures are recorded on the analysis instead of thrown.
+export const publishPrAnalysis = internalAction({
+  args: { prAnalysisId: v.id("prAnalyses") },
+  handler: async (ctx, { prAnalysisId }) => {
+    const analysis: Doc<"prAnalyses"> | null = await ctx.runQuery(
+      internal.app.getPrAnalysis,
+      { prAnalysisId }
+    );
+    if (!analysis || analysis.status !== "completed") return;
+
+    const client = await getRepoGithubClient(ctx, analysis.repoId);
+    const pr: Doc<"pullRequests"> | null = await ctx.runQuery(
+      internal.app.getPullRequestInternal,
+      { pullRequestId: analysis.pullRequestId }
+    );
+    if (!client || !pr) return;
+
+    const { repo, github } = client;
+    const mode = repo.analysisPublishMode ?? "off";
+    if (mode === "off") return;
+
+    const recordError = async (error: unknown) => {
+      console.error(`Failed to publish analysis for PR #${pr.prNumber}`, error);
+      await ctx.runMutation(internal.githubPublish.recordPublication, {
+        prAnalysisId,
+        publishError:
+          error instanceof Error ? error.message : "Unknown publish error",
+      });
+    };
+
+    if (mode === "commit_status") {
+      try {
+        const headSha: string | undefined = analysis.rawMetadata?.headSha;
+        if (!headSha) {
+          throw new Error("Analysis has no head commit to attach a status to");
+        }
+        const description = `Risk level: ${analysis.riskLevel ?? "unknown"}. ${
+          analysis.summary ?? ""
+        }`.trim();
+        await github.createCommitStatus(repo.repoOwner, repo.repoName, headSha, {
+          state: STATUS_STATES[analysis.riskLevel ?? "medium"],
+          context: STATUS_CONTEXT,
+          description:
+            description.length > STATUS_DESCRIPTION_MAX_LENGTH
+              ? `${description.slice(0, STATUS_DESCRIPTION_MAX_LENGTH - 1)}…`
+              : description,
+        });
+        await ctx.runMutation(internal.githubPublish.recordPublication, {
+          prAnalysisId,
+          githubStatusSha: headSha,
+        });
+      } catch (error) {
+        await recordError(error);
+      }
+      return;
+    }
+
+    // Publishes to the same PR take turns, so two of them cannot both
+    // find no comment and each post one.
+    const claimed = await ctx.runMutation(
+      internal.githubPublish.claimPullRequestComment,
+      { pullRequestId: pr._id }
+    );
+    if (!claimed) {
+      await ctx.scheduler.runAfter(
+        COMMENT_PUBLISH_RETRY_MS,
+        internal.githubPublish.publishPrAnalysis,
+        { prAnalysisId }
+      );
+      return;
+    }
+
+    const body = [
+      COMMENT_MARKER,
+      "### Dotflux PR analysis",
+      "",
+      renderAnalysisMarkdown(analysis),
+    ].join("\n");
+
+    try {
+      const previous = (
+        await ctx.runQuery(internal.app.listPrAnalysesForPullRequest, {
+          pullRequestId: pr._id,
+        })
+      ).filter((a: Doc<"prAnalyses">) => a._id !== prAnalysisId);
+      // A publish that waited its turn must not overwrite a newer analysis.
+      if (
+        previous.some(
+          (a: Doc<"prAnalyses">) =>
+            a.publishedAt && a.createdAt > analysis.createdAt
+        )
+      ) {
+        return;
+      }
+
+      // An earlier analysis of this PR tells us which comment to update
+      // rather than posting another one.
+      let commentId = previous
+        .sort(
+          (a: Doc<"prAnalyses">, b: Doc<"prAnalyses">) =>
+            (b.publishedAt ?? 0) - (a.publishedAt ?? 0)
+        )
+        .find((a: Doc<"prAnalyses">) => a.githubCommentId)?.githubCommentId;
+      if (!commentId) {
+        const existing = (
+          await github.listIssueComments(
+            repo.repoOwner,
+            repo.repoName,
+            pr.prNumber
+          )
+        ).find((c) => c.body?.includes(COMMENT_MARKER));
+        commentId = existing ? String(existing.id) : undefined;
+      }
+
+      let published;
+      try {
+        published = commentId
+          ? await github.updateIssueComment(
+              repo.repoOwner,
+              repo.repoName,
+              Number(commentId),
+              body
+            )
+          : null;
+      } catch (error) {
+        // The comment was deleted on GitHub; post a fresh one.
+        if ((error as { status?: number }).status !== 404) throw error;
+        published = null;
+      }
+      published ??= await github.createIssueComment(
+        repo.repoOwner,
+        repo.repoName,
+        pr.prNumber,
+        body
+      );
+
+      await ctx.runMutation(internal.githubPublish.recordPublication, {
+        prAnalysisId,
+        githubCommentId: String(published.id),
+      });
+    } catch (error) {
+      await recordError(error);
+    } finally {
+      await ctx.runMutation(internal.githubPublish.releasePullRequestComment, {
+        pullRequestId: pr._id,
+      });
+    }
+  },
+});
+
+// Internal mutation: take a PR's comment for one publish. Returns false
+// while another publish holds it; a hold that was never released runs
+// out after COMMENT_PUBLISH_LEASE_MS.
+export const claimPullRequestComment = internalMutation({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) => {
+    const pr = await ctx.db.get(pullRequestId);
+    if (!pr) return false;
+
+    const now = Date.now();
+    if ((pr.analysisPublishingUntil ?? 0) > now) return false;
+    await ctx.db.patch(pullRequestId, {
+      analysisPublishingUntil: now + COMMENT_PUBLISH_LEASE_MS,
+    });
+    return true;
+  },
+});
+
+// Internal mutation: hand a PR's comment back after publishing.
+export const releasePullRequestComment = internalMutation({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) => {
+    const pr = await ctx.db.get(pullRequestId);
+    if (!pr) return;
+
+    await ctx.db.patch(pullRequestId, { analysisPublishingUntil: undefined });
+  },
+});
+
+// Internal mutation: store where an analysis was published (or why it
+// could not be).
+export const recordPublication = internalMutation({
+  args: {
+    prAnalysisId: v.id("prAnalyses"),
+    githubCommentId: v.optional(v.string()),
+    githubStatusSha: v.optional(v.string()),
+    publishError: v.optional(v.string()),
+  },
+  handler: async (ctx, { prAnalysisId, publishError, ...published }) => {
+    if (publishError) {
+      await ctx.db.patch(prAnalysisId, { publishError });
+      return;
+    }
+
+    await ctx.db.patch(prAnalysisId, {
+      ...published,
+      publishedAt: Date.now(),
+      publishError: undefined,
+    });
+  },
+});
@@ -0,0 +1,361 @@
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { createGithubClient } from "../lib/github";
+import { decryptSecret, encryptSecret } from "../lib/tokenCrypto";
+
+// OAuth scopes a classic token needs for syncing and analysis. Fine-grained
+// and app tokens report no scopes and are judged by repo access alone.
+const REQUIRED_TOKEN_SCOPES = ["repo"];
+
+// Successful uses are recorded at most this often per repo, so busy syncs
+// do not write to the repo document on every GitHub request.
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+const tokenHealth = v.object({
+  status: v.union(
+    v.literal("valid"),
+    v.literal("invalid"),
+    v.literal("missing_scopes")
+  ),
+  scopes: v.array(v.string()),
+  missingScopes: v.array(v.string()),
+  expiresAt: v.optional(v.number()),
+  error: v.optional(v.string()),
+  checkedAt: v.number(),
+});
+
+type TokenHealth = Infer<typeof tokenHealth>;
+
+/**
+ * A repo as returned from public queries: stored secrets are stripped and
+ * replaced by flags saying whether they are configured.
+ */
+export function toPublicRepo(repo: Doc<"repos">) {
+  const { ...publicRepo } = repo;
+  delete publicRepo.githubAccessToken;
+  delete publicRepo.githubTokenCiphertext;
+  delete publicRepo.webhookSecret;
+
+  return {
+    ...publicRepo,
+    hasGithubToken: Boolean(
+      repo.githubTokenCiphertext || repo.githubAccessToken
+    ),
+    hasWebhookSecret: Boolean(repo.webhookSecret),
+  };
+}
+
+// Check a token against GitHub: that it authenticates, can see the repo it
+// is meant for, and carries the scopes we need. Only auth failures are
+// reported as `invalid`; outages and rate limits are thrown.
+async function inspectToken(
+  accessToken: string,
+  repo: Pick<Doc<"repos">, "repoOwner" | "repoName" | "githubRepoId">
+): Promise<TokenHealth> {
+  const github = createGithubClient(accessToken);
+  const checkedAt = Date.now();
+
+  try {
+    const info = await github.getTokenInfo();
+    const repoData = await github.getRepo(repo.repoOwner, repo.repoName);
+    if (String(repoData.id) !== repo.githubRepoId) {
+      return {
+        status: "invalid",
+        scopes: info.scopes ?? [],
+        missingScopes: [],
+        expiresAt: info.expiresAt,
+        error: `${repo.repoOwner}/${repo.repoName} now refers to a different repository`,
+        checkedAt,
+      };
+    }
+
+    const missingScopes = info.scopes
+      ? REQUIRED_TOKEN_SCOPES.filter((scope) => !info.scopes?.includes(scope))
+      : [];
+    return {
+      status: missingScopes.length > 0 ? "missing_scopes" : "valid",
+      scopes: info.scopes ?? [],
+      missingScopes,
+      expiresAt: info.expiresAt,
+      checkedAt,
+    };
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status !== 401 && status !== 403 && status !== 404) throw error;
+
+    return {
+      status: "invalid",
+      scopes: [],
+      missingScopes: [],
+      error:
+        status === 401
+          ? "GitHub rejected the token"
+          : `The token cannot access ${repo.repoOwner}/${repo.repoName}`,
+      checkedAt,
+    };
+  }
+}
+
+async function decryptRepoToken(repo: Doc<"repos">) {
+  if (repo.githubTokenCiphertext) {
+    return decryptSecret(repo.githubTokenCiphertext);
+  }
+  return repo.githubAccessToken ?? null;
+}
+
+/**
+ * Build a GitHub client from a repo's stored token. Returns null when the
+ * repo does not exist or has no token. The client records successful use
+ * of the token and marks it invalid as soon as GitHub answers 401.
+ */
+export async function getRepoGithubClient(
+  ctx: ActionCtx,
+  repoId: Id<"repos">
+): Promise<{
+  repo: Doc<"repos">;
+  github: ReturnType<typeof createGithubClient>;
+} | null> {
+  const repo: Doc<"repos"> | null = await ctx.runQuery(
+    internal.githubTokens.getRepoWithSecrets,
+    { repoId }
+  );
+  if (!repo) return null;
+
+  const accessToken = await decryptRepoToken(repo);
+  if (!accessToken) return null;
+
+  const github = createGithubClient(accessToken);
+
+  let lastUsedAt = repo.githubTokenLastUsedAt ?? 0;
+  github.octokit.hook.after("request", async () => {
+    if (Date.now() - lastUsedAt < LAST_USED_RESOLUTION_MS) return;
+    lastUsedAt = Date.now();
+    await ctx.runMutation(internal.githubTokens.recordTokenUse, {
+      repoId,
+      usedAt: lastUsedAt,
+    });
+  });
+  github.octokit.hook.error("request", async (error) => {
+    if ((error as { status?: number }).status === 401) {
+      await ctx.runMutation(internal.githubTokens.recordTokenHealth, {
+        repoId,
+        health: {
+          status: "invalid",
+          scopes: repo.githubTokenHealth?.scopes ?? [],
+          missingScopes: [],
+          expiresAt: repo.githubTokenHealth?.expiresAt,
+          error: "GitHub rejected the token",
+          checkedAt: Date.now(),
+        },
+      });
+    }
+    throw error;
+  });
+
+  return { repo, github };
+}
+
+// Internal query: a repo including its stored secrets. Never expose this
+// through a public function.
+export const getRepoWithSecrets = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => ctx.db.get(repoId),
+});
+
+// Internal query: as getRepoWithSecrets, looked up by GitHub repo id. Used
+// to verify webhook signatures.
+export const getRepoWithSecretsByGithubRepoId = internalQuery({
+  args: { githubRepoId: v.string() },
+  handler: async (ctx, { githubRepoId }) => {
+    return ctx.db
+      .query("repos")
+      .withIndex("byGithubRepoId", (q) => q.eq("githubRepoId", githubRepoId))
+      .unique();
+  },
+});
+
+/**
+ * Re-check a repo's stored token against GitHub and return the result.
+ * Only workspace admins may run this.
+ */
+export const checkRepoTokenHealth = action({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }): Promise<TokenHealth | null> => {
+    await ctx.runQuery(internal.repos.getRepoForCurrentMember, {
+      repoId,
+      minimumRole: "admin",
+    });
+    return refreshRepoTokenHealth(ctx, repoId);
+  },
+});
+
+/**
+ * Replace a repo's GitHub token without re-adding the repo. The new token
+ * must authenticate, see this exact repository and carry the required
+ * scopes; otherwise it is rejected and the current token is kept.
+ */
+export const rotateRepoToken = action({
+  args: {
+    repoId: v.id("repos"),
+    githubAccessToken: v.string(),
+  },
+  handler: async (ctx, { repoId, githubAccessToken }): Promise<TokenHealth> => {
+    const repo: Doc<"repos"> = await ctx.runQuery(
+      internal.repos.getRepoForCurrentMember,
+      { repoId, minimumRole: "admin" }
+    );
+
+    const health = await inspectToken(githubAccessToken, repo);
+    if (health.status === "missing_scopes") {
+      throw new Error(
+        `Token is missing required scopes: ${health.missingScopes.join(", ")}`
+      );
+    }
+    if (health.status === "invalid") {
+      throw new Error(health.error ?? "Token is not valid for this repo");
+    }
+
+    await ctx.runMutation(internal.githubTokens.saveRepoToken, {
+      repoId,
+      githubTokenCiphertext: await encryptSecret(githubAccessToken),
+      health,
+    });
+    return health;
+  },
+});
+
+async function refreshRepoTokenHealth(ctx: ActionCtx, repoId: Id<"repos">) {
+  const repo: Doc<"repos"> | null = await ctx.runQuery(
+    internal.githubTokens.getRepoWithSecrets,
+    { repoId }
+  );
+  if (!repo) return null;
+
+  const accessToken = await decryptRepoToken(repo);
+  if (!accessToken) return null;
+
+  const health = await inspectToken(accessToken, repo);
+  await ctx.runMutation(internal.githubTokens.recordTokenHealth, {
+    repoId,
+    health,
+  });
+  return health;
+}
+
+// Internal action: re-check one repo's token. Scheduled after a repo is
+// added and by the daily health check.
+export const refreshTokenHealth = internalAction({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    await refreshRepoTokenHealth(ctx, repoId);
+  },
+});
+
+// Internal mutation: schedules a token health check for every repo with
+// a stored token.
+export const scheduleTokenHealthChecksAllRepos = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const repos = await ctx.db.query("repos").collect();
+
+    for (const repo of repos) {
+      if (!repo.githubTokenCiphertext && !repo.githubAccessToken) continue;
+      await ctx.scheduler.runAfter(0, internal.githubTokens.refreshTokenHealth, {
+        repoId: repo._id,
+      });
+    }
+  },
+});
+
+// Internal mutation: store a newly encrypted token, dropping any legacy
+// plaintext copy.
+export const saveRepoToken = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    githubTokenCiphertext: v.string(),
+    health: v.optional(tokenHealth),
+  },
+  handler: async (ctx, { repoId, githubTokenCiphertext, health }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return;
+
+    await ctx.db.patch(repoId, {
+      githubTokenCiphertext,
+      githubAccessToken: undefined,
+      githubTokenHealth: health ?? repo.githubTokenHealth,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const recordTokenHealth = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    health: tokenHealth,
+  },
+  handler: async (ctx, { repoId, health }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return;
+
+    await ctx.db.patch(repoId, { githubTokenHealth: health });
+  },
+});
+
+export const recordTokenUse = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    usedAt: v.number(),
+  },
+  handler: async (ctx, { repoId, usedAt }) => {
+    const repo = await ctx.db.get(repoId);
+    if (!repo) return;
+
+    if ((repo.githubTokenLastUsedAt ?? 0) < usedAt) {
+      await ctx.db.patch(repoId, { githubTokenLastUsedAt: usedAt });
+    }
+  },
+});
+
+// Internal query: repos still holding a plaintext token.
+export const listReposWithLegacyTokens = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const repos = await ctx.db.query("repos").collect();
+    return repos
+      .filter((repo) => repo.githubAccessToken && !repo.githubTokenCiphertext)
+      .map((repo) => ({
+        repoId: repo._id,
+        githubAccessToken: repo.githubAccessToken as string,
+      }));
+  },
+});
+
+/**
+ * One-off migration: encrypt every plaintext token stored before
+ * encryption at rest. Run once after setting GITHUB_TOKEN_ENCRYPTION_KEY:
+ * `npx convex run githubTokens:encryptLegacyTokens`.
+ */
+export const encryptLegacyTokens = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ encrypted: number }> => {
+    const legacy: { repoId: Id<"repos">; githubAccessToken: string }[] =
+      await ctx.runQuery(internal.githubTokens.listReposWithLegacyTokens, {});
+
+    for (const { repoId, githubAccessToken } of legacy) {
+      await ctx.runMutation(internal.githubTokens.saveRepoToken, {
+        repoId,
+        githubTokenCiphertext: await encryptSecret(githubAccessToken),
+      });
+    }
+
+    return { encrypted: legacy.length };
+  },
+});
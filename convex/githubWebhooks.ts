@@ -0,0 +1,311 @@
+import {
+  httpAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { pullRequestPayloadToSyncArgs } from "./github";
+import type { GithubPullRequestPayload } from "./github";
+
+// Events we ask GitHub to deliver when registering a webhook.
+export const GITHUB_WEBHOOK_EVENTS = [
+  "pull_request",
+  "pull_request_review",
+  "pull_request_review_comment",
+  "push",
+  "issue_comment",
+];
+
+// How long delivery ids are kept for de-duplication.
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Delivery ids deleted per prune run; a full batch schedules another run.
+const PRUNE_BATCH_SIZE = 500;
+
+// PR actions that change the set of open PRs and therefore warrant a
+// full re-analysis of the repo (mirrors what the polling sync does).
+const OPEN_SET_ACTIONS = new Set(["opened", "reopened", "closed"]);
+
+// PR actions that change the code or description of a single PR.
+const PR_CONTENT_ACTIONS = new Set([
+  "edited",
+  "synchronize",
+  "ready_for_review",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// A full `pull_request` object, as sent with `pull_request` events.
+function isPullRequestPayload(
+  value: unknown
+): value is GithubPullRequestPayload {
+  return (
+    isRecord(value) &&
+    typeof value.id === "number" &&
+    typeof value.number === "number" &&
+    typeof value.state === "string" &&
+    typeof value.created_at === "string" &&
+    (value.user === null || isRecord(value.user))
+  );
+}
+
+// The PR number of a `pull_request` object, trimmed or not.
+function pullRequestNumber(value: unknown) {
+  return isRecord(value) && typeof value.number === "number"
+    ? value.number
+    : undefined;
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Verify GitHub's `X-Hub-Signature-256` header (HMAC-SHA256 of the raw
+// body, hex encoded and prefixed with "sha256=").
+async function verifyGithubSignature(
+  secret: string,
+  rawBody: string,
+  signatureHeader: string | null
+) {
+  if (!signatureHeader?.startsWith("sha256=")) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(rawBody)
+  );
+
+  return timingSafeEqual(
+    `sha256=${toHex(new Uint8Array(signature))}`,
+    signatureHeader
+  );
+}
+
+/**
+ * HTTP action: receive a GitHub webhook delivery.
+ *
+ * Looks up the repo by the payload's repository id, verifies the HMAC
+ * signature against that repo's `webhookSecret`, drops redeliveries by
+ * `X-GitHub-Delivery` id, and routes the event into the PR sync. The
+ * delivery id is recorded only once the event has been handled, so a
+ * delivery that failed is processed again when GitHub redelivers it.
+ */
+export const handleGithubWebhook = httpAction(async (ctx, request) => {
+  const event = request.headers.get("x-github-event");
+  const deliveryId = request.headers.get("x-github-delivery");
+  const signature = request.headers.get("x-hub-signature-256");
+
+  if (!event || !deliveryId) {
+    return new Response("Missing GitHub delivery headers.", { status: 400 });
+  }
+
+  const rawBody = await request.text();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawBody);
+  } catch {
+    return new Response("Invalid JSON payload.", { status: 400 });
+  }
+  const payload = isRecord(parsed) ? parsed : {};
+
+  const githubRepoId = isRecord(payload.repository)
+    ? payload.repository.id
+    : undefined;
+  if (typeof githubRepoId !== "number" && typeof githubRepoId !== "string") {
+    return new Response("Payload has no repository.", { status: 400 });
+  }
+
+  const repo = await ctx.runQuery(
+    internal.githubTokens.getRepoWithSecretsByGithubRepoId,
+    { githubRepoId: String(githubRepoId) }
+  );
+  if (!repo || !repo.webhookSecret) {
+    return new Response("Unknown repository.", { status: 404 });
+  }
+
+  const valid = await verifyGithubSignature(
+    repo.webhookSecret,
+    rawBody,
+    signature
+  );
+  if (!valid) {
+    return new Response("Invalid signature.", { status: 401 });
+  }
+
+  const processed = await ctx.runQuery(
+    internal.githubWebhooks.isWebhookDeliveryRecorded,
+    { deliveryId }
+  );
+  if (processed) {
+    return new Response("Duplicate delivery ignored.", { status: 200 });
+  }
+
+  const action = typeof payload.action === "string" ? payload.action : undefined;
+
+  switch (event) {
+    case "pull_request": {
+      if (!isPullRequestPayload(payload.pull_request)) {
+        return new Response("Payload has no pull request.", { status: 400 });
+      }
+      await ctx.runMutation(
+        internal.github.syncPullRequestFromGithub,
+        pullRequestPayloadToSyncArgs(repo, payload.pull_request, Date.now())
+      );
+
+      if (action && OPEN_SET_ACTIONS.has(action)) {
+        await ctx.runMutation(internal.analysisJobs.enqueueAnalysisJobsInternal, {
+          repoId: repo._id,
+        });
+      } else if (action && PR_CONTENT_ACTIONS.has(action)) {
+        await ctx.runMutation(internal.analysisJobs.enqueueAnalysisJobsInternal, {
+          repoId: repo._id,
+          types: ["pr_analysis"],
+        });
+      }
+      break;
+    }
+
+    case "pull_request_review":
+    case "pull_request_review_comment": {
+      // Review payloads carry a trimmed PR object without change stats,
+      // so re-fetch the full PR (and its review activity) before syncing.
+      const prNumber = pullRequestNumber(payload.pull_request);
+      if (prNumber === undefined) {
+        return new Response("Payload has no pull request.", { status: 400 });
+      }
+      await ctx.scheduler.runAfter(0, internal.github.syncPullRequestByNumber, {
+        repoId: repo._id,
+        prNumber,
+      });
+      break;
+    }
+
+    case "issue_comment": {
+      // Only comments on pull requests are relevant; plain issues have
+      // no `pull_request` key.
+      const issue = isRecord(payload.issue) ? payload.issue : {};
+      const prNumber = issue.pull_request ? pullRequestNumber(issue) : undefined;
+      if (prNumber !== undefined) {
+        await ctx.scheduler.runAfter(
+          0,
+          internal.github.syncPullRequestByNumber,
+          { repoId: repo._id, prNumber }
+        );
+      }
+      break;
+    }
+
+    case "push": {
+      // Pushes to PR branches arrive as `pull_request.synchronize`. A push
+      // to the default branch can merge or close PRs outside the PR UI,
+      // so reconcile the repo's open-PR set, and ingest its commits.
+      if (payload.ref === `refs/heads/${repo.defaultBranch}`) {
+        await ctx.scheduler.runAfter(
+          0,
+          internal.github.syncRepoPullRequestsFromGithub,
+          { repoId: repo._id }
+        );
+        await ctx.scheduler.runAfter(0, internal.commits.syncRepoCommitsFromGithub, {
+          repoId: repo._id,
+        });
+      }
+      break;
+    }
+
+    default:
+      // `ping` and any other subscribed events are acknowledged as-is.
+      break;
+  }
+
+  await ctx.runMutation(internal.githubWebhooks.recordWebhookDelivery, {
+    repoId: repo._id,
+    deliveryId,
+    event,
+    action,
+  });
+  return new Response(null, { status: 202 });
+});
+
+// Internal query: whether a delivery id has already been processed.
+export const isWebhookDeliveryRecorded = internalQuery({
+  args: { deliveryId: v.string() },
+  handler: async (ctx, { deliveryId }) => {
+    const existing = await ctx.db
+      .query("githubWebhookDeliveries")
+      .withIndex("byDeliveryId", (q) => q.eq("deliveryId", deliveryId))
+      .first();
+    return existing !== null;
+  },
+});
+
+// Internal mutation: remember a processed delivery id. Returns
+// `duplicate: true` when a concurrent redelivery recorded it first.
+export const recordWebhookDelivery = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    deliveryId: v.string(),
+    event: v.string(),
+    action: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("githubWebhookDeliveries")
+      .withIndex("byDeliveryId", (q) => q.eq("deliveryId", args.deliveryId))
+      .first();
+    if (existing) {
+      return { duplicate: true };
+    }
+
+    await ctx.db.insert("githubWebhookDeliveries", {
+      ...args,
+      receivedAt: Date.now(),
+    });
+    return { duplicate: false };
+  },
+});
+
+// Internal mutation: forget delivery ids older than the retention window,
+// in batches that reschedule themselves until none are left.
+export const pruneWebhookDeliveries = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - DELIVERY_RETENTION_MS;
+    const stale = await ctx.db
+      .query("githubWebhookDeliveries")
+      .withIndex("byReceivedAt", (q) => q.lt("receivedAt", cutoff))
+      .take(PRUNE_BATCH_SIZE);
+
+    for (const delivery of stale) {
+      await ctx.db.delete(delivery._id);
+    }
+    if (stale.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.githubWebhooks.pruneWebhookDeliveries,
+        {}
+      );
+    }
+  },
+});
@@ -0,0 +1,12 @@
+import { httpRouter } from "convex/server";
+import { handleGithubWebhook } from "./githubWebhooks";
+
+const http = httpRouter();
+
+http.route({
+  path: "/github/webhook",
+  method: "POST",
+  handler: handleGithubWebhook,
+});
+
+export default http;
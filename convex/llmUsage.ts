@@ -0,0 +1,318 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { ActionCtx, QueryCtx } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { requireWorkspaceRole } from "./access";
+import {
+  estimateLlmCostUsd,
+  usageMonth,
+  usageMonthStart,
+} from "../lib/llmPricing";
+
+export const llmWorkflow = v.union(
+  v.literal("pr_analysis"),
+  v.literal("pr_sync"),
+  v.literal("contributor_profiles"),
+  v.literal("repo_snapshot"),
+  v.literal("history_synthesis"),
+  v.literal("call_summary"),
+  v.literal("repo_assistant"),
+  v.literal("search_index"),
+  v.literal("search")
+);
+
+export type LlmWorkflow = Infer<typeof llmWorkflow>;
+
+type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+// The parts of an AI SDK generate result we account for. Multi-step text
+// generations report `totalUsage` across steps; object generations only
+// have `usage`.
+type UsageReportingResult = {
+  usage: TokenUsage;
+  totalUsage?: TokenUsage;
+  response: { modelId: string };
+};
+
+type ReportedUsage = {
+  usage?: TokenUsage;
+  totalUsage?: TokenUsage;
+  response?: { modelId?: string };
+};
+
+// What a failed call's error reports about it. AI SDK errors such as
+// NoObjectGeneratedError carry the usage and response of the generation
+// that failed; errors after retries wrap the last attempt's as
+// `lastError`.
+function usageReportedByError(error: unknown): ReportedUsage | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { usage, response, lastError } = error as ReportedUsage & {
+    lastError?: unknown;
+  };
+  if (usage || response) return { usage, response };
+  return usageReportedByError(lastError);
+}
+
+/**
+ * Run one agent call and record its token usage, latency and estimated
+ * cost against the repo, workflow and analysis session. Calls that throw
+ * are recorded too, with their error and whatever usage the error
+ * reports, and the error is rethrown.
+ */
+export async function trackLlmCall<T extends UsageReportingResult>(
+  ctx: ActionCtx,
+  attribution: {
+    workflow: LlmWorkflow;
+    agentName: string;
+    repoId?: Id<"repos">;
+    analysisSessionId?: Id<"analysisSessions"> | null;
+  },
+  call: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  let reported: ReportedUsage | undefined;
+  let error: string | undefined;
+  try {
+    const result = await call();
+    reported = result;
+    return result;
+  } catch (err) {
+    reported = usageReportedByError(err);
+    error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    const latencyMs = Date.now() - startedAt;
+    const usage = reported?.totalUsage ?? reported?.usage;
+    // A failure to record must neither replace the call's own error nor
+    // fail a call that succeeded.
+    try {
+      await ctx.runMutation(internal.llmUsage.recordLlmUsage, {
+        repoId: attribution.repoId,
+        analysisSessionId: attribution.analysisSessionId ?? undefined,
+        workflow: attribution.workflow,
+        agentName: attribution.agentName,
+        // Calls that fail before a response name no model.
+        model: reported?.response?.modelId ?? "unknown",
+        promptTokens: usage?.inputTokens ?? 0,
+        completionTokens: usage?.outputTokens ?? 0,
+        latencyMs,
+        error,
+      });
+    } catch (recordError) {
+      console.error(
+        `Failed to record LLM usage for ${attribution.agentName}`,
+        recordError
+      );
+    }
+  }
+}
+
+// Internal mutation: store one LLM call and add it to its workspace's
+// monthly totals.
+export const recordLlmUsage = internalMutation({
+  args: {
+    repoId: v.optional(v.id("repos")),
+    analysisSessionId: v.optional(v.id("analysisSessions")),
+    workflow: llmWorkflow,
+    agentName: v.string(),
+    model: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    latencyMs: v.number(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const repo = args.repoId ? await ctx.db.get(args.repoId) : null;
+    const workspaceId = repo?.workspaceId;
+    const costUsd = estimateLlmCostUsd(
+      args.model,
+      args.promptTokens,
+      args.completionTokens
+    );
+
+    await ctx.db.insert("llmUsage", {
+      ...args,
+      workspaceId,
+      totalTokens: args.promptTokens + args.completionTokens,
+      costUsd,
+      createdAt: now,
+    });
+
+    if (!workspaceId) return;
+
+    const month = usageMonth(now);
+    const totals = await ctx.db
+      .query("llmUsageMonthly")
+      .withIndex("byWorkspaceAndMonth", (q) =>
+        q.eq("workspaceId", workspaceId).eq("month", month)
+      )
+      .unique();
+
+    if (totals) {
+      await ctx.db.patch(totals._id, {
+        calls: totals.calls + 1,
+        promptTokens: totals.promptTokens + args.promptTokens,
+        completionTokens: totals.completionTokens + args.completionTokens,
+        costUsd: totals.costUsd + costUsd,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("llmUsageMonthly", {
+        workspaceId,
+        month,
+        calls: 1,
+        promptTokens: args.promptTokens,
+        completionTokens: args.completionTokens,
+        costUsd,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Whether a workspace's estimated LLM spend this month has reached its
+ * budget. Workspaces without a budget are never over it.
+ */
+export async function isWorkspaceOverBudget(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">
+) {
+  const workspace = await ctx.db.get(workspaceId);
+  if (workspace?.monthlyBudgetUsd == null) return false;
+
+  const totals = await ctx.db
+    .query("llmUsageMonthly")
+    .withIndex("byWorkspaceAndMonth", (q) =>
+      q.eq("workspaceId", workspaceId).eq("month", usageMonth(Date.now()))
+    )
+    .unique();
+  return (totals?.costUsd ?? 0) >= workspace.monthlyBudgetUsd;
+}
+
+type UsageTotals = {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+};
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    failedCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    latencyMs: 0,
+  };
+}
+
+/**
+ * A workspace's LLM usage for one month (default: the current one), in
+ * total and broken down by repo, workflow and model, with its budget.
+ */
+export const getWorkspaceUsage = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+    month: v.optional(v.string()),
+  },
+  handler: async (ctx, { workspaceId, month }) => {
+    await requireWorkspaceRole(ctx, workspaceId);
+    const workspace = await ctx.db.get(workspaceId);
+
+    const selectedMonth = month ?? usageMonth(Date.now());
+    const start = usageMonthStart(selectedMonth);
+    if (Number.isNaN(start)) throw new Error("Month must be YYYY-MM");
+    const end = new Date(start);
+    end.setUTCMonth(end.getUTCMonth() + 1);
+
+    const rows = await ctx.db
+      .query("llmUsage")
+      .withIndex("byWorkspace", (q) =>
+        q
+          .eq("workspaceId", workspaceId)
+          .gte("createdAt", start)
+          .lt("createdAt", end.getTime())
+      )
+      .collect();
+
+    const total = emptyTotals();
+    const byRepo = new Map<string, UsageTotals>();
+    const byWorkflow = new Map<string, UsageTotals>();
+    const byModel = new Map<string, UsageTotals>();
+    const add = (totals: UsageTotals, row: (typeof rows)[number]) => {
+      totals.calls += 1;
+      if (row.error !== undefined) totals.failedCalls += 1;
+      totals.promptTokens += row.promptTokens;
+      totals.completionTokens += row.completionTokens;
+      totals.costUsd += row.costUsd;
+      totals.latencyMs += row.latencyMs;
+    };
+    const bucket = (map: Map<string, UsageTotals>, key: string) => {
+      if (!map.has(key)) map.set(key, emptyTotals());
+      return map.get(key)!;
+    };
+
+    for (const row of rows) {
+      add(total, row);
+      if (row.repoId) add(bucket(byRepo, row.repoId), row);
+      add(bucket(byWorkflow, row.workflow), row);
+      add(bucket(byModel, row.model), row);
+    }
+
+    // Usage of deleted repos stays counted against the workspace.
+    const repoRows = await Promise.all(
+      Array.from(byRepo.entries()).map(async ([repoId, totals]) => {
+        const repo = await ctx.db.get(repoId as Id<"repos">);
+        return {
+          repoId,
+          name: repo ? `${repo.repoOwner}/${repo.repoName}` : "Deleted repo",
+          ...totals,
+        };
+      })
+    );
+
+    const byCost = <T extends { costUsd: number }>(a: T, b: T) =>
+      b.costUsd - a.costUsd;
+    return {
+      month: selectedMonth,
+      monthlyBudgetUsd: workspace?.monthlyBudgetUsd ?? null,
+      total,
+      byRepo: repoRows.sort(byCost),
+      byWorkflow: Array.from(byWorkflow.entries())
+        .map(([workflow, totals]) => ({ workflow, ...totals }))
+        .sort(byCost),
+      byModel: Array.from(byModel.entries())
+        .map(([model, totals]) => ({ model, ...totals }))
+        .sort(byCost),
+    };
+  },
+});
+
+/** Set or clear a workspace's monthly LLM budget. Admins only. */
+export const setMonthlyBudget = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    monthlyBudgetUsd: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, { workspaceId, monthlyBudgetUsd }) => {
+    await requireWorkspaceRole(ctx, workspaceId, "admin");
+    if (monthlyBudgetUsd !== null && !(monthlyBudgetUsd >= 0)) {
+      throw new Error("Budget must be a non-negative amount");
+    }
+
+    await ctx.db.patch(workspaceId, {
+      monthlyBudgetUsd: monthlyBudgetUsd ?? undefined,
+      updatedAt: Date.now(),
+    });
+  },
+});
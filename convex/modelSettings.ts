@@ -0,0 +1,97 @@
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { requireRepoAccess } from "./access";
+import {
+  MODEL_AGENTS,
+  isModelAgent,
+  languageModelFor,
+  parseModelSpec,
+  resolveModelChoice,
+  type ModelAgent,
+} from "../lib/modelProviders";
+
+/**
+ * The model each agent runs on for a repo: the repo's own override, if
+ * any, and the provider and model that are actually used.
+ */
+export const getRepoModelSettings = query({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const repo = await requireRepoAccess(ctx, repoId);
+    if (!repo) return null;
+
+    return MODEL_AGENTS.map((agent) => {
+      const override = repo.modelOverrides?.[agent] ?? null;
+      let effective: { provider: string; model: string } | null = null;
+      let error: string | null = null;
+      try {
+        effective = resolveModelChoice(agent, repo.modelOverrides);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+      return { agent, override, effective, error };
+    });
+  },
+});
+
+// Set or clear (spec null) one agent's model for a repo. Only workspace
+// admins may change this.
+export const setRepoModelOverride = mutation({
+  args: {
+    repoId: v.id("repos"),
+    agent: v.string(),
+    spec: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, { repoId, agent, spec }) => {
+    const repo = await requireRepoAccess(ctx, repoId, "admin");
+    if (!repo) {
+      throw new Error("Repo not found");
+    }
+    if (!isModelAgent(agent)) {
+      throw new Error(`Unknown agent "${agent}"`);
+    }
+
+    const modelOverrides = { ...repo.modelOverrides };
+    if (spec === null || spec.trim() === "") {
+      delete modelOverrides[agent];
+    } else {
+      // Reject malformed specs now rather than on the next analysis run.
+      parseModelSpec(spec);
+      modelOverrides[agent] = spec.trim();
+    }
+
+    await ctx.db.patch(repoId, {
+      modelOverrides,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Internal query: a repo's model overrides, for actions resolving models.
+export const getRepoModelOverrides = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    const repo = await ctx.db.get(repoId);
+    return repo?.modelOverrides ?? null;
+  },
+});
+
+/**
+ * The language model an agent should use for a call on behalf of a repo.
+ * Pass it as the `model` of the agent call; without a repo the agent's
+ * deployment-wide model applies.
+ */
+export async function repoLanguageModel(
+  ctx: ActionCtx,
+  agent: ModelAgent,
+  repoId: Id<"repos">
+) {
+  const overrides: Record<string, string> | null = await ctx.runQuery(
+    internal.modelSettings.getRepoModelOverrides,
+    { repoId }
+  );
+  return languageModelFor(agent, overrides);
+}
@@ -1,20 +1,56 @@
-import { action, mutation, query } from "./_generated/server";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { paginationOptsValidator } from "convex/server";
 import { createThread, listUIMessages } from "@convex-dev/agent";
-import { api, components } from "./_generated/api";
-import { prAnalyzerAgent } from "./agents/PRAnalyzer";
-import { contributorProfilerAgent } from "./agents/ContributorProfiler";
-import { repoSnapshotAgent } from "./agents/RepoSnapshotAgent";
-import { historySynthesisAgent } from "./agents/HistorySynthesizer";
+import { components, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  PR_ANALYSIS_PROMPT_VERSION,
+  buildPrAnalysisPrompt,
+  isOutdatedPrAnalysis,
+  prAnalysisResultSchema,
+  prAnalyzerAgent,
+  prRiskAnalyzerAgent,
+  type PrAnalysisResult,
+} from "./agents/PRAnalyzer";
+import {
+  CONTRIBUTOR_PROFILE_PROMPT_VERSION,
+  buildContributorProfilePrompt,
+  contributorProfilerAgent,
+} from "./agents/ContributorProfiler";
+import {
+  REPO_SNAPSHOT_PROMPT_VERSION,
+  buildRepoSnapshotPrompt,
+  repoSnapshotAgent,
+} from "./agents/RepoSnapshotAgent";
+import {
+  HISTORY_SYNTHESIS_PROMPT_VERSION,
+  buildHistorySynthesisPrompt,
+  historySynthesisAgent,
+  isOutdatedSynthesizedCheckpoint,
+} from "./agents/HistorySynthesizer";
 import { syncPullRequestArgs, type SyncPullRequestArgs } from "./github";
+import { getRepoGithubClient } from "./githubTokens";
+import type { AnalysisJobRun } from "./analysisJobs";
+import { trackLlmCall } from "./llmUsage";
+import { repoLanguageModel } from "./modelSettings";
+import { agentProvenanceFor, type AgentProvenance } from "./agentProvenance";
+import {
+  buildPatchContext,
+  deriveImpactedPaths,
+  type PatchContext,
+} from "../lib/diff";
+import { isSynthesizedSourceType } from "../lib/historyCheckpoints";
 
 /**
- * Create a new thread for the PR Analyzer agent.
- *
- * Use this from the frontend to start a new "conversation" about PRs.
+ * Internal mutation: create a new thread for the PR Analyzer agent.
  */
-export const createPrAnalyzerThread = mutation({
+export const createPrAnalyzerThread = internalMutation({
   args: {
     title: v.optional(v.string()),
     summary: v.optional(v.string()),
@@ -36,12 +72,11 @@ export const createPrAnalyzerThread = mutation({
 });
 
 /**
- * List UI-friendly messages for a given PR Analyzer thread.
- *
- * This is designed to be used with `useUIMessages` on the frontend,
- * and supports streaming as described in the Convex Agent docs.
+ * Internal query: UI-friendly messages for a given PR Analyzer thread.
+ * Threads are not tied to a repo, so there is nothing to check a
+ * client's access against; they are for debugging from the dashboard.
  */
-export const listPrAnalyzerThreadMessages = query({
+export const listPrAnalyzerThreadMessages = internalQuery({
   args: {
     threadId: v.string(),
     paginationOpts: paginationOptsValidator,
@@ -53,14 +88,16 @@ export const listPrAnalyzerThreadMessages = query({
 });
 
 /**
- * Action: Run the PR Analyzer Agent on a GitHub pull request.
+ * Internal action: run the PR Analyzer Agent on a GitHub pull request.
+ * Internal because the sync tool writes into whichever tracked repo the
+ * payload names.
  *
  * This represents a "workflow" step. It:
  * - Ensures there is a thread (creating one if needed)
  * - Instructs the agent to sync the PR into Convex using its tools
  * - Returns the threadId and the assistant text
  */
-export const runPrAnalyzerWorkflow = action({
+export const runPrAnalyzerWorkflow = internalAction({
   args: {
     threadId: v.optional(v.string()),
     // Raw GitHub API payloads (trim or shape these as desired in your app).
@@ -104,6 +141,7 @@ export const runPrAnalyzerWorkflow = action({
         closedAt: pullRequest.closed_at
           ? new Date(pullRequest.closed_at).getTime()
           : undefined,
+        headSha: pullRequest.head?.sha ?? undefined,
       },
       stats: {
         additions: pullRequest.additions ?? 0,
@@ -130,10 +168,15 @@ export const runPrAnalyzerWorkflow = action({
       JSON.stringify(toolArgs),
     ].join("\n\n");
 
-    const result = await prAnalyzerAgent.generateText(
+    const result = await trackLlmCall(
       ctx,
-      { threadId: effectiveThreadId },
-      { prompt }
+      { workflow: "pr_sync", agentName: prAnalyzerAgent.options.name },
+      () =>
+        prAnalyzerAgent.generateText(
+          ctx,
+          { threadId: effectiveThreadId },
+          { prompt }
+        )
     );
 
     return { threadId: effectiveThreadId, text: result.text };
@@ -141,9 +184,9 @@ export const runPrAnalyzerWorkflow = action({
 });
 
 /**
- * Simple test action for the PR Analyzer Agent.
+ * Internal test action for the PR Analyzer Agent.
  *
- * Call this from the Convex dashboard or tests by passing in
+ * Run this from the Convex dashboard or CLI by passing in
  * normalized `SyncPullRequestArgs`. It will:
  * - Create a fresh thread
  * - Ask the agent to sync the PR via its tool
@@ -152,7 +195,7 @@ export const runPrAnalyzerWorkflow = action({
  * NOTE: For the underlying sync to succeed, there must already be
  * a `repos` row whose `githubRepoId` matches `args.repo.githubRepoId`.
  */
-export const testPrAnalyzerAgent = action({
+export const testPrAnalyzerAgent = internalAction({
   args: syncPullRequestArgs,
   handler: async (
     ctx,
@@ -170,90 +213,350 @@ export const testPrAnalyzerAgent = action({
       JSON.stringify(args),
     ].join("\n\n");
 
-    const result = await prAnalyzerAgent.generateText(
+    const result = await trackLlmCall(
       ctx,
-      { threadId },
-      { prompt }
+      { workflow: "pr_sync", agentName: prAnalyzerAgent.options.name },
+      () =>
+        prAnalyzerAgent.generateText(
+          ctx,
+          { threadId },
+          { prompt }
+        )
     );
 
     return { threadId, text: result.text };
   },
 });
 
-// Repo-level analysis workflow:
-// - Creates an analysis session for the repo
-// - Finds PRs that need (re-)analysis
-// - For each, runs the PR Analyzer Agent and stores results in prAnalyses
-export const runRepoAnalysisWorkflow = action({
-  args: { repoId: v.id("repos") },
-  handler: async (ctx, { repoId }) => {
-    const repo = await ctx.runQuery(api.app.getRepo, { repoId });
-    if (!repo) return;
-
-    // Avoid overlapping analysis sessions for the same repo.
-    const existingSessions = await ctx.runQuery(
-      api.app.listAnalysisSessionsForRepo,
-      { repoId }
-    );
-    const hasRunning = existingSessions.some(
-      (s) => s.status === "running"
-    );
-    if (hasRunning) return;
+type PullRequestDiff = {
+  files: {
+    filename: string;
+    previousFilename?: string;
+    status: Doc<"pullRequestFiles">["status"];
+    additions: number;
+    deletions: number;
+    changes: number;
+  }[];
+  patchContext: PatchContext;
+  headSha: string;
+  baseSha: string;
+  // Files touched since the head we last analyzed, when known.
+  changedSinceLastAnalysis: string[] | null;
+};
 
-    const prs = await ctx.runQuery(api.app.listPullRequestsForRepo, {
-      repoId,
-    });
-    const analyses = await ctx.runQuery(api.app.listPrAnalysesForRepo, {
-      repoId,
-    });
+// Fetch the real file list and patches for a PR from GitHub, persist the
+// per-file stats, and build bounded patch context for the PR Analyzer.
+// Throws when the repo has no GitHub token to fetch with.
+async function loadPullRequestDiff(
+  ctx: ActionCtx,
+  repo: Pick<Doc<"repos">, "_id" | "repoOwner" | "repoName">,
+  pr: Doc<"pullRequests">,
+  previousHeadSha: string | undefined
+): Promise<PullRequestDiff> {
+  const client = await getRepoGithubClient(ctx, repo._id);
+  if (!client) throw new Error("Repo has no GitHub token to load PR diffs");
 
-    // Map latest analysis per PR
-    const latestByPrId = new Map<
-      string,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      any
-    >();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    analyses.forEach((a: any) => {
-      const key = a.pullRequestId;
-      const current = latestByPrId.get(key);
-      if (
-        !current ||
-        (a.updatedAt ?? a.createdAt) > (current.updatedAt ?? current.createdAt)
-      ) {
-        latestByPrId.set(key, a);
+  const { github } = client;
+  const fullPr = await github.getPullRequest(
+    repo.repoOwner,
+    repo.repoName,
+    pr.prNumber
+  );
+  const rawFiles = await github.listPullRequestFiles(
+    repo.repoOwner,
+    repo.repoName,
+    pr.prNumber
+  );
+
+  const files = rawFiles.map((f) => ({
+    filename: f.filename,
+    previousFilename: f.previous_filename ?? undefined,
+    status: f.status,
+    additions: f.additions ?? 0,
+    deletions: f.deletions ?? 0,
+    changes: f.changes ?? 0,
+  }));
+
+  await ctx.runMutation(internal.app.replacePullRequestFiles, {
+    repoId: repo._id,
+    pullRequestId: pr._id,
+    files,
+  });
+  // Keep reviewer suggestions in line with the PR's current files.
+  await ctx.runMutation(internal.reviewers.saveReviewerSuggestions, {
+    pullRequestId: pr._id,
+    filenames: files.map((f) => f.filename),
+  });
+
+  let changedSinceLastAnalysis: string[] | null = null;
+  if (previousHeadSha && previousHeadSha !== fullPr.head.sha) {
+    try {
+      const comparison = await github.compareCommits(
+        repo.repoOwner,
+        repo.repoName,
+        previousHeadSha,
+        fullPr.head.sha
+      );
+      changedSinceLastAnalysis = (comparison.files ?? []).map(
+        (f) => f.filename
+      );
+    } catch {
+      // The old head may be gone after a force-push; analyze the full diff.
+      changedSinceLastAnalysis = null;
+    }
+  }
+
+  return {
+    files,
+    patchContext: buildPatchContext(
+      rawFiles.map((f) => ({
+        filename: f.filename,
+        status: f.status,
+        additions: f.additions ?? 0,
+        deletions: f.deletions ?? 0,
+        patch: f.patch ?? undefined,
+      }))
+    ),
+    headSha: fullPr.head.sha,
+    baseSha: fullPr.base.sha,
+    changedSinceLastAnalysis,
+  };
+}
+
+// GitHub answers 404 or 410 for a PR or head that is gone and 406 or 422
+// for a diff too large to serve; retrying does not change either.
+function isPermanentDiffError(err: unknown) {
+  const status = (err as { status?: number } | null)?.status;
+  return status === 404 || status === 406 || status === 410 || status === 422;
+}
+
+// Structured generation attempts per PR before the analysis is marked
+// failed. Each retry tells the model why its previous answer was rejected.
+const MAX_PR_ANALYSIS_ATTEMPTS = 3;
+
+async function generatePrAnalysis(
+  ctx: ActionCtx,
+  run: AnalysisJobRun,
+  userId: string,
+  prompt: string
+): Promise<
+  (
+    | { ok: true; result: PrAnalysisResult; attempts: number }
+    | { ok: false; error: string; attempts: number }
+  ) & { generatedBy: AgentProvenance }
+> {
+  const model = await repoLanguageModel(ctx, "prAnalyzer", run.repoId);
+  const generatedBy = agentProvenanceFor(
+    prRiskAnalyzerAgent,
+    PR_ANALYSIS_PROMPT_VERSION,
+    model
+  );
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= MAX_PR_ANALYSIS_ATTEMPTS; attempt++) {
+    const attemptPrompt = lastError
+      ? [
+          prompt,
+          "",
+          `Your previous answer was rejected: ${lastError}`,
+          "Answer again with an object that matches the schema exactly.",
+        ].join("\n")
+      : prompt;
+
+    try {
+      const { object } = await trackLlmCall(
+        ctx,
+        {
+          workflow: "pr_analysis",
+          agentName: prRiskAnalyzerAgent.options.name,
+          repoId: run.repoId,
+          analysisSessionId: run.analysisSessionId,
+        },
+        () =>
+          prRiskAnalyzerAgent.generateObject(
+            ctx,
+            { userId },
+            { prompt: attemptPrompt, schema: prAnalysisResultSchema, model }
+          )
+      );
+
+      // generateObject validates against the schema already; re-check so
+      // a provider that skips validation cannot store an invalid row.
+      const parsed = prAnalysisResultSchema.safeParse(object);
+      if (parsed.success) {
+        return {
+          ok: true,
+          result: parsed.data,
+          attempts: attempt,
+          generatedBy,
+        };
       }
+      lastError = parsed.error.message;
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return {
+    ok: false,
+    error: lastError,
+    attempts: MAX_PR_ANALYSIS_ATTEMPTS,
+    generatedBy,
+  };
+}
+
+// PRs analyzed per job run. A run that leaves PRs over requeues its job,
+// which resumes from the same session.
+const PR_ANALYSIS_BATCH_SIZE = 10;
+
+/**
+ * PR analysis job:
+ * - On first run, finds the open PRs that need (re-)analysis and records
+ *   each as a pending row of a new `pr_auto` analysis session. Jobs queued
+ *   with `outdatedOnly` instead pick every PR whose latest analysis came
+ *   from an older prompt version
+ * - Runs the PR Analyzer Agent on up to PR_ANALYSIS_BATCH_SIZE pending
+ *   PRs, storing results in prAnalyses and progress on the session rows
+ *
+ * Returns true when pending PRs remain for a later run.
+ */
+export async function analyzeRepoPullRequests(
+  ctx: ActionCtx,
+  run: AnalysisJobRun
+): Promise<boolean> {
+  const { repoId } = run;
+  const repo = await ctx.runQuery(internal.app.getRepoInternal, { repoId });
+  if (!repo) return false;
+
+  const prs = await ctx.runQuery(internal.app.listPullRequestsForRepoInternal, {
+    repoId,
+  });
+  const analyses = await ctx.runQuery(internal.app.listPrAnalysesForRepoInternal, {
+    repoId,
+  });
+
+  // Map latest analysis per PR
+  const latestByPrId = new Map<
+    string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    any
+  >();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  analyses.forEach((a: any) => {
+    const key = a.pullRequestId;
+    const current = latestByPrId.get(key);
+    if (
+      !current ||
+      (a.updatedAt ?? a.createdAt) > (current.updatedAt ?? current.createdAt)
+    ) {
+      latestByPrId.set(key, a);
+    }
+  });
+  // Head each PR was last analyzed at, to tell what changed since. The
+  // latest analysis may be a retried one that never loaded its diff.
+  const lastHeadShaByPrId = new Map<string, string>();
+  [...analyses]
+    .filter((a: Doc<"prAnalyses">) => a.rawMetadata?.headSha)
+    .sort(
+      (a: Doc<"prAnalyses">, b: Doc<"prAnalyses">) =>
+        (a.updatedAt ?? a.createdAt) - (b.updatedAt ?? b.createdAt)
+    )
+    .forEach((a: Doc<"prAnalyses">) => {
+      lastHeadShaByPrId.set(a.pullRequestId, a.rawMetadata.headSha);
     });
 
-    // PRs needing analysis: no analysis yet, or not completed, or older than lastSyncedAt.
-    const candidates = prs.filter((pr: any) => {
+  let sessionId = run.analysisSessionId;
+  if (!sessionId) {
+    // PRs needing analysis: open, and with no analysis yet, or still
+    // pending, or of an older head commit. A failed analysis already used
+    // its retries and is only re-run once the PR gets new commits. Merged
+    // and closed PRs are kept for history but not (re-)analyzed.
+    const candidates = prs.filter((pr: Doc<"pullRequests">) => {
+      if (run.outdatedOnly) {
+        const analysis = latestByPrId.get(pr._id);
+        return analysis !== undefined && isOutdatedPrAnalysis(analysis);
+      }
+      if (pr.status !== "open") return false;
       const analysis = latestByPrId.get(pr._id);
       if (!analysis) return true;
-      if (analysis.status !== "completed") return true;
-      if ((analysis.updatedAt ?? analysis.createdAt) < pr.lastSyncedAt) {
+      if (analysis.status === "pending" || analysis.status === "running") {
         return true;
       }
-      return false;
+      if (pr.headSha) {
+        const analyzedHeadSha =
+          analysis.rawMetadata?.headSha ?? analysis.rawMetadata?.attemptedHeadSha;
+        return analyzedHeadSha !== pr.headSha;
+      }
+      // Synced before head commits were stored.
+      return (analysis.updatedAt ?? analysis.createdAt) < pr.lastSyncedAt;
     });
 
     if (candidates.length === 0) {
-      return;
+      return false;
     }
 
-    const sessionId = await ctx.runMutation(api.app.createAnalysisSession, {
-      repoId,
-      userId: repo.ownerUserId,
-      sessionType: "pr_auto",
-      status: "running",
-      config: undefined,
-      summary: `Automatic PR analysis for ${repo.repoName}`,
-    });
+    const newSessionId: Id<"analysisSessions"> = await ctx.runMutation(
+      internal.app.createAnalysisSession,
+      {
+        repoId,
+        userId: repo.ownerUserId,
+        sessionType: "pr_auto",
+        status: "running",
+        config: undefined,
+        summary: run.outdatedOnly
+          ? `Re-analysis of outdated PR analyses for ${repo.repoName}`
+          : `Automatic PR analysis for ${repo.repoName}`,
+      }
+    );
+    sessionId = newSessionId;
+    await run.attachSession(newSessionId);
+
+    for (const pr of candidates) {
+      await ctx.runMutation(internal.app.addAnalysisSessionPR, {
+        analysisSessionId: sessionId,
+        pullRequestId: pr._id,
+        status: "pending",
+      });
+    }
+  }
+
+  const sessionPrs: Doc<"analysisSessionPRs">[] = await ctx.runQuery(
+    internal.app.listAnalysisSessionPRsInternal,
+    { analysisSessionId: sessionId }
+  );
+  const isDone = (row: Doc<"analysisSessionPRs">) =>
+    row.status === "completed" || row.status === "failed";
+  const total = sessionPrs.length;
+  let completed = sessionPrs.filter(isDone).length;
+  // A row left `running` belongs to a run that died mid-PR; redo it.
+  const remaining = sessionPrs.filter((row) => !isDone(row));
+  const prById = new Map<string, Doc<"pullRequests">>(
+    prs.map((pr: Doc<"pullRequests">) => [pr._id, pr])
+  );
 
-    // Limit to a reasonable number per run for hackathon performance.
-    const toAnalyze = candidates.slice(0, 10);
+  await run.heartbeat({ completed, total });
 
-    for (const pr of toAnalyze) {
-      const prAnalysisId = await ctx.runMutation(api.app.createPrAnalysis, {
+  for (const sessionPr of remaining.slice(0, PR_ANALYSIS_BATCH_SIZE)) {
+    const pr = prById.get(sessionPr.pullRequestId);
+    if (!pr) {
+      // Deleted since the session was created.
+      await ctx.runMutation(internal.app.updateAnalysisSessionPRStatus, {
+        analysisSessionPRId: sessionPr._id,
+        status: "failed",
+      });
+      await run.heartbeat({ completed: ++completed, total });
+      continue;
+    }
+
+    // A retried run redoing this PR reuses the analysis it started.
+    let prAnalysisId = sessionPr.prAnalysisId;
+    if (prAnalysisId) {
+      await ctx.runMutation(internal.app.updatePrAnalysisDetails, {
+        prAnalysisId,
+        status: "running",
+      });
+    } else {
+      prAnalysisId = await ctx.runMutation(internal.app.createPrAnalysis, {
         repoId,
         pullRequestId: pr._id,
         status: "running",
@@ -263,377 +566,552 @@ export const runRepoAnalysisWorkflow = action({
         riskLevel: undefined,
         rawMetadata: undefined,
       });
+    }
+    await ctx.runMutation(internal.app.updateAnalysisSessionPRStatus, {
+      analysisSessionPRId: sessionPr._id,
+      status: "running",
+      prAnalysisId,
+    });
 
-      await ctx.runMutation(api.app.addAnalysisSessionPR, {
-        analysisSessionId: sessionId,
-        pullRequestId: pr._id,
-        status: "running",
+    // An analysis without its diff would only restate the PR description,
+    // so a diff that cannot be loaded fails the analysis. A PR GitHub will
+    // never serve a diff for is skipped; any other failure fails the run
+    // and the job retries, and the analysis stays failed if the last
+    // attempt also fails.
+    const previousHeadSha = lastHeadShaByPrId.get(pr._id);
+    let diff: PullRequestDiff;
+    try {
+      diff = await loadPullRequestDiff(ctx, repo, pr, previousHeadSha);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      await ctx.runMutation(internal.app.updatePrAnalysisDetails, {
+        prAnalysisId,
+        status: "failed",
+        // Not `headSha`: that names the head whose diff was analyzed.
+        rawMetadata: {
+          error: `Failed to load diff: ${error}`,
+          attemptedHeadSha: pr.headSha,
+        },
+      });
+      if (!isPermanentDiffError(err)) {
+        throw new Error(`Failed to load diff for PR #${pr.prNumber}: ${error}`);
+      }
+      await ctx.runMutation(internal.app.updateAnalysisSessionPRStatus, {
+        analysisSessionPRId: sessionPr._id,
+        status: "failed",
       });
+      await run.heartbeat({ completed: ++completed, total });
+      continue;
+    }
 
-      const prompt = [
-        "You are an expert GitHub pull request analysis agent.",
-        "You will be given structured data for a single PR from a codebase.",
-        "Respond with a concise JSON object describing the analysis.",
-        "",
-        "Input shape:",
-        "{",
-        '  "title": string,',
-        '  "body": string | null,',
-        '  "repoName": string,',
-        '  "repoOwner": string',
-        "}",
-        "",
-        "Output JSON shape (no extra keys):",
-        "{",
-        '  "summary": string,',
-        '  "riskLevel": "low" | "medium" | "high" | "critical",',
-        '  "filesChanged": string[],',
-        '  "impactedPaths": string[]',
-        "}",
-        "",
-        "Here is the PR JSON:",
-        JSON.stringify({
-          title: pr.title,
-          body: pr.body ?? null,
-          repoName: repo.repoName,
-          repoOwner: repo.repoOwner,
-        }),
-      ].join("\n");
-
-      const result = await prAnalyzerAgent.generateText(
-        ctx,
-        // Use the repo owner as the Agent \"userId\" to satisfy context requirements.
-        { userId: String(repo.ownerUserId) },
-        { prompt }
-      );
+    const prompt = buildPrAnalysisPrompt(
+      {
+        title: pr.title,
+        body: pr.body ?? null,
+        repoName: repo.repoName,
+        repoOwner: repo.repoOwner,
+        files: diff.files.map((f) => ({
+          filename: f.filename,
+          status: f.status,
+          additions: f.additions,
+          deletions: f.deletions,
+        })),
+        changedSinceLastAnalysis: diff.changedSinceLastAnalysis,
+        truncatedFiles: diff.patchContext.truncatedFiles,
+        omittedFiles: diff.patchContext.omittedFiles,
+      },
+      diff.patchContext.chunks
+    );
 
-      let parsed:
-        | {
-            summary: string;
-            riskLevel: "low" | "medium" | "high" | "critical";
-            filesChanged: string[];
-            impactedPaths: string[];
-          }
-        | null = null;
-
-      try {
-        parsed = JSON.parse(result.text);
-      } catch {
-        parsed = null;
-      }
+    // Use the repo owner as the Agent "userId" to satisfy context requirements.
+    const generated = await generatePrAnalysis(
+      ctx,
+      run,
+      String(repo.ownerUserId),
+      prompt
+    );
+
+    const filesChanged = diff.files.map((f) => f.filename);
+    const diffMetadata = {
+      headSha: diff.headSha,
+      baseSha: diff.baseSha,
+      patchChunks: diff.patchContext.chunks.length,
+      truncatedFiles: diff.patchContext.truncatedFiles,
+      omittedFiles: diff.patchContext.omittedFiles,
+    };
 
-      await ctx.runMutation(api.app.updatePrAnalysisDetails, {
+    if (!generated.ok) {
+      console.error(
+        `PR analysis failed for PR #${pr.prNumber}: ${generated.error}`
+      );
+      await ctx.runMutation(internal.app.updatePrAnalysisDetails, {
         prAnalysisId,
-        status: "completed",
-        summary: parsed?.summary ?? result.text,
-        filesChanged: parsed?.filesChanged ?? [],
-        impactedPaths: parsed?.impactedPaths ?? [],
-        riskLevel: parsed?.riskLevel ?? "medium",
-        rawMetadata: parsed,
+        status: "failed",
+        filesChanged,
+        impactedPaths: deriveImpactedPaths(filesChanged),
+        rawMetadata: {
+          ...diffMetadata,
+          error: generated.error,
+          attempts: generated.attempts,
+        },
+        generatedBy: generated.generatedBy,
+      });
+      await ctx.runMutation(internal.app.updateAnalysisSessionPRStatus, {
+        analysisSessionPRId: sessionPr._id,
+        status: "failed",
       });
+      await run.heartbeat({ completed: ++completed, total });
+      continue;
     }
 
-    await ctx.runMutation(api.app.updateAnalysisSessionStatus, {
-      analysisSessionId: sessionId,
+    await ctx.runMutation(internal.app.updatePrAnalysisDetails, {
+      prAnalysisId,
       status: "completed",
-      startedAt: Date.now(),
-      completedAt: Date.now(),
+      summary: generated.result.summary,
+      filesChanged,
+      impactedPaths: deriveImpactedPaths(filesChanged),
+      riskLevel: generated.result.riskLevel,
+      rawMetadata: {
+        ...generated.result,
+        ...diffMetadata,
+        attempts: generated.attempts,
+      },
+      generatedBy: generated.generatedBy,
     });
-  },
-});
+    await ctx.runMutation(internal.app.updateAnalysisSessionPRStatus, {
+      analysisSessionPRId: sessionPr._id,
+      status: "completed",
+    });
+
+    if (repo.analysisPublishMode && repo.analysisPublishMode !== "off") {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.githubPublish.publishPrAnalysis,
+        { prAnalysisId }
+      );
+    }
+
+    await run.heartbeat({ completed: ++completed, total });
+  }
+
+  if (remaining.length > PR_ANALYSIS_BATCH_SIZE) return true;
+
+  const finalRows: Doc<"analysisSessionPRs">[] = await ctx.runQuery(
+    internal.app.listAnalysisSessionPRsInternal,
+    { analysisSessionId: sessionId }
+  );
+  const failed = finalRows.filter((row) => row.status === "failed").length;
+  await ctx.runMutation(internal.app.updateAnalysisSessionStatus, {
+    analysisSessionId: sessionId,
+    // The session only fails when no PR in it could be analyzed.
+    status: failed === finalRows.length ? "failed" : "completed",
+    startedAt: Date.now(),
+    completedAt: Date.now(),
+  });
+  return false;
+}
 
 /**
- * ContributorProfileRefreshWorkflow
+ * Contributor profile job
  *
  * For a single repo, iterate over all repoContributors and invoke the
  * Contributor Profiler agent once per contributor. The agent receives a
  * JSON summary of their PRs and impacted paths, and calls the
  * `saveRepoContributorProfile` tool to persist role/seniority/areas.
  */
-export const runContributorProfileRefreshWorkflow = action({
-  args: { repoId: v.id("repos") },
-  handler: async (ctx, { repoId }) => {
-    const repo = await ctx.runQuery(api.app.getRepo, { repoId });
-    if (!repo) return;
-
-    const [linksDetailed, pullRequests, prAnalyses] = await Promise.all([
-      ctx.runQuery(api.app.listRepoContributorsDetailed, { repoId }),
-      ctx.runQuery(api.app.listPullRequestsForRepo, { repoId }),
-      ctx.runQuery(api.app.listPrAnalysesForRepo, { repoId }),
-    ]);
+export async function refreshContributorProfiles(
+  ctx: ActionCtx,
+  run: AnalysisJobRun
+) {
+  const { repoId } = run;
+  const repo = await ctx.runQuery(internal.app.getRepoInternal, { repoId });
+  if (!repo) return;
 
-    // Build latest analysis per PR id for quick lookup.
-    const latestAnalysisByPrId = new Map<
-      string,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      any
-    >();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (prAnalyses as any[]).forEach((a: any) => {
-      const key = a.pullRequestId;
-      const current = latestAnalysisByPrId.get(key);
-      if (
-        !current ||
-        (a.updatedAt ?? a.createdAt) > (current.updatedAt ?? current.createdAt)
-      ) {
-        latestAnalysisByPrId.set(key, a);
-      }
-    });
+  const [
+    linksDetailed,
+    pullRequests,
+    prAnalyses,
+    reviews,
+    reviewComments,
+    pathOwners,
+  ] = await Promise.all([
+    ctx.runQuery(internal.app.listRepoContributorsDetailedInternal, { repoId }),
+    ctx.runQuery(internal.app.listPullRequestsForRepoInternal, { repoId }),
+    ctx.runQuery(internal.app.listPrAnalysesForRepoInternal, { repoId }),
+    ctx.runQuery(internal.app.listPullRequestReviewsForRepo, { repoId }),
+    ctx.runQuery(internal.app.listPullRequestReviewCommentsForRepo, { repoId }),
+    ctx.runQuery(internal.app.listPathOwnersForRepo, { repoId }),
+  ]);
 
+  const prNumberById = new Map<string, number>(
+    pullRequests.map((pr: Doc<"pullRequests">) => [pr._id, pr.prNumber])
+  );
+
+  // Build latest analysis per PR id for quick lookup.
+  const latestAnalysisByPrId = new Map<
+    string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    for (const item of linksDetailed as any[]) {
-      const contributor = item.contributor;
-      const link = item.repoContributor;
-      if (!contributor || !link) continue;
-
-      // PRs authored by this contributor in this repo.
-      const authoredPrs = (pullRequests as any[]).filter(
-        (pr: any) => pr.authorContributorId === contributor._id
-      );
+    any
+  >();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (prAnalyses as any[]).forEach((a: any) => {
+    const key = a.pullRequestId;
+    const current = latestAnalysisByPrId.get(key);
+    if (
+      !current ||
+      (a.updatedAt ?? a.createdAt) > (current.updatedAt ?? current.createdAt)
+    ) {
+      latestAnalysisByPrId.set(key, a);
+    }
+  });
 
-      const prSummaries = authoredPrs.map((pr: any) => {
-        const analysis = latestAnalysisByPrId.get(pr._id);
-        return {
-          prNumber: pr.prNumber,
-          title: pr.title,
-          status: pr.status,
-          createdAt: pr.createdAt,
-          mergedAt: pr.mergedAt ?? null,
-          filesChanged: analysis?.filesChanged ?? [],
-          impactedPaths: analysis?.impactedPaths ?? [],
-          riskLevel: analysis?.riskLevel ?? null,
-        };
-      });
+  let profiled = 0;
+  await run.heartbeat({ completed: 0, total: linksDetailed.length });
 
-      const allPaths = new Set<string>();
-      prSummaries.forEach((pr) => {
-        (pr.impactedPaths ?? []).forEach((p: string) => allPaths.add(p));
-      });
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const item of linksDetailed as any[]) {
+    const contributor = item.contributor;
+    const link = item.repoContributor;
+    if (!contributor || !link) continue;
 
-      const contributionSummary = {
-        repo: {
-          repoId: String(repoId),
-          owner: repo.repoOwner,
-          name: repo.repoName,
-        },
-        contributor: {
-          contributorId: String(contributor._id),
-          login: contributor.login,
-          name: contributor.name ?? null,
-        },
-        aggregateStats: {
-          prCount: prSummaries.length,
-          linesChanged: link.linesChanged,
-          pathsTouched: Array.from(allPaths),
-        },
-        pullRequests: prSummaries,
+    // PRs authored by this contributor in this repo.
+    const authoredPrs = (pullRequests as any[]).filter(
+      (pr: any) => pr.authorContributorId === contributor._id
+    );
+
+    const prSummaries = authoredPrs.map((pr: any) => {
+      const analysis = latestAnalysisByPrId.get(pr._id);
+      return {
+        prNumber: pr.prNumber,
+        title: pr.title,
+        status: pr.status,
+        createdAt: pr.createdAt,
+        mergedAt: pr.mergedAt ?? null,
+        filesChanged: analysis?.filesChanged ?? [],
+        impactedPaths: analysis?.impactedPaths ?? [],
+        riskLevel: analysis?.riskLevel ?? null,
+        reviewMetrics: pr.reviewMetrics ?? null,
       };
+    });
 
-      const prompt = [
-        "You are the Contributor Profiler agent.",
-        "You will be given JSON describing a single contributor's behavior in this repository.",
-        "Your job is to infer their primary role, seniority, main areas of ownership, and a short profile summary.",
-        "",
-        "CRITICAL: When you are ready, call the `saveRepoContributorProfile` tool EXACTLY ONCE",
-        "using the provided `repoId` and `contributorId` fields from the JSON below.",
-        "Do not invent ids; use them as-is.",
-        "",
-        "Here is the input JSON:",
-        JSON.stringify(contributionSummary),
-      ].join("\n\n");
-
-      await contributorProfilerAgent.generateText(
-        ctx,
-        {
-          // Use repo owner as a stable \"user\" identity for this agent family.
-          userId: String(repo.ownerUserId),
-        },
-        { prompt }
-      );
+    // Reviews this contributor gave on other people's PRs.
+    const reviewsGiven = reviews.filter(
+      (r: Doc<"pullRequestReviews">) =>
+        r.reviewerContributorId === contributor._id &&
+        r.state !== "pending"
+    );
+    const commentsGiven = reviewComments.filter(
+      (c: Doc<"pullRequestReviewComments">) =>
+        c.authorContributorId === contributor._id
+    );
+    const reviewedPrNumbers = new Set<number>();
+    for (const r of [...reviewsGiven, ...commentsGiven]) {
+      const prNumber = prNumberById.get(r.pullRequestId);
+      if (prNumber != null) reviewedPrNumbers.add(prNumber);
     }
-  },
-});
-
-/**
- * ManualAnalysisSessionWorkflow (Repo snapshot focus)
- *
- * Creates an analysis session of type \"full_repo\", gathers repo-level
- * context (tech stack, recent PR analyses, history), and asks the
- * Repo Snapshot agent to persist a structured snapshot via its tool.
- */
-export const runRepoSnapshotWorkflow = action({
-  args: { repoId: v.id("repos") },
-  handler: async (ctx, { repoId }) => {
-    const repo = await ctx.runQuery(api.app.getRepo, { repoId });
-    if (!repo) return;
-
-    const [techStack, prAnalyses, history] = await Promise.all([
-      ctx.runQuery(api.app.listTechStackItemsForRepo, { repoId }),
-      ctx.runQuery(api.app.listPrAnalysesForRepo, { repoId }),
-      ctx.runQuery(api.app.listHistoryCheckpointsForRepo, { repoId }),
-    ]);
+    const reviewedPaths = new Set(
+      deriveImpactedPaths(
+        commentsGiven
+          .map((c: Doc<"pullRequestReviewComments">) => c.path)
+          .filter((p: string | undefined): p is string => Boolean(p))
+      )
+    );
 
-    const sessionId = await ctx.runMutation(api.app.createAnalysisSession, {
-      repoId,
-      userId: repo.ownerUserId,
-      sessionType: "full_repo",
-      status: "running",
-      config: { kind: "repo_snapshot" },
-      summary: `Repo snapshot for ${repo.repoOwner}/${repo.repoName}`,
+    const allPaths = new Set<string>();
+    prSummaries.forEach((pr) => {
+      (pr.impactedPaths ?? []).forEach((p: string) => allPaths.add(p));
     });
 
-    // Take the most recent N PR analyses to keep context size bounded.
-    const recentAnalyses = [...(prAnalyses ?? [])]
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      .sort((a: any, b: any) => {
-        const at = a.updatedAt ?? a.createdAt;
-        const bt = b.updatedAt ?? b.createdAt;
-        return bt - at;
-      })
-      .slice(0, 25);
-
-    const snapshotInput = {
-      analysisSessionId: String(sessionId),
-      repoId: String(repoId),
+    const contributionSummary = {
       repo: {
+        repoId: String(repoId),
         owner: repo.repoOwner,
         name: repo.repoName,
-        description: repo.description ?? null,
-        defaultBranch: repo.defaultBranch,
-        url: repo.url,
       },
-      techStack: techStack ?? [],
-      recentPrAnalyses: recentAnalyses,
-      historyCheckpoints: history ?? [],
+      contributor: {
+        contributorId: String(contributor._id),
+        login: contributor.login,
+        name: contributor.name ?? null,
+      },
+      aggregateStats: {
+        prCount: prSummaries.length,
+        linesChanged: link.linesChanged,
+        pathsTouched: Array.from(allPaths),
+      },
+      pullRequests: prSummaries,
+      // Directories this contributor is a top committer in, from the
+      // commit-derived ownership map (includes direct pushes).
+      ownedPaths: pathOwners
+        .filter(
+          (row: Doc<"pathOwnership">) => row.contributorId === contributor._id
+        )
+        .sort(
+          (a: Doc<"pathOwnership">, b: Doc<"pathOwnership">) =>
+            b.score - a.score
+        )
+        .slice(0, 15)
+        .map((row: Doc<"pathOwnership">) => ({
+          pathPrefix: row.pathPrefix,
+          commitCount: row.commitCount,
+          lastTouchedAt: row.lastTouchedAt,
+        })),
+      reviewActivity: {
+        reviewCount: reviewsGiven.length,
+        approvals: reviewsGiven.filter(
+          (r: Doc<"pullRequestReviews">) => r.state === "approved"
+        ).length,
+        changesRequested: reviewsGiven.filter(
+          (r: Doc<"pullRequestReviews">) => r.state === "changes_requested"
+        ).length,
+        reviewCommentCount: commentsGiven.length,
+        reviewedPrNumbers: Array.from(reviewedPrNumbers)
+          .sort((a, b) => b - a)
+          .slice(0, 50),
+        pathsReviewed: Array.from(reviewedPaths),
+      },
     };
 
-    const prompt = [
-      "You are the Repo Snapshot agent.",
-      "You are given JSON describing a repository and its recent activity.",
-      "Use it to understand the tech stack, main modules, risky/high-churn areas, and suggested next steps.",
-      "",
-      "IMPORTANT: When you are ready, call the `saveRepoSnapshotResult` tool EXACTLY ONCE.",
-      "Use the `analysisSessionId` and `repoId` from the JSON as-is.",
-      "",
-      "Here is the input JSON:",
-      JSON.stringify(snapshotInput),
-    ].join("\n\n");
+    const prompt = buildContributorProfilePrompt(contributionSummary);
 
-    await repoSnapshotAgent.generateText(
+    const model = await repoLanguageModel(
+      ctx,
+      "contributorProfiler",
+      repoId
+    );
+    const toolCtx = {
+      ...ctx,
+      generatedBy: agentProvenanceFor(
+        contributorProfilerAgent,
+        CONTRIBUTOR_PROFILE_PROMPT_VERSION,
+        model
+      ),
+    };
+    await trackLlmCall(
       ctx,
       {
-        userId: String(repo.ownerUserId),
+        workflow: "contributor_profiles",
+        agentName: contributorProfilerAgent.options.name,
+        repoId,
       },
-      { prompt }
+      () =>
+        contributorProfilerAgent.generateText(
+          toolCtx,
+          {
+            // Use repo owner as a stable \"user\" identity for this agent family.
+            userId: String(repo.ownerUserId),
+          },
+          { prompt, model }
+        )
     );
 
-    await ctx.runMutation(api.app.updateAnalysisSessionStatus, {
-      analysisSessionId: sessionId,
-      status: "completed",
-      startedAt: Date.now(),
-      completedAt: Date.now(),
+    await run.heartbeat({
+      completed: ++profiled,
+      total: linksDetailed.length,
     });
-  },
-});
+  }
+}
 
 /**
- * NightlyHistorySynthesisWorkflow (can also be triggered manually)
+ * Repo snapshot job
  *
- * Gathers recent raw events for a repo (PR analyses, analysis sessions,
- * calls, existing checkpoints) and asks the History Synthesis agent to
- * compress them into a small set of high-level history checkpoints.
+ * Creates an analysis session of type \"full_repo\", gathers repo-level
+ * context (tech stack, recent PR analyses, history, the previous
+ * snapshot), and asks the Repo Snapshot agent to persist a structured
+ * snapshot via its tool.
  */
-export const runHistorySynthesisWorkflow = action({
-  args: {
-    repoId: v.id("repos"),
-    // Optional window in days; defaults to 30.
-    windowDays: v.optional(v.number()),
-  },
-  handler: async (ctx, { repoId, windowDays }) => {
-    const days = windowDays ?? 30;
-    const now = Date.now();
-    const windowStart = now - days * 24 * 60 * 60 * 1000;
-
-    const [prAnalyses, analysisSessions, calls, history] = await Promise.all([
-      ctx.runQuery(api.app.listPrAnalysesForRepo, { repoId }),
-      ctx.runQuery(api.app.listAnalysisSessionsForRepo, { repoId }),
-      ctx.runQuery(api.app.listCallsForRepo, { repoId }),
-      ctx.runQuery(api.app.listHistoryCheckpointsForRepo, { repoId }),
-    ]);
+export async function takeRepoSnapshot(ctx: ActionCtx, run: AnalysisJobRun) {
+  const { repoId } = run;
+  const repo = await ctx.runQuery(internal.app.getRepoInternal, { repoId });
+  if (!repo) return;
 
-    // Filter events to the requested time window where we have timestamps.
-    const inWindow = <T extends { createdAt?: number; eventAt?: number }>(
-      items: T[]
-    ) =>
-      items.filter((i) => {
-        const t = (i as any).eventAt ?? (i as any).createdAt;
-        return typeof t === "number" && t >= windowStart;
-      });
+  const [techStack, prAnalyses, history, previousSnapshot] = await Promise.all([
+    ctx.runQuery(internal.app.listTechStackItemsForRepoInternal, { repoId }),
+    ctx.runQuery(internal.app.listPrAnalysesForRepoInternal, { repoId }),
+    ctx.runQuery(internal.app.listHistoryCheckpointsForRepoInternal, { repoId }),
+    ctx.runQuery(internal.repoSnapshots.getLatestRepoSnapshotInternal, {
+      repoId,
+    }),
+  ]);
 
-    const synthesisInput = {
-      repoId: String(repoId),
-      windowStart,
-      windowEnd: now,
-      prAnalyses: inWindow(prAnalyses ?? []),
-      analysisSessions: inWindow(analysisSessions ?? []),
-      calls: inWindow(calls ?? []),
-      historyCheckpoints: inWindow(history ?? []),
-    };
+  // A retried job reports into the session its first attempt opened.
+  let sessionId = run.analysisSessionId;
+  if (!sessionId) {
+    const newSessionId: Id<"analysisSessions"> = await ctx.runMutation(
+      internal.app.createAnalysisSession,
+      {
+        repoId,
+        userId: repo.ownerUserId,
+        sessionType: "full_repo",
+        status: "running",
+        config: { kind: "repo_snapshot" },
+        summary: `Repo snapshot for ${repo.repoOwner}/${repo.repoName}`,
+      }
+    );
+    sessionId = newSessionId;
+    await run.attachSession(newSessionId);
+  }
 
-    const prompt = [
-      "You are the History Synthesis agent.",
-      "You are given JSON with recent raw events for a repository.",
-      "Pick 3–10 of the most important milestones that summarize this window.",
-      "",
-      "CRITICAL: When you are ready, call the `saveHistoryCheckpoints` tool EXACTLY ONCE",
-      "with your synthesized checkpoints. Use the provided repoId as-is.",
-      "",
-      "Here is the input JSON:",
-      JSON.stringify(synthesisInput),
-    ].join("\n\n");
+  // Take the most recent N PR analyses to keep context size bounded.
+  const recentAnalyses = [...(prAnalyses ?? [])]
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .sort((a: any, b: any) => {
+      const at = a.updatedAt ?? a.createdAt;
+      const bt = b.updatedAt ?? b.createdAt;
+      return bt - at;
+    })
+    .slice(0, 25);
 
-    await historySynthesisAgent.generateText(
-      ctx,
-      { userId: String(repoId) },
-      { prompt }
-    );
-  },
-});
+  const snapshotInput = {
+    analysisSessionId: String(sessionId),
+    repoId: String(repoId),
+    repo: {
+      owner: repo.repoOwner,
+      name: repo.repoName,
+      description: repo.description ?? null,
+      defaultBranch: repo.defaultBranch,
+      url: repo.url,
+    },
+    techStack: techStack ?? [],
+    recentPrAnalyses: recentAnalyses,
+    historyCheckpoints: history ?? [],
+    previousSnapshot: previousSnapshot
+      ? {
+          version: previousSnapshot.version,
+          takenAt: previousSnapshot.createdAt,
+          mainModules: previousSnapshot.mainModules,
+          riskyAreas: previousSnapshot.riskyAreas,
+          suggestedNextSteps: previousSnapshot.suggestedNextSteps,
+        }
+      : null,
+  };
+
+  const prompt = buildRepoSnapshotPrompt(snapshotInput);
+
+  await run.heartbeat();
+  const model = await repoLanguageModel(ctx, "repoSnapshot", repoId);
+  const toolCtx = {
+    ...ctx,
+    generatedBy: agentProvenanceFor(
+      repoSnapshotAgent,
+      REPO_SNAPSHOT_PROMPT_VERSION,
+      model
+    ),
+  };
+  await trackLlmCall(
+    ctx,
+    {
+      workflow: "repo_snapshot",
+      agentName: repoSnapshotAgent.options.name,
+      repoId,
+      analysisSessionId: sessionId,
+    },
+    () =>
+      repoSnapshotAgent.generateText(
+        toolCtx,
+        {
+          userId: String(repo.ownerUserId),
+        },
+        { prompt, model }
+      )
+  );
+
+  await ctx.runMutation(internal.app.updateAnalysisSessionStatus, {
+    analysisSessionId: sessionId,
+    status: "completed",
+    startedAt: Date.now(),
+    completedAt: Date.now(),
+  });
+}
 
 /**
- * High-level convenience action that kicks off all major analysis
- * workflows for a repo:
- * - Repo snapshot (general info / tech stack / roadmap)
- * - PR auto-analysis (per-PR summaries and risk levels)
- * - Contributor profile refresh (roles, seniority, areas)
- * - History synthesis (high-level checkpoints)
+ * History synthesis job
  *
- * This is what the frontend \"Run analysis\" button should call.
+ * Gathers recent raw events for a repo (PR analyses, analysis sessions,
+ * calls, checkpoints from snapshots and calls) and asks the History
+ * Synthesis agent to compress them into a small set of high-level history
+ * checkpoints, which replace the window's earlier synthesized ones.
  */
-export const runFullAnalysisWorkflow = action({
-  args: { repoId: v.id("repos") },
-  handler: async (ctx, { repoId }) => {
-    // Run the sub-workflows asynchronously via the scheduler so that
-    // this action returns quickly and we avoid long-running timeouts.
-    await ctx.scheduler.runAfter(0, api.prAgent.runRepoSnapshotWorkflow, {
-      repoId,
+export async function synthesizeRepoHistory(
+  ctx: ActionCtx,
+  run: AnalysisJobRun
+) {
+  const { repoId } = run;
+  const days = run.windowDays ?? 30;
+  const now = Date.now();
+  const windowStart = now - days * 24 * 60 * 60 * 1000;
+
+  const [prAnalyses, analysisSessions, calls, allCheckpoints] =
+    await Promise.all([
+      ctx.runQuery(internal.app.listPrAnalysesForRepoInternal, { repoId }),
+      ctx.runQuery(internal.app.listAnalysisSessionsForRepoInternal, {
+        repoId,
+      }),
+      ctx.runQuery(internal.app.listCallsForRepoInternal, { repoId }),
+      ctx.runQuery(internal.app.listHistoryCheckpointsForRepoInternal, {
+        repoId,
+      }),
+    ]);
+
+  // Filter events to the requested time window where we have timestamps.
+  const inWindow = <T extends { createdAt?: number; eventAt?: number }>(
+    items: T[]
+  ) =>
+    items.filter((i) => {
+      const t = (i as any).eventAt ?? (i as any).createdAt;
+      return typeof t === "number" && t >= windowStart;
     });
-    await ctx.scheduler.runAfter(0, api.prAgent.runRepoAnalysisWorkflow, {
+
+  const history: Doc<"historyCheckpoints">[] = inWindow(allCheckpoints ?? []);
+
+  // Re-analysis of outdated results only runs when the window holds
+  // checkpoints from an older prompt version.
+  if (
+    run.outdatedOnly &&
+    !history.some((checkpoint) => isOutdatedSynthesizedCheckpoint(checkpoint))
+  ) {
+    return;
+  }
+
+  const synthesisInput = {
+    repoId: String(repoId),
+    windowStart,
+    windowEnd: now,
+    prAnalyses: inWindow(prAnalyses ?? []),
+    analysisSessions: inWindow(analysisSessions ?? []),
+    calls: inWindow(calls ?? []),
+    // Synthesized checkpoints in the window are replaced by this run, so
+    // only the ones from snapshots and calls are context.
+    historyCheckpoints: history.filter(
+      (checkpoint) => !isSynthesizedSourceType(checkpoint.sourceType)
+    ),
+  };
+
+  const prompt = buildHistorySynthesisPrompt(synthesisInput);
+
+  await run.heartbeat();
+  const model = await repoLanguageModel(ctx, "historySynthesis", repoId);
+  const toolCtx = {
+    ...ctx,
+    generatedBy: agentProvenanceFor(
+      historySynthesisAgent,
+      HISTORY_SYNTHESIS_PROMPT_VERSION,
+      model
+    ),
+    synthesisWindow: { windowStart, windowEnd: now },
+  };
+  await trackLlmCall(
+    ctx,
+    {
+      workflow: "history_synthesis",
+      agentName: historySynthesisAgent.options.name,
       repoId,
-    });
-    await ctx.scheduler.runAfter(
-      0,
-      api.prAgent.runContributorProfileRefreshWorkflow,
-      { repoId }
-    );
-    await ctx.scheduler.runAfter(
-      0,
-      api.prAgent.runHistorySynthesisWorkflow,
-      {
-        repoId,
-        windowDays: 30,
-      }
-    );
-  },
-});
+    },
+    () =>
+      historySynthesisAgent.generateText(
+        toolCtx,
+        { userId: String(repoId) },
+        { prompt, model }
+      )
+  );
+}
 
@@ -1,10 +1,235 @@
-import { action } from "./_generated/server";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+} from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { createThread } from "@convex-dev/agent";
-import { components } from "./_generated/api";
+import { paginationOptsValidator } from "convex/server";
+import {
+  createThread,
+  listUIMessages,
+  saveMessage,
+  syncStreams,
+  vStreamArgs,
+} from "@convex-dev/agent";
+import { components, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { requireCurrentUser, requireRepoAccess } from "./access";
 import { repoAssistantAgent } from "./agents/RepoAssistant";
+import { trackLlmCall } from "./llmUsage";
+import { repoLanguageModel } from "./modelSettings";
+import {
+  citationsForAnswer,
+  collectCitations,
+  stripCitationMarkers,
+  type AssistantCitation,
+} from "../lib/assistantCitations";
 
+// Repo Assistant conversations are agent threads recorded in
+// `assistantThreads`, so a user can list and resume theirs per repo. The
+// text chat streams answers into the thread (the page reads them with
+// `useUIMessages`); the voice assistant asks in the same thread and waits
+// for the whole answer so it can be spoken.
+
+const THREAD_TITLE_LENGTH = 80;
+
+/**
+ * The caller's conversation with this thread id. Throws unless the caller
+ * started it and can still view its repo.
+ */
+async function requireAssistantThread(ctx: QueryCtx, threadId: string) {
+  const user = await requireCurrentUser(ctx);
+  const thread = await ctx.db
+    .query("assistantThreads")
+    .withIndex("byThreadId", (q) => q.eq("threadId", threadId))
+    .unique();
+  if (!thread || thread.userId !== user._id) {
+    throw new Error("Conversation not found");
+  }
+  if (!(await requireRepoAccess(ctx, thread.repoId))) {
+    throw new Error("Repo not found");
+  }
+  return thread;
+}
+
+/**
+ * Save the caller's message to a conversation about a repo, starting a new
+ * conversation when no thread id is given.
+ */
+async function saveQuestion(
+  ctx: MutationCtx,
+  {
+    repoId,
+    question,
+    threadId,
+  }: { repoId: Id<"repos">; question: string; threadId?: string },
+) {
+  const user = await requireCurrentUser(ctx);
+  if (!(await requireRepoAccess(ctx, repoId))) {
+    throw new Error("Repo not found");
+  }
+  const prompt = question.trim();
+  if (!prompt) {
+    throw new Error("Ask a question first");
+  }
+
+  const now = Date.now();
+  let effectiveThreadId = threadId;
+  if (effectiveThreadId) {
+    const thread = await requireAssistantThread(ctx, effectiveThreadId);
+    if (thread.repoId !== repoId) {
+      throw new Error("Conversation belongs to another repo");
+    }
+    await ctx.db.patch(thread._id, { lastMessageAt: now });
+  } else {
+    const title = prompt.slice(0, THREAD_TITLE_LENGTH);
+    effectiveThreadId = await createThread(ctx, components.agent, {
+      userId: user._id,
+      title,
+      summary: "Conversation about a single repository.",
+    });
+    await ctx.db.insert("assistantThreads", {
+      repoId,
+      userId: user._id,
+      threadId: effectiveThreadId,
+      title,
+      lastMessageAt: now,
+      createdAt: now,
+    });
+  }
+
+  const { messageId } = await saveMessage(ctx, components.agent, {
+    threadId: effectiveThreadId,
+    userId: user._id,
+    prompt,
+  });
+  return { threadId: effectiveThreadId, messageId };
+}
+
+// The caller's conversations about a repo, most recently active first.
+export const listRepoAssistantThreads = query({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    if (!(await requireRepoAccess(ctx, repoId))) return [];
+    const user = await requireCurrentUser(ctx);
+
+    return ctx.db
+      .query("assistantThreads")
+      .withIndex("byRepoAndUser", (q) =>
+        q.eq("repoId", repoId).eq("userId", user._id),
+      )
+      .order("desc")
+      .take(30);
+  },
+});
+
+/**
+ * Messages in one of the caller's conversations, for `useUIMessages` with
+ * `stream: true`: saved messages plus the deltas of an answer that is
+ * still being written.
+ */
+export const listRepoAssistantMessages = query({
+  args: {
+    threadId: v.string(),
+    paginationOpts: paginationOptsValidator,
+    streamArgs: vStreamArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireAssistantThread(ctx, args.threadId);
+    const paginated = await listUIMessages(ctx, components.agent, args);
+    const streams = await syncStreams(ctx, components.agent, args);
+    return { ...paginated, streams };
+  },
+});
+
+/**
+ * Send a chat message to the assistant. The answer is generated in the
+ * background and streams into the thread; returns the thread id, which is
+ * new when no `threadId` was given.
+ */
+export const sendRepoAssistantMessage = mutation({
+  args: {
+    repoId: v.id("repos"),
+    prompt: v.string(),
+    threadId: v.optional(v.string()),
+  },
+  handler: async (ctx, { repoId, prompt, threadId }) => {
+    const saved = await saveQuestion(ctx, {
+      repoId,
+      question: prompt,
+      threadId,
+    });
+    await ctx.scheduler.runAfter(
+      0,
+      internal.repoAssistant.streamRepoAssistantAnswer,
+      { repoId, threadId: saved.threadId, promptMessageId: saved.messageId },
+    );
+    return { threadId: saved.threadId };
+  },
+});
+
+// Internal mutation: the voice assistant's counterpart of
+// sendRepoAssistantMessage, run as the calling user.
+export const saveRepoAssistantQuestion = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    question: v.string(),
+    threadId: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ threadId: string; messageId: string }> =>
+    saveQuestion(ctx, args),
+});
+
+// Internal action: answer a saved chat message, writing the answer to the
+// thread as it streams.
+export const streamRepoAssistantAnswer = internalAction({
+  args: {
+    repoId: v.id("repos"),
+    threadId: v.string(),
+    promptMessageId: v.string(),
+  },
+  handler: async (ctx, { repoId, threadId, promptMessageId }) => {
+    const model = await repoLanguageModel(ctx, "repoAssistant", repoId);
+    // Tools read the repo from their ctx; see assistantRepoId.
+    const toolCtx = { ...ctx, repoId };
+    await trackLlmCall(
+      ctx,
+      {
+        workflow: "repo_assistant",
+        agentName: repoAssistantAgent.options.name,
+        repoId,
+      },
+      async () => {
+        const result = await repoAssistantAgent.streamText(
+          toolCtx,
+          { threadId },
+          { promptMessageId, model },
+          { saveStreamDeltas: true },
+        );
+        await result.consumeStream();
+        return {
+          usage: await result.usage,
+          totalUsage: await result.totalUsage,
+          response: await result.response,
+        };
+      },
+    );
+  },
+});
+
+/**
+ * Answer a spoken question about a repo in one go, in the given
+ * conversation or a new one. The answer's `text` cites records as
+ * `[pr:42]`-style markers; `spokenText` is the same answer without them,
+ * and `citations` lists the PRs, analyses, calls, action items and
+ * history checkpoints it drew on.
+ */
 export const askRepoAssistant = action({
   args: {
     repoId: v.id("repos"),
@@ -18,31 +243,55 @@ export const askRepoAssistant = action({
       question,
       threadId,
     }: { repoId: Id<"repos">; question: string; threadId?: string },
-  ): Promise<{ threadId: string; text: string }> => {
-    let effectiveThreadId = threadId;
-
-    if (!effectiveThreadId) {
-      effectiveThreadId = await createThread(ctx, components.agent, {
-        title: `Repo assistant: ${repoId}`,
-        summary: "Voice conversation about a single repository.",
+  ): Promise<{
+    threadId: string;
+    text: string;
+    spokenText: string;
+    citations: AssistantCitation[];
+  }> => {
+    const saved: { threadId: string; messageId: string } =
+      await ctx.runMutation(internal.repoAssistant.saveRepoAssistantQuestion, {
+        repoId,
+        question,
+        threadId,
       });
-    }
-
-    const prompt = [
-      "You are helping a developer understand a repository stored in Convex.",
-      "Use the `getRepoContext` tool to inspect the repository and then answer the question clearly.",
-      `Repository id: ${repoId}`,
-      `User question: ${question}`,
-    ].join("\n\n");
 
-    const result = await repoAssistantAgent.generateText(
+    const model = await repoLanguageModel(ctx, "repoAssistant", repoId);
+    // Tools read the repo from their ctx; see assistantRepoId.
+    const toolCtx = { ...ctx, repoId };
+    const result = await trackLlmCall(
       ctx,
-      { threadId: effectiveThreadId },
-      { prompt },
+      {
+        workflow: "repo_assistant",
+        agentName: repoAssistantAgent.options.name,
+        repoId,
+      },
+      () =>
+        repoAssistantAgent.generateText(
+          toolCtx,
+          { threadId: saved.threadId },
+          {
+            promptMessageId: saved.messageId,
+            model,
+            system: [
+              repoAssistantAgent.options.instructions,
+              "The answer is read aloud, so keep it conversational and avoid markdown formatting.",
+            ].join(" "),
+          },
+        ),
+    );
+
+    const retrieved = collectCitations(
+      result.steps.flatMap((step) =>
+        step.toolResults.map((toolResult) => toolResult.output),
+      ),
     );
 
-    return { threadId: effectiveThreadId, text: result.text };
+    return {
+      threadId: saved.threadId,
+      text: result.text,
+      spokenText: stripCitationMarkers(result.text),
+      citations: citationsForAnswer(result.text, retrieved),
+    };
   },
 });
-
-
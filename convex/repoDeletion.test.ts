@@ -0,0 +1,83 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test, vi } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+import { createRepo, createUser, modules } from "./test.setup";
+
+describe("deleteRepoAndData", () => {
+  test("deletes a repo's data over several batches", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+    const otherRepoId = await createRepo(t, alice.userId, alice.workspaceId);
+
+    await t.run(async (ctx) => {
+      const now = Date.now();
+      const callId = await ctx.db.insert("calls", {
+        repoId,
+        userId: alice.userId,
+        status: "completed",
+        startTime: now,
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+      // More transcript chunks than one batch deletes.
+      for (let index = 0; index < 250; index++) {
+        await ctx.db.insert("callTranscriptChunks", {
+          callId,
+          repoId,
+          index,
+          turns: [],
+          createdAt: now,
+        });
+      }
+      for (const id of [repoId, otherRepoId]) {
+        const searchDocumentId = await ctx.db.insert("searchDocuments", {
+          repoId: id,
+          sourceType: "call",
+          sourceId: callId,
+          chunkIndex: 0,
+          title: "Call",
+          text: "Agreed to ship the checkout redesign.",
+          eventAt: now,
+          embeddingModel: "test-embedding",
+          embedding: new Array(1536).fill(0),
+          updatedAt: now,
+        });
+        await ctx.db.insert("searchIndexEntries", {
+          repoId: id,
+          searchDocumentId,
+          sourceType: "call",
+          sourceId: callId,
+          chunkIndex: 0,
+          contentHash: "hash",
+          embeddingModel: "test-embedding",
+        });
+      }
+    });
+
+    await alice.as.mutation(api.app.deleteRepoAndData, { repoId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const counts = await t.run(async (ctx) => ({
+      calls: (await ctx.db.query("calls").collect()).length,
+      transcriptChunks: (await ctx.db.query("callTranscriptChunks").collect())
+        .length,
+      searchDocuments: (await ctx.db.query("searchDocuments").collect()).map(
+        (document) => document.repoId
+      ),
+      searchIndexEntries: (
+        await ctx.db.query("searchIndexEntries").collect()
+      ).map((entry) => entry.repoId),
+    }));
+    expect(counts).toEqual({
+      calls: 0,
+      transcriptChunks: 0,
+      searchDocuments: [otherRepoId],
+      searchIndexEntries: [otherRepoId],
+    });
+    vi.useRealTimers();
+  });
+});
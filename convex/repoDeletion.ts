@@ -0,0 +1,317 @@
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { components, internal } from "./_generated/api";
+import type { Id, TableNames } from "./_generated/dataModel";
+
+// Deleting a repo removes the repo row at once (see app.deleteRepoAndData),
+// then deletes its data here in batches, each run rescheduling the next
+// until nothing is left, so repos of any size stay within Convex's
+// per-mutation read and write limits.
+//
+// `llmUsage` rows are kept on purpose: a deleted repo's spend still
+// counts against its workspace's monthly totals and budget.
+
+// Rows deleted per run.
+const REPO_DELETION_BATCH_SIZE = 200;
+
+// Search documents from before `searchIndexEntries` existed have no entry
+// to find them by, so they are read in full, embedding included. Each
+// counts as this many rows towards a run's batch.
+const LEGACY_SEARCH_DOCUMENT_WEIGHT = 8;
+
+type Row = { _id: Id<TableNames> };
+
+// One kind of row to delete: deletes up to `limit` rows' worth and
+// returns how much of the limit it used. Using less than `limit` means
+// none are left.
+type DeletionStep = (
+  ctx: MutationCtx,
+  repoId: Id<"repos">,
+  limit: number
+) => Promise<number>;
+
+async function deleteRows(ctx: MutationCtx, rows: Row[]) {
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+  return rows.length;
+}
+
+/**
+ * Delete parent rows one at a time, each after its children, so a run
+ * that stops part way never leaves children whose parent is already gone.
+ */
+async function deleteWithChildren<P extends Row>(
+  ctx: MutationCtx,
+  limit: number,
+  nextParent: () => Promise<P | null>,
+  children: ((parent: P, limit: number) => Promise<Row[]>)[],
+  beforeDelete?: (parent: P) => Promise<void>
+) {
+  let deleted = 0;
+  while (deleted < limit) {
+    const parent = await nextParent();
+    if (!parent) break;
+    for (const childRows of children) {
+      deleted += await deleteRows(ctx, await childRows(parent, limit - deleted));
+      if (deleted >= limit) return deleted;
+    }
+    await beforeDelete?.(parent);
+    await ctx.db.delete(parent._id);
+    deleted += 1;
+  }
+  return deleted;
+}
+
+// Agent threads delete their messages in their own background batches.
+async function deleteAgentThread(ctx: MutationCtx, threadId: string) {
+  await ctx.runMutation(components.agent.threads.deleteAllForThreadIdAsync, {
+    threadId,
+  });
+}
+
+const REPO_DELETION_STEPS: DeletionStep[] = [
+  // Jobs first: a job still running finds its row gone and stops at its
+  // next heartbeat.
+  async (ctx, repoId, limit) =>
+    deleteRows(
+      ctx,
+      await ctx.db
+        .query("analysisJobs")
+        .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+        .take(limit)
+    ),
+
+  // Search documents by the ids on their index entries, so their
+  // embeddings are never read.
+  async (ctx, repoId, limit) => {
+    const entries = await ctx.db
+      .query("searchIndexEntries")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .take(limit);
+    for (const entry of entries) {
+      await ctx.db.delete(entry.searchDocumentId);
+      await ctx.db.delete(entry._id);
+    }
+    return entries.length;
+  },
+  async (ctx, repoId, limit) => {
+    const documents = await ctx.db
+      .query("searchDocuments")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .take(Math.ceil(limit / LEGACY_SEARCH_DOCUMENT_WEIGHT));
+    return (await deleteRows(ctx, documents)) * LEGACY_SEARCH_DOCUMENT_WEIGHT;
+  },
+
+  async (ctx, repoId, limit) =>
+    deleteWithChildren(
+      ctx,
+      limit,
+      () =>
+        ctx.db
+          .query("assistantThreads")
+          .withIndex("byRepoAndUser", (q) => q.eq("repoId", repoId))
+          .first(),
+      [],
+      (thread) => deleteAgentThread(ctx, thread.threadId)
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteRows(
+      ctx,
+      await ctx.db
+        .query("repoSnapshots")
+        .withIndex("byRepoAndVersion", (q) => q.eq("repoId", repoId))
+        .take(limit)
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteWithChildren(
+      ctx,
+      limit,
+      () =>
+        ctx.db
+          .query("analysisSessions")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .first(),
+      [
+        (session, n) =>
+          ctx.db
+            .query("analysisSessionPRs")
+            .withIndex("byAnalysisSession", (q) =>
+              q.eq("analysisSessionId", session._id)
+            )
+            .take(n),
+      ]
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteWithChildren(
+      ctx,
+      limit,
+      () =>
+        ctx.db
+          .query("prAnalyses")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .first(),
+      [
+        (analysis, n) =>
+          ctx.db
+            .query("prAnalysisContributors")
+            .withIndex("byPrAnalysis", (q) => q.eq("prAnalysisId", analysis._id))
+            .take(n),
+      ]
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteRows(
+      ctx,
+      await ctx.db
+        .query("historyCheckpoints")
+        .withIndex("byRepoAndEventAt", (q) => q.eq("repoId", repoId))
+        .take(limit)
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteWithChildren(
+      ctx,
+      limit,
+      () =>
+        ctx.db
+          .query("calls")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .first(),
+      [
+        (call, n) =>
+          ctx.db
+            .query("callActionItems")
+            .withIndex("byCall", (q) => q.eq("callId", call._id))
+            .take(n),
+        (call, n) =>
+          ctx.db
+            .query("callTranscriptChunks")
+            .withIndex("byCallAndIndex", (q) => q.eq("callId", call._id))
+            .take(n),
+      ]
+    ),
+
+  // Per-PR rows that carry the repo id.
+  ...(
+    [
+      "pullRequestFiles",
+      "pullRequestReviews",
+      "pullRequestReviewComments",
+      "pullRequestReviewRequests",
+      "pullRequestReviewerSuggestions",
+      "pullRequestReviewPathCounts",
+    ] as const
+  ).map(
+    (table): DeletionStep =>
+      async (ctx, repoId, limit) =>
+        deleteRows(
+          ctx,
+          await ctx.db
+            .query(table)
+            .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+            .take(limit)
+        )
+  ),
+
+  // PRs, with action items and session links that point at them.
+  async (ctx, repoId, limit) =>
+    deleteWithChildren(
+      ctx,
+      limit,
+      () =>
+        ctx.db
+          .query("pullRequests")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .first(),
+      [
+        (pr, n) =>
+          ctx.db
+            .query("callActionItems")
+            .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pr._id))
+            .take(n),
+        (pr, n) =>
+          ctx.db
+            .query("analysisSessionPRs")
+            .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pr._id))
+            .take(n),
+      ],
+      async (pr) => {
+        if (pr.prAnalyzerThreadId) {
+          await deleteAgentThread(ctx, pr.prAnalyzerThreadId);
+        }
+      }
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteWithChildren(
+      ctx,
+      limit,
+      () =>
+        ctx.db
+          .query("repoContributors")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .first(),
+      [
+        (link, n) =>
+          ctx.db
+            .query("callActionItems")
+            .withIndex("byRepoContributor", (q) =>
+              q.eq("repoContributorId", link._id)
+            )
+            .take(n),
+      ]
+    ),
+
+  async (ctx, repoId, limit) =>
+    deleteRows(
+      ctx,
+      await ctx.db
+        .query("commits")
+        .withIndex("byRepoAndCommittedAt", (q) => q.eq("repoId", repoId))
+        .take(limit)
+    ),
+
+  // Aggregates and other rows keyed only by repo.
+  ...(
+    [
+      "pathOwnership",
+      "reviewerPathStats",
+      "repoContributorStats",
+      "githubWebhookDeliveries",
+      "techStackItems",
+    ] as const
+  ).map(
+    (table): DeletionStep =>
+      async (ctx, repoId, limit) =>
+        deleteRows(
+          ctx,
+          await ctx.db
+            .query(table)
+            .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+            .take(limit)
+        )
+  ),
+];
+
+// Internal mutation: delete up to REPO_DELETION_BATCH_SIZE rows of a
+// deleted repo's data, then reschedule itself while any are left.
+export const deleteRepoData = internalMutation({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    let remaining = REPO_DELETION_BATCH_SIZE;
+    for (const step of REPO_DELETION_STEPS) {
+      remaining -= await step(ctx, repoId, remaining);
+      if (remaining <= 0) {
+        await ctx.scheduler.runAfter(0, internal.repoDeletion.deleteRepoData, {
+          repoId,
+        });
+        return;
+      }
+    }
+  },
+});
@@ -0,0 +1,193 @@
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireRepoAccess, requireRepoDocAccess } from "./access";
+import { agentProvenance } from "./agentProvenance";
+import { describeSnapshotDiff, diffRepoSnapshots } from "../lib/snapshotDiff";
+
+// Repo snapshots are numbered per repo (1, 2, ...) in the order they were
+// taken. Each new snapshot is compared with the one before it, and the
+// change summary becomes a history checkpoint.
+
+async function getLatestSnapshot(ctx: MutationCtx, repoId: Id<"repos">) {
+  return ctx.db
+    .query("repoSnapshots")
+    .withIndex("byRepoAndVersion", (q) => q.eq("repoId", repoId))
+    .order("desc")
+    .first();
+}
+
+/**
+ * Internal mutation: store the snapshot an analysis session produced and
+ * record what changed since the previous one in the repo history. A
+ * session stores one snapshot; a repeated call returns the first.
+ */
+export const createRepoSnapshot = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    analysisSessionId: v.id("analysisSessions"),
+    techStackSummary: v.string(),
+    mainModules: v.array(v.string()),
+    riskyAreas: v.array(v.string()),
+    suggestedNextSteps: v.array(v.string()),
+    completedNextSteps: v.array(v.string()),
+    generatedBy: v.optional(agentProvenance),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("repoSnapshots")
+      .withIndex("byAnalysisSession", (q) =>
+        q.eq("analysisSessionId", args.analysisSessionId)
+      )
+      .first();
+    if (existing) return existing._id;
+
+    const previous = await getLatestSnapshot(ctx, args.repoId);
+    const version = (previous?.version ?? 0) + 1;
+    const now = Date.now();
+    const snapshotId = await ctx.db.insert("repoSnapshots", {
+      ...args,
+      version,
+      createdAt: now,
+    });
+
+    await ctx.db.insert("historyCheckpoints", {
+      repoId: args.repoId,
+      title: previous
+        ? `Repo snapshot v${version}: changes since v${previous.version}`
+        : "Repo snapshot completed",
+      description: previous
+        ? describeSnapshotDiff(
+            diffRepoSnapshots(previous, args, args.completedNextSteps)
+          )
+        : args.techStackSummary,
+      sourceType: "analysis_session",
+      analysisSessionId: args.analysisSessionId,
+      eventAt: now,
+      generatedBy: args.generatedBy,
+      createdAt: now,
+    });
+
+    return snapshotId;
+  },
+});
+
+// Internal query: the snapshot the next one is compared against.
+export const getLatestRepoSnapshotInternal = internalQuery({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) =>
+    ctx.db
+      .query("repoSnapshots")
+      .withIndex("byRepoAndVersion", (q) => q.eq("repoId", repoId))
+      .order("desc")
+      .first(),
+});
+
+// A repo's snapshots, newest first.
+export const listRepoSnapshots = query({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }) => {
+    if (!(await requireRepoAccess(ctx, repoId))) return [];
+
+    return ctx.db
+      .query("repoSnapshots")
+      .withIndex("byRepoAndVersion", (q) => q.eq("repoId", repoId))
+      .order("desc")
+      .take(20);
+  },
+});
+
+/**
+ * What changed between two snapshots of the same repo, in either order.
+ * Next steps count as completed when any snapshot after the older one
+ * reported them done.
+ */
+export const compareRepoSnapshots = query({
+  args: {
+    baseSnapshotId: v.id("repoSnapshots"),
+    candidateSnapshotId: v.id("repoSnapshots"),
+  },
+  handler: async (ctx, { baseSnapshotId, candidateSnapshotId }) => {
+    const first = await requireRepoDocAccess(
+      ctx,
+      await ctx.db.get(baseSnapshotId)
+    );
+    const second = await requireRepoDocAccess(
+      ctx,
+      await ctx.db.get(candidateSnapshotId)
+    );
+    if (!first || !second || first.repoId !== second.repoId) return null;
+
+    const [base, candidate] =
+      first.version <= second.version ? [first, second] : [second, first];
+    const between = await ctx.db
+      .query("repoSnapshots")
+      .withIndex("byRepoAndVersion", (q) =>
+        q
+          .eq("repoId", base.repoId)
+          .gt("version", base.version)
+          .lte("version", candidate.version)
+      )
+      .collect();
+
+    return {
+      base,
+      candidate,
+      diff: diffRepoSnapshots(
+        base,
+        candidate,
+        between.flatMap((snapshot) => snapshot.completedNextSteps)
+      ),
+    };
+  },
+});
+
+/**
+ * One-off migration: turn snapshots stored only on their analysis session
+ * (`config.snapshot`) into versioned records. Repos that already have
+ * snapshot records are skipped. Run once after deploying:
+ * `npx convex run repoSnapshots:backfillRepoSnapshots`.
+ */
+export const backfillRepoSnapshots = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<{ created: number }> => {
+    const sessions = await ctx.db.query("analysisSessions").collect();
+
+    const byRepo = new Map<Id<"repos">, Doc<"analysisSessions">[]>();
+    for (const session of sessions) {
+      if (session.sessionType !== "full_repo" || !session.config?.snapshot) {
+        continue;
+      }
+      byRepo.set(session.repoId, [
+        ...(byRepo.get(session.repoId) ?? []),
+        session,
+      ]);
+    }
+
+    let created = 0;
+    for (const [repoId, repoSessions] of byRepo) {
+      if (await getLatestSnapshot(ctx, repoId)) continue;
+
+      repoSessions.sort((a, b) => a.createdAt - b.createdAt);
+      for (const [index, session] of repoSessions.entries()) {
+        const snapshot = session.config.snapshot;
+        await ctx.db.insert("repoSnapshots", {
+          repoId,
+          analysisSessionId: session._id,
+          version: index + 1,
+          techStackSummary: snapshot.techStackSummary ?? "",
+          mainModules: snapshot.mainModules ?? [],
+          riskyAreas: snapshot.riskyAreas ?? [],
+          suggestedNextSteps: snapshot.suggestedNextSteps ?? [],
+          completedNextSteps: [],
+          generatedBy: session.generatedBy,
+          createdAt: session.updatedAt,
+        });
+        created++;
+      }
+    }
+
+    return { created };
+  },
+});
@@ -0,0 +1,55 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+  createRepo,
+  createUser,
+  modules,
+  type TestConvex,
+} from "./test.setup";
+
+describe("saveGithubRepo", () => {
+  // Connect the GitHub repo behind `repoId` again, as `user`.
+  async function reconnect(
+    t: TestConvex,
+    repoId: Id<"repos">,
+    user: Awaited<ReturnType<typeof createUser>>
+  ) {
+    const repo = (await t.run((ctx) => ctx.db.get(repoId)))!;
+    return user.as.mutation(internal.repos.saveGithubRepo, {
+      ownerUserId: user.userId,
+      workspaceId: user.workspaceId,
+      githubRepoId: repo.githubRepoId,
+      repoOwner: repo.repoOwner,
+      repoName: repo.repoName,
+      url: repo.url,
+      defaultBranch: repo.defaultBranch,
+    });
+  }
+
+  test("another user cannot claim a repo from before workspaces", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const bob = await createUser(t, "bob");
+    const repoId = await createRepo(t, alice.userId);
+
+    await expect(reconnect(t, repoId, bob)).rejects.toThrow(
+      "This repo is already connected by another user"
+    );
+    const repo = await t.run((ctx) => ctx.db.get(repoId));
+    expect(repo?.ownerUserId).toBe(alice.userId);
+    expect(repo?.workspaceId).toBeUndefined();
+  });
+
+  test("the owner's reconnect moves the repo into their workspace", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId);
+
+    expect(await reconnect(t, repoId, alice)).toEqual({ repoId });
+    const repo = await t.run((ctx) => ctx.db.get(repoId));
+    expect(repo?.workspaceId).toBe(alice.workspaceId);
+  });
+});
@@ -1,52 +1,32 @@
-import { action, query, internalMutation } from "./_generated/server";
+import {
+  action,
+  query,
+  mutation,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
 import { createGithubClient } from "../lib/github";
+import { encryptSecret } from "../lib/tokenCrypto";
+import { GITHUB_WEBHOOK_EVENTS } from "./githubWebhooks";
+import { getRepoGithubClient, toPublicRepo } from "./githubTokens";
+import {
+  getCurrentUser,
+  requireRepoAccess,
+  requireWorkspaceRole,
+} from "./access";
+import { ensurePersonalWorkspace, upsertCurrentUser } from "./workspaces";
 
+// Internal mutation: the caller's `users` row, created on first use
+// together with their personal workspace.
 export const getOrCreateUser = internalMutation({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const externalAuthId = identity.subject;
-    const email = identity.email ?? "unknown@example.com";
-    const name =
-      identity.name ?? identity.givenName ?? identity.familyName ?? undefined;
-
-    let user = await ctx.db
-      .query("users")
-      .withIndex("byExternalAuthId", (q: any) =>
-        q.eq("externalAuthId", externalAuthId)
-      )
-      .unique();
-
-    const now = Date.now();
-
-    if (!user) {
-      const userId = await ctx.db.insert("users", {
-        externalAuthId,
-        email,
-        name,
-        createdAt: now,
-        updatedAt: now,
-      });
-      user = await ctx.db.get(userId);
-    } else {
-      await ctx.db.patch(user._id, {
-        email: email || user.email,
-        name: name ?? user.name,
-        updatedAt: now,
-      });
-    }
-
-    if (!user) {
-      throw new Error("Failed to load or create user");
-    }
-
+    const user = await upsertCurrentUser(ctx);
+    await ensurePersonalWorkspace(ctx, user);
     return user;
   },
 });
@@ -54,15 +34,18 @@ export const getOrCreateUser = internalMutation({
 export const saveGithubRepo = internalMutation({
   args: {
     ownerUserId: v.id("users"),
+    workspaceId: v.id("workspaces"),
     githubRepoId: v.string(),
     repoOwner: v.string(),
     repoName: v.string(),
     description: v.optional(v.string()),
     url: v.string(),
     defaultBranch: v.string(),
-    githubAccessToken: v.optional(v.string()),
+    githubTokenCiphertext: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const { user } = await requireWorkspaceRole(ctx, args.workspaceId, "admin");
+
     const now = Date.now();
 
     const existing = await ctx.db
@@ -71,14 +54,31 @@ export const saveGithubRepo = internalMutation({
       .unique();
 
     if (existing) {
+      // A GitHub repo is tracked once; teammates share it through the
+      // workspace instead of adding their own copy.
+      if (existing.workspaceId && existing.workspaceId !== args.workspaceId) {
+        throw new Error("This repo is already connected to another workspace");
+      }
+      // A repo from before workspaces belongs to whoever connected it;
+      // only they can move it into a workspace.
+      if (!existing.workspaceId && existing.ownerUserId !== user._id) {
+        throw new Error("This repo is already connected by another user");
+      }
+
       await ctx.db.patch(existing._id, {
         ownerUserId: args.ownerUserId,
+        workspaceId: args.workspaceId,
         repoOwner: args.repoOwner,
         repoName: args.repoName,
         description: args.description ?? existing.description,
         url: args.url,
         defaultBranch: args.defaultBranch,
-        githubAccessToken: args.githubAccessToken ?? existing.githubAccessToken,
+        ...(args.githubTokenCiphertext
+          ? {
+              githubTokenCiphertext: args.githubTokenCiphertext,
+              githubAccessToken: undefined,
+            }
+          : {}),
         updatedAt: now,
       });
       return { repoId: existing._id };
@@ -86,13 +86,14 @@ export const saveGithubRepo = internalMutation({
 
     const repoId = await ctx.db.insert("repos", {
       ownerUserId: args.ownerUserId,
+      workspaceId: args.workspaceId,
       githubRepoId: args.githubRepoId,
       repoOwner: args.repoOwner,
       repoName: args.repoName,
       description: args.description ?? undefined,
       url: args.url,
       defaultBranch: args.defaultBranch,
-      githubAccessToken: args.githubAccessToken,
+      githubTokenCiphertext: args.githubTokenCiphertext,
       createdAt: now,
       updatedAt: now,
     });
@@ -103,12 +104,19 @@ export const saveGithubRepo = internalMutation({
 
 export const addFromGithub = action({
   args: {
+    workspaceId: v.id("workspaces"),
     owner: v.string(),
     name: v.string(),
     githubAccessToken: v.string(),
   },
-  handler: async (ctx, { owner, name, githubAccessToken }) => {
-    const user = await ctx.runMutation(internal.repos.getOrCreateUser, {});
+  handler: async (
+    ctx,
+    { workspaceId, owner, name, githubAccessToken },
+  ): Promise<{ repoId: Id<"repos"> }> => {
+    const user: Doc<"users"> = await ctx.runMutation(
+      internal.repos.getOrCreateUser,
+      {},
+    );
 
     const github = createGithubClient(githubAccessToken);
 
@@ -117,93 +125,215 @@ export const addFromGithub = action({
 
     const { repoId } = await ctx.runMutation(internal.repos.saveGithubRepo, {
       ownerUserId: user._id,
+      workspaceId,
       githubRepoId,
       repoOwner: (repoData.owner as any)?.login ?? owner,
       repoName: repoData.name,
       description: repoData.description ?? undefined,
       url: repoData.html_url,
       defaultBranch: repoData.default_branch,
-      githubAccessToken,
+      // The token is encrypted here, in the action, so it never reaches
+      // the database in plaintext.
+      githubTokenCiphertext: await encryptSecret(githubAccessToken),
     });
 
-    const pullRequests = await github.listPullRequests(owner, name);
-    const syncedAt = Date.now();
-
-    for (const pr of pullRequests) {
-      const fullPr = await github.getPullRequest(owner, name, pr.number);
-
-      await ctx.runMutation(internal.github.syncPullRequestFromGithub, {
-        repo: {
-          githubRepoId,
-          owner,
-          name: repoData.name,
-          description: repoData.description ?? undefined,
-          url: repoData.html_url,
-          defaultBranch: repoData.default_branch,
-        },
-        author: {
-          githubUserId: String(fullPr.user?.id ?? ""),
-          login: fullPr.user?.login ?? "unknown",
-          name: fullPr.user?.name ?? undefined,
-          avatarUrl: fullPr.user?.avatar_url ?? undefined,
-        },
-        pullRequest: {
-          githubPrId: String(fullPr.id),
-          number: fullPr.number,
-          title: fullPr.title ?? "",
-          body: fullPr.body ?? undefined,
-          state: fullPr.state === "open" ? "open" : "closed",
-          merged: Boolean(fullPr.merged_at),
-          createdAt: new Date(fullPr.created_at).getTime(),
-          mergedAt: fullPr.merged_at
-            ? new Date(fullPr.merged_at).getTime()
-            : undefined,
-          closedAt: fullPr.closed_at
-            ? new Date(fullPr.closed_at).getTime()
-            : undefined,
-        },
-        stats: {
-          additions: fullPr.additions ?? 0,
-          deletions: fullPr.deletions ?? 0,
-          changedFiles: fullPr.changed_files ?? 0,
-        },
-        syncedAt,
-      });
-    }
+    // Backfill the repo's PR history (open, merged and closed) in the
+    // background; large repos are synced in batches.
+    await ctx.scheduler.runAfter(0, internal.github.syncRepoPullRequestsFromGithub, {
+      repoId,
+    });
+    await ctx.scheduler.runAfter(0, internal.techStack.runTechStackDetectionWorkflow, {
+      repoId,
+    });
+    await ctx.scheduler.runAfter(0, internal.commits.syncRepoCommitsFromGithub, {
+      repoId,
+    });
+    await ctx.scheduler.runAfter(0, internal.githubTokens.refreshTokenHealth, {
+      repoId,
+    });
 
     return { repoId };
   },
 });
 
+// Repos in one workspace, or in every workspace the caller belongs to
+// when `workspaceId` is omitted.
 export const listForCurrentUser = query({
-  args: {},
-  handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-
-    if (!identity) {
+  args: { workspaceId: v.optional(v.id("workspaces")) },
+  handler: async (ctx, { workspaceId }) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
       return [];
     }
 
-    const externalAuthId = identity.subject;
+    if (workspaceId) {
+      await requireWorkspaceRole(ctx, workspaceId);
+      const repos = await ctx.db
+        .query("repos")
+        .withIndex("byWorkspace", (q) => q.eq("workspaceId", workspaceId))
+        .collect();
+      return repos.map(toPublicRepo);
+    }
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("byExternalAuthId", (q: any) =>
-        q.eq("externalAuthId", externalAuthId),
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("byUser", (q) => q.eq("userId", user._id))
+      .collect();
+    const repos = (
+      await Promise.all(
+        memberships.map((membership) =>
+          ctx.db
+            .query("repos")
+            .withIndex("byWorkspace", (q) =>
+              q.eq("workspaceId", membership.workspaceId),
+            )
+            .collect(),
+        ),
       )
-      .unique();
+    ).flat();
 
-    if (!user) {
-      return [];
+    return repos.map(toPublicRepo);
+  },
+});
+
+// Load a repo the caller administers, for settings changes.
+async function getRepoForAdmin(ctx: QueryCtx, repoId: Id<"repos">) {
+  const repo = await requireRepoAccess(ctx, repoId, "admin");
+  if (!repo) {
+    throw new Error("Repo not found");
+  }
+  return repo;
+}
+
+// Internal query: the role check for actions acting on a repo on the
+// caller's behalf. Returns the full repo, secrets included.
+export const getRepoForCurrentMember = internalQuery({
+  args: {
+    repoId: v.id("repos"),
+    minimumRole: v.union(
+      v.literal("owner"),
+      v.literal("admin"),
+      v.literal("member"),
+      v.literal("viewer"),
+    ),
+  },
+  handler: async (ctx, { repoId, minimumRole }) => {
+    const repo = await requireRepoAccess(ctx, repoId, minimumRole);
+    if (!repo) {
+      throw new Error("Repo not found");
     }
+    return repo;
+  },
+});
 
-    const repos = await ctx.db
-      .query("repos")
-      .withIndex("byOwnerUserId", (q: any) => q.eq("ownerUserId", user._id))
-      .collect();
+// Choose whether completed PR analyses are published back to GitHub, and
+// how: an updatable PR comment or a commit status on the PR's head.
+export const setAnalysisPublishMode = mutation({
+  args: {
+    repoId: v.id("repos"),
+    mode: v.union(
+      v.literal("off"),
+      v.literal("comment"),
+      v.literal("commit_status")
+    ),
+  },
+  handler: async (ctx, { repoId, mode }) => {
+    await getRepoForAdmin(ctx, repoId);
+
+    await ctx.db.patch(repoId, {
+      analysisPublishMode: mode,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Opt a repo in or out of requesting suggested reviewers on GitHub when
+// a PR is opened. Only workspace admins may change this.
+export const setAutoRequestReviewers = mutation({
+  args: {
+    repoId: v.id("repos"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, { repoId, enabled }) => {
+    await getRepoForAdmin(ctx, repoId);
 
-    return repos;
+    await ctx.db.patch(repoId, {
+      autoRequestReviewers: enabled,
+      updatedAt: Date.now(),
+    });
   },
 });
 
+export const saveRepoWebhookSecret = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    webhookSecret: v.string(),
+  },
+  handler: async (ctx, { repoId, webhookSecret }) => {
+    await getRepoForAdmin(ctx, repoId);
+
+    await ctx.db.patch(repoId, { webhookSecret, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Register the repo's GitHub webhook with a fresh secret, or re-key the
+ * one already delivering to this deployment. Needs a token with the
+ * `admin:repo_hook` scope. The secret is stored only once GitHub has
+ * accepted it, so a failed attempt leaves a working webhook working.
+ * Admins only.
+ */
+export const enableGithubWebhook = action({
+  args: { repoId: v.id("repos") },
+  handler: async (
+    ctx,
+    { repoId },
+  ): Promise<{ webhookUrl: string; replacedExisting: boolean }> => {
+    await ctx.runQuery(internal.repos.getRepoForCurrentMember, {
+      repoId,
+      minimumRole: "admin",
+    });
+    const client = await getRepoGithubClient(ctx, repoId);
+    if (!client) {
+      throw new Error("Repo has no GitHub token to register a webhook");
+    }
+    const { repo, github } = client;
+
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    const secret = Array.from(bytes)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+    const webhookUrl = `${process.env.CONVEX_SITE_URL}/github/webhook`;
 
+    const existing = await github.findRepoWebhook(
+      repo.repoOwner,
+      repo.repoName,
+      webhookUrl,
+    );
+    if (existing) {
+      await github.updateRepoWebhook(
+        repo.repoOwner,
+        repo.repoName,
+        existing.id,
+        webhookUrl,
+        secret,
+        GITHUB_WEBHOOK_EVENTS,
+      );
+    } else {
+      await github.createRepoWebhook(
+        repo.repoOwner,
+        repo.repoName,
+        webhookUrl,
+        secret,
+        GITHUB_WEBHOOK_EVENTS,
+      );
+    }
+
+    await ctx.runMutation(internal.repos.saveRepoWebhookSecret, {
+      repoId,
+      webhookSecret: secret,
+    });
+    return { webhookUrl, replacedExisting: existing !== null };
+  },
+});
@@ -0,0 +1,82 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import type { Id } from "./_generated/dataModel";
+import { refreshReviewerPathStats } from "./reviewers";
+import { createRepo, createUser, modules } from "./test.setup";
+
+describe("refreshReviewerPathStats", () => {
+  test("keeps the repo's totals in line with each PR's reviews and files", async () => {
+    const t = convexTest(schema, modules);
+    const alice = await createUser(t, "alice");
+    const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+    const { prIds, reviewerId } = await t.run(async (ctx) => {
+      const now = Date.now();
+      const contributor = (login: string) =>
+        ctx.db.insert("contributors", {
+          githubUserId: login,
+          login,
+          createdAt: now,
+          updatedAt: now,
+        });
+      const authorId = await contributor("author");
+      const reviewerId = await contributor("reviewer");
+      const prIds: Id<"pullRequests">[] = [];
+      for (const prNumber of [1, 2]) {
+        const pullRequestId = await ctx.db.insert("pullRequests", {
+          repoId,
+          authorContributorId: authorId,
+          githubPrId: String(prNumber),
+          prNumber,
+          title: `PR ${prNumber}`,
+          status: "open",
+          createdAt: now,
+          lastSyncedAt: now,
+        });
+        await ctx.db.insert("pullRequestFiles", {
+          repoId,
+          pullRequestId,
+          filename: "app/checkout/page.tsx",
+          status: "modified",
+          additions: 1,
+          deletions: 1,
+          changes: 2,
+          createdAt: now,
+        });
+        await ctx.db.insert("pullRequestReviews", {
+          repoId,
+          pullRequestId,
+          reviewerContributorId: reviewerId,
+          githubReviewId: `review-${prNumber}`,
+          state: "approved",
+          createdAt: now,
+        });
+        await refreshReviewerPathStats(ctx, pullRequestId);
+        prIds.push(pullRequestId);
+      }
+      return { prIds, reviewerId };
+    });
+
+    const stats = () =>
+      t.run(async (ctx) =>
+        Object.fromEntries(
+          (await ctx.db.query("reviewerPathStats").collect()).map((row) => [
+            row.pathPrefix,
+            row.contributorId === reviewerId ? row.count : -1,
+          ])
+        )
+      );
+    expect(await stats()).toEqual({ app: 2, "app/checkout": 2 });
+
+    // PR 1 now only touches lib/; its old paths are subtracted again.
+    await t.run(async (ctx) => {
+      const file = (await ctx.db
+        .query("pullRequestFiles")
+        .withIndex("byPullRequest", (q) => q.eq("pullRequestId", prIds[0]))
+        .unique())!;
+      await ctx.db.patch(file._id, { filename: "lib/cart.ts" });
+      await refreshReviewerPathStats(ctx, prIds[0]);
+    });
+    expect(await stats()).toEqual({ app: 1, "app/checkout": 1, lib: 1 });
+  });
+});
@@ -0,0 +1,346 @@
+import { internalAction, internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { pathPrefixesFor } from "../lib/ownership";
+import { rankReviewers, type ReviewerCandidate } from "../lib/reviewers";
+import { getRepoGithubClient } from "./githubTokens";
+
+/**
+ * Recompute a PR's share of `reviewerPathStats` from its current reviews,
+ * inline comments and files, and apply the difference to the repo's
+ * totals. Called whenever any of those are replaced.
+ */
+export async function refreshReviewerPathStats(
+  ctx: MutationCtx,
+  pullRequestId: Id<"pullRequests">
+) {
+  const pr = await ctx.db.get(pullRequestId);
+  if (!pr) return;
+
+  const [reviews, comments, files, previous] = await Promise.all([
+    ctx.db
+      .query("pullRequestReviews")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect(),
+    ctx.db
+      .query("pullRequestReviewComments")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect(),
+    ctx.db
+      .query("pullRequestFiles")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect(),
+    ctx.db
+      .query("pullRequestReviewPathCounts")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .unique(),
+  ]);
+
+  const counts = new Map<
+    string,
+    { contributorId: Id<"contributors">; pathPrefix: string; count: number }
+  >();
+  const countPath = (contributorId: Id<"contributors">, path: string) => {
+    for (const pathPrefix of pathPrefixesFor(path)) {
+      const key = `${contributorId}:${pathPrefix}`;
+      const entry = counts.get(key) ?? { contributorId, pathPrefix, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+  };
+  // A plain "approved" counts as review history for every path the PR
+  // touched.
+  for (const review of reviews) {
+    for (const file of files) {
+      countPath(review.reviewerContributorId, file.filename);
+    }
+  }
+  for (const comment of comments) {
+    if (comment.path) countPath(comment.authorContributorId, comment.path);
+  }
+
+  const deltas = new Map(
+    [...counts].map(([key, entry]) => [key, { ...entry }])
+  );
+  for (const entry of previous?.counts ?? []) {
+    const key = `${entry.contributorId}:${entry.pathPrefix}`;
+    const delta = deltas.get(key) ?? { ...entry, count: 0 };
+    delta.count -= entry.count;
+    deltas.set(key, delta);
+  }
+
+  const now = Date.now();
+  for (const { contributorId, pathPrefix, count } of deltas.values()) {
+    if (count === 0) continue;
+    const row = await ctx.db
+      .query("reviewerPathStats")
+      .withIndex("byRepoAndPath", (q) =>
+        q
+          .eq("repoId", pr.repoId)
+          .eq("pathPrefix", pathPrefix)
+          .eq("contributorId", contributorId)
+      )
+      .unique();
+    const total = (row?.count ?? 0) + count;
+    if (row && total <= 0) {
+      await ctx.db.delete(row._id);
+    } else if (row) {
+      await ctx.db.patch(row._id, { count: total, updatedAt: now });
+    } else if (total > 0) {
+      await ctx.db.insert("reviewerPathStats", {
+        repoId: pr.repoId,
+        pathPrefix,
+        contributorId,
+        count: total,
+        updatedAt: now,
+      });
+    }
+  }
+
+  const fields = {
+    repoId: pr.repoId,
+    pullRequestId,
+    counts: [...counts.values()],
+  };
+  if (previous) {
+    await ctx.db.replace(previous._id, fields);
+  } else {
+    await ctx.db.insert("pullRequestReviewPathCounts", fields);
+  }
+}
+
+// Internal mutation: build `reviewerPathStats` for PRs synced before it
+// existed, a page of PRs at a time. Run once after deploying:
+// `npx convex run reviewers:backfillReviewerPathStats`.
+export const backfillReviewerPathStats = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, { cursor }) => {
+    const page = await ctx.db
+      .query("pullRequests")
+      .paginate({ cursor: cursor ?? null, numItems: 50 });
+    for (const pr of page.page) {
+      await refreshReviewerPathStats(ctx, pr._id);
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.reviewers.backfillReviewerPathStats,
+        { cursor: page.continueCursor }
+      );
+    }
+  },
+});
+
+type SavedSuggestion = {
+  contributorId: Id<"contributors">;
+  login: string;
+  requestedOnGithub: boolean;
+};
+
+// Internal action: fetch an open PR's changed files, store reviewer
+// suggestions for it, and request them on GitHub when the repo owner has
+// opted in via `autoRequestReviewers`. Scheduled when a PR is opened or
+// reopened.
+export const suggestReviewersForPullRequest = internalAction({
+  args: { pullRequestId: v.id("pullRequests") },
+  handler: async (ctx, { pullRequestId }) => {
+    const pr = await ctx.runQuery(internal.app.getPullRequestInternal, { pullRequestId });
+    if (!pr || pr.status !== "open") return;
+
+    const client = await getRepoGithubClient(ctx, pr.repoId);
+    if (!client) return;
+
+    const { repo, github } = client;
+    const rawFiles = await github.listPullRequestFiles(
+      repo.repoOwner,
+      repo.repoName,
+      pr.prNumber
+    );
+    await ctx.runMutation(internal.app.replacePullRequestFiles, {
+      repoId: repo._id,
+      pullRequestId,
+      files: rawFiles.map((f) => ({
+        filename: f.filename,
+        previousFilename: f.previous_filename ?? undefined,
+        status: f.status,
+        additions: f.additions ?? 0,
+        deletions: f.deletions ?? 0,
+        changes: f.changes ?? 0,
+      })),
+    });
+
+    const suggestions: SavedSuggestion[] = await ctx.runMutation(
+      internal.reviewers.saveReviewerSuggestions,
+      { pullRequestId, filenames: rawFiles.map((f) => f.filename) }
+    );
+
+    const toRequest = suggestions.filter((s) => !s.requestedOnGithub);
+    if (!repo.autoRequestReviewers || toRequest.length === 0) return;
+
+    try {
+      await github.requestReviewers(
+        repo.repoOwner,
+        repo.repoName,
+        pr.prNumber,
+        toRequest.map((s) => s.login)
+      );
+      await ctx.runMutation(internal.reviewers.markReviewersRequested, {
+        pullRequestId,
+        contributorIds: toRequest.map((s) => s.contributorId),
+      });
+    } catch (error) {
+      // Typically a reviewer without access to the repo; the suggestions
+      // are still shown in the dashboard.
+      console.error("Failed to request reviewers on GitHub", error);
+    }
+  },
+});
+
+// Internal mutation: rank reviewers for a PR's files and replace its
+// stored suggestions. Returns the new suggestions. The `requestedOnGithub`
+// flag is carried over for reviewers who were already requested.
+export const saveReviewerSuggestions = internalMutation({
+  args: {
+    pullRequestId: v.id("pullRequests"),
+    filenames: v.array(v.string()),
+  },
+  handler: async (ctx, { pullRequestId, filenames }) => {
+    const pr = await ctx.db.get(pullRequestId);
+    if (!pr) return [];
+    const repoId = pr.repoId;
+
+    // Ownership and review history only matter for the prefixes this PR
+    // touches, so read just those.
+    const prefixes = [...new Set(filenames.flatMap((f) => pathPrefixesFor(f)))];
+    const [links, ownershipRows, reviewStats, pendingRequests] =
+      await Promise.all([
+        ctx.db
+          .query("repoContributors")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .collect(),
+        Promise.all(
+          prefixes.map((pathPrefix) =>
+            ctx.db
+              .query("pathOwnership")
+              .withIndex("byRepoAndPath", (q) =>
+                q.eq("repoId", repoId).eq("pathPrefix", pathPrefix)
+              )
+              .collect()
+          )
+        ).then((rows) => rows.flat()),
+        Promise.all(
+          prefixes.map((pathPrefix) =>
+            ctx.db
+              .query("reviewerPathStats")
+              .withIndex("byRepoAndPath", (q) =>
+                q.eq("repoId", repoId).eq("pathPrefix", pathPrefix)
+              )
+              .collect()
+          )
+        ).then((rows) => rows.flat()),
+        ctx.db
+          .query("pullRequestReviewRequests")
+          .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+          .collect(),
+      ]);
+
+    // Pending requests only count while the PR they are on is open;
+    // requests synced before closed PRs were cleared may still be stored.
+    const openRequestCounts = new Map<Id<"contributors">, number>();
+    for (const request of pendingRequests) {
+      if (!request.reviewerContributorId) continue;
+      if (request.pullRequestId === pullRequestId) continue;
+      const requestedPr = await ctx.db.get(request.pullRequestId);
+      if (requestedPr?.status !== "open") continue;
+      openRequestCounts.set(
+        request.reviewerContributorId,
+        (openRequestCounts.get(request.reviewerContributorId) ?? 0) + 1
+      );
+    }
+
+    const candidates: ReviewerCandidate[] = [];
+    for (const link of links) {
+      if (link.contributorId === pr.authorContributorId) continue;
+      const contributor = await ctx.db.get(link.contributorId);
+      if (!contributor || contributor.login.endsWith("[bot]")) continue;
+
+      const ownership: Record<string, number> = {};
+      for (const row of ownershipRows) {
+        if (row.contributorId === link.contributorId) {
+          ownership[row.pathPrefix] = row.score;
+        }
+      }
+
+      const reviewedPrefixes: Record<string, number> = {};
+      for (const row of reviewStats) {
+        if (row.contributorId === link.contributorId) {
+          reviewedPrefixes[row.pathPrefix] = row.count;
+        }
+      }
+
+      candidates.push({
+        contributorId: link.contributorId,
+        login: contributor.login,
+        mainAreas: link.mainAreas ?? [],
+        ownership,
+        reviewedPrefixes,
+        openReviewLoad: openRequestCounts.get(link.contributorId) ?? 0,
+      });
+    }
+
+    const ranked = rankReviewers(filenames, candidates);
+
+    const previous = await ctx.db
+      .query("pullRequestReviewerSuggestions")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect();
+    const alreadyRequested = new Set(
+      previous.filter((s) => s.requestedOnGithub).map((s) => s.contributorId)
+    );
+    for (const row of previous) {
+      await ctx.db.delete(row._id);
+    }
+
+    const now = Date.now();
+    const saved = [];
+    for (const [index, suggestion] of ranked.entries()) {
+      const contributorId = suggestion.contributorId as Id<"contributors">;
+      const row = {
+        repoId,
+        pullRequestId,
+        contributorId,
+        login: suggestion.login,
+        rank: index + 1,
+        score: suggestion.score,
+        reasons: suggestion.reasons,
+        requestedOnGithub: alreadyRequested.has(contributorId),
+        createdAt: now,
+      };
+      await ctx.db.insert("pullRequestReviewerSuggestions", row);
+      saved.push(row);
+    }
+    return saved;
+  },
+});
+
+// Internal mutation: flag suggestions that were requested on GitHub.
+export const markReviewersRequested = internalMutation({
+  args: {
+    pullRequestId: v.id("pullRequests"),
+    contributorIds: v.array(v.id("contributors")),
+  },
+  handler: async (ctx, { pullRequestId, contributorIds }) => {
+    const suggestions = await ctx.db
+      .query("pullRequestReviewerSuggestions")
+      .withIndex("byPullRequest", (q) => q.eq("pullRequestId", pullRequestId))
+      .collect();
+
+    for (const suggestion of suggestions) {
+      if (contributorIds.includes(suggestion.contributorId)) {
+        await ctx.db.patch(suggestion._id, { requestedOnGithub: true });
+      }
+    }
+  },
+});
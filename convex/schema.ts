@@ -1,5 +1,11 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { agentProvenance } from "./agentProvenance";
+import {
+  speakerWord,
+  transcriptSpan,
+  transcriptTurn,
+} from "./transcriptValidators";
 
 export default defineSchema({
   users: defineTable({
@@ -13,8 +19,66 @@ export default defineSchema({
     .index("byExternalAuthId", ["externalAuthId"])
     .index("byEmail", ["email"]),
 
+  // A team sharing repos. Every user gets a personal workspace on first
+  // sign-in; more can be created and shared by invitation.
+  workspaces: defineTable({
+    name: v.string(),
+    createdByUserId: v.id("users"),
+    // True for the workspace created automatically for a user.
+    personal: v.boolean(),
+    // Monthly LLM spend limit in USD. Automatic analysis pauses once the
+    // month's estimated spend reaches it.
+    monthlyBudgetUsd: v.optional(v.number()),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  workspaceMembers: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    // owner > admin > member > viewer. Viewers read; members also run
+    // analyses and calls; admins manage repos, settings and members.
+    role: v.union(
+      v.literal("owner"),
+      v.literal("admin"),
+      v.literal("member"),
+      v.literal("viewer")
+    ),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byWorkspace", ["workspaceId"])
+    .index("byUser", ["userId"])
+    .index("byWorkspaceAndUser", ["workspaceId", "userId"]),
+
+  // Pending invitations, matched to users by (lowercased) email address.
+  workspaceInvitations: defineTable({
+    workspaceId: v.id("workspaces"),
+    email: v.string(),
+    role: v.union(v.literal("admin"), v.literal("member"), v.literal("viewer")),
+    invitedByUserId: v.id("users"),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("accepted"),
+      v.literal("revoked")
+    ),
+    expiresAt: v.number(),
+    acceptedAt: v.optional(v.number()),
+
+    createdAt: v.number(),
+  })
+    .index("byWorkspace", ["workspaceId"])
+    .index("byEmail", ["email"]),
+
   repos: defineTable({
+    // The user who connected the repo; access is granted through the
+    // owning workspace.
     ownerUserId: v.id("users"),
+    // Unset only on repos connected before workspaces existed; those are
+    // moved into their owner's personal workspace on next sign-in.
+    workspaceId: v.optional(v.id("workspaces")),
 
     githubRepoId: v.string(),
     repoOwner: v.string(),
@@ -23,16 +87,78 @@ export default defineSchema({
     url: v.string(),
     defaultBranch: v.string(),
 
-    // Optional per-repo GitHub access token used for
-    // background syncs and analysis.
+    // Per-repo GitHub access token used for background syncs and
+    // analysis, AES-GCM encrypted (see lib/tokenCrypto.ts). Never
+    // returned from public queries.
+    githubTokenCiphertext: v.optional(v.string()),
+    // Legacy plaintext token from before encryption at rest; cleared by
+    // githubTokens.encryptLegacyTokens.
     githubAccessToken: v.optional(v.string()),
+    // Result of the last token health check.
+    githubTokenHealth: v.optional(
+      v.object({
+        status: v.union(
+          v.literal("valid"),
+          v.literal("invalid"),
+          v.literal("missing_scopes")
+        ),
+        // OAuth scopes granted to the token (classic tokens only).
+        scopes: v.array(v.string()),
+        missingScopes: v.array(v.string()),
+        // Expiry reported by GitHub for expiring tokens.
+        expiresAt: v.optional(v.number()),
+        error: v.optional(v.string()),
+        checkedAt: v.number(),
+      })
+    ),
+    githubTokenLastUsedAt: v.optional(v.number()),
+    // Shared secret used to verify signed GitHub webhook deliveries.
+    webhookSecret: v.optional(v.string()),
+    // `updated_at` (ms) of the most recent PR fully synced from GitHub;
+    // the next sync only fetches PRs updated since then.
+    pullRequestsSyncedThrough: v.optional(v.number()),
+    // Set while a PR backfill works through its listed PRs in follow-up
+    // runs; until then (ms) other PR syncs of the repo leave it to them.
+    pullRequestBackfillUntil: v.optional(v.number()),
+    // Commit date (ms) of the newest default-branch commit ingested.
+    commitsSyncedThrough: v.optional(v.number()),
+    // Owner opt-in: request suggested reviewers on GitHub automatically.
+    autoRequestReviewers: v.optional(v.boolean()),
+    // Owner opt-in: publish completed PR analyses back to GitHub as an
+    // updatable PR comment or a commit status on the analyzed head.
+    // Unset means "off".
+    analysisPublishMode: v.optional(
+      v.union(
+        v.literal("off"),
+        v.literal("comment"),
+        v.literal("commit_status")
+      )
+    ),
+    // Per-agent model specs ("gpt-4o", "openai-compatible:llama3.1:8b")
+    // overriding the deployment defaults; see lib/modelProviders.ts.
+    modelOverrides: v.optional(v.record(v.string(), v.string())),
 
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("byOwnerUserId", ["ownerUserId"])
+    .index("byWorkspace", ["workspaceId"])
     .index("byGithubRepoId", ["githubRepoId"]),
 
+  // GitHub webhook deliveries we have already processed, keyed by the
+  // X-GitHub-Delivery header so redeliveries are ignored.
+  githubWebhookDeliveries: defineTable({
+    repoId: v.id("repos"),
+    deliveryId: v.string(),
+    event: v.string(),
+    action: v.optional(v.string()),
+
+    receivedAt: v.number(),
+  })
+    .index("byDeliveryId", ["deliveryId"])
+    .index("byRepo", ["repoId"])
+    .index("byReceivedAt", ["receivedAt"]),
+
   contributors: defineTable({
     githubUserId: v.string(),
     login: v.string(),
@@ -76,6 +202,8 @@ export default defineSchema({
     // Optional natural language summary of this contributor's role
     // in the context of this repo (set by the Contributor Profiler agent).
     profileSummary: v.optional(v.string()),
+    // Agent, prompt version and model behind the inferred profile fields.
+    generatedBy: v.optional(agentProvenance),
 
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -84,6 +212,29 @@ export default defineSchema({
     .index("byContributor", ["contributorId"])
     .index("byRepoAndContributor", ["repoId", "contributorId"]),
 
+  // Contributor activity in a repo per calendar week (see
+  // lib/contributorStats.ts), recomputed from the repo's own PRs whenever
+  // one of the contributor's PRs is synced. Only weeks with a PR have a
+  // row.
+  repoContributorStats: defineTable({
+    repoId: v.id("repos"),
+    contributorId: v.id("contributors"),
+
+    // Monday 00:00 UTC of the week.
+    weekStart: v.number(),
+    authoredCount: v.number(),
+    mergedCount: v.number(),
+    additions: v.number(),
+    deletions: v.number(),
+    filesTouched: v.number(),
+    firstContributionAt: v.optional(v.number()),
+    lastContributionAt: v.optional(v.number()),
+
+    computedAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byRepoAndContributor", ["repoId", "contributorId", "weekStart"]),
+
   pullRequests: defineTable({
     repoId: v.id("repos"),
     authorContributorId: v.id("contributors"),
@@ -102,6 +253,35 @@ export default defineSchema({
     // for this pull request (stored in the Agent component's tables).
     prAnalyzerThreadId: v.optional(v.string()),
 
+    // Change stats from GitHub; optional because PRs synced before these
+    // were stored only get them on their next sync.
+    additions: v.optional(v.number()),
+    deletions: v.optional(v.number()),
+    changedFiles: v.optional(v.number()),
+    // Head commit at the last sync; optional for PRs not synced since it
+    // was stored.
+    headSha: v.optional(v.string()),
+
+    // Set while an analysis is being published as this PR's comment, so
+    // concurrent publishes take turns instead of each posting one.
+    analysisPublishingUntil: v.optional(v.number()),
+
+    // Review timeline metrics derived from pullRequestReviews and
+    // pullRequestReviewComments each time they are synced.
+    reviewMetrics: v.optional(
+      v.object({
+        // ms from PR creation to the first review or review comment by
+        // someone other than the author.
+        timeToFirstReviewMs: v.optional(v.number()),
+        // ms from PR creation to the first approval.
+        approvalLatencyMs: v.optional(v.number()),
+        // Distinct head commits that received a review.
+        reviewRounds: v.number(),
+        reviewerCount: v.number(),
+        reviewCommentCount: v.number(),
+      })
+    ),
+
     createdAt: v.number(),
     mergedAt: v.optional(v.number()),
     closedAt: v.optional(v.number()),
@@ -110,8 +290,194 @@ export default defineSchema({
   })
     .index("byRepo", ["repoId"])
     .index("byRepoAndNumber", ["repoId", "prNumber"])
+    .index("byRepoAndAuthor", ["repoId", "authorContributorId"])
+    .index("byAuthor", ["authorContributorId"]),
+
+  // Per-file change stats for a pull request, taken from GitHub's
+  // "list pull request files" endpoint. Patches themselves are not
+  // stored; they are only fed to the PR Analyzer at analysis time.
+  pullRequestFiles: defineTable({
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+
+    filename: v.string(),
+    previousFilename: v.optional(v.string()),
+    status: v.union(
+      v.literal("added"),
+      v.literal("removed"),
+      v.literal("modified"),
+      v.literal("renamed"),
+      v.literal("copied"),
+      v.literal("changed"),
+      v.literal("unchanged")
+    ),
+    additions: v.number(),
+    deletions: v.number(),
+    changes: v.number(),
+
+    createdAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byPullRequest", ["pullRequestId"]),
+
+  // Submitted reviews on a pull request, one row per GitHub review.
+  pullRequestReviews: defineTable({
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+    reviewerContributorId: v.id("contributors"),
+
+    githubReviewId: v.string(),
+    state: v.union(
+      v.literal("approved"),
+      v.literal("changes_requested"),
+      v.literal("commented"),
+      v.literal("dismissed"),
+      v.literal("pending")
+    ),
+    body: v.optional(v.string()),
+    // Head commit the review was left on; used to count review rounds.
+    commitId: v.optional(v.string()),
+    submittedAt: v.optional(v.number()),
+
+    createdAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byPullRequest", ["pullRequestId"])
+    .index("byReviewer", ["reviewerContributorId"]),
+
+  // Inline review comments left on a pull request's diff.
+  pullRequestReviewComments: defineTable({
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+    authorContributorId: v.id("contributors"),
+
+    githubCommentId: v.string(),
+    githubReviewId: v.optional(v.string()),
+    inReplyToGithubCommentId: v.optional(v.string()),
+    path: v.optional(v.string()),
+    body: v.string(),
+    commentedAt: v.number(),
+
+    createdAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byPullRequest", ["pullRequestId"])
     .index("byAuthor", ["authorContributorId"]),
 
+  // Reviews currently requested on a pull request (users or teams).
+  // GitHub drops a request once the reviewer submits a review.
+  pullRequestReviewRequests: defineTable({
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+
+    reviewerContributorId: v.optional(v.id("contributors")),
+    teamSlug: v.optional(v.string()),
+
+    createdAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byPullRequest", ["pullRequestId"]),
+
+  // Commits on a repo's default branch, including ones pushed directly
+  // without a PR.
+  commits: defineTable({
+    repoId: v.id("repos"),
+    sha: v.string(),
+
+    // Set when GitHub could link the commit author to an account.
+    authorContributorId: v.optional(v.id("contributors")),
+    authorName: v.optional(v.string()),
+    authorEmail: v.optional(v.string()),
+
+    message: v.string(),
+    committedAt: v.number(),
+
+    additions: v.number(),
+    deletions: v.number(),
+    // GitHub returns at most 300 files per commit.
+    files: v.array(
+      v.object({
+        filename: v.string(),
+        additions: v.number(),
+        deletions: v.number(),
+      })
+    ),
+
+    createdAt: v.number(),
+  })
+    .index("byRepoAndSha", ["repoId", "sha"])
+    .index("byRepoAndCommittedAt", ["repoId", "committedAt"])
+    .index("byAuthor", ["authorContributorId"]),
+
+  // Top owners per directory prefix, derived from commits with recency
+  // weighting. Rebuilt wholesale after each commit sync.
+  pathOwnership: defineTable({
+    repoId: v.id("repos"),
+    pathPrefix: v.string(),
+    contributorId: v.id("contributors"),
+
+    score: v.number(),
+    commitCount: v.number(),
+    lastTouchedAt: v.number(),
+
+    computedAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byRepoAndPath", ["repoId", "pathPrefix"])
+    .index("byRepoAndContributor", ["repoId", "contributorId"]),
+
+  // Up to three recommended reviewers per open PR, ranked by path
+  // ownership, profiled main areas, review history and review load.
+  pullRequestReviewerSuggestions: defineTable({
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+    contributorId: v.id("contributors"),
+    login: v.string(),
+
+    rank: v.number(),
+    score: v.number(),
+    reasons: v.array(v.string()),
+    // Whether this reviewer was requested on GitHub on the owner's behalf.
+    requestedOnGithub: v.boolean(),
+
+    createdAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byPullRequest", ["pullRequestId"]),
+
+  // Review history per contributor and path prefix, summed over a repo's
+  // PRs: a review counts once per file of the PR it was left on, an inline
+  // comment once for its file. Reviewer suggestions read only the prefixes
+  // a PR touches instead of every review in the repo.
+  reviewerPathStats: defineTable({
+    repoId: v.id("repos"),
+    pathPrefix: v.string(),
+    contributorId: v.id("contributors"),
+
+    count: v.number(),
+
+    updatedAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byRepoAndPath", ["repoId", "pathPrefix", "contributorId"]),
+
+  // One PR's share of reviewerPathStats, subtracted again when the PR's
+  // reviews, comments or files change.
+  pullRequestReviewPathCounts: defineTable({
+    repoId: v.id("repos"),
+    pullRequestId: v.id("pullRequests"),
+
+    counts: v.array(
+      v.object({
+        contributorId: v.id("contributors"),
+        pathPrefix: v.string(),
+        count: v.number(),
+      })
+    ),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byPullRequest", ["pullRequestId"]),
+
   prAnalyses: defineTable({
     repoId: v.id("repos"),
     pullRequestId: v.id("pullRequests"),
@@ -137,6 +503,18 @@ export default defineSchema({
 
     rawMetadata: v.optional(v.any()),
 
+    // Where this analysis was published on GitHub, if the repo opted in.
+    // Later analyses of the same PR edit the same comment in place.
+    githubCommentId: v.optional(v.string()),
+    // Head commit the analysis was published to as a commit status.
+    githubStatusSha: v.optional(v.string()),
+    publishedAt: v.optional(v.number()),
+    publishError: v.optional(v.string()),
+
+    // Agent, prompt version and model behind this analysis; unset on
+    // analyses from before versioning.
+    generatedBy: v.optional(agentProvenance),
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -174,6 +552,8 @@ export default defineSchema({
 
     config: v.optional(v.any()),
     summary: v.optional(v.string()),
+    // Set when an agent wrote the summary and config (repo snapshots).
+    generatedBy: v.optional(agentProvenance),
 
     startedAt: v.optional(v.number()),
     completedAt: v.optional(v.number()),
@@ -182,7 +562,29 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index("byRepo", ["repoId"])
-    .index("byUser", ["userId"]),
+    .index("byUser", ["userId"])
+    .index("byStatus", ["status"]),
+
+  // Versioned repo snapshots, numbered per repo. Each is also kept on
+  // its analysis session's `config.snapshot` (see repoSnapshots.ts).
+  repoSnapshots: defineTable({
+    repoId: v.id("repos"),
+    analysisSessionId: v.id("analysisSessions"),
+    version: v.number(),
+
+    techStackSummary: v.string(),
+    mainModules: v.array(v.string()),
+    riskyAreas: v.array(v.string()),
+    suggestedNextSteps: v.array(v.string()),
+    // Next steps of the previous snapshot the agent found done.
+    completedNextSteps: v.array(v.string()),
+
+    generatedBy: v.optional(agentProvenance),
+
+    createdAt: v.number(),
+  })
+    .index("byRepoAndVersion", ["repoId", "version"])
+    .index("byAnalysisSession", ["analysisSessionId"]),
 
   analysisSessionPRs: defineTable({
     analysisSessionId: v.id("analysisSessions"),
@@ -194,6 +596,9 @@ export default defineSchema({
       v.literal("completed"),
       v.literal("failed")
     ),
+    // The analysis this PR's run writes to; a retried job that redoes the
+    // PR reuses it rather than leaving it `running`.
+    prAnalysisId: v.optional(v.id("prAnalyses")),
 
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -201,6 +606,156 @@ export default defineSchema({
     .index("byAnalysisSession", ["analysisSessionId"])
     .index("byPullRequest", ["pullRequestId"]),
 
+  // Queued background analysis work for a repo. Jobs run one at a time
+  // per repo under a lease that the running action keeps extending; a job
+  // whose lease runs out is retried with backoff (see analysisJobs.ts).
+  analysisJobs: defineTable({
+    repoId: v.id("repos"),
+
+    type: v.union(
+      v.literal("pr_analysis"),
+      v.literal("contributor_profiles"),
+      v.literal("repo_snapshot"),
+      v.literal("history_synthesis"),
+      v.literal("search_index")
+    ),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("cancelled")
+    ),
+
+    // history_synthesis only: how many days back to synthesize.
+    windowDays: v.optional(v.number()),
+
+    // Only redo results from older prompt versions (see agentProvenance).
+    outdatedOnly: v.optional(v.boolean()),
+
+    // Earliest time the job may (re)start; pushed out by retry backoff.
+    runAfter: v.number(),
+    attempts: v.number(),
+    maxAttempts: v.number(),
+    leaseExpiresAt: v.optional(v.number()),
+    heartbeatAt: v.optional(v.number()),
+    cancelRequested: v.optional(v.boolean()),
+
+    // Session the job reports into; kept across retries and
+    // continuations so a resumed job picks up where it stopped.
+    analysisSessionId: v.optional(v.id("analysisSessions")),
+    progress: v.optional(
+      v.object({
+        completed: v.number(),
+        total: v.number(),
+      })
+    ),
+    error: v.optional(v.string()),
+
+    requestedByUserId: v.optional(v.id("users")),
+    startedAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("byRepoAndStatus", ["repoId", "status"])
+    .index("byStatus", ["status"]),
+
+  // One row per LLM call made by an agent, attributed to the repo,
+  // workflow and analysis session it ran for.
+  llmUsage: defineTable({
+    repoId: v.optional(v.id("repos")),
+    workspaceId: v.optional(v.id("workspaces")),
+    analysisSessionId: v.optional(v.id("analysisSessions")),
+
+    workflow: v.union(
+      v.literal("pr_analysis"),
+      v.literal("pr_sync"),
+      v.literal("contributor_profiles"),
+      v.literal("repo_snapshot"),
+      v.literal("history_synthesis"),
+      v.literal("call_summary"),
+      v.literal("repo_assistant"),
+      v.literal("search_index"),
+      v.literal("search")
+    ),
+    agentName: v.string(),
+    model: v.string(),
+
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+    latencyMs: v.number(),
+    costUsd: v.number(),
+    // Set when the call threw; its tokens are whatever the error reported.
+    error: v.optional(v.string()),
+
+    createdAt: v.number(),
+  })
+    .index("byRepo", ["repoId", "createdAt"])
+    .index("byWorkspace", ["workspaceId", "createdAt"])
+    .index("byAnalysisSession", ["analysisSessionId"]),
+
+  // Running monthly totals per workspace, kept alongside llmUsage so
+  // budget checks do not scan the month's calls.
+  llmUsageMonthly: defineTable({
+    workspaceId: v.id("workspaces"),
+    // UTC month, "YYYY-MM".
+    month: v.string(),
+
+    calls: v.number(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    costUsd: v.number(),
+
+    updatedAt: v.number(),
+  }).index("byWorkspaceAndMonth", ["workspaceId", "month"]),
+
+  // Offline evaluation runs of the analysis agents against the golden
+  // dataset in lib/evalFixtures.ts (see convex/evals.ts).
+  evalRuns: defineTable({
+    suite: v.union(
+      v.literal("pr_risk"),
+      v.literal("contributor_profile"),
+      v.literal("call_summary")
+    ),
+    // Fingerprint of the agent instructions and prompts that were run;
+    // runs with the same version are directly comparable.
+    promptVersion: v.string(),
+    modelSource: v.union(
+      v.literal("live"),
+      v.literal("recorded"),
+      v.literal("mock")
+    ),
+    model: v.string(),
+    // Averaged scores, each in [0, 1].
+    metrics: v.record(v.string(), v.number()),
+    results: v.array(
+      v.object({
+        caseId: v.string(),
+        passed: v.boolean(),
+        scores: v.record(v.string(), v.number()),
+        notes: v.array(v.string()),
+        // The agent's structured answer or tool calls.
+        output: v.optional(v.any()),
+        error: v.optional(v.string()),
+      })
+    ),
+    createdAt: v.number(),
+  }).index("bySuite", ["suite", "createdAt"]),
+
+  // Raw model responses captured during live evaluation runs, replayed by
+  // `recorded` runs so scoring can be re-run without model calls.
+  evalRecordings: defineTable({
+    suite: v.string(),
+    caseId: v.string(),
+    promptVersion: v.string(),
+    model: v.string(),
+    responses: v.array(v.any()),
+    createdAt: v.number(),
+  }).index("bySuiteAndCase", ["suite", "caseId", "createdAt"]),
+
   historyCheckpoints: defineTable({
     repoId: v.id("repos"),
 
@@ -210,6 +765,9 @@ export default defineSchema({
       v.literal("pr_analysis"),
       v.literal("analysis_session"),
       v.literal("call"),
+      // Written by history synthesis. Checkpoints synthesized before it
+      // had its own source type are "manual".
+      v.literal("synthesis"),
       v.literal("manual")
     ),
 
@@ -217,8 +775,20 @@ export default defineSchema({
     analysisSessionId: v.optional(v.id("analysisSessions")),
     callId: v.optional(v.id("calls")),
 
+    // Synthesis only: the window it summarized and the PR analyses and
+    // calls the checkpoint is based on.
+    windowStart: v.optional(v.number()),
+    windowEnd: v.optional(v.number()),
+    prAnalysisIds: v.optional(v.array(v.id("prAnalyses"))),
+    callIds: v.optional(v.array(v.id("calls"))),
+    // Call checkpoints: where in the call's transcript the decision was made.
+    transcriptSpan: v.optional(transcriptSpan),
+
     eventAt: v.number(),
 
+    // Set on checkpoints written by an agent.
+    generatedBy: v.optional(agentProvenance),
+
     createdAt: v.number(),
   })
     .index("byRepoAndEventAt", ["repoId", "eventAt"])
@@ -241,7 +811,14 @@ export default defineSchema({
     durationSeconds: v.optional(v.number()),
 
     shortSummary: v.optional(v.string()),
+    // Plain transcript of calls recorded before transcripts were stored as
+    // speaker turns in callTranscriptChunks.
+    transcript: v.optional(v.string()),
     tags: v.array(v.string()),
+    // Call-wide speaker labels handed out so far ("Speaker 1"...).
+    transcriptSpeakerCount: v.optional(v.number()),
+    // Agent, prompt version and model behind the summary and tags.
+    generatedBy: v.optional(agentProvenance),
 
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -250,6 +827,19 @@ export default defineSchema({
     .index("byUser", ["userId"])
     .index("byStatus", ["status"]),
 
+  // A call's transcript as timestamped speaker turns, one chunk per audio
+  // segment transcribed while the call was recorded (see callTranscripts.ts).
+  callTranscriptChunks: defineTable({
+    callId: v.id("calls"),
+    repoId: v.id("repos"),
+    index: v.number(),
+    turns: v.array(transcriptTurn),
+    // The segment's diarized words under their call-wide speaker labels.
+    // Unset on chunks stored before speakers were matched across segments.
+    speakerWords: v.optional(v.array(speakerWord)),
+    createdAt: v.number(),
+  }).index("byCallAndIndex", ["callId", "index"]),
+
   callActionItems: defineTable({
     callId: v.id("calls"),
 
@@ -259,6 +849,8 @@ export default defineSchema({
     pullRequestId: v.optional(v.id("pullRequests")),
     repoContributorId: v.optional(v.id("repoContributors")),
     filePath: v.optional(v.string()),
+    // Where in the call's transcript the item was agreed.
+    transcriptSpan: v.optional(transcriptSpan),
 
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -268,6 +860,83 @@ export default defineSchema({
     .index("byPullRequest", ["pullRequestId"])
     .index("byRepoContributor", ["repoContributorId"]),
 
+  // Repo search index: one row per searchable PR, analysis, call, action
+  // item or checkpoint (see search.ts). Rebuilt by the search_index job.
+  searchDocuments: defineTable({
+    repoId: v.id("repos"),
+    sourceType: v.union(
+      v.literal("pull_request"),
+      v.literal("pr_analysis"),
+      v.literal("call"),
+      v.literal("call_action_item"),
+      v.literal("history_checkpoint")
+    ),
+    sourceId: v.string(),
+    // Which chunk of a long source this is. Documents indexed before
+    // sources were chunked have none and count as chunk 0.
+    chunkIndex: v.optional(v.number()),
+
+    title: v.string(),
+    text: v.string(),
+    eventAt: v.number(),
+    pullRequestId: v.optional(v.id("pullRequests")),
+    callId: v.optional(v.id("calls")),
+
+    // Must match EMBEDDING_DIMENSIONS in lib/modelProviders.ts.
+    embedding: v.array(v.float64()),
+    embeddingModel: v.string(),
+
+    updatedAt: v.number(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("bySource", ["sourceType", "sourceId", "chunkIndex"])
+    .searchIndex("searchText", {
+      searchField: "text",
+      filterFields: ["repoId", "sourceType"],
+    })
+    .vectorIndex("byEmbedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["repoId", "sourceType"],
+    }),
+
+  // One row per search document with only what the search_index job
+  // compares, so finding changes never reads documents and their
+  // embeddings.
+  searchIndexEntries: defineTable({
+    repoId: v.id("repos"),
+    searchDocumentId: v.id("searchDocuments"),
+    sourceType: v.union(
+      v.literal("pull_request"),
+      v.literal("pr_analysis"),
+      v.literal("call"),
+      v.literal("call_action_item"),
+      v.literal("history_checkpoint")
+    ),
+    sourceId: v.string(),
+    chunkIndex: v.number(),
+    // searchDocumentHash of the indexed title, text and date.
+    contentHash: v.string(),
+    embeddingModel: v.string(),
+  })
+    .index("byRepo", ["repoId"])
+    .index("bySearchDocument", ["searchDocumentId"]),
+
+  // Repo Assistant conversations (agent threads), each owned by the user
+  // who started it. The text chat and the voice assistant share them.
+  assistantThreads: defineTable({
+    repoId: v.id("repos"),
+    userId: v.id("users"),
+    threadId: v.string(),
+
+    title: v.string(),
+    lastMessageAt: v.number(),
+
+    createdAt: v.number(),
+  })
+    .index("byRepoAndUser", ["repoId", "userId", "lastMessageAt"])
+    .index("byThreadId", ["threadId"]),
+
   techStackItems: defineTable({
     repoId: v.id("repos"),
 
@@ -0,0 +1,117 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import type { SearchDocumentContent } from "../lib/searchDocuments";
+import { createRepo, createUser, modules } from "./test.setup";
+
+const MODEL = "test-embedding";
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  const alice = await createUser(t, "alice");
+  const repoId = await createRepo(t, alice.userId, alice.workspaceId);
+  const callId = await t.run(async (ctx) => {
+    const now = Date.now();
+    return ctx.db.insert("calls", {
+      repoId,
+      userId: alice.userId,
+      status: "completed",
+      startTime: now,
+      shortSummary: "Agreed to ship the checkout redesign.",
+      tags: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+  const indexState = (): Promise<{
+    removed: Id<"searchDocuments">[];
+    changed: SearchDocumentContent[];
+    changedCount: number;
+  }> =>
+    t.query(internal.search.getSearchIndexState, {
+      repoId,
+      embeddingModel: MODEL,
+      limit: 10,
+    });
+  // What the search_index job saves, with a placeholder embedding.
+  const saveChanged = (documents: { callId?: string }[]) =>
+    t.mutation(internal.search.saveSearchDocuments, {
+      repoId,
+      embeddingModel: MODEL,
+      documents: documents.map((document) => ({
+        ...document,
+        callId: document.callId as Id<"calls"> | undefined,
+        embedding: new Array(1536).fill(0),
+      })),
+    });
+  return { t, callId, indexState, saveChanged };
+}
+
+describe("getSearchIndexState", () => {
+  test("reports only documents that changed since they were saved", async () => {
+    const { t, callId, indexState, saveChanged } = await setup();
+
+    const initial = await indexState();
+    expect(initial.changedCount).toBe(1);
+    await saveChanged(initial.changed);
+    expect(await indexState()).toEqual({
+      removed: [],
+      changed: [],
+      changedCount: 0,
+    });
+
+    await t.run((ctx) =>
+      ctx.db.patch(callId, { shortSummary: "Postponed the redesign." })
+    );
+    expect((await indexState()).changedCount).toBe(1);
+  });
+
+  test("reports documents whose source is gone", async () => {
+    const { t, callId, indexState, saveChanged } = await setup();
+    const initial = await indexState();
+    await saveChanged(initial.changed);
+
+    await t.run((ctx) => ctx.db.delete(callId));
+    const { removed } = await indexState();
+    expect(removed).toHaveLength(1);
+
+    await t.mutation(internal.search.deleteSearchDocuments, {
+      searchDocumentIds: removed,
+    });
+    const remaining = await t.run((ctx) =>
+      Promise.all([
+        ctx.db.query("searchDocuments").collect(),
+        ctx.db.query("searchIndexEntries").collect(),
+      ])
+    );
+    expect(remaining).toEqual([[], []]);
+  });
+});
+
+describe("chunked sources", () => {
+  test("a long transcript is indexed as several chunks", async () => {
+    const { t, callId, indexState, saveChanged } = await setup();
+    const transcript = Array.from(
+      { length: 400 },
+      (_, line) => `Line ${line}: we talked through the checkout redesign.`
+    ).join("\n");
+    await t.run((ctx) => ctx.db.patch(callId, { transcript }));
+
+    const { changed } = await indexState();
+    expect(changed.map((document) => document.chunkIndex)).toEqual([0, 1, 2]);
+    expect(changed.every((document) => document.text.length <= 8_000)).toBe(
+      true
+    );
+    expect(changed.map((document) => document.text).join("\n")).toBe(
+      `Agreed to ship the checkout redesign.\n\n${transcript}`
+    );
+
+    await saveChanged(changed);
+    await t.run((ctx) => ctx.db.patch(callId, { transcript: "Short call." }));
+    const after = await indexState();
+    expect(after.changed.map((document) => document.chunkIndex)).toEqual([0]);
+    expect(after.removed).toHaveLength(2);
+  });
+});
@@ -0,0 +1,464 @@
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { embedMany } from "ai";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { AnalysisJobRun } from "./analysisJobs";
+import type { LlmWorkflow } from "./llmUsage";
+import { embeddingModel } from "../lib/modelProviders";
+import {
+  buildSearchDocuments,
+  fuseRankings,
+  searchDocumentHash,
+  searchSnippet,
+  type SearchDocumentContent,
+} from "../lib/searchDocuments";
+
+// Repo search is hybrid: a keyword search over the `searchText` index and
+// a vector search over the `byEmbedding` index run side by side, and
+// their rankings are fused. The index is kept in sync by the
+// `search_index` job, which compares the repo's current data with the
+// content hashes in `searchIndexEntries` and embeds only what changed.
+
+const searchSourceType = v.union(
+  v.literal("pull_request"),
+  v.literal("pr_analysis"),
+  v.literal("call"),
+  v.literal("call_action_item"),
+  v.literal("history_checkpoint")
+);
+
+// Documents embedded per job run; a run that leaves more requeues its job.
+const SEARCH_INDEX_BATCH_SIZE = 100;
+
+// Candidates fetched from each of the keyword and vector searches.
+const SEARCH_CANDIDATES = 50;
+
+// Vector matches below this cosine similarity are noise, not results.
+const MIN_VECTOR_SCORE = 0.25;
+
+type StoredSearchDocument = Omit<Doc<"searchDocuments">, "embedding">;
+
+// Embeddings are large; nothing outside this module needs them.
+function withoutEmbedding(document: Doc<"searchDocuments">) {
+  const stored: StoredSearchDocument & { embedding?: number[] } = {
+    ...document,
+  };
+  delete stored.embedding;
+  return stored as StoredSearchDocument;
+}
+
+function chunkKey(document: {
+  sourceType: string;
+  sourceId: string;
+  chunkIndex?: number;
+}) {
+  return `${document.sourceType}:${document.sourceId}:${document.chunkIndex ?? 0}`;
+}
+
+async function embedTexts(
+  ctx: ActionCtx,
+  attribution: { workflow: LlmWorkflow; agentName: string; repoId: Id<"repos"> },
+  values: string[]
+) {
+  const model = embeddingModel();
+  const startedAt = Date.now();
+  const { embeddings, usage } = await embedMany({ model, values });
+
+  await ctx.runMutation(internal.llmUsage.recordLlmUsage, {
+    ...attribution,
+    model: model.modelId,
+    promptTokens: usage.tokens,
+    completionTokens: 0,
+    latencyMs: Date.now() - startedAt,
+  });
+  return embeddings;
+}
+
+// Internal query: how a repo's index differs from its current data — the
+// stored documents whose source is gone, and up to `limit` documents that
+// are new, changed, or embedded with another model. Compares against
+// `searchIndexEntries`, so the stored documents and their embeddings are
+// never read.
+export const getSearchIndexState = internalQuery({
+  args: { repoId: v.id("repos"), embeddingModel: v.string(), limit: v.number() },
+  handler: async (
+    ctx,
+    { repoId, embeddingModel, limit }
+  ): Promise<{
+    removed: Id<"searchDocuments">[];
+    changed: SearchDocumentContent[];
+    changedCount: number;
+  }> => {
+    const [pullRequests, prAnalyses, calls, entries] = await Promise.all([
+      ctx.db
+        .query("pullRequests")
+        .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+        .collect(),
+      ctx.db
+        .query("prAnalyses")
+        .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+        .collect(),
+      ctx.db
+        .query("calls")
+        .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+        .collect(),
+      ctx.db
+        .query("searchIndexEntries")
+        .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+        .collect(),
+    ]);
+    const callActionItems = (
+      await Promise.all(
+        calls.map((call) =>
+          ctx.db
+            .query("callActionItems")
+            .withIndex("byCall", (q) => q.eq("callId", call._id))
+            .collect()
+        )
+      )
+    ).flat();
+    const historyCheckpoints = await ctx.db
+      .query("historyCheckpoints")
+      .withIndex("byRepoAndEventAt", (q) => q.eq("repoId", repoId))
+      .collect();
+    // Calls recorded before transcripts were chunked keep theirs inline.
+    const callsWithTranscripts = await Promise.all(
+      calls.map(async (call) => {
+        const chunks = await ctx.db
+          .query("callTranscriptChunks")
+          .withIndex("byCallAndIndex", (q) => q.eq("callId", call._id))
+          .collect();
+        if (chunks.length === 0) return call;
+        const transcript = chunks
+          .flatMap((chunk) => chunk.turns)
+          .map((turn) => turn.text)
+          .join("\n");
+        return { ...call, transcript };
+      })
+    );
+
+    const documents = buildSearchDocuments({
+      pullRequests,
+      prAnalyses,
+      calls: callsWithTranscripts,
+      callActionItems,
+      historyCheckpoints,
+    });
+
+    const entriesByKey = new Map(
+      entries.map((entry) => [chunkKey(entry), entry])
+    );
+    const currentKeys = new Set(documents.map(chunkKey));
+    const changed = documents.filter((document) => {
+      const entry = entriesByKey.get(chunkKey(document));
+      return (
+        !entry ||
+        entry.embeddingModel !== embeddingModel ||
+        entry.contentHash !== searchDocumentHash(document)
+      );
+    });
+
+    return {
+      removed: entries
+        .filter((entry) => !currentKeys.has(chunkKey(entry)))
+        .map((entry) => entry.searchDocumentId),
+      changed: changed.slice(0, limit),
+      changedCount: changed.length,
+    };
+  },
+});
+
+export const saveSearchDocuments = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    embeddingModel: v.string(),
+    documents: v.array(
+      v.object({
+        sourceType: searchSourceType,
+        sourceId: v.string(),
+        chunkIndex: v.number(),
+        title: v.string(),
+        text: v.string(),
+        eventAt: v.number(),
+        pullRequestId: v.optional(v.id("pullRequests")),
+        callId: v.optional(v.id("calls")),
+        embedding: v.array(v.float64()),
+      })
+    ),
+  },
+  handler: async (ctx, { repoId, embeddingModel, documents }) => {
+    const now = Date.now();
+    for (const document of documents) {
+      const bySource = (chunkIndex: number | undefined) =>
+        ctx.db
+          .query("searchDocuments")
+          .withIndex("bySource", (q) =>
+            q
+              .eq("sourceType", document.sourceType)
+              .eq("sourceId", document.sourceId)
+              .eq("chunkIndex", chunkIndex)
+          )
+          .first();
+      // A document from before chunking becomes the source's chunk 0.
+      const existing =
+        (await bySource(document.chunkIndex)) ??
+        (document.chunkIndex === 0 ? await bySource(undefined) : null);
+      const fields = { ...document, repoId, embeddingModel, updatedAt: now };
+      let searchDocumentId: Id<"searchDocuments">;
+      if (existing) {
+        searchDocumentId = existing._id;
+        await ctx.db.replace(searchDocumentId, fields);
+      } else {
+        searchDocumentId = await ctx.db.insert("searchDocuments", fields);
+      }
+
+      const entry = await ctx.db
+        .query("searchIndexEntries")
+        .withIndex("bySearchDocument", (q) =>
+          q.eq("searchDocumentId", searchDocumentId)
+        )
+        .first();
+      const entryFields = {
+        repoId,
+        searchDocumentId,
+        sourceType: document.sourceType,
+        sourceId: document.sourceId,
+        chunkIndex: document.chunkIndex,
+        contentHash: searchDocumentHash(document),
+        embeddingModel,
+      };
+      if (entry) {
+        await ctx.db.replace(entry._id, entryFields);
+      } else {
+        await ctx.db.insert("searchIndexEntries", entryFields);
+      }
+    }
+  },
+});
+
+export const deleteSearchDocuments = internalMutation({
+  args: { searchDocumentIds: v.array(v.id("searchDocuments")) },
+  handler: async (ctx, { searchDocumentIds }) => {
+    for (const id of searchDocumentIds) {
+      const entries = await ctx.db
+        .query("searchIndexEntries")
+        .withIndex("bySearchDocument", (q) => q.eq("searchDocumentId", id))
+        .collect();
+      for (const entry of entries) {
+        await ctx.db.delete(entry._id);
+      }
+      if (await ctx.db.get(id)) {
+        await ctx.db.delete(id);
+      }
+    }
+  },
+});
+
+/**
+ * Search index job: remove documents whose source is gone, then embed up
+ * to SEARCH_INDEX_BATCH_SIZE new or changed documents. Documents embedded
+ * with another model are re-embedded, since their vectors are not
+ * comparable.
+ *
+ * Returns true when changed documents remain for a later run.
+ */
+export async function indexRepoForSearch(
+  ctx: ActionCtx,
+  run: AnalysisJobRun
+): Promise<boolean> {
+  const { repoId } = run;
+  const modelId = embeddingModel().modelId;
+  const {
+    removed,
+    changed: batch,
+    changedCount,
+  }: {
+    removed: Id<"searchDocuments">[];
+    changed: SearchDocumentContent[];
+    changedCount: number;
+  } = await ctx.runQuery(internal.search.getSearchIndexState, {
+    repoId,
+    embeddingModel: modelId,
+    limit: SEARCH_INDEX_BATCH_SIZE,
+  });
+
+  if (removed.length > 0) {
+    await ctx.runMutation(internal.search.deleteSearchDocuments, {
+      searchDocumentIds: removed,
+    });
+  }
+  if (batch.length === 0) return false;
+
+  await run.heartbeat({ completed: 0, total: changedCount });
+  const embeddings = await embedTexts(
+    ctx,
+    { workflow: "search_index", agentName: "Search indexer", repoId },
+    batch.map((document) => document.text)
+  );
+
+  await ctx.runMutation(internal.search.saveSearchDocuments, {
+    repoId,
+    embeddingModel: modelId,
+    documents: batch.map((document, index) => ({
+      ...document,
+      pullRequestId: document.pullRequestId as Id<"pullRequests"> | undefined,
+      callId: document.callId as Id<"calls"> | undefined,
+      embedding: embeddings[index],
+    })),
+  });
+  await run.heartbeat({ completed: batch.length, total: changedCount });
+
+  return changedCount > batch.length;
+}
+
+// Internal query: keyword matches for a repo, best first.
+export const keywordSearch = internalQuery({
+  args: { repoId: v.id("repos"), query: v.string() },
+  handler: async (ctx, { repoId, query }) => {
+    const matches = await ctx.db
+      .query("searchDocuments")
+      .withSearchIndex("searchText", (q) =>
+        q.search("text", query).eq("repoId", repoId)
+      )
+      .take(SEARCH_CANDIDATES);
+    return matches.map(withoutEmbedding);
+  },
+});
+
+export const getSearchDocuments = internalQuery({
+  args: { searchDocumentIds: v.array(v.id("searchDocuments")) },
+  handler: async (ctx, { searchDocumentIds }) => {
+    const documents = await Promise.all(
+      searchDocumentIds.map((id) => ctx.db.get(id))
+    );
+    return documents
+      .filter((document) => document !== null)
+      .map(withoutEmbedding);
+  },
+});
+
+type SearchRepoArgs = {
+  repoId: Id<"repos">;
+  query: string;
+  sourceTypes?: Doc<"searchDocuments">["sourceType"][];
+  from?: number;
+  to?: number;
+  limit?: number;
+};
+
+/**
+ * Hybrid search over a repo's index, without an access check. The query
+ * embedding is recorded as LLM usage under `workflow` and `agentName`.
+ * When the query cannot be embedded (e.g. no embedding model is
+ * configured) only keyword matches are returned.
+ */
+export async function searchRepoDocuments(
+  ctx: ActionCtx,
+  args: SearchRepoArgs,
+  attribution: { workflow: LlmWorkflow; agentName: string }
+) {
+  const query = args.query.trim();
+  if (!query) return [];
+
+  const keywordMatches: StoredSearchDocument[] = await ctx.runQuery(
+    internal.search.keywordSearch,
+    { repoId: args.repoId, query }
+  );
+
+  let vectorMatches: StoredSearchDocument[] = [];
+  try {
+    const [vector] = await embedTexts(
+      ctx,
+      { ...attribution, repoId: args.repoId },
+      [query]
+    );
+    const results = await ctx.vectorSearch("searchDocuments", "byEmbedding", {
+      vector,
+      limit: SEARCH_CANDIDATES,
+      filter: (q) => q.eq("repoId", args.repoId),
+    });
+    vectorMatches = await ctx.runQuery(internal.search.getSearchDocuments, {
+      searchDocumentIds: results
+        .filter((result) => result._score >= MIN_VECTOR_SCORE)
+        .map((result) => result._id),
+    });
+  } catch (err) {
+    console.error("Search query embedding failed; keyword results only", err);
+  }
+
+  // Vector and search index filters only support equality, so the type
+  // and date filters apply to the candidates.
+  const matchesFilters = (document: StoredSearchDocument) =>
+    (!args.sourceTypes || args.sourceTypes.includes(document.sourceType)) &&
+    (args.from === undefined || document.eventAt >= args.from) &&
+    (args.to === undefined || document.eventAt <= args.to);
+  const keyword = keywordMatches.filter(matchesFilters);
+  const semantic = vectorMatches.filter(matchesFilters);
+
+  const documentsById = new Map(
+    [...keyword, ...semantic].map((document) => [document._id, document])
+  );
+  // A long source can match in several chunks; it is listed once, with
+  // its best-ranked chunk.
+  const seenSources = new Set<string>();
+  return fuseRankings(
+    keyword.map((document) => document._id),
+    semantic.map((document) => document._id)
+  )
+    .filter(({ id }) => {
+      const document = documentsById.get(id)!;
+      const source = `${document.sourceType}:${document.sourceId}`;
+      if (seenSources.has(source)) return false;
+      seenSources.add(source);
+      return true;
+    })
+    .slice(0, args.limit ?? 20)
+    .map(({ id, score, keyword: matchedKeyword, vector }) => {
+      const document = documentsById.get(id)!;
+      return {
+        _id: document._id,
+        sourceType: document.sourceType,
+        sourceId: document.sourceId,
+        title: document.title,
+        snippet: searchSnippet(document.text, query),
+        eventAt: document.eventAt,
+        pullRequestId: document.pullRequestId ?? null,
+        callId: document.callId ?? null,
+        score,
+        matchedBy:
+          matchedKeyword && vector
+            ? ("both" as const)
+            : matchedKeyword
+              ? ("keyword" as const)
+              : ("vector" as const),
+      };
+    });
+}
+
+/**
+ * Search a repo's PRs, PR analyses, calls, call action items and history
+ * checkpoints by keyword and meaning. Results can be narrowed to source
+ * types and to an `eventAt` range.
+ */
+export const searchRepo = action({
+  args: {
+    repoId: v.id("repos"),
+    query: v.string(),
+    sourceTypes: v.optional(v.array(searchSourceType)),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.runQuery(internal.repos.getRepoForCurrentMember, {
+      repoId: args.repoId,
+      minimumRole: "viewer",
+    });
+    return searchRepoDocuments(ctx, args, {
+      workflow: "search",
+      agentName: "Repo search",
+    });
+  },
+});
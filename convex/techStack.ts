@@ -0,0 +1,190 @@
+import { internalAction, internalMutation } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  isManifestPath,
+  mergeTechStackItems,
+  needsManifestContent,
+  parseManifest,
+} from "../lib/techStack";
+import { getRepoGithubClient } from "./githubTokens";
+
+// Bounds on how much of a repo we inspect per detection run.
+const MAX_MANIFEST_DEPTH = 4;
+const MAX_MANIFESTS = 40;
+
+// Marker stored in techStackItems.metadata for rows owned by detection,
+// so re-detection can remove items that disappeared from the manifests
+// without touching items added some other way.
+const DETECTION_SOURCE = "manifest_detection";
+
+const techStackItemType = v.union(
+  v.literal("language"),
+  v.literal("framework"),
+  v.literal("library"),
+  v.literal("database"),
+  v.literal("infrastructure"),
+  v.literal("tooling")
+);
+
+async function detectTechStack(
+  ctx: ActionCtx,
+  repo: Pick<Doc<"repos">, "_id" | "repoOwner" | "repoName" | "defaultBranch">
+) {
+  const client = await getRepoGithubClient(ctx, repo._id);
+  if (!client) return { count: 0 };
+
+  const { github } = client;
+  const paths = await github.listRepoPaths(
+    repo.repoOwner,
+    repo.repoName,
+    repo.defaultBranch
+  );
+
+  // Shallow manifests first: the root package.json says more about the
+  // stack than a fixture buried in a test directory.
+  const manifests = paths
+    .filter(isManifestPath)
+    .filter((path) => path.split("/").length <= MAX_MANIFEST_DEPTH)
+    .sort((a, b) => a.split("/").length - b.split("/").length)
+    .slice(0, MAX_MANIFESTS);
+
+  const detected = [];
+  for (const path of manifests) {
+    const text = needsManifestContent(path)
+      ? await github.getFileContent(
+          repo.repoOwner,
+          repo.repoName,
+          path,
+          repo.defaultBranch
+        )
+      : null;
+    detected.push(...parseManifest(path, text));
+  }
+
+  const items = mergeTechStackItems(detected);
+  await ctx.runMutation(internal.techStack.saveDetectedTechStack, {
+    repoId: repo._id,
+    items: items.map((item) => ({
+      itemType: item.itemType,
+      name: item.name,
+      version: item.version,
+      sources: item.sources,
+      exactVersion: item.exactVersion,
+    })),
+  });
+
+  return { count: items.length };
+}
+
+/**
+ * TechStackDetectionWorkflow (internal action)
+ *
+ * Reads manifests (package.json, lockfiles, go.mod, Cargo.toml,
+ * pyproject.toml, requirements.txt, Dockerfiles, Terraform and GitHub
+ * Actions workflows) from the repo's default branch and stores the
+ * parsed languages, frameworks, libraries, databases, infrastructure and
+ * tooling in techStackItems. No LLM is involved.
+ */
+export const runTechStackDetectionWorkflow = internalAction({
+  args: { repoId: v.id("repos") },
+  handler: async (ctx, { repoId }): Promise<{ count: number }> => {
+    const repo = await ctx.runQuery(internal.app.getRepoInternal, { repoId });
+    if (!repo) return { count: 0 };
+    return detectTechStack(ctx, repo);
+  },
+});
+
+// Internal action: re-run detection if a merged PR touched a manifest.
+// Scheduled by the PR sync when a PR transitions to merged.
+export const detectTechStackForMergedPullRequest = internalAction({
+  args: {
+    repoId: v.id("repos"),
+    prNumber: v.number(),
+  },
+  handler: async (ctx, { repoId, prNumber }) => {
+    const client = await getRepoGithubClient(ctx, repoId);
+    if (!client) return;
+
+    const { repo, github } = client;
+    const files = await github.listPullRequestFiles(
+      repo.repoOwner,
+      repo.repoName,
+      prNumber
+    );
+    const touchesManifest = files.some(
+      (f) =>
+        isManifestPath(f.filename) ||
+        (f.previous_filename != null && isManifestPath(f.previous_filename))
+    );
+    if (!touchesManifest) return;
+
+    await detectTechStack(ctx, repo);
+  },
+});
+
+// Internal mutation: upsert detected items and drop previously detected
+// ones that no longer appear in any manifest.
+export const saveDetectedTechStack = internalMutation({
+  args: {
+    repoId: v.id("repos"),
+    items: v.array(
+      v.object({
+        itemType: techStackItemType,
+        name: v.string(),
+        version: v.optional(v.string()),
+        sources: v.array(v.string()),
+        exactVersion: v.optional(v.boolean()),
+      })
+    ),
+  },
+  handler: async (ctx, { repoId, items }) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("techStackItems")
+      .withIndex("byRepo", (q) => q.eq("repoId", repoId))
+      .collect();
+
+    const existingByKey = new Map(
+      existing.map((row) => [`${row.itemType}:${row.name}`, row])
+    );
+    const seen = new Set<Id<"techStackItems">>();
+
+    for (const item of items) {
+      const metadata = {
+        source: DETECTION_SOURCE,
+        manifests: item.sources,
+        exactVersion: item.exactVersion ?? false,
+      };
+      const row = existingByKey.get(`${item.itemType}:${item.name}`);
+
+      if (row) {
+        seen.add(row._id);
+        await ctx.db.patch(row._id, {
+          version: item.version ?? row.version,
+          metadata,
+          detectedAt: now,
+        });
+        continue;
+      }
+
+      await ctx.db.insert("techStackItems", {
+        repoId,
+        itemType: item.itemType,
+        name: item.name,
+        version: item.version,
+        metadata,
+        detectedAt: now,
+        createdAt: now,
+      });
+    }
+
+    for (const row of existing) {
+      if (!seen.has(row._id) && row.metadata?.source === DETECTION_SOURCE) {
+        await ctx.db.delete(row._id);
+      }
+    }
+  },
+});
@@ -0,0 +1,83 @@
+/// <reference types="vite/client" />
+import type { convexTest } from "convex-test";
+import type { Id } from "./_generated/dataModel";
+import type { WorkspaceRole } from "./access";
+
+// The Convex function modules, for `convexTest(schema, modules)`.
+export const modules = import.meta.glob([
+  "./**/*.*s",
+  "!./**/*.d.ts",
+  "!./**/*.test.ts",
+  "!./test.setup.ts",
+]);
+
+export type TestConvex = ReturnType<typeof convexTest>;
+
+// A signed-in user with a `users` row and a personal workspace.
+export async function createUser(t: TestConvex, name: string) {
+  const ids = await t.run(async (ctx) => {
+    const now = Date.now();
+    const userId = await ctx.db.insert("users", {
+      externalAuthId: `auth|${name}`,
+      email: `${name}@example.com`,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name: `${name}'s workspace`,
+      createdByUserId: userId,
+      personal: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("workspaceMembers", {
+      workspaceId,
+      userId,
+      role: "owner",
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { userId, workspaceId };
+  });
+  return { ...ids, as: t.withIdentity({ subject: `auth|${name}` }) };
+}
+
+export async function addMember(
+  t: TestConvex,
+  workspaceId: Id<"workspaces">,
+  userId: Id<"users">,
+  role: WorkspaceRole
+) {
+  await t.run(async (ctx) => {
+    const now = Date.now();
+    await ctx.db.insert("workspaceMembers", {
+      workspaceId,
+      userId,
+      role,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+}
+
+export async function createRepo(
+  t: TestConvex,
+  ownerUserId: Id<"users">,
+  workspaceId?: Id<"workspaces">
+) {
+  return t.run(async (ctx) => {
+    const now = Date.now();
+    return ctx.db.insert("repos", {
+      ownerUserId,
+      workspaceId,
+      githubRepoId: `repo-${now}-${Math.random()}`,
+      repoOwner: "acme",
+      repoName: "shop",
+      url: "https://github.com/acme/shop",
+      defaultBranch: "main",
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+}
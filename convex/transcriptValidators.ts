@@ -0,0 +1,29 @@
+import { v } from "convex/values";
+
+// Validators for stored call transcripts (see callTranscripts.ts), shared
+// with the schema.
+
+export const transcriptTurn = v.object({
+  // Unset when the transcription had no speaker labels.
+  speaker: v.optional(v.string()),
+  startSecond: v.number(),
+  endSecond: v.number(),
+  text: v.string(),
+});
+
+// When one speaker's word was heard, in seconds from the start of the
+// call; kept per chunk to match speakers with neighbouring segments.
+export const speakerWord = v.object({
+  speaker: v.string(),
+  startSecond: v.number(),
+  endSecond: v.number(),
+});
+
+/**
+ * The part of a call an action item or history checkpoint was derived
+ * from, in seconds from the start of the call.
+ */
+export const transcriptSpan = v.object({
+  startSecond: v.number(),
+  endSecond: v.number(),
+});
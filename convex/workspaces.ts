@@ -0,0 +1,456 @@
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  getCurrentUser,
+  getWorkspaceMembership,
+  hasRole,
+  requireCurrentUser,
+  requireWorkspaceRole,
+  type WorkspaceRole,
+} from "./access";
+
+// How long an invitation can be accepted for.
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const invitableRole = v.union(
+  v.literal("admin"),
+  v.literal("member"),
+  v.literal("viewer")
+);
+
+const memberRole = v.union(
+  v.literal("owner"),
+  v.literal("admin"),
+  v.literal("member"),
+  v.literal("viewer")
+);
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Create or refresh the `users` row for the signed-in identity.
+ */
+export async function upsertCurrentUser(ctx: MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const email = identity.email ?? "unknown@example.com";
+  const name =
+    identity.name ?? identity.givenName ?? identity.familyName ?? undefined;
+  const now = Date.now();
+
+  const existing = await getCurrentUser(ctx);
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      email: email || existing.email,
+      name: name ?? existing.name,
+      updatedAt: now,
+    });
+    return (await ctx.db.get(existing._id))!;
+  }
+
+  const userId = await ctx.db.insert("users", {
+    externalAuthId: identity.subject,
+    email,
+    name,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return (await ctx.db.get(userId))!;
+}
+
+/**
+ * Make sure `user` has a personal workspace, creating it on first sign-in
+ * and moving any repos they connected before workspaces existed into it.
+ * Returns the personal workspace's id.
+ */
+export async function ensurePersonalWorkspace(
+  ctx: MutationCtx,
+  user: Doc<"users">
+): Promise<Id<"workspaces">> {
+  const memberships = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("byUser", (q) => q.eq("userId", user._id))
+    .collect();
+
+  for (const membership of memberships) {
+    const workspace = await ctx.db.get(membership.workspaceId);
+    if (workspace?.personal && workspace.createdByUserId === user._id) {
+      return workspace._id;
+    }
+  }
+
+  const now = Date.now();
+  const workspaceId = await ctx.db.insert("workspaces", {
+    name: `${user.name ?? user.email}'s workspace`,
+    createdByUserId: user._id,
+    personal: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await ctx.db.insert("workspaceMembers", {
+    workspaceId,
+    userId: user._id,
+    role: "owner",
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const legacyRepos = await ctx.db
+    .query("repos")
+    .withIndex("byOwnerUserId", (q) => q.eq("ownerUserId", user._id))
+    .collect();
+  for (const repo of legacyRepos) {
+    if (!repo.workspaceId) {
+      await ctx.db.patch(repo._id, { workspaceId, updatedAt: now });
+    }
+  }
+
+  return workspaceId;
+}
+
+// Called by the dashboard on load: creates the caller's user row and
+// personal workspace if needed.
+export const ensureCurrentUser = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await upsertCurrentUser(ctx);
+    const personalWorkspaceId = await ensurePersonalWorkspace(ctx, user);
+    return { userId: user._id, personalWorkspaceId };
+  },
+});
+
+// Workspaces the caller belongs to, with their role in each, personal
+// workspace first.
+export const listForCurrentUser = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("byUser", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const workspaces = await Promise.all(
+      memberships.map(async (membership) => {
+        const workspace = await ctx.db.get(membership.workspaceId);
+        return workspace ? { ...workspace, role: membership.role } : null;
+      })
+    );
+
+    return workspaces
+      .filter((w): w is NonNullable<typeof w> => w !== null)
+      .sort(
+        (a, b) =>
+          Number(b.personal) - Number(a.personal) ||
+          a.name.localeCompare(b.name)
+      );
+  },
+});
+
+export const createWorkspace = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, { name }) => {
+    const user = await requireCurrentUser(ctx);
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Workspace name is required");
+    }
+
+    const now = Date.now();
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name: trimmed,
+      createdByUserId: user._id,
+      personal: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("workspaceMembers", {
+      workspaceId,
+      userId: user._id,
+      role: "owner",
+      createdAt: now,
+      updatedAt: now,
+    });
+    return workspaceId;
+  },
+});
+
+export const renameWorkspace = mutation({
+  args: { workspaceId: v.id("workspaces"), name: v.string() },
+  handler: async (ctx, { workspaceId, name }) => {
+    await requireWorkspaceRole(ctx, workspaceId, "admin");
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Workspace name is required");
+    }
+    await ctx.db.patch(workspaceId, { name: trimmed, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * MEMBERS
+ */
+
+export const listMembers = query({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, { workspaceId }) => {
+    await requireWorkspaceRole(ctx, workspaceId);
+
+    const members = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("byWorkspace", (q) => q.eq("workspaceId", workspaceId))
+      .collect();
+
+    return Promise.all(
+      members.map(async (member) => {
+        const user = await ctx.db.get(member.userId);
+        return {
+          ...member,
+          name: user?.name ?? null,
+          email: user?.email ?? null,
+        };
+      })
+    );
+  },
+});
+
+async function countOwners(ctx: MutationCtx, workspaceId: Id<"workspaces">) {
+  const members = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("byWorkspace", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+  return members.filter((m) => m.role === "owner").length;
+}
+
+// Admins manage members below admin; only owners can grant, change or
+// remove admin and owner roles.
+function canManageRole(actorRole: WorkspaceRole, targetRole: WorkspaceRole) {
+  return actorRole === "owner" || !hasRole(targetRole, "admin");
+}
+
+export const updateMemberRole = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: memberRole,
+  },
+  handler: async (ctx, { workspaceId, userId, role }) => {
+    const { membership: actor } = await requireWorkspaceRole(
+      ctx,
+      workspaceId,
+      "admin"
+    );
+
+    const target = await getWorkspaceMembership(ctx, workspaceId, userId);
+    if (!target) {
+      throw new Error("User is not a member of this workspace");
+    }
+    if (
+      !canManageRole(actor.role, target.role) ||
+      !canManageRole(actor.role, role)
+    ) {
+      throw new Error("Only owners can manage admin and owner roles");
+    }
+    if (
+      target.role === "owner" &&
+      role !== "owner" &&
+      (await countOwners(ctx, workspaceId)) === 1
+    ) {
+      throw new Error("A workspace needs at least one owner");
+    }
+
+    await ctx.db.patch(target._id, { role, updatedAt: Date.now() });
+  },
+});
+
+// Remove a member, or leave the workspace when `userId` is the caller.
+export const removeMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, { workspaceId, userId }) => {
+    const { user, membership: actor } = await requireWorkspaceRole(
+      ctx,
+      workspaceId
+    );
+
+    const target = await getWorkspaceMembership(ctx, workspaceId, userId);
+    if (!target) return;
+
+    const leaving = userId === user._id;
+    if (
+      !leaving &&
+      (!hasRole(actor.role, "admin") || !canManageRole(actor.role, target.role))
+    ) {
+      throw new Error("Not authorized to remove this member");
+    }
+    if (target.role === "owner" && (await countOwners(ctx, workspaceId)) === 1) {
+      throw new Error("A workspace needs at least one owner");
+    }
+
+    await ctx.db.delete(target._id);
+  },
+});
+
+/**
+ * INVITATIONS
+ */
+
+export const listInvitations = query({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, { workspaceId }) => {
+    await requireWorkspaceRole(ctx, workspaceId, "admin");
+
+    const now = Date.now();
+    const invitations = await ctx.db
+      .query("workspaceInvitations")
+      .withIndex("byWorkspace", (q) => q.eq("workspaceId", workspaceId))
+      .collect();
+    return invitations.filter(
+      (i) => i.status === "pending" && i.expiresAt > now
+    );
+  },
+});
+
+// Pending invitations addressed to the caller's email, with the
+// workspace name joined in.
+export const listMyInvitations = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+
+    const now = Date.now();
+    const invitations = await ctx.db
+      .query("workspaceInvitations")
+      .withIndex("byEmail", (q) => q.eq("email", normalizeEmail(user.email)))
+      .collect();
+
+    const pending = invitations.filter(
+      (i) => i.status === "pending" && i.expiresAt > now
+    );
+    return Promise.all(
+      pending.map(async (invitation) => ({
+        ...invitation,
+        workspaceName:
+          (await ctx.db.get(invitation.workspaceId))?.name ?? "Workspace",
+      }))
+    );
+  },
+});
+
+export const inviteMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    email: v.string(),
+    role: invitableRole,
+  },
+  handler: async (ctx, { workspaceId, email, role }) => {
+    const { user, membership } = await requireWorkspaceRole(
+      ctx,
+      workspaceId,
+      "admin"
+    );
+    if (!canManageRole(membership.role, role)) {
+      throw new Error("Only owners can invite admins");
+    }
+
+    const normalized = normalizeEmail(email);
+    if (!normalized.includes("@")) {
+      throw new Error("A valid email address is required");
+    }
+
+    // Re-inviting an address replaces its pending invitation.
+    const existing = await ctx.db
+      .query("workspaceInvitations")
+      .withIndex("byEmail", (q) => q.eq("email", normalized))
+      .collect();
+    for (const invitation of existing) {
+      if (
+        invitation.workspaceId === workspaceId &&
+        invitation.status === "pending"
+      ) {
+        await ctx.db.patch(invitation._id, { status: "revoked" });
+      }
+    }
+
+    const now = Date.now();
+    return ctx.db.insert("workspaceInvitations", {
+      workspaceId,
+      email: normalized,
+      role,
+      invitedByUserId: user._id,
+      status: "pending",
+      expiresAt: now + INVITATION_TTL_MS,
+      createdAt: now,
+    });
+  },
+});
+
+export const revokeInvitation = mutation({
+  args: { invitationId: v.id("workspaceInvitations") },
+  handler: async (ctx, { invitationId }) => {
+    const invitation = await ctx.db.get(invitationId);
+    if (!invitation) return;
+
+    await requireWorkspaceRole(ctx, invitation.workspaceId, "admin");
+    if (invitation.status === "pending") {
+      await ctx.db.patch(invitationId, { status: "revoked" });
+    }
+  },
+});
+
+// Accept an invitation addressed to the caller's email. An existing
+// membership keeps whichever role is higher.
+export const acceptInvitation = mutation({
+  args: { invitationId: v.id("workspaceInvitations") },
+  handler: async (ctx, { invitationId }) => {
+    const user = await requireCurrentUser(ctx);
+
+    const invitation = await ctx.db.get(invitationId);
+    if (
+      !invitation ||
+      invitation.email !== normalizeEmail(user.email) ||
+      invitation.status !== "pending" ||
+      invitation.expiresAt <= Date.now()
+    ) {
+      throw new Error("Invitation not found or no longer valid");
+    }
+
+    const now = Date.now();
+    const existing = await getWorkspaceMembership(
+      ctx,
+      invitation.workspaceId,
+      user._id
+    );
+    if (!existing) {
+      await ctx.db.insert("workspaceMembers", {
+        workspaceId: invitation.workspaceId,
+        userId: user._id,
+        role: invitation.role,
+        createdAt: now,
+        updatedAt: now,
+      });
+    } else if (!hasRole(existing.role, invitation.role)) {
+      await ctx.db.patch(existing._id, {
+        role: invitation.role,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.patch(invitationId, { status: "accepted", acceptedAt: now });
+    return invitation.workspaceId;
+  },
+});
@@ -0,0 +1,65 @@
+// Citations in Repo Assistant answers. Each record an assistant tool
+// returns carries a short `ref` (e.g. "pr:42" or "call:k57..."); the model
+// cites a record by writing its ref in square brackets, and the answer is
+// returned with the cited records so the page can link to them.
+
+export type AssistantCitation = {
+  ref: string;
+  sourceType:
+    | "pull_request"
+    | "pr_analysis"
+    | "call"
+    | "call_action_item"
+    | "history_checkpoint";
+  label: string;
+  // Where the citation opens on the repo page.
+  pullRequestId?: string;
+  callId?: string;
+  url?: string;
+};
+
+const CITATION_MARKER =
+  /\s?\[((?:pr|analysis|call|action|checkpoint):[A-Za-z0-9_]+)\]/g;
+
+/** The refs cited in `text`, in order of first use. */
+export function citedRefs(text: string) {
+  return Array.from(
+    new Set(Array.from(text.matchAll(CITATION_MARKER), (match) => match[1]))
+  );
+}
+
+/** `text` without citation markers, e.g. for reading an answer aloud. */
+export function stripCitationMarkers(text: string) {
+  return text.replace(CITATION_MARKER, "").trim();
+}
+
+/**
+ * The citations attached to tool outputs, keyed by ref. Outputs without a
+ * `citations` array (e.g. errors) are skipped.
+ */
+export function collectCitations(outputs: unknown[]) {
+  const byRef = new Map<string, AssistantCitation>();
+  for (const output of outputs) {
+    const citations = (output as { citations?: unknown } | null)?.citations;
+    if (!Array.isArray(citations)) continue;
+    for (const citation of citations as AssistantCitation[]) {
+      byRef.set(citation.ref, citation);
+    }
+  }
+  return byRef;
+}
+
+/**
+ * The records an answer drew on: the ones it cites, in order, or every
+ * retrieved record when the model cited none.
+ */
+export function citationsForAnswer(
+  text: string,
+  retrieved: Map<string, AssistantCitation>
+) {
+  const refs = citedRefs(text);
+  if (refs.length === 0) return Array.from(retrieved.values());
+  return refs
+    .map((ref) => retrieved.get(ref))
+    .filter((citation): citation is AssistantCitation => Boolean(citation));
+}
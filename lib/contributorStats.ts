@@ -0,0 +1,129 @@
+// Per-repo contributor statistics, computed from the PRs a contributor
+// authored in that repo. They are stored per calendar week (weeks start
+// Monday 00:00 UTC) so weeks never overlap; the panel's windows and trend
+// are sums and series over those weeks.
+
+export const CONTRIBUTOR_STATS_WINDOWS = ["30d", "90d", "365d", "all"] as const;
+
+export type ContributorStatsWindow = (typeof CONTRIBUTOR_STATS_WINDOWS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+const WINDOW_MS: Record<ContributorStatsWindow, number | null> = {
+  "30d": 30 * DAY_MS,
+  "90d": 90 * DAY_MS,
+  "365d": 365 * DAY_MS,
+  all: null,
+};
+
+export type AuthoredPullRequest = {
+  status: "open" | "closed" | "merged";
+  createdAt: number;
+  mergedAt?: number;
+  additions?: number;
+  deletions?: number;
+  changedFiles?: number;
+};
+
+export type ContributorStats = {
+  authoredCount: number;
+  mergedCount: number;
+  additions: number;
+  deletions: number;
+  // Sum of files changed per PR; a file touched by two PRs counts twice.
+  filesTouched: number;
+  firstContributionAt?: number;
+  lastContributionAt?: number;
+};
+
+export type WeeklyContributorStats = ContributorStats & { weekStart: number };
+
+/** Start (Monday 00:00 UTC) of the week `timestamp` falls in. */
+export function weekStart(timestamp: number) {
+  const day = Math.floor(timestamp / DAY_MS);
+  // Day 0 of the epoch was a Thursday.
+  const daysSinceMonday = (((day + 3) % 7) + 7) % 7;
+  return (day - daysSinceMonday) * DAY_MS;
+}
+
+function aggregate(prs: AuthoredPullRequest[]): ContributorStats {
+  const createdTimes = prs.map((pr) => pr.createdAt);
+  return {
+    authoredCount: prs.length,
+    mergedCount: prs.filter((pr) => pr.status === "merged").length,
+    additions: sum(prs.map((pr) => pr.additions ?? 0)),
+    deletions: sum(prs.map((pr) => pr.deletions ?? 0)),
+    filesTouched: sum(prs.map((pr) => pr.changedFiles ?? 0)),
+    firstContributionAt:
+      createdTimes.length > 0 ? Math.min(...createdTimes) : undefined,
+    lastContributionAt:
+      createdTimes.length > 0 ? Math.max(...createdTimes) : undefined,
+  };
+}
+
+/**
+ * Aggregate a contributor's authored PRs into one stats row per week they
+ * opened a PR in, oldest first.
+ */
+export function computeWeeklyContributorStats(
+  prs: AuthoredPullRequest[]
+): WeeklyContributorStats[] {
+  const byWeek = new Map<number, AuthoredPullRequest[]>();
+  for (const pr of prs) {
+    const week = weekStart(pr.createdAt);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), pr]);
+  }
+  return [...byWeek]
+    .sort(([a], [b]) => a - b)
+    .map(([week, weekPrs]) => ({ weekStart: week, ...aggregate(weekPrs) }));
+}
+
+/**
+ * Sum weekly rows over a window. Windows cover whole weeks, so one can
+ * reach up to six days further back than its length.
+ */
+export function summarizeContributorStats(
+  weeks: WeeklyContributorStats[],
+  window: ContributorStatsWindow,
+  now: number
+): ContributorStats {
+  const windowMs = WINDOW_MS[window];
+  const from = windowMs === null ? -Infinity : weekStart(now - windowMs);
+  const inWindow = weeks.filter((week) => week.weekStart >= from);
+
+  const firsts = inWindow.flatMap((week) => week.firstContributionAt ?? []);
+  const lasts = inWindow.flatMap((week) => week.lastContributionAt ?? []);
+  return {
+    authoredCount: sum(inWindow.map((week) => week.authoredCount)),
+    mergedCount: sum(inWindow.map((week) => week.mergedCount)),
+    additions: sum(inWindow.map((week) => week.additions)),
+    deletions: sum(inWindow.map((week) => week.deletions)),
+    filesTouched: sum(inWindow.map((week) => week.filesTouched)),
+    firstContributionAt: firsts.length > 0 ? Math.min(...firsts) : undefined,
+    lastContributionAt: lasts.length > 0 ? Math.max(...lasts) : undefined,
+  };
+}
+
+/**
+ * PRs opened in each of the last `count` weeks up to the one containing
+ * `now`, oldest first, with zeros for quiet weeks.
+ */
+export function contributorTrend(
+  weeks: WeeklyContributorStats[],
+  now: number,
+  count = 12
+) {
+  const authoredByWeek = new Map(
+    weeks.map((week) => [week.weekStart, week.authoredCount])
+  );
+  const current = weekStart(now);
+  return Array.from({ length: count }, (_, index) => {
+    const week = current - (count - 1 - index) * WEEK_MS;
+    return { weekStart: week, authoredCount: authoredByWeek.get(week) ?? 0 };
+  });
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest";
+import { buildPatchContext, deriveImpactedPaths } from "./diff";
+
+const file = (filename: string, changedLines: number, patch?: string) => ({
+  filename,
+  status: "modified",
+  additions: changedLines,
+  deletions: 0,
+  patch,
+});
+
+describe("buildPatchContext", () => {
+  test("puts the most changed files first", () => {
+    const { chunks } = buildPatchContext([
+      file("small.ts", 1, "+a"),
+      file("large.ts", 50, "+b"),
+    ]);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].indexOf("large.ts")).toBeLessThan(
+      chunks[0].indexOf("small.ts")
+    );
+  });
+
+  test("cuts a patch over the per-file limit short", () => {
+    const { chunks, truncatedFiles, omittedFiles } = buildPatchContext(
+      [file("big.ts", 10, "x".repeat(100)), file("fits.ts", 1, "+y")],
+      { maxCharsPerFile: 20 }
+    );
+
+    expect(truncatedFiles).toEqual(["big.ts"]);
+    expect(omittedFiles).toEqual([]);
+    expect(chunks[0]).toContain(`${"x".repeat(20)}\n... (patch truncated)`);
+    expect(chunks[0]).not.toContain("x".repeat(21));
+  });
+
+  test("omits files once the chunk budget is spent", () => {
+    const { chunks, omittedFiles } = buildPatchContext(
+      [
+        file("a.ts", 4, "a".repeat(60)),
+        file("b.ts", 3, "b".repeat(60)),
+        file("c.ts", 2, "c".repeat(60)),
+      ],
+      { maxCharsPerChunk: 100, maxChunks: 2 }
+    );
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every((chunk) => chunk.length <= 100)).toBe(true);
+    expect(omittedFiles).toEqual(["c.ts"]);
+  });
+
+  test("caps a single file's section at the chunk size", () => {
+    const { chunks } = buildPatchContext([file("huge.ts", 1, "z".repeat(500))], {
+      maxCharsPerFile: 1000,
+      maxCharsPerChunk: 100,
+    });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toHaveLength(100);
+  });
+
+  test("describes files without a textual patch", () => {
+    const { chunks } = buildPatchContext([file("logo.png", 0)]);
+
+    expect(chunks[0]).toContain("(no textual patch: binary or too large)");
+  });
+});
+
+describe("deriveImpactedPaths", () => {
+  test("collapses paths to their top directories", () => {
+    expect(
+      deriveImpactedPaths([
+        "convex/agents/PRAnalyzer.ts",
+        "convex/agents/other.ts",
+        "lib/diff.ts",
+        "README.md",
+      ])
+    ).toEqual(["README.md", "convex/agents", "lib"]);
+  });
+});
@@ -0,0 +1,105 @@
+// Helpers for turning GitHub pull request file listings into bounded
+// prompt context for the PR Analyzer agent.
+
+export type PullRequestFilePatch = {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+};
+
+export type PatchContextOptions = {
+  // Max characters of patch kept for any single file.
+  maxCharsPerFile?: number;
+  // Max characters per chunk handed to the agent.
+  maxCharsPerChunk?: number;
+  // Max number of chunks; anything past this is dropped.
+  maxChunks?: number;
+};
+
+export type PatchContext = {
+  chunks: string[];
+  // Files whose patch was cut short or left out entirely.
+  truncatedFiles: string[];
+  omittedFiles: string[];
+};
+
+const DEFAULT_MAX_CHARS_PER_FILE = 4000;
+const DEFAULT_MAX_CHARS_PER_CHUNK = 12000;
+const DEFAULT_MAX_CHUNKS = 4;
+
+/**
+ * Render per-file unified diffs into a small number of size-bounded
+ * chunks. Files with the most changed lines come first so the riskiest
+ * parts of a large PR survive the budget.
+ */
+export function buildPatchContext(
+  files: PullRequestFilePatch[],
+  options: PatchContextOptions = {}
+): PatchContext {
+  const maxCharsPerFile = options.maxCharsPerFile ?? DEFAULT_MAX_CHARS_PER_FILE;
+  const maxCharsPerChunk =
+    options.maxCharsPerChunk ?? DEFAULT_MAX_CHARS_PER_CHUNK;
+  const maxChunks = options.maxChunks ?? DEFAULT_MAX_CHUNKS;
+
+  const ordered = [...files].sort(
+    (a, b) => b.additions + b.deletions - (a.additions + a.deletions)
+  );
+
+  const chunks: string[] = [];
+  const truncatedFiles: string[] = [];
+  const omittedFiles: string[] = [];
+  let current = "";
+
+  for (const file of ordered) {
+    const header = `--- ${file.filename} (${file.status}, +${file.additions} -${file.deletions})`;
+
+    let body = file.patch ?? "(no textual patch: binary or too large)";
+    if (body.length > maxCharsPerFile) {
+      body = `${body.slice(0, maxCharsPerFile)}\n... (patch truncated)`;
+      truncatedFiles.push(file.filename);
+    }
+
+    let section = `${header}\n${body}\n`;
+    if (section.length > maxCharsPerChunk) {
+      section = `${section.slice(0, maxCharsPerChunk - 1)}\n`;
+    }
+
+    if (current.length + section.length > maxCharsPerChunk) {
+      if (current) chunks.push(current);
+      current = "";
+    }
+
+    if (chunks.length >= maxChunks) {
+      omittedFiles.push(file.filename);
+      continue;
+    }
+
+    current += section;
+  }
+
+  if (current && chunks.length < maxChunks) {
+    chunks.push(current);
+  }
+
+  return { chunks, truncatedFiles, omittedFiles };
+}
+
+/**
+ * Collapse file paths into their top-level directories (or the file
+ * itself for root-level files), e.g. "convex/agents/PRAnalyzer.ts"
+ * becomes "convex/agents".
+ */
+export function deriveImpactedPaths(filenames: string[], depth = 2): string[] {
+  const paths = new Set<string>();
+  for (const filename of filenames) {
+    const segments = filename.split("/");
+    if (segments.length === 1) {
+      paths.add(filename);
+      continue;
+    }
+    paths.add(segments.slice(0, Math.min(depth, segments.length - 1)).join("/"));
+  }
+  return Array.from(paths).sort();
+}
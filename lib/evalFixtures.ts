@@ -0,0 +1,312 @@
+// Golden dataset for the offline agent evaluations (convex/evals.ts).
+// Inputs mirror what the production workflows pass to each agent; ids are
+// placeholders, since the evaluation never touches the database. Add a
+// case whenever an agent gets a real-world answer wrong.
+
+import type { PrAnalysisInput } from "../convex/agents/PRAnalyzer";
+
+type EvalCase<Input, Expected> = {
+  id: string;
+  description: string;
+  input: Input;
+  expected: Expected;
+};
+
+export type PrRiskCase = EvalCase<
+  { pr: PrAnalysisInput; patchChunks: string[] },
+  { riskLevel: "low" | "medium" | "high" | "critical" }
+>;
+
+export type ContributorProfileCase = EvalCase<
+  {
+    repo: { repoId: string; owner: string; name: string };
+    contributor: { contributorId: string; login: string; name: string | null };
+  } & Record<string, unknown>,
+  { role: string; seniority?: string }
+>;
+
+export type CallSummaryCase = EvalCase<
+  {
+    repoId: string;
+    callId: string;
+    transcript: string;
+  } & Record<string, unknown>,
+  { actionItems: string[][] }
+>;
+
+const REPO = { repoName: "shop", repoOwner: "acme" };
+
+export const PR_RISK_CASES: PrRiskCase[] = [
+  {
+    id: "docs-typo",
+    description: "README wording fix",
+    input: {
+      pr: {
+        ...REPO,
+        title: "Fix typos in README",
+        body: "Small wording fixes in the setup section.",
+        files: [
+          { filename: "README.md", status: "modified", additions: 3, deletions: 3 },
+        ],
+        changedSinceLastAnalysis: null,
+        truncatedFiles: [],
+        omittedFiles: [],
+      },
+      patchChunks: [
+        [
+          "diff --git a/README.md b/README.md",
+          "@@ -12,3 +12,3 @@",
+          "-Run the the dev server with:",
+          "+Run the dev server with:",
+          "-Enviroment variables go in `.env.local`.",
+          "+Environment variables go in `.env.local`.",
+        ].join("\n"),
+      ],
+    },
+    expected: { riskLevel: "low" },
+  },
+  {
+    id: "ui-empty-state",
+    description: "New empty state in a single UI component",
+    input: {
+      pr: {
+        ...REPO,
+        title: "Show an empty state on the orders page",
+        body: "Adds a friendly message when a customer has no orders yet.",
+        files: [
+          {
+            filename: "app/orders/page.tsx",
+            status: "modified",
+            additions: 14,
+            deletions: 2,
+          },
+        ],
+        changedSinceLastAnalysis: null,
+        truncatedFiles: [],
+        omittedFiles: [],
+      },
+      patchChunks: [
+        [
+          "diff --git a/app/orders/page.tsx b/app/orders/page.tsx",
+          "@@ -20,6 +20,18 @@ export default function OrdersPage() {",
+          "-  return <OrderList orders={orders} />;",
+          "+  if (orders.length === 0) {",
+          "+    return (",
+          "+      <EmptyState",
+          '+        title="No orders yet"',
+          '+        action={<Link href="/products">Browse products</Link>}',
+          "+      />",
+          "+    );",
+          "+  }",
+          "+  return <OrderList orders={orders} />;",
+        ].join("\n"),
+      ],
+    },
+    expected: { riskLevel: "low" },
+  },
+  {
+    id: "payment-retry",
+    description: "Changes retry behaviour of payment capture",
+    input: {
+      pr: {
+        ...REPO,
+        title: "Retry payment capture on timeouts",
+        body: "Captures sometimes time out at the provider. Retry up to 3 times.",
+        files: [
+          {
+            filename: "server/payments/capture.ts",
+            status: "modified",
+            additions: 28,
+            deletions: 6,
+          },
+        ],
+        changedSinceLastAnalysis: null,
+        truncatedFiles: [],
+        omittedFiles: [],
+      },
+      patchChunks: [
+        [
+          "diff --git a/server/payments/capture.ts b/server/payments/capture.ts",
+          "@@ -8,10 +8,32 @@ export async function capturePayment(orderId: string) {",
+          "-  const result = await provider.capture(order.paymentIntentId);",
+          "-  await markPaid(orderId, result);",
+          "+  let lastError: unknown;",
+          "+  for (let attempt = 0; attempt < 3; attempt++) {",
+          "+    try {",
+          "+      const result = await provider.capture(order.paymentIntentId);",
+          "+      await markPaid(orderId, result);",
+          "+      return result;",
+          "+    } catch (err) {",
+          "+      if (!isTimeout(err)) throw err;",
+          "+      lastError = err;",
+          "+    }",
+          "+  }",
+          "+  throw lastError;",
+        ].join("\n"),
+      ],
+    },
+    // Retrying a non-idempotent capture can double-charge customers.
+    expected: { riskLevel: "high" },
+  },
+  {
+    id: "drop-column",
+    description: "Destructive migration on the orders table",
+    input: {
+      pr: {
+        ...REPO,
+        title: "Remove legacy shipping columns",
+        body: "We moved shipping data to the shipments table last quarter.",
+        files: [
+          {
+            filename: "db/migrations/0042_drop_legacy_shipping.sql",
+            status: "added",
+            additions: 4,
+            deletions: 0,
+          },
+          {
+            filename: "server/orders/model.ts",
+            status: "modified",
+            additions: 0,
+            deletions: 9,
+          },
+        ],
+        changedSinceLastAnalysis: null,
+        truncatedFiles: [],
+        omittedFiles: [],
+      },
+      patchChunks: [
+        [
+          "diff --git a/db/migrations/0042_drop_legacy_shipping.sql b/db/migrations/0042_drop_legacy_shipping.sql",
+          "@@ -0,0 +1,4 @@",
+          "+ALTER TABLE orders DROP COLUMN shipping_address;",
+          "+ALTER TABLE orders DROP COLUMN shipping_method;",
+          "+ALTER TABLE orders DROP COLUMN tracking_number;",
+          "+ALTER TABLE orders DROP COLUMN shipped_at;",
+        ].join("\n"),
+      ],
+    },
+    expected: { riskLevel: "critical" },
+  },
+];
+
+export const CONTRIBUTOR_PROFILE_CASES: ContributorProfileCase[] = [
+  {
+    id: "frontend-regular",
+    description: "Mostly UI work with a handful of reviews",
+    input: {
+      repo: { repoId: "eval-repo", owner: "acme", name: "shop" },
+      contributor: {
+        contributorId: "eval-contributor-1",
+        login: "maria-ui",
+        name: null,
+      },
+      aggregateStats: {
+        prCount: 6,
+        linesChanged: 1840,
+        pathsTouched: ["app/orders", "components/cart", "components/ui"],
+      },
+      pullRequests: [
+        { prNumber: 101, title: "Cart drawer animations", status: "merged", impactedPaths: ["components/cart"], riskLevel: "low" },
+        { prNumber: 108, title: "Orders page pagination", status: "merged", impactedPaths: ["app/orders"], riskLevel: "medium" },
+        { prNumber: 115, title: "Button variants", status: "merged", impactedPaths: ["components/ui"], riskLevel: "low" },
+      ],
+      ownedPaths: [
+        { pathPrefix: "components/cart", commitCount: 24, lastTouchedAt: 0 },
+        { pathPrefix: "app/orders", commitCount: 11, lastTouchedAt: 0 },
+      ],
+      reviewActivity: {
+        reviewCount: 4,
+        approvals: 3,
+        changesRequested: 1,
+        reviewCommentCount: 6,
+        reviewedPrNumbers: [104, 110],
+        pathsReviewed: ["components/ui"],
+      },
+    },
+    expected: { role: "frontend" },
+  },
+  {
+    id: "infra-lead",
+    description: "Owns deploy and CI, reviews most infra changes",
+    input: {
+      repo: { repoId: "eval-repo", owner: "acme", name: "shop" },
+      contributor: {
+        contributorId: "eval-contributor-2",
+        login: "sam-ops",
+        name: "Sam",
+      },
+      aggregateStats: {
+        prCount: 14,
+        linesChanged: 5200,
+        pathsTouched: [".github/workflows", "infra/terraform", "docker"],
+      },
+      pullRequests: [
+        { prNumber: 90, title: "Move CI to reusable workflows", status: "merged", impactedPaths: [".github/workflows"], riskLevel: "medium" },
+        { prNumber: 95, title: "Terraform module for the read replica", status: "merged", impactedPaths: ["infra/terraform"], riskLevel: "high" },
+        { prNumber: 99, title: "Slim production Docker image", status: "merged", impactedPaths: ["docker"], riskLevel: "medium" },
+      ],
+      ownedPaths: [
+        { pathPrefix: "infra/terraform", commitCount: 61, lastTouchedAt: 0 },
+        { pathPrefix: ".github/workflows", commitCount: 38, lastTouchedAt: 0 },
+      ],
+      reviewActivity: {
+        reviewCount: 42,
+        approvals: 30,
+        changesRequested: 12,
+        reviewCommentCount: 88,
+        reviewedPrNumbers: [91, 93, 96, 97, 100, 102],
+        pathsReviewed: ["infra/terraform", ".github/workflows", "docker"],
+      },
+    },
+    expected: { role: "infra", seniority: "lead" },
+  },
+];
+
+export const CALL_SUMMARY_CASES: CallSummaryCase[] = [
+  {
+    id: "release-planning",
+    description: "Release sync with two clear follow-ups",
+    input: {
+      repoId: "eval-repo",
+      callId: "eval-call-1",
+      repo: { owner: "acme", name: "shop", description: null, url: "" },
+      call: { startedAt: null, status: "running" },
+      pullRequests: [
+        { prNumber: 120, title: "Checkout redesign", status: "open" },
+      ],
+      transcript: [
+        "[0:00] Alex: Checkout redesign is mostly done, but the PR still has no tests for the coupon flow.",
+        "[0:08] Priya: I'll add tests for coupon codes before we merge 120.",
+        "[0:15] Alex: Also the release notes are missing.",
+        "[0:19] Priya: Sam can write the release notes for Friday's release.",
+        "[0:26] Alex: Great, then we ship Friday.",
+      ].join("\n"),
+    },
+    expected: {
+      actionItems: [
+        ["test", "coupon"],
+        ["release notes"],
+      ],
+    },
+  },
+  {
+    id: "incident-review",
+    description: "Postmortem with a decision and one action item",
+    input: {
+      repoId: "eval-repo",
+      callId: "eval-call-2",
+      repo: { owner: "acme", name: "shop", description: null, url: "" },
+      call: { startedAt: null, status: "running" },
+      pullRequests: [],
+      transcript: [
+        "[0:00] Jo: Yesterday's outage was the connection pool running out during the sale.",
+        "[0:07] Lee: We agreed to raise the pool size to 50 as a stopgap, that's done already.",
+        "[0:16] Jo: The real fix is an alert on pool saturation. Lee, can you add that alert?",
+        "[0:24] Lee: Yes, I'll add the alert this week.",
+      ].join("\n"),
+    },
+    expected: {
+      actionItems: [["alert", "pool"]],
+    },
+  },
+];
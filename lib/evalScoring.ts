@@ -0,0 +1,252 @@
+// Scoring for the offline agent evaluations (convex/evals.ts). Every score
+// is a number in [0, 1] so suites can be averaged and compared between
+// prompt versions.
+
+export const EVAL_SUITES = [
+  "pr_risk",
+  "contributor_profile",
+  "call_summary",
+] as const;
+
+export type EvalSuite = (typeof EVAL_SUITES)[number];
+
+export type RecordedToolCall = { toolName: string; input: unknown };
+
+export type CaseScore = {
+  passed: boolean;
+  scores: Record<string, number>;
+  notes: string[];
+};
+
+const RISK_LEVELS = ["low", "medium", "high", "critical"] as const;
+
+/**
+ * A PR risk answer: exact matches pass, and `riskCloseness` gives partial
+ * credit for being one level off.
+ */
+export function scorePrRisk(
+  expected: { riskLevel: string },
+  actual: { riskLevel: string } | null
+): CaseScore {
+  if (!actual) {
+    return {
+      passed: false,
+      scores: { schemaValid: 0, riskAccuracy: 0, riskCloseness: 0 },
+      notes: ["No valid structured output"],
+    };
+  }
+
+  const expectedIndex = RISK_LEVELS.indexOf(
+    expected.riskLevel as (typeof RISK_LEVELS)[number]
+  );
+  const actualIndex = RISK_LEVELS.indexOf(
+    actual.riskLevel as (typeof RISK_LEVELS)[number]
+  );
+  const distance = Math.abs(expectedIndex - actualIndex);
+  const correct = distance === 0;
+  return {
+    passed: correct,
+    scores: {
+      schemaValid: 1,
+      riskAccuracy: correct ? 1 : 0,
+      riskCloseness: Math.max(0, 1 - distance / (RISK_LEVELS.length - 1)),
+    },
+    notes: correct
+      ? []
+      : [`Expected ${expected.riskLevel}, got ${actual.riskLevel}`],
+  };
+}
+
+/**
+ * Whether the agent called `toolName` exactly once, with the given ids
+ * as-is, and no other tool. Returns the call's input when it did.
+ */
+function checkSingleToolCall(
+  toolCalls: RecordedToolCall[],
+  toolName: string,
+  ids: Record<string, string>,
+  notes: string[]
+): Record<string, unknown> | null {
+  const matching = toolCalls.filter((call) => call.toolName === toolName);
+  if (matching.length !== 1) {
+    notes.push(`Expected one ${toolName} call, got ${matching.length}`);
+    return null;
+  }
+  if (toolCalls.length !== 1) {
+    notes.push(`Unexpected extra tool calls: ${toolCalls.length - 1}`);
+    return null;
+  }
+
+  const input = (matching[0].input ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(ids)) {
+    if (input[key] !== value) {
+      notes.push(`${toolName} got ${key}=${String(input[key])}, expected ${value}`);
+      return null;
+    }
+  }
+  return input;
+}
+
+export function scoreContributorProfile(
+  expected: { role: string; seniority?: string },
+  ids: { repoId: string; contributorId: string },
+  toolCalls: RecordedToolCall[]
+): CaseScore {
+  const notes: string[] = [];
+  const input = checkSingleToolCall(
+    toolCalls,
+    "saveRepoContributorProfile",
+    ids,
+    notes
+  );
+
+  const roleCorrect = input?.role === expected.role;
+  if (input && !roleCorrect) {
+    notes.push(`Expected role ${expected.role}, got ${String(input.role)}`);
+  }
+  const scores: Record<string, number> = {
+    toolCallCorrect: input ? 1 : 0,
+    roleAccuracy: roleCorrect ? 1 : 0,
+  };
+
+  let seniorityCorrect = true;
+  if (expected.seniority) {
+    seniorityCorrect = input?.seniority === expected.seniority;
+    scores.seniorityAccuracy = seniorityCorrect ? 1 : 0;
+    if (input && !seniorityCorrect) {
+      notes.push(
+        `Expected seniority ${expected.seniority}, got ${String(input.seniority)}`
+      );
+    }
+  }
+
+  return {
+    passed: Boolean(input) && roleCorrect && seniorityCorrect,
+    scores,
+    notes,
+  };
+}
+
+/**
+ * A call summary's action items against the expected ones. Each expected
+ * item is a list of keywords; it is found when one produced item mentions
+ * all of them (case-insensitive).
+ */
+export function scoreCallSummary(
+  expected: { actionItems: string[][] },
+  ids: { repoId: string; callId: string },
+  toolCalls: RecordedToolCall[]
+): CaseScore {
+  const notes: string[] = [];
+  const input = checkSingleToolCall(toolCalls, "saveCallInsights", ids, notes);
+
+  const produced = (
+    (input?.actionItems as { description?: string }[] | undefined) ?? []
+  ).map((item) => (item.description ?? "").toLowerCase());
+
+  const isFound = (keywords: string[]) =>
+    produced.some((description) =>
+      keywords.every((keyword) => description.includes(keyword.toLowerCase()))
+    );
+  const found = expected.actionItems.filter(isFound);
+  for (const keywords of expected.actionItems) {
+    if (!isFound(keywords)) notes.push(`Missing action item: ${keywords.join(" ")}`);
+  }
+
+  // Produced items that match no expected item count against precision.
+  const relevant = produced.filter((description) =>
+    expected.actionItems.some((keywords) =>
+      keywords.every((keyword) => description.includes(keyword.toLowerCase()))
+    )
+  );
+
+  const recall =
+    expected.actionItems.length > 0
+      ? found.length / expected.actionItems.length
+      : produced.length === 0
+        ? 1
+        : 0;
+  const precision =
+    produced.length > 0
+      ? relevant.length / produced.length
+      : expected.actionItems.length === 0
+        ? 1
+        : 0;
+
+  return {
+    passed: Boolean(input) && recall === 1,
+    scores: {
+      toolCallCorrect: input ? 1 : 0,
+      actionItemRecall: recall,
+      actionItemPrecision: precision,
+    },
+    notes,
+  };
+}
+
+/** Average every score across cases, plus the share of passing cases. */
+export function summarizeScores(results: { score: CaseScore | null }[]) {
+  const totals = new Map<string, { sum: number; count: number }>();
+  let passed = 0;
+
+  for (const { score } of results) {
+    if (!score) continue;
+    if (score.passed) passed++;
+    for (const [name, value] of Object.entries(score.scores)) {
+      const total = totals.get(name) ?? { sum: 0, count: 0 };
+      total.sum += value;
+      total.count++;
+      totals.set(name, total);
+    }
+  }
+
+  const metrics: Record<string, number> = {
+    passRate: results.length > 0 ? passed / results.length : 0,
+  };
+  for (const [name, { sum, count }] of totals) {
+    metrics[name] = sum / count;
+  }
+  return metrics;
+}
+
+/**
+ * Metric deltas and flipped cases between two runs of the same suite, for
+ * judging a prompt change.
+ */
+export function compareEvalReports(
+  base: {
+    metrics: Record<string, number>;
+    results: { caseId: string; passed: boolean }[];
+  },
+  candidate: {
+    metrics: Record<string, number>;
+    results: { caseId: string; passed: boolean }[];
+  }
+) {
+  const names = new Set([
+    ...Object.keys(base.metrics),
+    ...Object.keys(candidate.metrics),
+  ]);
+  const metrics = Array.from(names)
+    .sort()
+    .map((name) => ({
+      name,
+      base: base.metrics[name] ?? null,
+      candidate: candidate.metrics[name] ?? null,
+      delta:
+        base.metrics[name] != null && candidate.metrics[name] != null
+          ? candidate.metrics[name] - base.metrics[name]
+          : null,
+    }));
+
+  const basePassed = new Map(base.results.map((r) => [r.caseId, r.passed]));
+  const fixed: string[] = [];
+  const regressed: string[] = [];
+  for (const result of candidate.results) {
+    const before = basePassed.get(result.caseId);
+    if (before === undefined || before === result.passed) continue;
+    (result.passed ? fixed : regressed).push(result.caseId);
+  }
+
+  return { metrics, fixed, regressed };
+}
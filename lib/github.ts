@@ -6,11 +6,71 @@ export function createGithubClient(accessToken: string) {
   return {
     octokit,
 
+    // Who the token belongs to, the OAuth scopes it carries (null for
+    // fine-grained and app tokens, which do not report scopes) and its
+    // expiry if it has one.
+    async getTokenInfo() {
+      const { data, headers } = await octokit.users.getAuthenticated();
+      const scopesHeader = headers["x-oauth-scopes"];
+      const expirationHeader = headers["github-authentication-token-expiration"];
+
+      return {
+        login: data.login,
+        scopes:
+          typeof scopesHeader === "string"
+            ? scopesHeader
+                .split(",")
+                .map((scope) => scope.trim())
+                .filter(Boolean)
+            : null,
+        expiresAt:
+          typeof expirationHeader === "string"
+            ? new Date(expirationHeader.replace(" UTC", "Z")).getTime()
+            : undefined,
+      };
+    },
+
     async getRepo(owner: string, name: string) {
       const { data } = await octokit.repos.get({ owner, repo: name });
       return data;
     },
 
+    // Every path on a branch, via a single recursive git tree call.
+    async listRepoPaths(owner: string, name: string, ref: string) {
+      const { data } = await octokit.git.getTree({
+        owner,
+        repo: name,
+        tree_sha: ref,
+        recursive: "true",
+      });
+      return data.tree
+        .filter((entry) => entry.type === "blob" && entry.path)
+        .map((entry) => entry.path as string);
+    },
+
+    // Decoded UTF-8 contents of a file, or null when it does not exist or
+    // is too large for the contents API to inline.
+    async getFileContent(owner: string, name: string, path: string, ref: string) {
+      try {
+        const { data } = await octokit.repos.getContent({
+          owner,
+          repo: name,
+          path,
+          ref,
+        });
+        if (Array.isArray(data) || data.type !== "file" || !data.content) {
+          return null;
+        }
+        const binary = atob(data.content.replace(/\n/g, ""));
+        return new TextDecoder().decode(
+          Uint8Array.from(binary, (c) => c.charCodeAt(0))
+        );
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) return null;
+        throw error;
+      }
+    },
+
     async listPullRequests(owner: string, name: string) {
       const per_page = 50;
       let page = 1;
@@ -34,6 +94,92 @@ export function createGithubClient(accessToken: string) {
       return all;
     },
 
+    // Pull requests in any state updated at or after `since` (ms since
+    // epoch), newest first. Paging stops at the first older PR, so an
+    // incremental sync only lists what changed. The boundary PR is
+    // included so PRs sharing its timestamp are never skipped.
+    async listPullRequestsUpdatedSince(
+      owner: string,
+      name: string,
+      since?: number
+    ) {
+      const per_page = 100;
+      let page = 1;
+      const all: Awaited<ReturnType<typeof octokit.pulls.list>>["data"] = [];
+
+      while (true) {
+        const { data } = await octokit.pulls.list({
+          owner,
+          repo: name,
+          state: "all",
+          sort: "updated",
+          direction: "desc",
+          per_page,
+          page,
+        });
+
+        all.push(
+          ...(since == null
+            ? data
+            : data.filter((pr) => new Date(pr.updated_at).getTime() >= since))
+        );
+        if (data.length < per_page) break;
+        // Newest first: once a page reaches back past `since`, every later
+        // page is older still.
+        const oldest = data[data.length - 1];
+        if (since != null && new Date(oldest.updated_at).getTime() < since) {
+          break;
+        }
+        page += 1;
+      }
+
+      return all;
+    },
+
+    // Commits reachable from `branch` with a commit date at or after
+    // `since` (ms since epoch), newest first. The list endpoint carries no
+    // file or line stats; use getCommit for those.
+    async listCommitsSince(
+      owner: string,
+      name: string,
+      branch: string,
+      since?: number
+    ) {
+      const per_page = 100;
+      let page = 1;
+      const all: Awaited<
+        ReturnType<typeof octokit.repos.listCommits>
+      >["data"] = [];
+
+      while (true) {
+        const { data } = await octokit.repos.listCommits({
+          owner,
+          repo: name,
+          sha: branch,
+          since: since != null ? new Date(since).toISOString() : undefined,
+          per_page,
+          page,
+        });
+
+        if (data.length === 0) break;
+        all.push(...data);
+        if (data.length < per_page) break;
+        page += 1;
+      }
+
+      return all;
+    },
+
+    // A single commit with its stats and (up to 300) changed files.
+    async getCommit(owner: string, name: string, sha: string) {
+      const { data } = await octokit.repos.getCommit({
+        owner,
+        repo: name,
+        ref: sha,
+      });
+      return data;
+    },
+
     async getPullRequest(owner: string, name: string, number: number) {
       const { data } = await octokit.pulls.get({
         owner,
@@ -42,6 +188,234 @@ export function createGithubClient(accessToken: string) {
       });
       return data;
     },
+
+    async listPullRequestFiles(owner: string, name: string, number: number) {
+      const per_page = 100;
+      let page = 1;
+      const all: Awaited<
+        ReturnType<typeof octokit.pulls.listFiles>
+      >["data"] = [];
+
+      // GitHub caps this endpoint at 3000 files per pull request.
+      while (true) {
+        const { data } = await octokit.pulls.listFiles({
+          owner,
+          repo: name,
+          pull_number: number,
+          per_page,
+          page,
+        });
+
+        if (data.length === 0) break;
+        all.push(...data);
+        if (data.length < per_page) break;
+        page += 1;
+      }
+
+      return all;
+    },
+
+    async listPullRequestReviews(owner: string, name: string, number: number) {
+      const per_page = 100;
+      let page = 1;
+      const all: Awaited<
+        ReturnType<typeof octokit.pulls.listReviews>
+      >["data"] = [];
+
+      while (true) {
+        const { data } = await octokit.pulls.listReviews({
+          owner,
+          repo: name,
+          pull_number: number,
+          per_page,
+          page,
+        });
+
+        if (data.length === 0) break;
+        all.push(...data);
+        if (data.length < per_page) break;
+        page += 1;
+      }
+
+      return all;
+    },
+
+    // Inline (diff) review comments; top-level conversation comments live
+    // on the issues API and are not included.
+    async listPullRequestReviewComments(
+      owner: string,
+      name: string,
+      number: number
+    ) {
+      const per_page = 100;
+      let page = 1;
+      const all: Awaited<
+        ReturnType<typeof octokit.pulls.listReviewComments>
+      >["data"] = [];
+
+      while (true) {
+        const { data } = await octokit.pulls.listReviewComments({
+          owner,
+          repo: name,
+          pull_number: number,
+          per_page,
+          page,
+        });
+
+        if (data.length === 0) break;
+        all.push(...data);
+        if (data.length < per_page) break;
+        page += 1;
+      }
+
+      return all;
+    },
+
+    async requestReviewers(
+      owner: string,
+      name: string,
+      number: number,
+      reviewers: string[]
+    ) {
+      const { data } = await octokit.pulls.requestReviewers({
+        owner,
+        repo: name,
+        pull_number: number,
+        reviewers,
+      });
+      return data;
+    },
+
+    async listIssueComments(owner: string, name: string, number: number) {
+      const per_page = 100;
+      let page = 1;
+      const all: Awaited<
+        ReturnType<typeof octokit.issues.listComments>
+      >["data"] = [];
+
+      while (true) {
+        const { data } = await octokit.issues.listComments({
+          owner,
+          repo: name,
+          issue_number: number,
+          per_page,
+          page,
+        });
+
+        if (data.length === 0) break;
+        all.push(...data);
+        if (data.length < per_page) break;
+        page += 1;
+      }
+
+      return all;
+    },
+
+    async createIssueComment(
+      owner: string,
+      name: string,
+      number: number,
+      body: string
+    ) {
+      const { data } = await octokit.issues.createComment({
+        owner,
+        repo: name,
+        issue_number: number,
+        body,
+      });
+      return data;
+    },
+
+    async updateIssueComment(
+      owner: string,
+      name: string,
+      commentId: number,
+      body: string
+    ) {
+      const { data } = await octokit.issues.updateComment({
+        owner,
+        repo: name,
+        comment_id: commentId,
+        body,
+      });
+      return data;
+    },
+
+    // Commit statuses work with any token that can write to the repo,
+    // unlike check runs, which need a GitHub App installation token.
+    async createCommitStatus(
+      owner: string,
+      name: string,
+      sha: string,
+      status: {
+        state: "success" | "failure";
+        context: string;
+        description: string;
+      }
+    ) {
+      const { data } = await octokit.repos.createCommitStatus({
+        owner,
+        repo: name,
+        sha,
+        ...status,
+      });
+      return data;
+    },
+
+    async createRepoWebhook(
+      owner: string,
+      name: string,
+      url: string,
+      secret: string,
+      events: string[]
+    ) {
+      const { data } = await octokit.repos.createWebhook({
+        owner,
+        repo: name,
+        config: { url, content_type: "json", secret },
+        events,
+        active: true,
+      });
+      return data;
+    },
+
+    // The repo's webhook delivering to `url`, if one is registered.
+    async findRepoWebhook(owner: string, name: string, url: string) {
+      const hooks = await octokit.paginate(octokit.repos.listWebhooks, {
+        owner,
+        repo: name,
+        per_page: 100,
+      });
+      return hooks.find((hook) => hook.config.url === url) ?? null;
+    },
+
+    async updateRepoWebhook(
+      owner: string,
+      name: string,
+      hookId: number,
+      url: string,
+      secret: string,
+      events: string[]
+    ) {
+      const { data } = await octokit.repos.updateWebhook({
+        owner,
+        repo: name,
+        hook_id: hookId,
+        config: { url, content_type: "json", secret },
+        events,
+        active: true,
+      });
+      return data;
+    },
+
+    async compareCommits(owner: string, name: string, base: string, head: string) {
+      const { data } = await octokit.repos.compareCommitsWithBasehead({
+        owner,
+        repo: name,
+        basehead: `${base}...${head}`,
+      });
+      return data;
+    },
   };
 }
 
@@ -0,0 +1,28 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+
+// Server-only: resolve the signed-in user's GitHub OAuth token (via Clerk)
+// together with a Convex auth token, so route handlers can pass the GitHub
+// token straight to a Convex action without it ever reaching the browser.
+export async function getGithubOAuthContext() {
+  const { userId, getToken } = await auth();
+  if (!userId) {
+    return { error: new Response("Unauthorized", { status: 401 }) };
+  }
+
+  const tokens = await (await clerkClient()).users.getUserOauthAccessToken(
+    userId,
+    "github"
+  );
+  const githubAccessToken = tokens.data[0]?.token;
+  if (!githubAccessToken) {
+    return {
+      error: new Response(
+        "No GitHub OAuth token found. Make sure you've connected GitHub in Clerk.",
+        { status: 404 }
+      ),
+    };
+  }
+
+  const convexToken = (await getToken({ template: "convex" })) ?? undefined;
+  return { githubAccessToken, convexToken };
+}
@@ -0,0 +1,54 @@
+// Helpers for synthesized history checkpoints (see
+// replaceSynthesizedHistoryCheckpoints in convex/app.ts).
+
+// Checkpoints synthesized before synthesis had its own source type were
+// stored as "manual"; nothing else writes that type.
+export function isSynthesizedSourceType(sourceType: string) {
+  return sourceType === "synthesis" || sourceType === "manual";
+}
+
+// Synthesis runs over overlapping windows tend to restate the same
+// milestone with small wording changes ("Stripe checkout launched" /
+// "Launched Stripe checkout"), so titles are compared as sets of
+// significant words.
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "for",
+  "in",
+  "of",
+  "on",
+  "the",
+  "to",
+  "with",
+]);
+
+// Word overlap (Jaccard) at or above which two titles are the same.
+const NEAR_DUPLICATE_THRESHOLD = 0.75;
+
+function titleWords(title: string) {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .split(" ")
+      .filter((word) => word && !STOP_WORDS.has(word))
+  );
+}
+
+export function areNearDuplicateTitles(a: string, b: string) {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  const union = wordsA.size + wordsB.size - shared;
+  return shared / union >= NEAR_DUPLICATE_THRESHOLD;
+}
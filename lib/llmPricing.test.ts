@@ -0,0 +1,61 @@
+import { describe, expect, test } from "vitest";
+import {
+  UNKNOWN_MODEL_PRICE,
+  estimateLlmCostUsd,
+  usageMonth,
+  usageMonthStart,
+} from "./llmPricing";
+
+const MILLION = 1_000_000;
+
+describe("estimateLlmCostUsd", () => {
+  test("prices a known model from its list price", () => {
+    expect(estimateLlmCostUsd("gpt-4o-mini", MILLION, MILLION)).toBeCloseTo(
+      0.75
+    );
+  });
+
+  test("prices dated snapshots as their base model", () => {
+    expect(
+      estimateLlmCostUsd("gpt-4o-mini-2024-07-18", MILLION, 0)
+    ).toBeCloseTo(0.15);
+  });
+
+  test("does not price a model as a longer-named model it prefixes", () => {
+    expect(estimateLlmCostUsd("gpt-4.1-nano", MILLION, 0)).toBeCloseTo(0.1);
+    expect(estimateLlmCostUsd("gpt-4.1-mini", MILLION, 0)).toBeCloseTo(0.4);
+    expect(estimateLlmCostUsd("gpt-4.1", MILLION, 0)).toBeCloseTo(2);
+  });
+
+  test("prices unknown models at the highest listed price", () => {
+    const unknownCost =
+      UNKNOWN_MODEL_PRICE.inputPerMillion +
+      UNKNOWN_MODEL_PRICE.outputPerMillion;
+
+    for (const model of [
+      "llama3.1:8b",
+      "unknown",
+      "gpt-4.1-turbo",
+      "gpt-4o-preview",
+      "constructor",
+    ]) {
+      expect(estimateLlmCostUsd(model, MILLION, MILLION)).toBeCloseTo(
+        unknownCost
+      );
+    }
+    // gpt-4o has the highest input and output prices listed.
+    expect(unknownCost).toBeCloseTo(
+      estimateLlmCostUsd("gpt-4o", MILLION, MILLION)
+    );
+    expect(estimateLlmCostUsd("unknown", 0, 0)).toBe(0);
+  });
+});
+
+describe("usageMonth", () => {
+  test("round-trips with usageMonthStart in UTC", () => {
+    const timestamp = Date.UTC(2026, 0, 31, 23, 59);
+
+    expect(usageMonth(timestamp)).toBe("2026-01");
+    expect(usageMonthStart("2026-01")).toBe(Date.UTC(2026, 0, 1));
+  });
+});
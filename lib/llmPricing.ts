@@ -0,0 +1,64 @@
+// Estimated LLM cost from token counts. Prices are list prices in USD per
+// million tokens; update them when providers change their pricing.
+
+type ModelPrice = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+  "text-embedding-3-small": { inputPerMillion: 0.02, outputPerMillion: 0 },
+  "text-embedding-3-large": { inputPerMillion: 0.13, outputPerMillion: 0 },
+};
+
+// Models missing from MODEL_PRICES (overrides, self-hosted models, calls
+// that failed before naming one) are priced as the most expensive model
+// above, so spend on them still counts towards budgets.
+export const UNKNOWN_MODEL_PRICE: ModelPrice = {
+  inputPerMillion: Math.max(
+    ...Object.values(MODEL_PRICES).map((price) => price.inputPerMillion)
+  ),
+  outputPerMillion: Math.max(
+    ...Object.values(MODEL_PRICES).map((price) => price.outputPerMillion)
+  ),
+};
+
+// Providers report dated snapshots ("gpt-4o-mini-2024-07-18"); price them
+// as their base model. Anything else must match a model id exactly.
+const SNAPSHOT_DATE_SUFFIX = /-\d{4}-\d{2}-\d{2}$/;
+
+function priceFor(model: string): ModelPrice {
+  for (const name of [model, model.replace(SNAPSHOT_DATE_SUFFIX, "")]) {
+    if (Object.hasOwn(MODEL_PRICES, name)) return MODEL_PRICES[name];
+  }
+  return UNKNOWN_MODEL_PRICE;
+}
+
+/** Estimated cost in USD of one model call. */
+export function estimateLlmCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+) {
+  const price = priceFor(model);
+  return (
+    (promptTokens * price.inputPerMillion +
+      completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/** UTC calendar month of a timestamp, as "YYYY-MM". */
+export function usageMonth(timestamp: number) {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+/** Start of the UTC month `month` ("YYYY-MM"), in ms. */
+export function usageMonthStart(month: string) {
+  return Date.parse(`${month}-01T00:00:00.000Z`);
+}
@@ -0,0 +1,325 @@
+// Central registry of the language models our agents run on. Every agent
+// constructor and agent call resolves its model here, so switching models
+// or providers is configuration, not code.
+//
+// A model is chosen per agent, first match wins:
+//   1. the repo's `modelOverrides[agent]` (see convex/modelSettings.ts)
+//   2. the `LLM_MODEL_<AGENT>` environment variable, e.g.
+//      LLM_MODEL_HISTORY_SYNTHESIS="gpt-4o-mini"
+//   3. the `LLM_MODEL` environment variable
+//   4. DEFAULT_MODEL
+//
+// Each of these is a model spec: a model id, optionally prefixed with a
+// provider ("openai-compatible:llama3.1:8b"). Without a prefix the
+// `LLM_PROVIDER` environment variable (default "openai") decides.
+//
+// Search embeddings use one model for the whole deployment, from the
+// `LLM_EMBEDDING_MODEL` spec (default DEFAULT_EMBEDDING_MODEL). Stored
+// vectors are only comparable with vectors from the same model, and the
+// vector index has a fixed size, so the model must produce
+// EMBEDDING_DIMENSIONS-sized vectors.
+
+import { createOpenAI } from "@ai-sdk/openai";
+import type { EmbeddingModel, LanguageModel } from "ai";
+
+export const MODEL_AGENTS = [
+  "prAnalyzer",
+  "contributorProfiler",
+  "repoSnapshot",
+  "historySynthesis",
+  "callSummarizer",
+  "repoAssistant",
+] as const;
+
+export type ModelAgent = (typeof MODEL_AGENTS)[number];
+
+export const MODEL_PROVIDERS = ["openai", "openai-compatible", "mock"] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export type ModelChoice = { provider: ModelProvider; model: string };
+
+// Per-repo overrides, keyed by agent.
+export type ModelOverrides = Partial<Record<string, string>>;
+
+// A model instance rather than a gateway model id, so callers can wrap it
+// with AI SDK middleware.
+export type ProviderLanguageModel = Exclude<LanguageModel, string>;
+
+export type ProviderEmbeddingModel = Exclude<EmbeddingModel<string>, string>;
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const AGENT_ENV_NAMES: Record<ModelAgent, string> = {
+  prAnalyzer: "LLM_MODEL_PR_ANALYZER",
+  contributorProfiler: "LLM_MODEL_CONTRIBUTOR_PROFILER",
+  repoSnapshot: "LLM_MODEL_REPO_SNAPSHOT",
+  historySynthesis: "LLM_MODEL_HISTORY_SYNTHESIS",
+  callSummarizer: "LLM_MODEL_CALL_SUMMARIZER",
+  repoAssistant: "LLM_MODEL_REPO_ASSISTANT",
+};
+
+export function isModelAgent(value: string): value is ModelAgent {
+  return (MODEL_AGENTS as readonly string[]).includes(value);
+}
+
+function isModelProvider(value: string): value is ModelProvider {
+  return (MODEL_PROVIDERS as readonly string[]).includes(value);
+}
+
+function defaultProvider(): ModelProvider {
+  const configured = process.env.LLM_PROVIDER?.trim();
+  if (!configured) return "openai";
+  if (!isModelProvider(configured)) {
+    throw new Error(
+      `LLM_PROVIDER must be one of ${MODEL_PROVIDERS.join(", ")}`
+    );
+  }
+  return configured;
+}
+
+/**
+ * Parse a model spec ("gpt-4o" or "openai-compatible:llama3.1:8b"). Only a
+ * known provider name counts as a prefix, since local model ids often
+ * contain colons themselves.
+ */
+export function parseModelSpec(spec: string): ModelChoice {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(":");
+  if (separator > 0) {
+    const prefix = trimmed.slice(0, separator);
+    if (isModelProvider(prefix)) {
+      const model = trimmed.slice(separator + 1).trim();
+      if (!model) throw new Error(`Model spec "${spec}" is missing a model`);
+      return { provider: prefix, model };
+    }
+  }
+  if (!trimmed) throw new Error("Model spec is empty");
+  return { provider: defaultProvider(), model: trimmed };
+}
+
+/** The provider and model an agent runs on, given a repo's overrides. */
+export function resolveModelChoice(
+  agent: ModelAgent,
+  overrides?: ModelOverrides | null
+): ModelChoice {
+  const spec =
+    overrides?.[agent] ||
+    process.env[AGENT_ENV_NAMES[agent]] ||
+    process.env.LLM_MODEL ||
+    DEFAULT_MODEL;
+  return parseModelSpec(spec);
+}
+
+let openaiProvider: ReturnType<typeof createOpenAI> | null = null;
+let compatibleProvider: ReturnType<typeof createOpenAI> | null = null;
+
+// Local OpenAI-compatible servers (Ollama, vLLM, LM Studio, ...) take the
+// same chat completions API at their own base URL; most ignore the key.
+function openaiCompatible() {
+  if (!compatibleProvider) {
+    const baseURL = process.env.LLM_BASE_URL;
+    if (!baseURL) {
+      throw new Error(
+        "LLM_BASE_URL must be set to use the openai-compatible provider"
+      );
+    }
+    compatibleProvider = createOpenAI({
+      name: "openai-compatible",
+      baseURL,
+      apiKey: process.env.LLM_API_KEY ?? "not-needed",
+    });
+  }
+  return compatibleProvider;
+}
+
+export function languageModelForChoice(
+  choice: ModelChoice
+): ProviderLanguageModel {
+  switch (choice.provider) {
+    case "openai":
+      openaiProvider ??= createOpenAI();
+      return openaiProvider.chat(choice.model);
+    case "openai-compatible":
+      return openaiCompatible().chat(choice.model);
+    case "mock":
+      return createMockLanguageModel(choice.model);
+  }
+}
+
+/** The language model an agent runs on, given a repo's overrides. */
+export function languageModelFor(
+  agent: ModelAgent,
+  overrides?: ModelOverrides | null
+): ProviderLanguageModel {
+  return languageModelForChoice(resolveModelChoice(agent, overrides));
+}
+
+/** The model search documents and queries are embedded with. */
+export function embeddingModel(): ProviderEmbeddingModel {
+  const choice = parseModelSpec(
+    process.env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL
+  );
+  switch (choice.provider) {
+    case "openai":
+      openaiProvider ??= createOpenAI();
+      return openaiProvider.textEmbeddingModel(choice.model);
+    case "openai-compatible":
+      return openaiCompatible().textEmbeddingModel(choice.model);
+    case "mock":
+      return createMockEmbeddingModel(choice.model);
+  }
+}
+
+// --- Mock provider -------------------------------------------------------
+//
+// Deterministic stand-in for running the pipeline without a real model:
+// text calls answer with a fixed sentence, structured calls with the
+// simplest value that satisfies the requested JSON schema. Tools are never
+// called, and usage is reported from prompt and answer lengths so usage
+// accounting still has something to record.
+
+const MOCK_TEXT = "Mock response.";
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  minLength?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+};
+
+function mockValueForSchema(schema: JsonSchema | undefined): unknown {
+  if (!schema) return {};
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  const variant = schema.anyOf?.[0] ?? schema.oneOf?.[0];
+  if (variant) return mockValueForSchema(variant);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "string":
+      return "mock".padEnd(schema.minLength ?? 0, "-");
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    case "array":
+      return Array.from({ length: schema.minItems ?? 0 }, () =>
+        mockValueForSchema(schema.items)
+      );
+    default: {
+      const value: Record<string, unknown> = {};
+      for (const key of schema.required ?? []) {
+        value[key] = mockValueForSchema(schema.properties?.[key]);
+      }
+      return value;
+    }
+  }
+}
+
+function createMockLanguageModel(modelId: string): ProviderLanguageModel {
+  const answer = (options: {
+    prompt: unknown;
+    responseFormat?: { type: "text" } | { type: "json"; schema?: unknown };
+  }) => {
+    const text =
+      options.responseFormat?.type === "json"
+        ? JSON.stringify(
+            mockValueForSchema(options.responseFormat.schema as JsonSchema)
+          )
+        : MOCK_TEXT;
+    const inputTokens = Math.ceil(JSON.stringify(options.prompt).length / 4);
+    const outputTokens = Math.ceil(text.length / 4);
+    return {
+      text,
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  };
+
+  // Built by hand rather than with `ai/test`, which needs test-only
+  // dependencies that are not bundled with the deployment.
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async (options) => {
+      const { text, usage } = answer(options);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+    doStream: async (options) => {
+      const { text, usage } = answer(options);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "mock" });
+            controller.enqueue({ type: "text-delta", id: "mock", delta: text });
+            controller.enqueue({ type: "text-end", id: "mock" });
+            controller.enqueue({ type: "finish", finishReason: "stop", usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+// Hashes each word into one of the vector's dimensions, so texts sharing
+// words end up close and mock search still returns sensible matches.
+function createMockEmbeddingModel(
+  modelId: string
+): ProviderEmbeddingModel {
+  const embedText = (text: string) => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+      let hash = 0;
+      for (const char of word) {
+        hash = (hash * 31 + char.charCodeAt(0)) % EMBEDDING_DIMENSIONS;
+      }
+      vector[hash] += 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((value) => value / norm);
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: true,
+    doEmbed: async ({ values }) => ({
+      embeddings: values.map(embedText),
+      usage: {
+        tokens: values.reduce(
+          (total, value) => total + Math.ceil(value.length / 4),
+          0
+        ),
+      },
+    }),
+  };
+}
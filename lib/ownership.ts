@@ -0,0 +1,104 @@
+// Derive a path-prefix ownership map ("who knows this directory") from
+// commit history, weighting recent commits more heavily.
+
+export type OwnershipCommit = {
+  contributorId: string;
+  committedAt: number;
+  filenames: string[];
+};
+
+export type OwnershipOptions = {
+  // Directory levels to aggregate, e.g. 2 yields "convex" and
+  // "convex/agents" for "convex/agents/PRAnalyzer.ts".
+  depth?: number;
+  // A commit's weight halves every `halfLifeDays`.
+  halfLifeDays?: number;
+  // Owners kept per prefix.
+  topOwners?: number;
+};
+
+export type PathOwner = {
+  pathPrefix: string;
+  contributorId: string;
+  // Recency-weighted commit count; only comparable within a repo.
+  score: number;
+  commitCount: number;
+  lastTouchedAt: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Root-level files are grouped under this prefix.
+export const ROOT_PATH_PREFIX = "/";
+
+/**
+ * Directory prefixes a file belongs to, shallowest first, e.g.
+ * "convex/agents/PRAnalyzer.ts" -> ["convex", "convex/agents"].
+ */
+export function pathPrefixesFor(filename: string, depth = 2): string[] {
+  const dirs = filename.split("/").slice(0, -1);
+  if (dirs.length === 0) return [ROOT_PATH_PREFIX];
+
+  const prefixes: string[] = [];
+  for (let i = 1; i <= Math.min(depth, dirs.length); i++) {
+    prefixes.push(dirs.slice(0, i).join("/"));
+  }
+  return prefixes;
+}
+
+/**
+ * Score each contributor per path prefix. A commit counts once per
+ * prefix it touches regardless of how many files it changed there, so
+ * large generated or vendored commits do not swamp steady contributors.
+ */
+export function computeOwnershipMap(
+  commits: OwnershipCommit[],
+  now: number,
+  options: OwnershipOptions = {}
+): PathOwner[] {
+  const depth = options.depth ?? 2;
+  const halfLifeMs = (options.halfLifeDays ?? 90) * DAY_MS;
+  const topOwners = options.topOwners ?? 3;
+
+  const byPrefix = new Map<string, Map<string, PathOwner>>();
+
+  for (const commit of commits) {
+    const weight = Math.pow(
+      0.5,
+      Math.max(0, now - commit.committedAt) / halfLifeMs
+    );
+    const prefixes = new Set(
+      commit.filenames.flatMap((f) => pathPrefixesFor(f, depth))
+    );
+
+    for (const pathPrefix of prefixes) {
+      let owners = byPrefix.get(pathPrefix);
+      if (!owners) {
+        owners = new Map();
+        byPrefix.set(pathPrefix, owners);
+      }
+
+      const owner = owners.get(commit.contributorId) ?? {
+        pathPrefix,
+        contributorId: commit.contributorId,
+        score: 0,
+        commitCount: 0,
+        lastTouchedAt: 0,
+      };
+      owner.score += weight;
+      owner.commitCount += 1;
+      owner.lastTouchedAt = Math.max(owner.lastTouchedAt, commit.committedAt);
+      owners.set(commit.contributorId, owner);
+    }
+  }
+
+  const result: PathOwner[] = [];
+  for (const owners of byPrefix.values()) {
+    result.push(
+      ...Array.from(owners.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topOwners)
+    );
+  }
+  return result;
+}
@@ -0,0 +1,80 @@
+// Review timeline metrics for a single pull request, derived from its
+// synced reviews and inline review comments.
+
+export type ReviewEvent = {
+  reviewerId: string;
+  state: string;
+  commitId?: string;
+  submittedAt?: number;
+};
+
+export type ReviewCommentEvent = {
+  authorId: string;
+  commentedAt: number;
+};
+
+export type ReviewMetrics = {
+  timeToFirstReviewMs?: number;
+  approvalLatencyMs?: number;
+  reviewRounds: number;
+  reviewerCount: number;
+  reviewCommentCount: number;
+};
+
+/**
+ * Compute review metrics for a PR. Activity by the PR author (self
+ * reviews, replies to reviewers) and pending, unsubmitted reviews are
+ * ignored so the numbers reflect how long the author waited on others.
+ */
+export function computeReviewMetrics(input: {
+  authorId: string;
+  prCreatedAt: number;
+  reviews: ReviewEvent[];
+  comments: ReviewCommentEvent[];
+}): ReviewMetrics {
+  const reviews = input.reviews.filter(
+    (r) =>
+      r.reviewerId !== input.authorId &&
+      r.state !== "pending" &&
+      r.submittedAt != null
+  );
+  const comments = input.comments.filter(
+    (c) => c.authorId !== input.authorId
+  );
+
+  const activityTimes = [
+    ...reviews.map((r) => r.submittedAt as number),
+    ...comments.map((c) => c.commentedAt),
+  ];
+  const firstActivityAt =
+    activityTimes.length > 0 ? Math.min(...activityTimes) : undefined;
+
+  const approvalTimes = reviews
+    .filter((r) => r.state === "approved")
+    .map((r) => r.submittedAt as number);
+  const firstApprovalAt =
+    approvalTimes.length > 0 ? Math.min(...approvalTimes) : undefined;
+
+  // Each head commit that drew at least one review counts as a round;
+  // reviews without a commit id (rare, older data) share one round.
+  const rounds = new Set(reviews.map((r) => r.commitId ?? ""));
+
+  const reviewers = new Set([
+    ...reviews.map((r) => r.reviewerId),
+    ...comments.map((c) => c.authorId),
+  ]);
+
+  return {
+    timeToFirstReviewMs:
+      firstActivityAt != null
+        ? Math.max(0, firstActivityAt - input.prCreatedAt)
+        : undefined,
+    approvalLatencyMs:
+      firstApprovalAt != null
+        ? Math.max(0, firstApprovalAt - input.prCreatedAt)
+        : undefined,
+    reviewRounds: rounds.size,
+    reviewerCount: reviewers.size,
+    reviewCommentCount: comments.length,
+  };
+}
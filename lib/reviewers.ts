@@ -0,0 +1,105 @@
+// Rank candidate reviewers for a pull request from path ownership,
+// self-declared areas, past review activity and current review load.
+
+import { pathPrefixesFor } from "./ownership";
+
+export type ReviewerCandidate = {
+  contributorId: string;
+  login: string;
+  // Labels set by the Contributor Profiler, e.g. "convex/agents".
+  mainAreas: string[];
+  // Ownership score per path prefix, from pathOwnership.
+  ownership: Record<string, number>;
+  // Past reviews or review comments per path prefix.
+  reviewedPrefixes: Record<string, number>;
+  // Review requests currently pending on other open PRs.
+  openReviewLoad: number;
+};
+
+export type ReviewerSuggestion = {
+  contributorId: string;
+  login: string;
+  score: number;
+  reasons: string[];
+};
+
+// Relative weight of each signal. Ownership dominates because it is
+// derived from every commit; areas and review history break ties.
+const OWNERSHIP_WEIGHT = 3;
+const AREA_WEIGHT = 1;
+const REVIEW_HISTORY_WEIGHT = 0.5;
+// Each pending review request shrinks a candidate's score by this share.
+const LOAD_PENALTY = 0.25;
+
+/**
+ * Score candidates against the files a PR touches and return the best
+ * `limit`, each with human-readable reasons. Candidates with no signal
+ * at all for the PR's paths are never suggested.
+ */
+export function rankReviewers(
+  filenames: string[],
+  candidates: ReviewerCandidate[],
+  limit = 3
+): ReviewerSuggestion[] {
+  const prefixes = new Set(filenames.flatMap((f) => pathPrefixesFor(f)));
+
+  const scored = candidates.map((candidate) => {
+    const reasons: string[] = [];
+
+    const ownedPrefixes = [...prefixes].filter(
+      (prefix) => (candidate.ownership[prefix] ?? 0) > 0
+    );
+    const ownershipScore = ownedPrefixes.reduce(
+      (total, prefix) => total + Math.log1p(candidate.ownership[prefix]),
+      0
+    );
+    if (ownedPrefixes.length > 0) {
+      reasons.push(`Frequent committer in ${ownedPrefixes.join(", ")}`);
+    }
+
+    const matchedAreas = candidate.mainAreas.filter((area) =>
+      filenames.some(
+        (f) => f.startsWith(`${area}/`) || f.split("/").includes(area)
+      )
+    );
+    if (matchedAreas.length > 0) {
+      reasons.push(`Main areas include ${matchedAreas.join(", ")}`);
+    }
+
+    const reviewedPrefixes = [...prefixes].filter(
+      (prefix) => (candidate.reviewedPrefixes[prefix] ?? 0) > 0
+    );
+    const reviewScore = reviewedPrefixes.reduce(
+      (total, prefix) => total + Math.log1p(candidate.reviewedPrefixes[prefix]),
+      0
+    );
+    if (reviewedPrefixes.length > 0) {
+      reasons.push(`Has reviewed changes in ${reviewedPrefixes.join(", ")}`);
+    }
+
+    const signal =
+      OWNERSHIP_WEIGHT * ownershipScore +
+      AREA_WEIGHT * matchedAreas.length +
+      REVIEW_HISTORY_WEIGHT * reviewScore;
+
+    if (signal > 0 && candidate.openReviewLoad > 0) {
+      reasons.push(
+        `${candidate.openReviewLoad} pending review request${
+          candidate.openReviewLoad === 1 ? "" : "s"
+        } elsewhere`
+      );
+    }
+
+    return {
+      contributorId: candidate.contributorId,
+      login: candidate.login,
+      score: signal / (1 + LOAD_PENALTY * candidate.openReviewLoad),
+      reasons,
+    };
+  });
+
+  return scored
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,266 @@
+// What gets indexed for repo search (convex/search.ts): documents for
+// each PR, PR analysis, call, call action item and history checkpoint,
+// with the text that is both embedded and keyword-searched. Long sources
+// are split into several chunk documents.
+
+export const SEARCH_SOURCE_TYPES = [
+  "pull_request",
+  "pr_analysis",
+  "call",
+  "call_action_item",
+  "history_checkpoint",
+] as const;
+
+export type SearchSourceType = (typeof SEARCH_SOURCE_TYPES)[number];
+
+export type SearchDocumentContent = {
+  sourceType: SearchSourceType;
+  sourceId: string;
+  title: string;
+  text: string;
+  eventAt: number;
+  // Position of this chunk in its source's text, from 0.
+  chunkIndex: number;
+  // Where a result opens on the repo page.
+  pullRequestId?: string;
+  callId?: string;
+};
+
+// Embedding models take about 8k tokens, so long transcripts and PR
+// bodies are split into chunks well under that. Smaller chunks also keep
+// a match's embedding about the part of the text that matched.
+export const MAX_CHUNK_LENGTH = 8_000;
+
+type PullRequestSource = {
+  _id: string;
+  prNumber: number;
+  title: string;
+  body?: string;
+  createdAt: number;
+};
+
+type PrAnalysisSource = {
+  _id: string;
+  pullRequestId: string;
+  summary?: string;
+  createdAt: number;
+  updatedAt?: number;
+};
+
+type CallSource = {
+  _id: string;
+  shortSummary?: string;
+  transcript?: string;
+  tags: string[];
+  startTime: number;
+};
+
+type CallActionItemSource = {
+  _id: string;
+  callId: string;
+  description: string;
+  createdAt: number;
+};
+
+type HistoryCheckpointSource = {
+  _id: string;
+  title: string;
+  description?: string;
+  eventAt: number;
+};
+
+function joinText(parts: (string | undefined)[]) {
+  return parts
+    .filter((part): part is string => Boolean(part?.trim()))
+    .join("\n\n");
+}
+
+/**
+ * Split text into chunks of at most `maxLength` characters, breaking at
+ * the last line break or space in a chunk's second half when there is
+ * one so words stay whole.
+ */
+export function chunkText(text: string, maxLength = MAX_CHUNK_LENGTH) {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const lineBreak = window.lastIndexOf("\n");
+    const space = window.lastIndexOf(" ");
+    const end =
+      lineBreak >= maxLength / 2
+        ? lineBreak
+        : space >= maxLength / 2
+          ? space
+          : maxLength;
+    chunks.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+/**
+ * The search documents for a repo's current data. Sources with no text
+ * to search (e.g. a pending analysis) are left out.
+ */
+export function buildSearchDocuments(sources: {
+  pullRequests: PullRequestSource[];
+  prAnalyses: PrAnalysisSource[];
+  calls: CallSource[];
+  callActionItems: CallActionItemSource[];
+  historyCheckpoints: HistoryCheckpointSource[];
+}): SearchDocumentContent[] {
+  const prNumbers = new Map(
+    sources.pullRequests.map((pr) => [pr._id, pr.prNumber])
+  );
+  const documents: SearchDocumentContent[] = [];
+  const push = (
+    document: Omit<SearchDocumentContent, "text" | "chunkIndex">,
+    text: string
+  ) => {
+    chunkText(text).forEach((chunk, chunkIndex) => {
+      documents.push({ ...document, text: chunk, chunkIndex });
+    });
+  };
+
+  for (const pr of sources.pullRequests) {
+    push(
+      {
+        sourceType: "pull_request",
+        sourceId: pr._id,
+        title: `#${pr.prNumber} ${pr.title}`,
+        eventAt: pr.createdAt,
+        pullRequestId: pr._id,
+      },
+      joinText([pr.title, pr.body])
+    );
+  }
+
+  for (const analysis of sources.prAnalyses) {
+    if (!analysis.summary) continue;
+    const prNumber = prNumbers.get(analysis.pullRequestId);
+    push(
+      {
+        sourceType: "pr_analysis",
+        sourceId: analysis._id,
+        title: prNumber ? `Analysis of #${prNumber}` : "PR analysis",
+        eventAt: analysis.updatedAt ?? analysis.createdAt,
+        pullRequestId: analysis.pullRequestId,
+      },
+      joinText([analysis.summary])
+    );
+  }
+
+  for (const call of sources.calls) {
+    push(
+      {
+        sourceType: "call",
+        sourceId: call._id,
+        title: call.tags.length > 0 ? `Call: ${call.tags.join(", ")}` : "Call",
+        eventAt: call.startTime,
+        callId: call._id,
+      },
+      joinText([call.shortSummary, call.transcript])
+    );
+  }
+
+  for (const item of sources.callActionItems) {
+    push(
+      {
+        sourceType: "call_action_item",
+        sourceId: item._id,
+        title: "Call action item",
+        eventAt: item.createdAt,
+        callId: item.callId,
+      },
+      joinText([item.description])
+    );
+  }
+
+  for (const checkpoint of sources.historyCheckpoints) {
+    push(
+      {
+        sourceType: "history_checkpoint",
+        sourceId: checkpoint._id,
+        title: checkpoint.title,
+        eventAt: checkpoint.eventAt,
+      },
+      joinText([checkpoint.title, checkpoint.description])
+    );
+  }
+
+  return documents;
+}
+
+/**
+ * A fingerprint of what a document's embedding depends on, so the index
+ * job can tell changed documents apart without reading stored text or
+ * vectors. cyrb53: a fast 53-bit string hash, plenty for change
+ * detection.
+ */
+export function searchDocumentHash(
+  document: Pick<SearchDocumentContent, "title" | "text" | "eventAt">
+) {
+  const input = JSON.stringify([document.title, document.text, document.eventAt]);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Merge keyword and vector result lists with reciprocal rank fusion: a
+ * document scores 1 / (k + rank) in each list it appears in, so documents
+ * both searches rank highly come first without comparing their raw
+ * scores.
+ */
+export function fuseRankings<T extends string>(
+  keywordIds: T[],
+  vectorIds: T[],
+  k = 60
+) {
+  const scores = new Map<
+    T,
+    { score: number; keyword: boolean; vector: boolean }
+  >();
+  const add = (ids: T[], field: "keyword" | "vector") => {
+    ids.forEach((id, rank) => {
+      const entry = scores.get(id) ?? { score: 0, keyword: false, vector: false };
+      entry.score += 1 / (k + rank + 1);
+      entry[field] = true;
+      scores.set(id, entry);
+    });
+  };
+  add(keywordIds, "keyword");
+  add(vectorIds, "vector");
+
+  return Array.from(scores, ([id, entry]) => ({ id, ...entry })).sort(
+    (a, b) => b.score - a.score
+  );
+}
+
+/**
+ * A short excerpt of `text` around the first query word it contains, or
+ * its start when none is found.
+ */
+export function searchSnippet(text: string, query: string, length = 200) {
+  const lower = text.toLowerCase();
+  const positions = (query.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .map((word) => lower.indexOf(word))
+    .filter((position) => position >= 0);
+  const start =
+    positions.length > 0 ? Math.max(0, Math.min(...positions) - length / 4) : 0;
+  const snippet = text.slice(start, start + length).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${
+    start + length < text.length ? "…" : ""
+  }`;
+}
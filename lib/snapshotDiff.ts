@@ -0,0 +1,87 @@
+// What changed between two repo snapshots (convex/repoSnapshots.ts).
+// Snapshot lists are free text written by an agent, so items are matched
+// case- and whitespace-insensitively.
+
+export type SnapshotContent = {
+  techStackSummary: string;
+  mainModules: string[];
+  riskyAreas: string[];
+  suggestedNextSteps: string[];
+};
+
+export type SnapshotDiff = {
+  modulesAdded: string[];
+  modulesRemoved: string[];
+  riskyAreasAppeared: string[];
+  riskyAreasResolved: string[];
+  // Steps from the base snapshot reported done since.
+  nextStepsCompleted: string[];
+  // Steps from the base snapshot no longer suggested, without being done.
+  nextStepsDropped: string[];
+  nextStepsAdded: string[];
+};
+
+function normalize(item: string) {
+  return item.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Items of `items` that are not in `other`.
+function missingFrom(items: string[], other: string[]) {
+  const keys = new Set(other.map(normalize));
+  return items.filter((item) => !keys.has(normalize(item)));
+}
+
+/**
+ * Diff a base snapshot against a later one. `completedNextSteps` are the
+ * steps the snapshot agent reported done in the snapshots after the base,
+ * up to and including the candidate.
+ */
+export function diffRepoSnapshots(
+  base: SnapshotContent,
+  candidate: SnapshotContent,
+  completedNextSteps: string[]
+): SnapshotDiff {
+  const completedKeys = new Set(completedNextSteps.map(normalize));
+  const nextStepsCompleted = base.suggestedNextSteps.filter((step) =>
+    completedKeys.has(normalize(step))
+  );
+
+  return {
+    modulesAdded: missingFrom(candidate.mainModules, base.mainModules),
+    modulesRemoved: missingFrom(base.mainModules, candidate.mainModules),
+    riskyAreasAppeared: missingFrom(candidate.riskyAreas, base.riskyAreas),
+    riskyAreasResolved: missingFrom(base.riskyAreas, candidate.riskyAreas),
+    nextStepsCompleted,
+    nextStepsDropped: missingFrom(
+      missingFrom(base.suggestedNextSteps, candidate.suggestedNextSteps),
+      nextStepsCompleted
+    ),
+    nextStepsAdded: missingFrom(
+      candidate.suggestedNextSteps,
+      base.suggestedNextSteps
+    ),
+  };
+}
+
+export function isEmptySnapshotDiff(diff: SnapshotDiff) {
+  return Object.values(diff).every((items) => items.length === 0);
+}
+
+/** A short plain-text account of a diff, for history checkpoints. */
+export function describeSnapshotDiff(diff: SnapshotDiff) {
+  if (isEmptySnapshotDiff(diff)) {
+    return "No changes to modules, risky areas or next steps.";
+  }
+
+  const lines: string[] = [];
+  const add = (label: string, items: string[]) => {
+    if (items.length > 0) lines.push(`${label}: ${items.join("; ")}`);
+  };
+  add("New modules", diff.modulesAdded);
+  add("Removed modules", diff.modulesRemoved);
+  add("New risky areas", diff.riskyAreasAppeared);
+  add("Resolved risky areas", diff.riskyAreasResolved);
+  add("Completed next steps", diff.nextStepsCompleted);
+  add("New next steps", diff.nextStepsAdded);
+  return lines.join("\n");
+}
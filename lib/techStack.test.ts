@@ -0,0 +1,220 @@
+import { describe, expect, test } from "vitest";
+import { mergeTechStackItems, parseManifest } from "./techStack";
+
+// name -> version, for items found in one manifest.
+const versions = (path: string, text: string | null) =>
+  Object.fromEntries(
+    parseManifest(path, text).map((item) => [item.name, item.version])
+  );
+
+describe("parseManifest", () => {
+  test("reads package.json dependencies, engines and package manager", () => {
+    const text = JSON.stringify({
+      dependencies: { next: "^15.0.0", "left-pad": "1.0.0" },
+      devDependencies: { typescript: "~5.6.0", vitest: "*" },
+      engines: { node: ">=20" },
+      packageManager: "pnpm@9.1.0+sha256.abc",
+    });
+
+    expect(versions("package.json", text)).toEqual({
+      TypeScript: "~5.6.0",
+      "Node.js": ">=20",
+      pnpm: "9.1.0",
+      "Next.js": "^15.0.0",
+      Vitest: undefined,
+    });
+  });
+
+  test("ignores package.json fields of the wrong type", () => {
+    const text = JSON.stringify({
+      dependencies: ["react"],
+      devDependencies: { react: { version: "18" }, zod: "3.23.0" },
+      engines: "node",
+      packageManager: 9,
+    });
+
+    expect(versions("package.json", text)).toEqual({
+      JavaScript: undefined,
+      Zod: "3.23.0",
+    });
+    expect(parseManifest("package.json", "{ not json")).toEqual([]);
+    expect(parseManifest("package.json", "null")).toEqual([
+      expect.objectContaining({ name: "JavaScript" }),
+    ]);
+  });
+
+  test("takes exact versions from package-lock.json, v1 and v2+", () => {
+    const v3 = JSON.stringify({
+      packages: {
+        "node_modules/react": { version: "18.3.1" },
+        "node_modules/typescript": { version: "5.6.3" },
+      },
+    });
+    const v1 = JSON.stringify({
+      dependencies: { react: { version: "17.0.2" } },
+    });
+
+    expect(versions("package-lock.json", v3)).toEqual({
+      npm: undefined,
+      React: "18.3.1",
+      TypeScript: "5.6.3",
+    });
+    expect(versions("package-lock.json", v1)).toEqual({
+      npm: undefined,
+      React: "17.0.2",
+    });
+    expect(parseManifest("package-lock.json", "[1, 2]")).toEqual([
+      expect.objectContaining({ name: "npm" }),
+    ]);
+  });
+
+  test("reports other lockfiles by presence only", () => {
+    expect(versions("yarn.lock", null)).toEqual({ Yarn: undefined });
+    expect(parseManifest("package.json", null)).toEqual([]);
+  });
+
+  test("reads go.mod requires inside and outside blocks", () => {
+    const text = [
+      "module example.com/app",
+      "",
+      "go 1.22",
+      "",
+      "require github.com/gin-gonic/gin v1.10.0",
+      "require (",
+      "\tgorm.io/gorm v1.25.10",
+      "\tgithub.com/unknown/module v0.1.0",
+      ")",
+    ].join("\n");
+
+    expect(versions("go.mod", text)).toEqual({
+      Go: "1.22",
+      Gin: "v1.10.0",
+      GORM: "v1.25.10",
+    });
+  });
+
+  test("reads Cargo.toml plain and inline-table versions", () => {
+    const text = [
+      "[package]",
+      'edition = "2021"',
+      "",
+      "[dependencies]",
+      'axum = "0.7"',
+      'tokio = { version = "1.38", features = ["full"] }',
+      'serde = { path = "../serde" }',
+    ].join("\n");
+
+    expect(versions("Cargo.toml", text)).toEqual({
+      Rust: "edition 2021",
+      Axum: "0.7",
+      Tokio: "1.38",
+      Serde: undefined,
+    });
+  });
+
+  test("reads pyproject.toml PEP 621 and Poetry dependencies", () => {
+    const pep621 = [
+      "[project]",
+      'requires-python = ">=3.11"',
+      "dependencies = [",
+      '  "fastapi[all]>=0.110",',
+      '  "pydantic==2.7.0",',
+      "]",
+    ].join("\n");
+    const poetry = [
+      "[tool.poetry]",
+      'name = "app"',
+      "",
+      "[tool.poetry.dependencies]",
+      'python = "^3.12"',
+      'Django = "^5.0"',
+    ].join("\n");
+
+    expect(versions("pyproject.toml", pep621)).toEqual({
+      Python: ">=3.11",
+      FastAPI: ">=0.110",
+      Pydantic: "2.7.0",
+    });
+    expect(versions("pyproject.toml", poetry)).toEqual({
+      Python: undefined,
+      Django: "^5.0",
+      Poetry: undefined,
+    });
+  });
+
+  test("reads requirements.txt, skipping comments and options", () => {
+    const text = [
+      "# web",
+      "-r base.txt",
+      "Flask==3.0.3  # pinned",
+      "SQLAlchemy>=2.0",
+    ].join("\n");
+
+    expect(parseManifest("requirements.txt", text)).toEqual([
+      expect.objectContaining({ name: "Python" }),
+      expect.objectContaining({
+        name: "Flask",
+        version: "3.0.3",
+        exactVersion: true,
+      }),
+      expect.objectContaining({
+        name: "SQLAlchemy",
+        version: ">=2.0",
+        exactVersion: false,
+      }),
+    ]);
+  });
+
+  test("reads runtimes from Dockerfile stages", () => {
+    const text = [
+      "FROM --platform=linux/amd64 node:20.11-alpine AS build",
+      "FROM python:3.12-slim",
+      "FROM nginx:1.27",
+    ].join("\n");
+
+    expect(versions("Dockerfile", text)).toEqual({
+      Docker: undefined,
+      "Node.js": "20.11",
+      Python: "3.12",
+    });
+  });
+
+  test("reads node versions from GitHub Actions workflows", () => {
+    expect(
+      versions(".github/workflows/ci.yml", "with:\n  node-version: '20'\n")
+    ).toEqual({ "GitHub Actions": undefined, "Node.js": "20" });
+  });
+});
+
+describe("mergeTechStackItems", () => {
+  test("prefers lockfile versions and drops JavaScript for TypeScript", () => {
+    const merged = mergeTechStackItems([
+      ...parseManifest(
+        "package.json",
+        JSON.stringify({
+          dependencies: { react: "^18.0.0" },
+          devDependencies: { typescript: "^5.0.0" },
+        })
+      ),
+      ...parseManifest(
+        "web/package.json",
+        JSON.stringify({ dependencies: { react: "^18.2.0" } })
+      ),
+      ...parseManifest(
+        "package-lock.json",
+        JSON.stringify({
+          packages: { "node_modules/react": { version: "18.3.1" } },
+        })
+      ),
+    ]);
+
+    expect(merged.find((item) => item.name === "React")).toEqual({
+      itemType: "framework",
+      name: "React",
+      version: "18.3.1",
+      exactVersion: true,
+      sources: ["package.json", "web/package.json", "package-lock.json"],
+    });
+    expect(merged.map((item) => item.name)).not.toContain("JavaScript");
+  });
+});
@@ -0,0 +1,602 @@
+// Deterministic tech stack detection from repository manifests.
+//
+// Each parser takes the path and text of a single manifest and returns
+// the items it can infer. `mergeTechStackItems` then folds them into one
+// list keyed by (itemType, name), preferring exact lockfile versions.
+
+export type TechStackItemType =
+  | "language"
+  | "framework"
+  | "library"
+  | "database"
+  | "infrastructure"
+  | "tooling";
+
+export type DetectedTechStackItem = {
+  itemType: TechStackItemType;
+  name: string;
+  version?: string;
+  // Manifest paths the item was found in.
+  sources: string[];
+  // Exact versions (lockfiles) win over version ranges (manifests).
+  exactVersion?: boolean;
+};
+
+type CatalogEntry = { itemType: TechStackItemType; name: string };
+
+// Known npm packages. Anything not listed here is ignored so the stack
+// stays a readable summary rather than a dependency dump.
+const NPM_CATALOG: Record<string, CatalogEntry> = {
+  next: { itemType: "framework", name: "Next.js" },
+  react: { itemType: "framework", name: "React" },
+  vue: { itemType: "framework", name: "Vue" },
+  nuxt: { itemType: "framework", name: "Nuxt" },
+  svelte: { itemType: "framework", name: "Svelte" },
+  "@sveltejs/kit": { itemType: "framework", name: "SvelteKit" },
+  "@angular/core": { itemType: "framework", name: "Angular" },
+  "@remix-run/react": { itemType: "framework", name: "Remix" },
+  astro: { itemType: "framework", name: "Astro" },
+  express: { itemType: "framework", name: "Express" },
+  fastify: { itemType: "framework", name: "Fastify" },
+  koa: { itemType: "framework", name: "Koa" },
+  hono: { itemType: "framework", name: "Hono" },
+  "@nestjs/core": { itemType: "framework", name: "NestJS" },
+  "react-native": { itemType: "framework", name: "React Native" },
+  electron: { itemType: "framework", name: "Electron" },
+  tailwindcss: { itemType: "library", name: "Tailwind CSS" },
+  "framer-motion": { itemType: "library", name: "Framer Motion" },
+  "@tanstack/react-query": { itemType: "library", name: "TanStack Query" },
+  redux: { itemType: "library", name: "Redux" },
+  "@reduxjs/toolkit": { itemType: "library", name: "Redux" },
+  zod: { itemType: "library", name: "Zod" },
+  ai: { itemType: "library", name: "Vercel AI SDK" },
+  openai: { itemType: "library", name: "OpenAI SDK" },
+  "@octokit/rest": { itemType: "library", name: "Octokit" },
+  "@clerk/nextjs": { itemType: "library", name: "Clerk" },
+  "next-auth": { itemType: "library", name: "NextAuth.js" },
+  graphql: { itemType: "library", name: "GraphQL" },
+  "@apollo/client": { itemType: "library", name: "Apollo Client" },
+  "socket.io": { itemType: "library", name: "Socket.IO" },
+  convex: { itemType: "database", name: "Convex" },
+  pg: { itemType: "database", name: "PostgreSQL" },
+  postgres: { itemType: "database", name: "PostgreSQL" },
+  mysql2: { itemType: "database", name: "MySQL" },
+  mongodb: { itemType: "database", name: "MongoDB" },
+  mongoose: { itemType: "database", name: "MongoDB" },
+  redis: { itemType: "database", name: "Redis" },
+  ioredis: { itemType: "database", name: "Redis" },
+  sqlite3: { itemType: "database", name: "SQLite" },
+  "better-sqlite3": { itemType: "database", name: "SQLite" },
+  "@supabase/supabase-js": { itemType: "database", name: "Supabase" },
+  firebase: { itemType: "database", name: "Firebase" },
+  prisma: { itemType: "library", name: "Prisma" },
+  "@prisma/client": { itemType: "library", name: "Prisma" },
+  "drizzle-orm": { itemType: "library", name: "Drizzle ORM" },
+  typeorm: { itemType: "library", name: "TypeORM" },
+  eslint: { itemType: "tooling", name: "ESLint" },
+  prettier: { itemType: "tooling", name: "Prettier" },
+  jest: { itemType: "tooling", name: "Jest" },
+  vitest: { itemType: "tooling", name: "Vitest" },
+  "@playwright/test": { itemType: "tooling", name: "Playwright" },
+  cypress: { itemType: "tooling", name: "Cypress" },
+  vite: { itemType: "tooling", name: "Vite" },
+  webpack: { itemType: "tooling", name: "webpack" },
+  turbo: { itemType: "tooling", name: "Turborepo" },
+  storybook: { itemType: "tooling", name: "Storybook" },
+};
+
+const GO_CATALOG: Record<string, CatalogEntry> = {
+  "github.com/gin-gonic/gin": { itemType: "framework", name: "Gin" },
+  "github.com/labstack/echo/v4": { itemType: "framework", name: "Echo" },
+  "github.com/gofiber/fiber/v2": { itemType: "framework", name: "Fiber" },
+  "github.com/go-chi/chi/v5": { itemType: "framework", name: "chi" },
+  "gorm.io/gorm": { itemType: "library", name: "GORM" },
+  "google.golang.org/grpc": { itemType: "library", name: "gRPC" },
+  "github.com/spf13/cobra": { itemType: "library", name: "Cobra" },
+  "github.com/jackc/pgx/v5": { itemType: "database", name: "PostgreSQL" },
+  "github.com/lib/pq": { itemType: "database", name: "PostgreSQL" },
+  "github.com/go-sql-driver/mysql": { itemType: "database", name: "MySQL" },
+  "go.mongodb.org/mongo-driver": { itemType: "database", name: "MongoDB" },
+  "github.com/redis/go-redis/v9": { itemType: "database", name: "Redis" },
+  "github.com/mattn/go-sqlite3": { itemType: "database", name: "SQLite" },
+};
+
+const CARGO_CATALOG: Record<string, CatalogEntry> = {
+  "actix-web": { itemType: "framework", name: "Actix Web" },
+  axum: { itemType: "framework", name: "Axum" },
+  rocket: { itemType: "framework", name: "Rocket" },
+  tauri: { itemType: "framework", name: "Tauri" },
+  tokio: { itemType: "library", name: "Tokio" },
+  serde: { itemType: "library", name: "Serde" },
+  diesel: { itemType: "library", name: "Diesel" },
+  sqlx: { itemType: "library", name: "SQLx" },
+  "tokio-postgres": { itemType: "database", name: "PostgreSQL" },
+  redis: { itemType: "database", name: "Redis" },
+  rusqlite: { itemType: "database", name: "SQLite" },
+  mongodb: { itemType: "database", name: "MongoDB" },
+};
+
+const PYTHON_CATALOG: Record<string, CatalogEntry> = {
+  django: { itemType: "framework", name: "Django" },
+  flask: { itemType: "framework", name: "Flask" },
+  fastapi: { itemType: "framework", name: "FastAPI" },
+  starlette: { itemType: "framework", name: "Starlette" },
+  sqlalchemy: { itemType: "library", name: "SQLAlchemy" },
+  pydantic: { itemType: "library", name: "Pydantic" },
+  celery: { itemType: "library", name: "Celery" },
+  pandas: { itemType: "library", name: "pandas" },
+  numpy: { itemType: "library", name: "NumPy" },
+  torch: { itemType: "library", name: "PyTorch" },
+  tensorflow: { itemType: "library", name: "TensorFlow" },
+  langchain: { itemType: "library", name: "LangChain" },
+  openai: { itemType: "library", name: "OpenAI SDK" },
+  "psycopg2": { itemType: "database", name: "PostgreSQL" },
+  "psycopg2-binary": { itemType: "database", name: "PostgreSQL" },
+  psycopg: { itemType: "database", name: "PostgreSQL" },
+  asyncpg: { itemType: "database", name: "PostgreSQL" },
+  pymysql: { itemType: "database", name: "MySQL" },
+  pymongo: { itemType: "database", name: "MongoDB" },
+  redis: { itemType: "database", name: "Redis" },
+  pytest: { itemType: "tooling", name: "pytest" },
+  black: { itemType: "tooling", name: "Black" },
+  ruff: { itemType: "tooling", name: "Ruff" },
+  mypy: { itemType: "tooling", name: "mypy" },
+};
+
+const TERRAFORM_PROVIDERS: Record<string, string> = {
+  aws: "AWS",
+  google: "Google Cloud",
+  azurerm: "Azure",
+  cloudflare: "Cloudflare",
+  kubernetes: "Kubernetes",
+  helm: "Helm",
+  vercel: "Vercel",
+  digitalocean: "DigitalOcean",
+};
+
+// Lockfiles whose presence alone tells us the package manager.
+const LOCKFILE_TOOLS: Record<string, string> = {
+  "package-lock.json": "npm",
+  "yarn.lock": "Yarn",
+  "pnpm-lock.yaml": "pnpm",
+  "bun.lockb": "Bun",
+  "bun.lock": "Bun",
+  "poetry.lock": "Poetry",
+  "uv.lock": "uv",
+  "Cargo.lock": "Cargo",
+  "go.sum": "Go modules",
+};
+
+// Lockfiles we read for exact versions; the others are detected by
+// presence only so we never download them.
+const PARSED_LOCKFILES = new Set(["package-lock.json"]);
+
+function basename(path: string) {
+  const parts = path.split("/");
+  return parts[parts.length - 1];
+}
+
+export function isManifestPath(path: string) {
+  const name = basename(path);
+  if (path.split("/").some((p) => p === "node_modules" || p === "vendor")) {
+    return false;
+  }
+  return (
+    name === "package.json" ||
+    name === "go.mod" ||
+    name === "Cargo.toml" ||
+    name === "pyproject.toml" ||
+    name === "requirements.txt" ||
+    name === "Dockerfile" ||
+    name.startsWith("Dockerfile.") ||
+    name.endsWith(".tf") ||
+    name in LOCKFILE_TOOLS ||
+    (path.startsWith(".github/workflows/") &&
+      (name.endsWith(".yml") || name.endsWith(".yaml")))
+  );
+}
+
+// Whether a manifest's contents are needed (vs. presence only).
+export function needsManifestContent(path: string) {
+  const name = basename(path);
+  return !(name in LOCKFILE_TOOLS) || PARSED_LOCKFILES.has(name);
+}
+
+function item(
+  entry: CatalogEntry,
+  source: string,
+  version?: string,
+  exactVersion = false
+): DetectedTechStackItem {
+  return { ...entry, version, sources: [source], exactVersion };
+}
+
+function cleanVersion(version: string | undefined) {
+  if (!version) return undefined;
+  const trimmed = version.trim().replace(/^["']|["']$/g, "");
+  return trimmed && trimmed !== "*" ? trimmed : undefined;
+}
+
+// JSON manifests are read field by field: anything missing or of the
+// wrong type counts as absent.
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : undefined;
+}
+
+function parseJsonObject(text: string) {
+  try {
+    return asObject(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+// A dependency map, keeping only entries with a version string.
+function dependencyVersions(value: unknown) {
+  const versions: Record<string, string> = {};
+  for (const [dep, version] of Object.entries(asObject(value))) {
+    if (typeof version === "string") versions[dep] = version;
+  }
+  return versions;
+}
+
+function parsePackageJson(path: string, text: string) {
+  const items: DetectedTechStackItem[] = [];
+  const pkg = parseJsonObject(text);
+  if (!pkg) return items;
+
+  const deps: Record<string, string> = {
+    ...dependencyVersions(pkg.devDependencies),
+    ...dependencyVersions(pkg.dependencies),
+  };
+
+  items.push(
+    item(
+      "typescript" in deps
+        ? { itemType: "language", name: "TypeScript" }
+        : { itemType: "language", name: "JavaScript" },
+      path,
+      cleanVersion(deps.typescript)
+    )
+  );
+  const nodeVersion = asString(asObject(pkg.engines).node);
+  if (nodeVersion) {
+    items.push(
+      item(
+        { itemType: "infrastructure", name: "Node.js" },
+        path,
+        cleanVersion(nodeVersion)
+      )
+    );
+  }
+  const packageManager = asString(pkg.packageManager);
+  if (packageManager) {
+    const managers: Record<string, string> = {
+      npm: "npm",
+      yarn: "Yarn",
+      pnpm: "pnpm",
+      bun: "Bun",
+    };
+    const [manager, version] = packageManager.split("@");
+    items.push(
+      item(
+        { itemType: "tooling", name: managers[manager] ?? manager },
+        path,
+        cleanVersion(version?.split("+")[0]),
+        true
+      )
+    );
+  }
+
+  for (const [dep, version] of Object.entries(deps)) {
+    const entry = NPM_CATALOG[dep];
+    if (entry) items.push(item(entry, path, cleanVersion(version)));
+  }
+  return items;
+}
+
+function parsePackageLock(path: string, text: string) {
+  const items: DetectedTechStackItem[] = [
+    item({ itemType: "tooling", name: "npm" }, path),
+  ];
+  const lock = parseJsonObject(text);
+  if (!lock) return items;
+
+  // Lockfile v2+ lists `packages` by install path; v1 only `dependencies`.
+  const packages = asObject(lock.packages);
+  const dependencies = asObject(lock.dependencies);
+  const installedVersion = (dep: string) =>
+    asString(asObject(packages[`node_modules/${dep}`]).version) ??
+    asString(asObject(dependencies[dep]).version);
+
+  for (const [dep, entry] of Object.entries(NPM_CATALOG)) {
+    const version = installedVersion(dep);
+    if (version) items.push(item(entry, path, version, true));
+  }
+  const tsVersion = installedVersion("typescript");
+  if (tsVersion) {
+    items.push(
+      item({ itemType: "language", name: "TypeScript" }, path, tsVersion, true)
+    );
+  }
+  return items;
+}
+
+function parseGoMod(path: string, text: string) {
+  const items: DetectedTechStackItem[] = [];
+  const goVersion = text.match(/^go\s+(\S+)/m)?.[1];
+  items.push(item({ itemType: "language", name: "Go" }, path, goVersion));
+
+  // Matches both `require x v1` and lines inside `require ( ... )`.
+  const requireLine = /^\s*(?:require\s+)?([\w.\-/]+\.[\w.\-/]+)\s+(v[\w.\-+]+)/gm;
+  for (const match of text.matchAll(requireLine)) {
+    const entry = GO_CATALOG[match[1]];
+    if (entry) items.push(item(entry, path, match[2], true));
+  }
+  return items;
+}
+
+// Minimal TOML reader: returns `section -> key -> raw value` for simple
+// `key = value` pairs, which is all the manifests below need.
+function readTomlSections(text: string) {
+  const sections = new Map<string, Map<string, string>>();
+  let current = "";
+  sections.set(current, new Map());
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const header = line.match(/^\[+([^\]]+)\]+$/);
+    if (header) {
+      current = header[1].trim();
+      if (!sections.has(current)) sections.set(current, new Map());
+      continue;
+    }
+
+    const pair = line.match(/^([\w.\-"]+)\s*=\s*(.+)$/);
+    if (pair) {
+      sections.get(current)!.set(pair[1].replace(/"/g, ""), pair[2].trim());
+    }
+  }
+  return sections;
+}
+
+// Extract a version from `"1.2"` or `{ version = "1.2", ... }`.
+function tomlDependencyVersion(raw: string) {
+  const inline = raw.match(/version\s*=\s*"([^"]+)"/);
+  if (inline) return inline[1];
+  return cleanVersion(raw.startsWith("{") ? undefined : raw);
+}
+
+function parseCargoToml(path: string, text: string) {
+  const sections = readTomlSections(text);
+  const edition = sections.get("package")?.get("edition");
+  const items: DetectedTechStackItem[] = [
+    item(
+      { itemType: "language", name: "Rust" },
+      path,
+      edition ? `edition ${cleanVersion(edition)}` : undefined
+    ),
+  ];
+
+  for (const section of ["dependencies", "dev-dependencies"]) {
+    for (const [dep, raw] of sections.get(section) ?? []) {
+      const entry = CARGO_CATALOG[dep];
+      if (entry) items.push(item(entry, path, tomlDependencyVersion(raw)));
+    }
+  }
+  return items;
+}
+
+// Split a PEP 508 requirement such as "fastapi[all]>=0.110" into the
+// normalized package name and its version specifier.
+function parsePythonRequirement(requirement: string) {
+  const match = requirement
+    .trim()
+    .match(/^([A-Za-z0-9_.\-]+)(?:\[[^\]]*\])?\s*([<>=!~][^;]*)?/);
+  if (!match) return null;
+  const spec = match[2]?.trim();
+  return {
+    name: match[1].toLowerCase().replace(/_/g, "-"),
+    version: spec?.startsWith("==") ? spec.slice(2) : spec,
+    exact: Boolean(spec?.startsWith("==")),
+  };
+}
+
+function pythonItems(path: string, requirements: string[]) {
+  const items: DetectedTechStackItem[] = [];
+  for (const requirement of requirements) {
+    const parsed = parsePythonRequirement(requirement);
+    const entry = parsed && PYTHON_CATALOG[parsed.name];
+    if (parsed && entry) {
+      items.push(item(entry, path, parsed.version, parsed.exact));
+    }
+  }
+  return items;
+}
+
+function parsePyproject(path: string, text: string) {
+  const sections = readTomlSections(text);
+  const requiresPython = sections.get("project")?.get("requires-python");
+  const items: DetectedTechStackItem[] = [
+    item(
+      { itemType: "language", name: "Python" },
+      path,
+      cleanVersion(requiresPython)
+    ),
+  ];
+
+  // PEP 621 `dependencies = [ ... ]` may span several lines, and its
+  // strings may hold brackets ("fastapi[all]").
+  const pep621 = text.match(
+    /^dependencies\s*=\s*\[((?:\s|,|"[^"]*"|'[^']*'|#[^\n]*)*)\]/m
+  )?.[1];
+  if (pep621) {
+    const requirements = Array.from(pep621.matchAll(/"([^"]+)"|'([^']+)'/g)).map(
+      (m) => m[1] ?? m[2]
+    );
+    items.push(...pythonItems(path, requirements));
+  }
+
+  // Poetry-style `[tool.poetry.dependencies] name = "^1.0"`.
+  for (const section of [
+    "tool.poetry.dependencies",
+    "tool.poetry.group.dev.dependencies",
+  ]) {
+    for (const [dep, raw] of sections.get(section) ?? []) {
+      if (dep === "python") continue;
+      const entry = PYTHON_CATALOG[dep.toLowerCase()];
+      if (entry) items.push(item(entry, path, tomlDependencyVersion(raw)));
+    }
+  }
+  if (sections.has("tool.poetry")) {
+    items.push(item({ itemType: "tooling", name: "Poetry" }, path));
+  }
+  return items;
+}
+
+function parseRequirementsTxt(path: string, text: string) {
+  const lines = text
+    .split("\n")
+    .map((l) => l.replace(/#.*$/, "").trim())
+    .filter((l) => l && !l.startsWith("-"));
+  return [
+    item({ itemType: "language", name: "Python" }, path),
+    ...pythonItems(path, lines),
+  ];
+}
+
+function parseDockerfile(path: string, text: string) {
+  const items: DetectedTechStackItem[] = [
+    item({ itemType: "infrastructure", name: "Docker" }, path),
+  ];
+  const runtimes: Record<string, string> = {
+    node: "Node.js",
+    python: "Python",
+    golang: "Go",
+    rust: "Rust",
+    openjdk: "Java",
+    eclipse_temurin: "Java",
+  };
+
+  for (const match of text.matchAll(/^\s*FROM\s+(?:--\S+\s+)*([^\s]+)/gim)) {
+    const [image, tag] = match[1].split(":");
+    const runtime = runtimes[basename(image).replace("-", "_")];
+    if (!runtime) continue;
+    const version = tag?.match(/^\d+(?:\.\d+)*/)?.[0];
+    items.push(
+      item(
+        {
+          itemType: runtime === "Node.js" ? "infrastructure" : "language",
+          name: runtime,
+        },
+        path,
+        version
+      )
+    );
+  }
+  return items;
+}
+
+function parseTerraform(path: string, text: string) {
+  const requiredVersion = text.match(/required_version\s*=\s*"([^"]+)"/)?.[1];
+  const items: DetectedTechStackItem[] = [
+    item({ itemType: "infrastructure", name: "Terraform" }, path, requiredVersion),
+  ];
+
+  const providers = new Set<string>();
+  for (const match of text.matchAll(/provider\s+"([\w-]+)"/g)) {
+    providers.add(match[1]);
+  }
+  for (const match of text.matchAll(/source\s*=\s*"(?:[\w-]+\/)?([\w-]+)"/g)) {
+    providers.add(match[1]);
+  }
+  for (const provider of providers) {
+    const name = TERRAFORM_PROVIDERS[provider];
+    if (name) items.push(item({ itemType: "infrastructure", name }, path));
+  }
+  return items;
+}
+
+function parseWorkflow(path: string, text: string) {
+  const items: DetectedTechStackItem[] = [
+    item({ itemType: "tooling", name: "GitHub Actions" }, path),
+  ];
+  const nodeVersion = text.match(/node-version:\s*['"]?([\w.]+)/)?.[1];
+  if (nodeVersion) {
+    items.push(
+      item({ itemType: "infrastructure", name: "Node.js" }, path, nodeVersion)
+    );
+  }
+  return items;
+}
+
+/**
+ * Parse a single manifest. `text` may be null for presence-only files
+ * (most lockfiles) or files GitHub would not return contents for.
+ */
+export function parseManifest(
+  path: string,
+  text: string | null
+): DetectedTechStackItem[] {
+  const name = basename(path);
+
+  if (name in LOCKFILE_TOOLS && !(PARSED_LOCKFILES.has(name) && text)) {
+    return [item({ itemType: "tooling", name: LOCKFILE_TOOLS[name] }, path)];
+  }
+  if (text == null) return [];
+
+  if (name === "package.json") return parsePackageJson(path, text);
+  if (name === "package-lock.json") return parsePackageLock(path, text);
+  if (name === "go.mod") return parseGoMod(path, text);
+  if (name === "Cargo.toml") return parseCargoToml(path, text);
+  if (name === "pyproject.toml") return parsePyproject(path, text);
+  if (name === "requirements.txt") return parseRequirementsTxt(path, text);
+  if (name === "Dockerfile" || name.startsWith("Dockerfile.")) {
+    return parseDockerfile(path, text);
+  }
+  if (name.endsWith(".tf")) return parseTerraform(path, text);
+  if (path.startsWith(".github/workflows/")) return parseWorkflow(path, text);
+  return [];
+}
+
+/**
+ * Fold items from many manifests into one list keyed by
+ * (itemType, name). Exact (lockfile) versions win over ranges; among
+ * equals the first version seen is kept.
+ */
+export function mergeTechStackItems(items: DetectedTechStackItem[]) {
+  const merged = new Map<string, DetectedTechStackItem>();
+
+  for (const next of items) {
+    const key = `${next.itemType}:${next.name}`;
+    const current = merged.get(key);
+    if (!current) {
+      merged.set(key, { ...next, sources: [...next.sources] });
+      continue;
+    }
+
+    for (const source of next.sources) {
+      if (!current.sources.includes(source)) current.sources.push(source);
+    }
+    if (
+      next.version &&
+      (!current.version || (next.exactVersion && !current.exactVersion))
+    ) {
+      current.version = next.version;
+      current.exactVersion = next.exactVersion;
+    }
+  }
+
+  // A TypeScript project is not also a "JavaScript" project.
+  if (merged.has("language:TypeScript")) merged.delete("language:JavaScript");
+
+  return Array.from(merged.values());
+}
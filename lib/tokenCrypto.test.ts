@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { decryptSecret, encryptSecret } from "./tokenCrypto";
+
+function randomKey() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// Flip the first bit of one base64 part of an encrypted value.
+function tamper(encrypted: string, part: 1 | 2) {
+  const parts = encrypted.split(".");
+  const bytes = Uint8Array.from(atob(parts[part]), (c) => c.charCodeAt(0));
+  bytes[0] ^= 1;
+  parts[part] = btoa(String.fromCharCode(...bytes));
+  return parts.join(".");
+}
+
+describe("tokenCrypto", () => {
+  const previousKey = process.env.GITHUB_TOKEN_ENCRYPTION_KEY;
+
+  beforeEach(() => {
+    process.env.GITHUB_TOKEN_ENCRYPTION_KEY = randomKey();
+  });
+
+  afterEach(() => {
+    if (previousKey === undefined) {
+      delete process.env.GITHUB_TOKEN_ENCRYPTION_KEY;
+    } else {
+      process.env.GITHUB_TOKEN_ENCRYPTION_KEY = previousKey;
+    }
+  });
+
+  test("round-trips a secret with a fresh IV each time", async () => {
+    const token = "ghp_exampleToken123";
+    const first = await encryptSecret(token);
+    const second = await encryptSecret(token);
+
+    expect(first).toMatch(/^v1\.[^.]+\.[^.]+$/);
+    expect(first).not.toContain(token);
+    expect(first).not.toBe(second);
+    expect(await decryptSecret(first)).toBe(token);
+    expect(await decryptSecret(second)).toBe(token);
+  });
+
+  test("rejects a tampered ciphertext or IV", async () => {
+    const encrypted = await encryptSecret("ghp_exampleToken123");
+
+    await expect(decryptSecret(tamper(encrypted, 2))).rejects.toThrow();
+    await expect(decryptSecret(tamper(encrypted, 1))).rejects.toThrow();
+  });
+
+  test("rejects a value encrypted under another key", async () => {
+    const encrypted = await encryptSecret("ghp_exampleToken123");
+    process.env.GITHUB_TOKEN_ENCRYPTION_KEY = randomKey();
+
+    await expect(decryptSecret(encrypted)).rejects.toThrow();
+  });
+
+  test("rejects values not in the encrypted format", async () => {
+    await expect(decryptSecret("ghp_plaintextToken")).rejects.toThrow(
+      "Unrecognized encrypted secret format"
+    );
+    await expect(decryptSecret("v2.aaaa.bbbb")).rejects.toThrow(
+      "Unrecognized encrypted secret format"
+    );
+  });
+
+  test("requires a 32-byte key", async () => {
+    delete process.env.GITHUB_TOKEN_ENCRYPTION_KEY;
+    await expect(encryptSecret("secret")).rejects.toThrow(
+      "GITHUB_TOKEN_ENCRYPTION_KEY is not set"
+    );
+
+    process.env.GITHUB_TOKEN_ENCRYPTION_KEY = btoa("too short");
+    await expect(encryptSecret("secret")).rejects.toThrow(
+      "GITHUB_TOKEN_ENCRYPTION_KEY must be 32 bytes (base64)"
+    );
+  });
+});
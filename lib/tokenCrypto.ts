@@ -0,0 +1,66 @@
+// AES-256-GCM encryption for secrets stored in Convex (GitHub access
+// tokens). The key comes from the GITHUB_TOKEN_ENCRYPTION_KEY environment
+// variable: 32 random bytes, base64 encoded, e.g. `openssl rand -base64 32`.
+//
+// Encryption needs real randomness for the IV, so only call these from
+// actions, never from queries or mutations.
+
+const FORMAT_VERSION = "v1";
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function loadKey() {
+  const raw = process.env.GITHUB_TOKEN_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error("GITHUB_TOKEN_ENCRYPTION_KEY is not set");
+  }
+
+  const bytes = fromBase64(raw);
+  if (bytes.length !== 32) {
+    throw new Error("GITHUB_TOKEN_ENCRYPTION_KEY must be 32 bytes (base64)");
+  }
+
+  return crypto.subtle.importKey("raw", bytes, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/** Encrypt a secret into a self-describing `v1.<iv>.<ciphertext>` string. */
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const key = await loadKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return [
+    FORMAT_VERSION,
+    toBase64(iv),
+    toBase64(new Uint8Array(ciphertext)),
+  ].join(".");
+}
+
+/** Decrypt a value produced by `encryptSecret`. */
+export async function decryptSecret(encrypted: string): Promise<string> {
+  const [version, iv, ciphertext] = encrypted.split(".");
+  if (version !== FORMAT_VERSION || !iv || !ciphertext) {
+    throw new Error("Unrecognized encrypted secret format");
+  }
+
+  const key = await loadKey();
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
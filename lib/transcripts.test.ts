@@ -0,0 +1,144 @@
+import { describe, expect, test } from "vitest";
+import {
+  buildSpeakerTurns,
+  formatTimestamp,
+  matchSpeakers,
+  parseTimestamp,
+  wordsWithin,
+  type DiarizedWord,
+} from "./transcripts";
+
+// Diarized words with a spacing word between each, one second apart.
+function spoken(speakerId: string | null, text: string, fromSecond: number) {
+  return text.split(" ").flatMap((word, index): DiarizedWord[] => {
+    const start = fromSecond + index;
+    return [
+      ...(index > 0
+        ? [{ text: " ", type: "spacing" as const, speaker_id: speakerId }]
+        : []),
+      {
+        text: word,
+        type: "word",
+        start,
+        end: start + 0.5,
+        speaker_id: speakerId,
+      },
+    ];
+  });
+}
+
+describe("buildSpeakerTurns", () => {
+  const turn = (
+    speaker: string,
+    startSecond: number,
+    endSecond: number,
+    text: string
+  ) => ({ speaker, startSecond, endSecond, text });
+
+  test("starts a turn whenever the speaker changes", () => {
+    expect(
+      buildSpeakerTurns([
+        ...spoken("speaker_0", "Ship it today", 0),
+        ...spoken("speaker_1", "Not yet", 3),
+        ...spoken("speaker_0", "Why", 5),
+      ])
+    ).toEqual([
+      turn("Speaker 1", 0, 2.5, "Ship it today"),
+      turn("Speaker 2", 3, 4.5, "Not yet"),
+      turn("Speaker 1", 5, 5.5, "Why"),
+    ]);
+  });
+
+  test("splits long monologues and unlabelled transcripts", () => {
+    const monologue = Array.from({ length: 400 }, () => "word").join(" ");
+    const turns = buildSpeakerTurns(spoken(null, monologue, 0));
+
+    expect(turns.length).toBeGreaterThan(1);
+    expect(turns.every((turn) => turn.speaker === undefined)).toBe(true);
+    expect(turns.map((turn) => turn.text).join(" ")).toBe(monologue);
+    expect(turns[1].startSecond).toBeGreaterThan(turns[0].endSecond);
+  });
+
+  test("drops turns that are only whitespace", () => {
+    expect(
+      buildSpeakerTurns([
+        { text: " ", type: "spacing", speaker_id: "speaker_0" },
+        { text: " ", type: "word", start: 0, end: 1, speaker_id: "speaker_0" },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("wordsWithin", () => {
+  test("keeps words by their middle, with untimed words following", () => {
+    const words: DiarizedWord[] = [
+      { text: "a", start: 0, end: 1 },
+      { text: " ", type: "spacing" },
+      { text: "b", start: 1.8, end: 2.4 },
+      { text: " ", type: "spacing" },
+      { text: "c", start: 2.9, end: 3 },
+    ];
+
+    expect(wordsWithin(words, 0, 2).map((word) => word.text)).toEqual([
+      "a",
+      " ",
+    ]);
+    expect(wordsWithin(words, 2, 3).map((word) => word.text)).toEqual([
+      "b",
+      " ",
+      "c",
+    ]);
+  });
+});
+
+describe("matchSpeakers", () => {
+  const word = (speaker: string, startSecond: number, endSecond: number) => ({
+    speaker,
+    startSecond,
+    endSecond,
+  });
+
+  test("takes the labels of neighbour speakers over the same audio", () => {
+    let count = 2;
+    const labels = matchSpeakers(
+      [
+        word("Speaker 1", 10, 12),
+        word("Speaker 2", 12, 13),
+        word("Speaker 3", 20, 21),
+      ],
+      [word("Speaker 2", 10, 12), word("Speaker 1", 12, 13)],
+      () => `Speaker ${++count}`
+    );
+
+    expect(Object.fromEntries(labels)).toEqual({
+      "Speaker 1": "Speaker 2",
+      "Speaker 2": "Speaker 1",
+      "Speaker 3": "Speaker 3",
+    });
+  });
+
+  test("gives each neighbour label to one speaker only", () => {
+    let count = 1;
+    const labels = matchSpeakers(
+      [word("Speaker 1", 0, 3), word("Speaker 2", 3, 4)],
+      [word("Speaker 1", 0, 4)],
+      () => `Speaker ${++count}`
+    );
+
+    expect(Object.fromEntries(labels)).toEqual({
+      "Speaker 1": "Speaker 1",
+      "Speaker 2": "Speaker 2",
+    });
+  });
+});
+
+describe("timestamps", () => {
+  test("format and parse round-trip", () => {
+    expect(formatTimestamp(65)).toBe("1:05");
+    expect(formatTimestamp(3725.9)).toBe("1:02:05");
+    expect(parseTimestamp("1:05")).toBe(65);
+    expect(parseTimestamp("1:02:05")).toBe(3725);
+    expect(parseTimestamp("65")).toBeNull();
+    expect(parseTimestamp("1:0a")).toBeNull();
+  });
+});
@@ -0,0 +1,214 @@
+// Call transcripts as speaker turns: built from diarized transcription
+// (app/api/listen) of each recorded audio segment, stored one chunk per
+// segment (`callTranscriptChunks`) and shown in the call transcript viewer. Action items and history
+// checkpoints point back at the span of the call they came from.
+//
+// Each segment is diarized on its own, so its speaker labels only hold
+// within it. Stored turns use call-wide labels instead, matched between
+// neighbouring segments over the audio they share (see matchSpeakers).
+
+export type TranscriptTurn = {
+  // Unset when the transcription had no speaker labels.
+  speaker?: string;
+  startSecond: number;
+  endSecond: number;
+  text: string;
+};
+
+export type TranscriptSpan = { startSecond: number; endSecond: number };
+
+// When one speaker's word was heard, for matching speakers across
+// segments.
+export type SpeakerWord = {
+  speaker: string;
+  startSecond: number;
+  endSecond: number;
+};
+
+// A word as returned by ElevenLabs speech-to-text with diarization.
+export type DiarizedWord = {
+  text: string;
+  type?: "word" | "spacing" | "audio_event";
+  start?: number | null;
+  end?: number | null;
+  speaker_id?: string | null;
+};
+
+// Long monologues (or transcripts without speaker labels) are split into
+// turns of about this many characters, so spans stay easy to find.
+const MAX_TURN_CHARACTERS = 1_500;
+
+// "speaker_0" → "Speaker 1".
+function speakerLabel(speakerId: string | null | undefined) {
+  const index = speakerId?.match(/(\d+)$/)?.[1];
+  if (index !== undefined) return `Speaker ${Number(index) + 1}`;
+  return speakerId ?? undefined;
+}
+
+/**
+ * Group diarized words into turns: a new turn starts whenever the speaker
+ * changes, or at the next word once a turn gets long.
+ */
+export function buildSpeakerTurns(words: DiarizedWord[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const word of words) {
+    const speaker = speakerLabel(word.speaker_id);
+    const last = turns.at(-1);
+    const continuesTurn =
+      last &&
+      (word.type === "spacing" ||
+        (last.speaker === speaker &&
+          last.text.length < MAX_TURN_CHARACTERS));
+    if (last && continuesTurn) {
+      last.text += word.text;
+      last.endSecond = word.end ?? last.endSecond;
+      continue;
+    }
+    if (word.type === "spacing") continue;
+    turns.push({
+      speaker,
+      startSecond: word.start ?? last?.endSecond ?? 0,
+      endSecond: word.end ?? word.start ?? last?.endSecond ?? 0,
+      text: word.text,
+    });
+  }
+  return turns
+    .map((turn) => ({ ...turn, text: turn.text.trim() }))
+    .filter((turn) => turn.text);
+}
+
+/**
+ * The words whose middle falls in [fromSecond, untilSecond). Recorded
+ * segments overlap so no audio is lost between them, and each keeps its
+ * half of the overlap. Untimed words go with the word before them.
+ */
+export function wordsWithin(
+  words: DiarizedWord[],
+  fromSecond: number,
+  untilSecond: number
+) {
+  let keep = true;
+  return words.filter((word) => {
+    if (word.start != null) {
+      const middle = (word.start + (word.end ?? word.start)) / 2;
+      keep = middle >= fromSecond && middle < untilSecond;
+    }
+    return keep;
+  });
+}
+
+/** The timed words that have a speaker label, for matchSpeakers. */
+export function speakerWords(words: DiarizedWord[]): SpeakerWord[] {
+  return words.flatMap((word) => {
+    const speaker = speakerLabel(word.speaker_id);
+    if (word.type === "spacing" || !speaker || word.start == null) return [];
+    return [
+      {
+        speaker,
+        startSecond: word.start,
+        endSecond: word.end ?? word.start,
+      },
+    ];
+  });
+}
+
+/**
+ * Map a segment's own speaker labels to call-wide ones. Neighbouring
+ * segments overlap, so both diarized the same audio there: each of the
+ * segment's speakers takes the label of the neighbour speaker they spoke
+ * over longest, one to one. Speakers with no match (nobody spoke in the
+ * overlap, or the neighbour is not transcribed yet) get new labels from
+ * `newLabel`.
+ */
+export function matchSpeakers(
+  own: SpeakerWord[],
+  neighbours: SpeakerWord[],
+  newLabel: () => string
+) {
+  const shared = new Map<string, { own: string; neighbour: string; seconds: number }>();
+  for (const word of own) {
+    for (const other of neighbours) {
+      const seconds =
+        Math.min(word.endSecond, other.endSecond) -
+        Math.max(word.startSecond, other.startSecond);
+      if (seconds <= 0) continue;
+      const key = JSON.stringify([word.speaker, other.speaker]);
+      const pair = shared.get(key) ?? {
+        own: word.speaker,
+        neighbour: other.speaker,
+        seconds: 0,
+      };
+      pair.seconds += seconds;
+      shared.set(key, pair);
+    }
+  }
+
+  const labels = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const pair of [...shared.values()].sort((a, b) => b.seconds - a.seconds)) {
+    if (labels.has(pair.own) || taken.has(pair.neighbour)) continue;
+    labels.set(pair.own, pair.neighbour);
+    taken.add(pair.neighbour);
+  }
+  for (const word of own) {
+    if (!labels.has(word.speaker)) labels.set(word.speaker, newLabel());
+  }
+  return labels;
+}
+
+/** Move turns timed from the start of a segment to call time. */
+export function shiftTurns(turns: TranscriptTurn[], offsetSecond: number) {
+  return turns.map((turn) => ({
+    ...turn,
+    startSecond: turn.startSecond + offsetSecond,
+    endSecond: turn.endSecond + offsetSecond,
+  }));
+}
+
+/** Move speaker words timed from the start of a segment to call time. */
+export function shiftSpeakerWords(words: SpeakerWord[], offsetSecond: number) {
+  return words.map((word) => ({
+    ...word,
+    startSecond: word.startSecond + offsetSecond,
+    endSecond: word.endSecond + offsetSecond,
+  }));
+}
+
+/** Seconds from the start of the call as "m:ss" (or "h:mm:ss"). */
+export function formatTimestamp(seconds: number) {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+/** Parse "m:ss" or "h:mm:ss" back to seconds; null when malformed. */
+export function parseTimestamp(timestamp: string) {
+  const parts = timestamp.trim().split(":");
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (parts.some((part) => !/^\d+$/.test(part))) return null;
+  return parts.reduce((seconds, part) => seconds * 60 + Number(part), 0);
+}
+
+/**
+ * The transcript as text, one "[m:ss] Speaker: text" line per turn, so a
+ * reader (or agent) can refer to spans by timestamp.
+ */
+export function formatTranscript(turns: TranscriptTurn[]) {
+  return turns
+    .map(
+      (turn) =>
+        `[${formatTimestamp(turn.startSecond)}] ${
+          turn.speaker ? `${turn.speaker}: ` : ""
+        }${turn.text}`
+    )
+    .join("\n");
+}
+
+/** Whether a turn overlaps a span of the call. */
+export function turnInSpan(turn: TranscriptTurn, span: TranscriptSpan) {
+  return turn.startSecond <= span.endSecond && turn.endSecond >= span.startSecond;
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Convex functions run in an edge-like runtime; convex-test needs to
+    // be bundled with the tests rather than loaded from node_modules.
+    environment: "edge-runtime",
+    server: { deps: { inline: ["convex-test"] } },
+  },
+});